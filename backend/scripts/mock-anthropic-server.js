@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+
+/**
+ * Mock Anthropic Messages API
+ * Serves POST /v1/messages (plain JSON and SSE streaming) so the Anthropic provider can be exercised
+ * without a real API key. Point a configuration's baseUrl (or ANTHROPIC_BASE_URL) at this server.
+ *
+ * Usage: node scripts/mock-anthropic-server.js            (listens on MOCK_ANTHROPIC_PORT or 4010)
+ *        const { createMockAnthropicServer } = require('./scripts/mock-anthropic-server')  (in tests)
+ */
+
+const http = require('http');
+
+const DEFAULT_PORT = 4010;
+
+function estimateTokens(text) {
+  return Math.max(1, Math.ceil((text || '').length / 4));
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res, status, type, message) {
+  sendJson(res, status, { type: 'error', error: { type, message } });
+}
+
+function buildReply(request) {
+  const lastUser = [...(request.messages || [])].reverse().find((m) => m.role === 'user');
+  const content = typeof lastUser?.content === 'string'
+    ? lastUser.content
+    : (lastUser?.content || []).map((block) => block.text || '').join('');
+  return `Mock reply from ${request.model}: ${content.slice(0, 80)}`;
+}
+
+function handleMessages(req, res, body) {
+  if (!req.headers['x-api-key']) {
+    return sendError(res, 401, 'authentication_error', 'x-api-key header is required');
+  }
+  if (!req.headers['anthropic-version']) {
+    return sendError(res, 400, 'invalid_request_error', 'anthropic-version header is required');
+  }
+
+  let request;
+  try {
+    request = JSON.parse(body || '{}');
+  } catch {
+    return sendError(res, 400, 'invalid_request_error', 'Request body is not valid JSON');
+  }
+  if (!request.model || !request.max_tokens || !Array.isArray(request.messages)) {
+    return sendError(res, 400, 'invalid_request_error', 'model, max_tokens and messages are required');
+  }
+
+  const reply = buildReply(request);
+  const inputTokens = estimateTokens(JSON.stringify(request.messages) + (request.system || ''));
+  const outputTokens = estimateTokens(reply);
+  const id = `msg_mock_${Date.now()}`;
+
+  if (!request.stream) {
+    return sendJson(res, 200, {
+      id,
+      type: 'message',
+      role: 'assistant',
+      model: request.model,
+      content: [{ type: 'text', text: reply }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: inputTokens, output_tokens: outputTokens },
+    });
+  }
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  const emit = (type, data) => res.write(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`);
+
+  emit('message_start', {
+    message: { id, type: 'message', role: 'assistant', model: request.model, content: [], usage: { input_tokens: inputTokens, output_tokens: 1 } },
+  });
+  emit('content_block_start', { index: 0, content_block: { type: 'text', text: '' } });
+  for (const piece of reply.match(/\S+\s*/g) || []) {
+    emit('content_block_delta', { index: 0, delta: { type: 'text_delta', text: piece } });
+  }
+  emit('content_block_stop', { index: 0 });
+  emit('message_delta', { delta: { stop_reason: 'end_turn' }, usage: { output_tokens: outputTokens } });
+  emit('message_stop', {});
+  res.end();
+}
+
+function createMockAnthropicServer() {
+  return http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      if (req.method === 'POST' && req.url === '/v1/messages') {
+        return handleMessages(req, res, body);
+      }
+      sendError(res, 404, 'not_found_error', `No route for ${req.method} ${req.url}`);
+    });
+  });
+}
+
+module.exports = { createMockAnthropicServer };
+
+// Run if called directly
+if (require.main === module) {
+  const port = parseInt(process.env.MOCK_ANTHROPIC_PORT, 10) || DEFAULT_PORT;
+  createMockAnthropicServer().listen(port, () => {
+    console.log(`🧪 Mock Anthropic API listening on http://localhost:${port}`);
+  });
+}
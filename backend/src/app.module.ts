@@ -15,6 +15,9 @@ import { AIConfigurationModule } from './modules/ai-configuration.module';
 import { ChatModule } from './modules/chat.module';
 import { PerformanceModule } from './modules/performance.module';
 import { HealthModule } from './modules/health.module';
+import { EvaluationModule } from './modules/evaluation.module';
+import { UsageModule } from './modules/usage.module';
+import { ResponseCacheModule } from './modules/response-cache.module';
 
 // Middleware
 import { PerformanceMiddleware } from './middleware/performance.middleware';
@@ -63,6 +66,9 @@ import { APP_CONSTANTS } from './common/constants/app.constants';
     ChatModule,
     PerformanceModule,
     HealthModule,
+    EvaluationModule,
+    UsageModule,
+    ResponseCacheModule,
   ],
   providers: [AppLogger, PerformanceMiddleware],
 })
@@ -46,6 +46,68 @@ export const AI_CONSTANTS = {
   OPENAI_DEFAULT_MODEL: 'gpt-3.5-turbo',
   OLLAMA_DEFAULT_MODEL: 'llama2',
   OLLAMA_DEFAULT_BASE_URL: 'http://localhost:11434',
+  ANTHROPIC_DEFAULT_MODEL: 'claude-3-5-haiku-latest',
+  ANTHROPIC_DEFAULT_BASE_URL: 'https://api.anthropic.com',
+  ANTHROPIC_API_VERSION: '2023-06-01',
+  HUGGINGFACE_DEFAULT_MODEL: 'tgi',
+  HUGGINGFACE_DEFAULT_BASE_URL: 'http://127.0.0.1:8080',
+  OPENAI_COMPATIBLE_PLACEHOLDER_KEY: 'not-needed',
+
+  // Provider resilience: retries of transient errors, and circuit breakers per provider endpoint
+  PROVIDER_RETRY_ATTEMPTS: 2,
+  PROVIDER_RETRY_BASE_DELAY_MS: 500,
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD: 3,
+  CIRCUIT_BREAKER_RESET_MS: 30000,
+
+  // LLM usage accounting: what over-budget calls do when LLM_BUDGET_ACTION is not set
+  DEFAULT_BUDGET_ACTION: 'block',
+
+  // Response cache: lifetime of entries, and the semantic match that may answer a reworded prompt
+  RESPONSE_CACHE_TTL_SECONDS: 3600,
+  RESPONSE_CACHE_SIMILARITY: 0.97,
+  // Recent entries compared per semantic lookup; longer prompts only match exactly
+  RESPONSE_CACHE_SEMANTIC_CANDIDATES: 200,
+  RESPONSE_CACHE_SEMANTIC_MAX_CHARS: 4000,
+  RESPONSE_CACHE_PAGE_SIZE: 50,
+
+  // Structured output: extra calls, with the validation errors, when a reply does not match its JSON schema
+  STRUCTURED_OUTPUT_RETRIES: 2,
+
+  // Tool calling: model turns that may call tools before it must answer, and the tool output it sees per call
+  TOOL_CALL_MAX_STEPS: 4,
+  TOOL_RESULT_MAX_CHARS: 6000,
+
+  // Conversation Memory
+  DEFAULT_MEMORY_TOKEN_BUDGET: 1500,
+  MEMORY_SUMMARY_MAX_TOKENS: 300,
+  CHARS_PER_TOKEN: 4,
+
+  // Knowledge Chunking
+  DEFAULT_CHUNK_SIZE: 400,
+  DEFAULT_CHUNK_OVERLAP: 60,
+  MIN_CHUNK_SIZE: 100,
+  MAX_CHUNK_SIZE: 8000,
+
+  // Knowledge Retrieval
+  OLLAMA_DEFAULT_EMBEDDING_MODEL: 'nomic-embed-text',
+  OPENAI_DEFAULT_EMBEDDING_MODEL: 'text-embedding-3-small',
+  EMBEDDING_BATCH_SIZE: 64,
+  RAG_DEFAULT_TOP_K: 3,
+  // Characters of each retrieved chunk shown to the model
+  RAG_DEFAULT_EXCERPT_CHARS: 380,
+  // Knowledge context placed in the prompt, unless the RAG policy sets maxContextChars
+  RAG_DEFAULT_MAX_CONTEXT_CHARS: 2400,
+  RAG_MIN_SIMILARITY: 0.2,
+  // Knowledge manager: chunks per page and default number of search results
+  KNOWLEDGE_CHUNK_PAGE_SIZE: 100,
+  KNOWLEDGE_SEARCH_DEFAULT_LIMIT: 10,
+  // Earlier turns considered when rewriting a follow-up into a standalone search query
+  QUERY_REWRITE_TURNS: 3,
+  QUERY_REWRITE_TIMEOUT_MS: 8000,
+  QUERY_REWRITE_MAX_TOKENS: 60,
+  // Optional model check of answer sentences the lexical grounding check could not match
+  GROUNDING_JUDGE_TIMEOUT_MS: 10000,
+  GROUNDING_JUDGE_MAX_TOKENS: 40,
 
   // Validation Limits
   MIN_TEMPERATURE: 0,
@@ -75,6 +137,8 @@ export const ERROR_MESSAGES = {
   
   // API Keys
   OPENAI_KEY_MISSING: 'OpenAI API key not provided',
+  ANTHROPIC_KEY_MISSING: 'Anthropic API key not provided',
+  OPENAI_COMPATIBLE_BASE_URL_MISSING: 'Base URL is required for OpenAI-compatible providers',
   INVALID_API_KEY: 'Invalid API key provided',
   
   // Chat
@@ -27,6 +27,16 @@ export const appConfig = () => ({
     apiKey: process.env.OPENAI_API_KEY,
   },
   
+  anthropic: {
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    baseUrl: process.env.ANTHROPIC_BASE_URL,
+  },
+
+  huggingface: {
+    apiKey: process.env.HUGGINGFACE_API_KEY,
+    baseUrl: process.env.HUGGINGFACE_BASE_URL,
+  },
+  
   ollama: {
     baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
   },
@@ -3,6 +3,15 @@ import { ConfigService } from '@nestjs/config';
 import { AIConfiguration } from '../entities/ai-configuration.entity';
 import { ConversationHistory } from '../entities/conversation-history.entity';
 import { PerformanceMetrics } from '../entities/performance-metrics.entity';
+import { ChatSession } from '../entities/chat-session.entity';
+import { KnowledgeDocument } from '../entities/knowledge-document.entity';
+import { KnowledgeChunk } from '../entities/knowledge-chunk.entity';
+import { KnowledgeCollection } from '../entities/knowledge-collection.entity';
+import { KnowledgeDocumentVersion } from '../entities/knowledge-document-version.entity';
+import { EvaluationCase } from '../entities/evaluation-case.entity';
+import { EvaluationRun } from '../entities/evaluation-run.entity';
+import { LlmUsage } from '../entities/llm-usage.entity';
+import { ResponseCacheEntry } from '../entities/response-cache-entry.entity';
 
 export const getDatabaseConfig = (configService: ConfigService): TypeOrmModuleOptions => {
   const databaseUrl = configService.get('DATABASE_URL');
@@ -21,7 +30,7 @@ export const getDatabaseConfig = (configService: ConfigService): TypeOrmModuleOp
     return {
       type: 'sqlite',
       database: sqlitePath,
-      entities: [AIConfiguration, ConversationHistory, PerformanceMetrics],
+      entities: [AIConfiguration, ConversationHistory, PerformanceMetrics, ChatSession, KnowledgeDocument, KnowledgeChunk, KnowledgeCollection, KnowledgeDocumentVersion, EvaluationCase, EvaluationRun, LlmUsage, ResponseCacheEntry],
       synchronize: true,
       logging: configService.get('NODE_ENV') === 'development',
     } as TypeOrmModuleOptions;
@@ -33,7 +42,7 @@ export const getDatabaseConfig = (configService: ConfigService): TypeOrmModuleOp
   return {
     type: 'postgres',
     url: databaseUrl,
-    entities: [AIConfiguration, ConversationHistory, PerformanceMetrics],
+    entities: [AIConfiguration, ConversationHistory, PerformanceMetrics, ChatSession, KnowledgeDocument, KnowledgeChunk, KnowledgeCollection, KnowledgeDocumentVersion, EvaluationCase, EvaluationRun, LlmUsage, ResponseCacheEntry],
     synchronize,
     logging: configService.get('NODE_ENV') === 'development',
     ssl: isProd ? { rejectUnauthorized: false } : false,
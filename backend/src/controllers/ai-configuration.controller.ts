@@ -7,6 +7,7 @@ import {
   Patch,
   Param,
   Delete,
+  Query,
   ValidationPipe,
   UseGuards,
 } from '@nestjs/common';
@@ -15,9 +16,10 @@ import {
   ApiOperation,
   ApiResponse,
   ApiParam,
+  ApiQuery,
 } from '@nestjs/swagger';
-import { AIConfigurationService } from '../services/ai-configuration.service';
-import { CreateAIConfigurationDto, UpdateAIConfigurationDto } from '../dto/ai-configuration.dto';
+import { AIConfigurationService, ConfigurationTestResult } from '../services/ai-configuration.service';
+import { CreateAIConfigurationDto, UpdateAIConfigurationDto, ListProviderModelsDto } from '../dto/ai-configuration.dto';
 import { AIConfiguration } from '../entities/ai-configuration.entity';
 
 @ApiTags('AI Configuration')
@@ -104,17 +106,8 @@ export class AIConfigurationController {
   @ApiOperation({ summary: 'Test AI configuration' })
   @ApiParam({ name: 'id', description: 'Configuration ID' })
   @ApiResponse({ status: 200, description: 'Configuration tested successfully' })
-  async test(@Param('id') id: string, @Body() body: { message: string }): Promise<any> {
-    const result = await this.aiConfigurationService.testConfiguration(id);
-    return {
-      success: result.success,
-      message: result.message,
-      response: 'Test response from AI model',
-      performance: {
-        responseTime: 150,
-        tokenCount: 25
-      }
-    };
+  async test(@Param('id') id: string, @Body() body: { message?: string }): Promise<ConfigurationTestResult> {
+    return await this.aiConfigurationService.testConfiguration(id, body?.message);
   }
 
   @Get('ollama/models')
@@ -138,4 +131,19 @@ export class AIConfigurationController {
   async getOllamaStatus(): Promise<any> {
     return await this.aiConfigurationService.checkOllamaStatus();
   }
+
+  @Get('huggingface/status')
+  @ApiOperation({ summary: 'Check a HuggingFace text-generation-inference endpoint and discover its model' })
+  @ApiQuery({ name: 'baseUrl', required: false, description: 'Endpoint to probe; defaults to the active HuggingFace configuration. Only the configured endpoint is sent the stored token' })
+  @ApiResponse({ status: 200, description: 'Status retrieved' })
+  async getHuggingFaceStatus(@Query('baseUrl') baseUrl?: string): Promise<any> {
+    return await this.aiConfigurationService.checkHuggingFaceStatus(baseUrl);
+  }
+
+  @Post('openai-compatible/models')
+  @ApiOperation({ summary: 'List models served by an OpenAI-compatible endpoint (/v1/models)' })
+  @ApiResponse({ status: 200, description: 'Models retrieved' })
+  async getOpenAICompatibleModels(@Body(ValidationPipe) dto: ListProviderModelsDto): Promise<any> {
+    return await this.aiConfigurationService.listOpenAICompatibleModels(dto);
+  }
 }
@@ -9,12 +9,10 @@ import {
   Query,
   UseInterceptors,
   UploadedFile,
+  Res,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import * as fs from 'fs';
-import * as path from 'path';
-import pdfParse from 'pdf-parse';
-import { pdfBufferToMarkdown } from '../utils/pdf-markdown';
+import { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
@@ -22,15 +20,32 @@ import {
   ApiParam,
   ApiQuery,
   ApiConsumes,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { ChatService } from '../services/chat.service';
-import { CreateChatMessageDto, ChatResponseDto, SaveChatHistoryDto } from '../dto/chat.dto';
+import { KnowledgeService } from '../services/knowledge.service';
+import { RagPolicyService } from '../services/rag-policy.service';
+import {
+  CreateChatMessageDto,
+  ChatResponseDto,
+  GenerateChecklistDto,
+  SaveChatHistoryDto,
+  UploadKnowledgeDto,
+  CreateKnowledgeCollectionDto,
+  KnowledgeChunksQueryDto,
+  KnowledgeSearchQueryDto,
+} from '../dto/chat.dto';
 import { ConversationHistory } from '../entities/conversation-history.entity';
+import { ChatSession } from '../entities/chat-session.entity';
 
 @ApiTags('Chat')
 @Controller('chat')
 export class ChatController {
-  constructor(private readonly chatService: ChatService) {}
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly knowledgeService: KnowledgeService,
+    private readonly ragPolicyService: RagPolicyService,
+  ) {}
 
   @Post('message')
   @ApiOperation({ summary: 'Send a chat message' })
@@ -42,6 +57,49 @@ export class ChatController {
     return await this.chatService.sendMessage(createMessageDto);
   }
 
+  @Post('stream')
+  @ApiOperation({ summary: 'Send a chat message and stream the response as Server-Sent Events' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: '"tool" events as tool calls complete, "token" events with partial text, then a "done" event carrying the ChatResponseDto (or an "error" event)' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async streamMessage(
+    @Body(ValidationPipe) createMessageDto: CreateChatMessageDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Disable proxy buffering (nginx, tunnels) so tokens reach the client immediately
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      if (res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // SSE comments keep routers and tunnels from dropping the connection while the model warms up
+    const heartbeat = setInterval(() => {
+      if (!res.writableEnded) res.write(': keep-alive\n\n');
+    }, 15000);
+
+    try {
+      // Generation keeps running if the client disconnects so the history row is still persisted
+      const result = await this.chatService.streamMessage(
+        createMessageDto,
+        (token) => send('token', { content: token }),
+        (invocation) => send('tool', invocation),
+      );
+      send('done', result);
+    } catch (error) {
+      send('error', { message: (error as Error).message || 'Streaming failed' });
+    } finally {
+      clearInterval(heartbeat);
+      res.end();
+    }
+  }
+
   @Get('conversations/:sessionId')
   @ApiOperation({ summary: 'Get conversation history for a session' })
   @ApiParam({ name: 'sessionId', description: 'Session ID' })
@@ -57,6 +115,14 @@ export class ChatController {
     return await this.chatService.getAllSessions();
   }
 
+  @Get('sessions/:sessionId/memory')
+  @ApiOperation({ summary: 'Get the rolling summary that stands in for older turns of a session' })
+  @ApiParam({ name: 'sessionId', description: 'Session ID' })
+  @ApiResponse({ status: 200, description: 'Memory retrieved successfully (null when nothing has been summarized yet)', type: ChatSession })
+  async getSessionMemory(@Param('sessionId') sessionId: string): Promise<ChatSession | null> {
+    return await this.chatService.getSessionMemory(sessionId);
+  }
+
   @Get('history/:sessionId')
   @ApiOperation({ summary: 'Get conversation history for a session' })
   @ApiParam({ name: 'sessionId', description: 'Session ID' })
@@ -76,103 +142,245 @@ export class ChatController {
 
   @Post('upload-knowledge')
   @UseInterceptors(FileInterceptor('file'))
-  @ApiOperation({ summary: 'Upload knowledge file' })
+  @ApiOperation({ summary: 'Upload knowledge file; parsing, chunking and indexing run in the background' })
   @ApiConsumes('multipart/form-data')
-  @ApiResponse({ status: 201, description: 'File uploaded successfully' })
-  async uploadKnowledge(@UploadedFile() file: any): Promise<any> {
+  @ApiResponse({ status: 201, description: 'File stored and queued for ingestion (status "processing")' })
+  @ApiResponse({ status: 409, description: 'A knowledge file with identical content already exists' })
+  @ApiResponse({ status: 413, description: 'File exceeds the RAG policy\'s maximum document size' })
+  async uploadKnowledge(@UploadedFile() file: any, @Body() body: UploadKnowledgeDto): Promise<any> {
     if (!file) {
       throw new Error('No file uploaded');
     }
+    await this.ragPolicyService.assertDocumentSize(file.originalname, file.size ?? file.buffer.length);
 
-    // Persist the file to disk so knowledge can be reloaded on restart
-    let savedBase = '';
-    try {
-      const uploadsDir = path.resolve(process.cwd(), 'uploads');
-      if (!fs.existsSync(uploadsDir)) {
-        fs.mkdirSync(uploadsDir, { recursive: true });
-      }
-      const safeName = `${Date.now()}-${Math.round(Math.random() * 1e9)}-${file.originalname}`;
-      const filePath = path.join(uploadsDir, safeName);
-      fs.writeFileSync(filePath, file.buffer);
-      savedBase = path.join(uploadsDir, path.parse(safeName).name);
-    } catch (e) {
-      console.warn('Failed to persist uploaded file to disk:', e);
-    }
+    const document = await this.knowledgeService.ingestFile(file, body);
 
-    // Extract text
-    let content = '';
-    let type = file.mimetype;
-    const ext = path.extname(file.originalname).toLowerCase();
-    try {
-      if (ext === '.pdf') {
-        // Convert PDF to Markdown and write sidecar .md for fast reloads
-        content = await pdfBufferToMarkdown(file.buffer, file.originalname);
-        type = 'text/markdown';
-        if (savedBase) {
-          try { fs.writeFileSync(`${savedBase}.md`, content, 'utf-8'); } catch {}
-        }
-      } else {
-        content = file.buffer.toString('utf-8');
-        if (ext === '.md') type = 'text/markdown';
-      }
-    } catch (e) {
-      console.warn('Failed to parse uploaded file content, falling back to raw text:', e);
-      try { content = file.buffer.toString('utf-8'); } catch {}
-    }
+    return {
+      id: document.id,
+      name: document.name,
+      size: document.size,
+      type: document.mimeType,
+      uploadedAt: document.createdAt,
+      status: document.status,
+      stage: document.stage,
+      progress: document.progress,
+      version: document.version,
+      collectionId: document.collectionId,
+    };
+  }
 
-    const knowledgeItem = {
-      id: `kb-${Date.now()}`,
-      name: file.originalname,
-  content: content,
-  size: file.size,
-  type,
-      uploadedAt: new Date()
+  @Get('knowledge')
+  @ApiOperation({ summary: 'Get all knowledge files' })
+  @ApiQuery({ name: 'collectionId', required: false, description: 'Only list documents of this collection' })
+  @ApiResponse({ status: 200, description: 'Knowledge files retrieved successfully' })
+  async getKnowledgeFiles(@Query('collectionId') collectionId?: string): Promise<any> {
+    const documents = await this.knowledgeService.listDocuments(collectionId);
+    return {
+      data: documents.map(document => ({
+        id: document.id,
+        name: document.name,
+        size: document.size,
+        type: document.mimeType,
+        uploadedAt: document.createdAt,
+        status: document.status,
+        stage: document.stage,
+        progress: document.progress,
+        error: document.error,
+        chunkCount: document.chunkCount,
+        chunkingStrategy: document.chunkingStrategy,
+        version: document.version,
+        contentHash: document.contentHash,
+        collectionId: document.collectionId,
+      })),
+      total: documents.length
     };
+  }
 
-    this.chatService.addKnowledgeItem(knowledgeItem);
+  @Get('knowledge/collections')
+  @ApiOperation({ summary: 'List knowledge collections with their document counts' })
+  @ApiResponse({ status: 200, description: 'Knowledge collections retrieved successfully' })
+  async getKnowledgeCollections(): Promise<any> {
+    const collections = await this.knowledgeService.listCollections();
+    return { data: collections, total: collections.length };
+  }
+
+  @Get('knowledge/search')
+  @ApiOperation({ summary: 'Search all knowledge chunks the way RAG retrieval does, with matched terms located' })
+  @ApiResponse({ status: 200, description: 'Ranked chunks with highlight ranges into each chunk\'s content' })
+  async searchKnowledge(@Query() query: KnowledgeSearchQueryDto): Promise<any> {
+    const { mode, results } = await this.knowledgeService.search(query.q, {
+      scope: {
+        collectionIds: query.collectionId ? [query.collectionId] : undefined,
+        documentIds: query.documentId ? [query.documentId] : undefined,
+      },
+      limit: query.limit,
+    });
+    return { query: query.q, mode, data: results, total: results.length };
+  }
+
+  @Post('knowledge/collections')
+  @ApiOperation({ summary: 'Create a knowledge collection' })
+  @ApiResponse({ status: 201, description: 'Knowledge collection created successfully' })
+  @ApiResponse({ status: 409, description: 'A collection with this name already exists' })
+  async createKnowledgeCollection(@Body() body: CreateKnowledgeCollectionDto): Promise<any> {
+    return await this.knowledgeService.createCollection(body);
+  }
+
+  @Delete('knowledge/collections/:id')
+  @ApiOperation({ summary: 'Delete a knowledge collection together with its documents' })
+  @ApiParam({ name: 'id', description: 'Collection ID' })
+  @ApiResponse({ status: 200, description: 'Knowledge collection deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Collection not found' })
+  async deleteKnowledgeCollection(@Param('id') id: string): Promise<void> {
+    await this.knowledgeService.removeCollection(id);
+  }
 
+  @Get('knowledge/:id/status')
+  @ApiOperation({ summary: 'Ingestion status of a knowledge file (poll while status is "processing")' })
+  @ApiParam({ name: 'id', description: 'File ID' })
+  @ApiResponse({ status: 200, description: 'Status, stage, progress (0-100), error and queue position' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async getKnowledgeStatus(@Param('id') id: string): Promise<any> {
+    const document = await this.knowledgeService.getDocumentStatus(id);
     return {
-      id: knowledgeItem.id,
-      name: knowledgeItem.name,
-      size: knowledgeItem.size,
-      type: knowledgeItem.type,
-      uploadedAt: knowledgeItem.uploadedAt,
-      status: 'ready',
-      extractedChars: content.length
+      id: document.id,
+      name: document.name,
+      status: document.status,
+      stage: document.stage,
+      progress: document.progress,
+      error: document.error,
+      queuePosition: document.queuePosition,
+      version: document.version,
+      chunkCount: document.chunkCount,
+      chunkingStrategy: document.chunkingStrategy,
+      updatedAt: document.updatedAt,
     };
   }
 
-  @Get('knowledge')
-  @ApiOperation({ summary: 'Get all knowledge files' })
-  @ApiResponse({ status: 200, description: 'Knowledge files retrieved successfully' })
-  async getKnowledgeFiles(): Promise<any> {
-    const knowledgeBase = this.chatService.getKnowledgeBase();
+  @Get('knowledge/:id/content')
+  @ApiOperation({ summary: 'Extracted text of a knowledge file (Markdown for converted formats)' })
+  @ApiParam({ name: 'id', description: 'File ID' })
+  @ApiResponse({ status: 200, description: 'Document metadata and the text its chunks were cut from' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async getKnowledgeContent(@Param('id') id: string): Promise<any> {
+    const document = await this.knowledgeService.getDocumentContent(id);
     return {
-      data: knowledgeBase.map(item => ({
-        id: item.id,
-        name: item.name,
-        size: item.size,
-        type: item.type,
-        uploadedAt: item.uploadedAt,
-        status: 'ready'
+      id: document.id,
+      name: document.name,
+      type: document.mimeType,
+      status: document.status,
+      version: document.version,
+      chunkCount: document.chunkCount,
+      chunkingStrategy: document.chunkingStrategy,
+      chunkSize: document.chunkSize,
+      chunkOverlap: document.chunkOverlap,
+      uploadedAt: document.createdAt,
+      length: document.content.length,
+      content: document.content,
+    };
+  }
+
+  @Get('knowledge/:id/chunks')
+  @ApiOperation({ summary: 'Chunks of a knowledge file in order, with offsets into its extracted text' })
+  @ApiParam({ name: 'id', description: 'File ID' })
+  @ApiResponse({ status: 200, description: 'One page of chunks' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async getKnowledgeChunks(@Param('id') id: string, @Query() query: KnowledgeChunksQueryDto): Promise<any> {
+    const { chunks, total } = await this.knowledgeService.getDocumentChunks(id, query);
+    return {
+      data: chunks.map(chunk => ({
+        id: chunk.id,
+        chunkIndex: chunk.chunkIndex,
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset,
+        sectionPath: chunk.sectionPath,
+        length: chunk.content.length,
+        embeddingModel: chunk.embeddingModel,
+        content: chunk.content,
       })),
-      total: knowledgeBase.length
+      total,
+      offset: query.offset || 0,
+    };
+  }
+
+  @Post('knowledge/:id/retry')
+  @ApiOperation({ summary: 'Queue a failed knowledge file for ingestion again' })
+  @ApiParam({ name: 'id', description: 'File ID' })
+  @ApiResponse({ status: 201, description: 'File queued again' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  @ApiResponse({ status: 409, description: 'File has not failed, or its original is no longer stored' })
+  async retryKnowledgeFile(@Param('id') id: string): Promise<any> {
+    const document = await this.knowledgeService.retryDocument(id);
+    return { id: document.id, status: document.status, stage: document.stage, progress: document.progress };
+  }
+
+  @Post('knowledge/:id/versions')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Upload a new version of a knowledge file; unchanged chunks keep their index entries' })
+  @ApiConsumes('multipart/form-data')
+  @ApiParam({ name: 'id', description: 'File ID' })
+  @ApiResponse({ status: 201, description: 'Previous version archived and the new one queued for ingestion' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  @ApiResponse({ status: 409, description: 'File is still being ingested, or the upload duplicates existing content' })
+  @ApiResponse({ status: 413, description: 'File exceeds the RAG policy\'s maximum document size' })
+  async uploadKnowledgeVersion(@Param('id') id: string, @UploadedFile() file: any): Promise<any> {
+    if (!file) {
+      throw new Error('No file uploaded');
+    }
+    await this.ragPolicyService.assertDocumentSize(file.originalname, file.size ?? file.buffer.length);
+
+    const document = await this.knowledgeService.uploadVersion(id, file);
+    return {
+      id: document.id,
+      name: document.name,
+      size: document.size,
+      type: document.mimeType,
+      status: document.status,
+      stage: document.stage,
+      progress: document.progress,
+      version: document.version,
+      collectionId: document.collectionId,
     };
   }
 
+  @Get('knowledge/:id/versions')
+  @ApiOperation({ summary: 'Version history of a knowledge file, newest first' })
+  @ApiParam({ name: 'id', description: 'File ID' })
+  @ApiResponse({ status: 200, description: 'Current and superseded versions' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async getKnowledgeVersions(@Param('id') id: string): Promise<any> {
+    const versions = await this.knowledgeService.listVersions(id);
+    return { data: versions, total: versions.length };
+  }
+
   @Delete('knowledge/:id')
   @ApiOperation({ summary: 'Delete knowledge file' })
   @ApiParam({ name: 'id', description: 'File ID' })
   @ApiResponse({ status: 200, description: 'File deleted successfully' })
+  @ApiResponse({ status: 404, description: 'File not found' })
   async deleteKnowledgeFile(@Param('id') id: string): Promise<void> {
-    this.chatService.removeKnowledgeItem(id);
+    await this.knowledgeService.removeDocument(id);
   }
 
   @Post('knowledge/clear')
   @ApiOperation({ summary: 'Clear all knowledge files' })
   @ApiResponse({ status: 200, description: 'All files cleared successfully' })
   async clearKnowledge(): Promise<void> {
-    this.chatService.clearKnowledgeBase();
+    await this.knowledgeService.clear();
+  }
+
+  @Post('knowledge/import')
+  @ApiOperation({ summary: 'Queue files from the uploads directory that are not in the knowledge base yet' })
+  @ApiResponse({ status: 201, description: 'Number of files queued for ingestion' })
+  async importKnowledge(): Promise<{ imported: number; skipped: number }> {
+    return await this.knowledgeService.importFromDisk();
+  }
+
+  @Post('knowledge/embed')
+  @ApiOperation({ summary: 'Compute embeddings for chunks that have none for the current embedding model' })
+  @ApiResponse({ status: 201, description: 'Number of chunks embedded (0 when no embedding provider is available)' })
+  async embedKnowledge(): Promise<{ embedded: number }> {
+    return { embedded: await this.knowledgeService.embedPendingChunks() };
   }
 
   @Post('analyze')
@@ -187,14 +395,24 @@ export class ChatController {
 
   @Post('anomalies')
   @ApiOperation({ summary: 'Detect anomalies in performance data' })
-  @ApiResponse({ status: 201, description: 'Anomaly detection completed successfully', type: ChatResponseDto })
+  @ApiResponse({ status: 201, description: 'Anomaly report in `result` ({ summary, anomalies[] })', type: ChatResponseDto })
   @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 502, description: 'The model did not return a valid anomaly report' })
   async detectAnomalies(
     @Body() body: { data: any; prompt: string },
   ): Promise<ChatResponseDto> {
     return await this.chatService.detectAnomalies(body.data, body.prompt);
   }
 
+  @Post('checklist')
+  @ApiOperation({ summary: 'Generate a debugging checklist for a component' })
+  @ApiResponse({ status: 201, description: 'Checklist in `result` ({ title, steps[] })', type: ChatResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 502, description: 'The model did not return a valid checklist' })
+  async generateChecklist(@Body() body: GenerateChecklistDto): Promise<ChatResponseDto> {
+    return await this.chatService.generateChecklist(body.component, body.issue);
+  }
+
   @Post('history/save')
   @ApiOperation({ summary: 'Save a user/assistant message pair (e.g., from local Ollama)' })
   @ApiResponse({ status: 201, description: 'Conversation saved successfully' })
@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { EvaluationService } from '../services/evaluation.service';
+import { CreateEvaluationCaseDto, RunEvaluationDto } from '../dto/evaluation.dto';
+
+@ApiTags('Evaluation')
+@Controller('evaluation')
+export class EvaluationController {
+  constructor(private readonly evaluationService: EvaluationService) {}
+
+  @Get('cases')
+  @ApiOperation({ summary: 'List evaluation cases' })
+  @ApiResponse({ status: 200, description: 'Evaluation cases retrieved successfully' })
+  async getCases(): Promise<any> {
+    const cases = await this.evaluationService.listCases();
+    return { data: cases, total: cases.length };
+  }
+
+  @Post('cases')
+  @ApiOperation({ summary: 'Add a question with the document and/or passage it should retrieve' })
+  @ApiResponse({ status: 201, description: 'Evaluation case created successfully' })
+  @ApiResponse({ status: 400, description: 'No expected document or passage given' })
+  @ApiResponse({ status: 404, description: 'Expected document or collection not found' })
+  async createCase(@Body() body: CreateEvaluationCaseDto): Promise<any> {
+    return await this.evaluationService.createCase(body);
+  }
+
+  @Delete('cases/:id')
+  @ApiOperation({ summary: 'Delete an evaluation case' })
+  @ApiParam({ name: 'id', description: 'Case ID' })
+  @ApiResponse({ status: 200, description: 'Evaluation case deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Case not found' })
+  async deleteCase(@Param('id') id: string): Promise<void> {
+    await this.evaluationService.removeCase(id);
+  }
+
+  @Post('runs')
+  @ApiOperation({ summary: 'Run the evaluation cases and store the metrics' })
+  @ApiResponse({ status: 201, description: 'Evaluation run completed with per-case results' })
+  @ApiResponse({ status: 400, description: 'No evaluation cases to run' })
+  async createRun(@Body() body: RunEvaluationDto): Promise<any> {
+    return await this.evaluationService.run(body);
+  }
+
+  @Get('runs')
+  @ApiOperation({ summary: 'List evaluation runs, newest first (without per-case results)' })
+  @ApiResponse({ status: 200, description: 'Evaluation runs retrieved successfully' })
+  async getRuns(): Promise<any> {
+    const runs = await this.evaluationService.listRuns();
+    return { data: runs, total: runs.length };
+  }
+
+  @Get('runs/compare')
+  @ApiOperation({ summary: 'Compare two evaluation runs' })
+  @ApiQuery({ name: 'baseline', description: 'Run ID to compare against' })
+  @ApiQuery({ name: 'candidate', description: 'Run ID to compare' })
+  @ApiResponse({ status: 200, description: 'Metric deltas and cases whose rank changed' })
+  @ApiResponse({ status: 404, description: 'Run not found' })
+  async compareRuns(@Query('baseline') baseline: string, @Query('candidate') candidate: string): Promise<any> {
+    if (!baseline || !candidate) {
+      throw new BadRequestException('Both baseline and candidate run IDs are required');
+    }
+    return await this.evaluationService.compareRuns(baseline, candidate);
+  }
+
+  @Get('runs/:id')
+  @ApiOperation({ summary: 'Get an evaluation run with per-case results' })
+  @ApiParam({ name: 'id', description: 'Run ID' })
+  @ApiResponse({ status: 200, description: 'Evaluation run retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Run not found' })
+  async getRun(@Param('id') id: string): Promise<any> {
+    return await this.evaluationService.getRun(id);
+  }
+}
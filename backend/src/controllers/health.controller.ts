@@ -1,11 +1,17 @@
 import { Controller, Get } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { PerformanceService } from '../services/performance.service';
+import { RagPolicyDecision, RagPolicyService } from '../services/rag-policy.service';
+import { ProviderCircuit, ProviderCircuitBreakerService } from '../services/provider-circuit-breaker.service';
 
 @ApiTags('Health')
 @Controller('health')
 export class HealthController {
-  constructor(private readonly performanceService: PerformanceService) {}
+  constructor(
+    private readonly performanceService: PerformanceService,
+    private readonly ragPolicyService: RagPolicyService,
+    private readonly circuitBreaker: ProviderCircuitBreakerService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'Health check endpoint' })
@@ -15,12 +21,15 @@ export class HealthController {
     timestamp: string;
     uptime: number;
     environment: string;
+    rag: RagPolicyDecision;
   }> {
     return {
       status: 'OK',
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
       environment: process.env.NODE_ENV || 'development',
+      // Whether RAG answers are available with the active configuration, and why not
+      rag: await this.ragPolicyService.evaluate(),
     };
   }
 
@@ -34,6 +43,8 @@ export class HealthController {
     environment: string;
     performance: any;
     memory: NodeJS.MemoryUsage;
+    rag: RagPolicyDecision;
+    providers: ProviderCircuit[];
   }> {
     const performance = await this.performanceService.getHealthStatus();
     
@@ -44,6 +55,9 @@ export class HealthController {
       environment: process.env.NODE_ENV || 'development',
       performance,
       memory: process.memoryUsage(),
+      rag: await this.ragPolicyService.evaluate(),
+      // Circuit breakers of the provider endpoints called since startup
+      providers: this.circuitBreaker.getCircuits(),
     };
   }
 }
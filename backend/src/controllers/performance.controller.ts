@@ -18,8 +18,10 @@ import {
 } from '@nestjs/swagger';
 import { Response } from 'express';
 import { PerformanceService } from '../services/performance.service';
+import { AIService } from '../services/ai.service';
 import { GetPerformanceReportDto, PerformanceReportDto } from '../dto/performance.dto';
 import { PerformanceMetrics } from '../entities/performance-metrics.entity';
+import { AnomalyReport, DetectedAnomaly } from '../utils/analysis-schemas';
 
 @ApiTags('Performance Reports')
 @Controller('reports')
@@ -27,7 +29,10 @@ export class PerformanceController {
   private readonly logger = new Logger(PerformanceController.name);
   private reports: any[] = [];
 
-  constructor(private readonly performanceService: PerformanceService) {}
+  constructor(
+    private readonly performanceService: PerformanceService,
+    private readonly aiService: AIService,
+  ) {}
 
   @Get('performance')
   @ApiOperation({ summary: 'Get performance report' })
@@ -84,6 +89,7 @@ export class PerformanceController {
         uptime: r.data?.rawMetrics?.uptime ?? undefined,
       },
       summary: (r.data?.aiAnalysis || '').toString().slice(0, 500),
+      anomalies: r.data?.anomalies?.anomalies || [],
     }));
   }
 
@@ -94,11 +100,6 @@ export class PerformanceController {
     try {
       const performanceReport = await this.performanceService.generateReport(params || {});
       const performanceMetrics = await this.performanceService.getMetrics(params || {});
-      const { AIService } = await import('../services/ai.service');
-      const aiService = new (AIService as any)(
-        this.performanceService['performanceRepository'],
-        { get: () => null } as any
-      );
 
       const analysisData = {
         summary: performanceReport,
@@ -126,14 +127,35 @@ export class PerformanceController {
 
       const analysisPrompt = `You are an SRE assistant. Produce a clear, actionable performance report from the provided data. Include: health status, KPIs (avg, p50/p90/p99, error rate, uptime), top slow/error endpoints, trends from time series, anomalies, and 3-5 prioritized recommendations.`;
 
+      // Anomalies come back as data; the raw metric rows are left out of that prompt, the aggregates carry the signal
+      const anomalyData = {
+        timeRange: analysisData.timeRange,
+        totalRequests: analysisData.totalRequests,
+        averageResponseTime: analysisData.averageResponseTime,
+        p90: analysisData.p90,
+        errorRate: analysisData.errorRate,
+        endpointBreakdown: analysisData.endpointBreakdown,
+        timeSeries: analysisData.timeSeries,
+        detectedAnomalies: analysisData.anomalies,
+      };
+      const [analysisResult, anomalyResult] = await Promise.allSettled([
+        this.aiService.analyzePerformanceData(analysisData, analysisPrompt),
+        this.aiService.detectAnomalies(anomalyData, 'Focus on latency, error rate and traffic changes across endpoints and over time.'),
+      ]);
+
       let aiAnalysis = null;
-      try {
-        const aiResponse = await aiService.analyzePerformanceData(analysisData, analysisPrompt);
-        aiAnalysis = aiResponse.response;
-      } catch (aiError) {
-        this.logger.warn('AI analysis failed, generating basic report:', aiError.message);
+      if (analysisResult.status === 'fulfilled') {
+        aiAnalysis = analysisResult.value.response;
+      } else {
+        this.logger.warn('AI analysis failed, generating basic report:', analysisResult.reason?.message);
         aiAnalysis = this.generateBasicAnalysis(performanceReport);
       }
+      let anomalies: AnomalyReport | null = null;
+      if (anomalyResult.status === 'fulfilled') {
+        anomalies = anomalyResult.value.data || null;
+      } else {
+        this.logger.warn('AI anomaly detection failed, report has no anomaly list:', anomalyResult.reason?.message);
+      }
 
       const report = {
         id: `report-${Date.now()}`,
@@ -144,6 +166,7 @@ export class PerformanceController {
         data: {
           rawMetrics: performanceReport,
           aiAnalysis: aiAnalysis,
+          anomalies,
           recommendations: this.generateRecommendations(performanceReport),
           healthScore: this.calculateHealthScore(performanceReport)
         },
@@ -274,6 +297,16 @@ export class PerformanceController {
     lines.push('## AI Analysis');
     lines.push(report.data?.aiAnalysis || 'N/A');
     lines.push('');
+    const anomalies: DetectedAnomaly[] = report.data?.anomalies?.anomalies || [];
+    if (anomalies.length) {
+      lines.push('## Anomalies');
+      anomalies.forEach((anomaly) => {
+        const where = anomaly.endpoint || anomaly.metric;
+        lines.push(`- [${anomaly.severity}] ${anomaly.type}${where ? ` (${where})` : ''}: ${anomaly.description}`);
+        if (anomaly.recommendedAction) lines.push(`  Action: ${anomaly.recommendedAction}`);
+      });
+      lines.push('');
+    }
     lines.push('## Recommendations');
     (report.data?.recommendations || []).forEach((rec) => lines.push(`- ${rec}`));
 
@@ -0,0 +1,49 @@
+import { Body, Controller, Delete, Get, Param, Post, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiResponse } from '@nestjs/swagger';
+import { ResponseCacheService } from '../services/response-cache.service';
+import { ListResponseCacheDto, PurgeResponseCacheDto } from '../dto/response-cache.dto';
+
+@ApiTags('Response Cache')
+@Controller('response-cache')
+export class ResponseCacheController {
+  constructor(private readonly responseCache: ResponseCacheService) {}
+
+  @Get('stats')
+  @ApiOperation({ summary: 'Hit/miss counters, tokens saved and entry counts, overall and per configuration' })
+  @ApiResponse({ status: 200, description: 'Cache statistics since the backend started' })
+  async getStats(): Promise<any> {
+    return await this.responseCache.getStats();
+  }
+
+  @Get('entries')
+  @ApiOperation({ summary: 'List cached responses, newest first' })
+  @ApiResponse({ status: 200, description: 'A page of entries with the total count' })
+  async listEntries(@Query() filters: ListResponseCacheDto): Promise<any> {
+    return await this.responseCache.listEntries(filters);
+  }
+
+  @Get('entries/:id')
+  @ApiOperation({ summary: 'Get a cached response' })
+  @ApiParam({ name: 'id', description: 'Cache entry ID' })
+  @ApiResponse({ status: 200, description: 'Entry with its prompt and response' })
+  @ApiResponse({ status: 404, description: 'Entry not found' })
+  async getEntry(@Param('id') id: string): Promise<any> {
+    return await this.responseCache.getEntry(id);
+  }
+
+  @Delete('entries/:id')
+  @ApiOperation({ summary: 'Delete a cached response' })
+  @ApiParam({ name: 'id', description: 'Cache entry ID' })
+  @ApiResponse({ status: 200, description: 'Entry deleted' })
+  @ApiResponse({ status: 404, description: 'Entry not found' })
+  async deleteEntry(@Param('id') id: string): Promise<void> {
+    await this.responseCache.removeEntry(id);
+  }
+
+  @Post('purge')
+  @ApiOperation({ summary: 'Delete all cached responses, a configuration\'s, or only expired ones' })
+  @ApiResponse({ status: 200, description: 'Number of entries deleted' })
+  async purge(@Body() options: PurgeResponseCacheDto): Promise<{ deleted: number }> {
+    return await this.responseCache.purge(options);
+  }
+}
@@ -0,0 +1,32 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { LlmUsageService } from '../services/llm-usage.service';
+import { GetUsageSummaryDto } from '../dto/usage.dto';
+
+@ApiTags('LLM Usage')
+@Controller('usage')
+export class UsageController {
+  constructor(private readonly usageService: LlmUsageService) {}
+
+  @Get('summary')
+  @ApiOperation({ summary: 'Tokens and cost of model calls, aggregated by configuration, model, session, day or purpose' })
+  @ApiResponse({ status: 200, description: 'Usage totals and groups for the period' })
+  async getSummary(@Query() filters: GetUsageSummaryDto): Promise<any> {
+    return await this.usageService.summarize(filters);
+  }
+
+  @Get('budgets')
+  @ApiOperation({ summary: 'Monthly budgets with this month\'s spend' })
+  @ApiResponse({ status: 200, description: 'Global and per-configuration budget status' })
+  async getBudgets(): Promise<any> {
+    const budgets = await this.usageService.getBudgets();
+    return { data: budgets, total: budgets.length };
+  }
+
+  @Get('prices')
+  @ApiOperation({ summary: 'Price table used for cost accounting (USD per million tokens)' })
+  @ApiResponse({ status: 200, description: 'Prices keyed by provider:model' })
+  async getPrices(): Promise<any> {
+    return this.usageService.getPriceTable();
+  }
+}
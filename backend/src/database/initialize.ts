@@ -3,6 +3,15 @@ import { ConfigService } from '@nestjs/config';
 import { AIConfiguration, ModelProvider } from '../entities/ai-configuration.entity';
 import { ConversationHistory } from '../entities/conversation-history.entity';
 import { PerformanceMetrics } from '../entities/performance-metrics.entity';
+import { ChatSession } from '../entities/chat-session.entity';
+import { KnowledgeDocument } from '../entities/knowledge-document.entity';
+import { KnowledgeChunk } from '../entities/knowledge-chunk.entity';
+import { KnowledgeCollection } from '../entities/knowledge-collection.entity';
+import { KnowledgeDocumentVersion } from '../entities/knowledge-document-version.entity';
+import { EvaluationCase } from '../entities/evaluation-case.entity';
+import { EvaluationRun } from '../entities/evaluation-run.entity';
+import { LlmUsage } from '../entities/llm-usage.entity';
+import { ResponseCacheEntry } from '../entities/response-cache-entry.entity';
 import { getDatabaseConfig } from '../config/database.config';
 import { config } from 'dotenv';
 import * as path from 'path';
@@ -24,7 +33,7 @@ export class DatabaseInitializer {
     const dbConfig = getDatabaseConfig(this.configService);
     this.dataSource = new DataSource({
       ...dbConfig,
-      entities: [AIConfiguration, ConversationHistory, PerformanceMetrics],
+      entities: [AIConfiguration, ConversationHistory, PerformanceMetrics, ChatSession, KnowledgeDocument, KnowledgeChunk, KnowledgeCollection, KnowledgeDocumentVersion, EvaluationCase, EvaluationRun, LlmUsage, ResponseCacheEntry],
       synchronize: true, // This will create tables if they don't exist
       logging: true,
     } as any);
@@ -0,0 +1,132 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreateKnowledgeTables1792396800000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create Knowledge Documents table
+    await queryRunner.createTable(
+      new Table({
+        name: 'knowledge_documents',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+          },
+          {
+            name: 'mimeType',
+            type: 'varchar',
+            length: '100',
+          },
+          {
+            name: 'size',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            default: "'ready'",
+          },
+          {
+            name: 'content',
+            type: 'text',
+            default: "''",
+          },
+          {
+            name: 'chunkCount',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'storagePath',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create Knowledge Chunks table
+    await queryRunner.createTable(
+      new Table({
+        name: 'knowledge_chunks',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'documentId',
+            type: 'uuid',
+          },
+          {
+            name: 'chunkIndex',
+            type: 'int',
+          },
+          {
+            name: 'content',
+            type: 'text',
+          },
+          {
+            name: 'startOffset',
+            type: 'int',
+          },
+          {
+            name: 'endOffset',
+            type: 'int',
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'knowledge_chunks',
+      new TableForeignKey({
+        columnNames: ['documentId'],
+        referencedTableName: 'knowledge_documents',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'knowledge_chunks',
+      new TableIndex({
+        name: 'IDX_knowledge_chunks_document_id',
+        columnNames: ['documentId'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('knowledge_chunks');
+    await queryRunner.dropTable('knowledge_documents');
+  }
+}
@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddKnowledgeChunkEmbeddings1792483200000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('knowledge_chunks', [
+      new TableColumn({
+        name: 'embedding',
+        type: 'text',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'embeddingModel',
+        type: 'varchar',
+        length: '150',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('knowledge_chunks', 'embeddingModel');
+    await queryRunner.dropColumn('knowledge_chunks', 'embedding');
+  }
+}
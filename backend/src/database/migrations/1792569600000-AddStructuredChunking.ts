@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddStructuredChunking1792569600000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('knowledge_documents', [
+      new TableColumn({
+        name: 'chunkingStrategy',
+        type: 'varchar',
+        length: '30',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'chunkSize',
+        type: 'int',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'chunkOverlap',
+        type: 'int',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.addColumn(
+      'knowledge_chunks',
+      new TableColumn({
+        name: 'sectionPath',
+        type: 'text',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('knowledge_chunks', 'sectionPath');
+    await queryRunner.dropColumn('knowledge_documents', 'chunkOverlap');
+    await queryRunner.dropColumn('knowledge_documents', 'chunkSize');
+    await queryRunner.dropColumn('knowledge_documents', 'chunkingStrategy');
+  }
+}
@@ -0,0 +1,96 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+export class CreateKnowledgeCollections1792656000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'knowledge_collections',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+            isUnique: true,
+          },
+          {
+            name: 'description',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'chunkingStrategy',
+            type: 'varchar',
+            length: '30',
+            isNullable: true,
+          },
+          {
+            name: 'chunkSize',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'chunkOverlap',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.addColumn(
+      'knowledge_documents',
+      new TableColumn({
+        name: 'collectionId',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'knowledge_documents',
+      new TableForeignKey({
+        columnNames: ['collectionId'],
+        referencedTableName: 'knowledge_collections',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'knowledge_documents',
+      new TableIndex({
+        name: 'IDX_knowledge_documents_collection_id',
+        columnNames: ['collectionId'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('knowledge_documents', 'IDX_knowledge_documents_collection_id');
+    const table = await queryRunner.getTable('knowledge_documents');
+    const foreignKey = table?.foreignKeys.find((fk) => fk.columnNames.includes('collectionId'));
+    if (foreignKey) {
+      await queryRunner.dropForeignKey('knowledge_documents', foreignKey);
+    }
+    await queryRunner.dropColumn('knowledge_documents', 'collectionId');
+    await queryRunner.dropTable('knowledge_collections');
+  }
+}
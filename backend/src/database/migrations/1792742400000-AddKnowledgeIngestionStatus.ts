@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddKnowledgeIngestionStatus1792742400000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('knowledge_documents', [
+      new TableColumn({
+        name: 'stage',
+        type: 'varchar',
+        length: '20',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'progress',
+        type: 'int',
+        default: 0,
+      }),
+      new TableColumn({
+        name: 'error',
+        type: 'text',
+        isNullable: true,
+      }),
+    ]);
+
+    // Documents ingested before the queue existed are complete
+    await queryRunner.query(`UPDATE knowledge_documents SET progress = 100`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('knowledge_documents', 'error');
+    await queryRunner.dropColumn('knowledge_documents', 'progress');
+    await queryRunner.dropColumn('knowledge_documents', 'stage');
+  }
+}
@@ -0,0 +1,111 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+export class AddKnowledgeDocumentVersions1792828800000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('knowledge_documents', [
+      new TableColumn({
+        name: 'contentHash',
+        type: 'varchar',
+        length: '64',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'version',
+        type: 'int',
+        default: 1,
+      }),
+    ]);
+
+    await queryRunner.createIndex(
+      'knowledge_documents',
+      new TableIndex({
+        name: 'IDX_knowledge_documents_content_hash',
+        columnNames: ['contentHash'],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'knowledge_document_versions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'documentId',
+            type: 'uuid',
+          },
+          {
+            name: 'version',
+            type: 'int',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+          },
+          {
+            name: 'mimeType',
+            type: 'varchar',
+            length: '100',
+          },
+          {
+            name: 'size',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'contentHash',
+            type: 'varchar',
+            length: '64',
+            isNullable: true,
+          },
+          {
+            name: 'chunkCount',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'storagePath',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'replacedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'knowledge_document_versions',
+      new TableForeignKey({
+        columnNames: ['documentId'],
+        referencedTableName: 'knowledge_documents',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'knowledge_document_versions',
+      new TableIndex({
+        name: 'IDX_knowledge_document_versions_document_id',
+        columnNames: ['documentId'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('knowledge_document_versions');
+    await queryRunner.dropIndex('knowledge_documents', 'IDX_knowledge_documents_content_hash');
+    await queryRunner.dropColumn('knowledge_documents', 'version');
+    await queryRunner.dropColumn('knowledge_documents', 'contentHash');
+  }
+}
@@ -0,0 +1,133 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class CreateEvaluationTables1792915200000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'evaluation_cases',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'question',
+            type: 'text',
+          },
+          {
+            name: 'expectedDocumentId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'expectedDocumentName',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'expectedPassage',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'collectionId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'evaluation_runs',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'label',
+            type: 'varchar',
+            length: '100',
+            isNullable: true,
+          },
+          {
+            name: 'mode',
+            type: 'varchar',
+            length: '20',
+          },
+          {
+            name: 'k',
+            type: 'int',
+          },
+          {
+            name: 'caseCount',
+            type: 'int',
+          },
+          {
+            name: 'recallAtK',
+            type: 'float',
+          },
+          {
+            name: 'mrr',
+            type: 'float',
+          },
+          {
+            name: 'faithfulness',
+            type: 'float',
+            isNullable: true,
+          },
+          {
+            name: 'contextRecall',
+            type: 'float',
+            isNullable: true,
+          },
+          {
+            name: 'durationMs',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'config',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'results',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('evaluation_runs');
+    await queryRunner.dropTable('evaluation_cases');
+  }
+}
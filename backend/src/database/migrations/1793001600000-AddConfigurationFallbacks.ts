@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddConfigurationFallbacks1793001600000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'ai_configurations',
+      new TableColumn({
+        name: 'fallbackConfigIds',
+        type: 'text',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('ai_configurations', 'fallbackConfigIds');
+  }
+}
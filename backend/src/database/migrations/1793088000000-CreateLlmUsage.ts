@@ -0,0 +1,110 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateLlmUsage1793088000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'llm_usage',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'configId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'provider',
+            type: 'varchar',
+            length: '50',
+          },
+          {
+            name: 'model',
+            type: 'varchar',
+            length: '200',
+          },
+          {
+            name: 'sessionId',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'purpose',
+            type: 'varchar',
+            length: '50',
+            default: "'chat'",
+          },
+          {
+            name: 'promptTokens',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'completionTokens',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'totalTokens',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'estimated',
+            type: 'boolean',
+            default: false,
+          },
+          {
+            name: 'cost',
+            type: 'float',
+            default: 0,
+          },
+          {
+            name: 'priced',
+            type: 'boolean',
+            default: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'llm_usage',
+      new TableIndex({
+        name: 'IDX_llm_usage_config_id',
+        columnNames: ['configId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'llm_usage',
+      new TableIndex({
+        name: 'IDX_llm_usage_session_id',
+        columnNames: ['sessionId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'llm_usage',
+      new TableIndex({
+        name: 'IDX_llm_usage_created_at',
+        columnNames: ['createdAt'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('llm_usage');
+  }
+}
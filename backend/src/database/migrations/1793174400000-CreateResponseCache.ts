@@ -0,0 +1,136 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateResponseCache1793174400000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'response_cache',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'cacheKey',
+            type: 'varchar',
+            length: '64',
+          },
+          {
+            name: 'scopeKey',
+            type: 'varchar',
+            length: '64',
+          },
+          {
+            name: 'configId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'provider',
+            type: 'varchar',
+            length: '50',
+          },
+          {
+            name: 'model',
+            type: 'varchar',
+            length: '200',
+          },
+          {
+            name: 'purpose',
+            type: 'varchar',
+            length: '50',
+            isNullable: true,
+          },
+          {
+            name: 'prompt',
+            type: 'text',
+          },
+          {
+            name: 'response',
+            type: 'text',
+          },
+          {
+            name: 'promptTokens',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'completionTokens',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'embedding',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'embeddingModel',
+            type: 'varchar',
+            length: '150',
+            isNullable: true,
+          },
+          {
+            name: 'hits',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'lastHitAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'expiresAt',
+            type: 'timestamp',
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'response_cache',
+      new TableIndex({
+        name: 'IDX_response_cache_cache_key',
+        columnNames: ['cacheKey'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'response_cache',
+      new TableIndex({
+        name: 'IDX_response_cache_scope_key',
+        columnNames: ['scopeKey'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'response_cache',
+      new TableIndex({
+        name: 'IDX_response_cache_config_id',
+        columnNames: ['configId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'response_cache',
+      new TableIndex({
+        name: 'IDX_response_cache_expires_at',
+        columnNames: ['expiresAt'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('response_cache');
+  }
+}
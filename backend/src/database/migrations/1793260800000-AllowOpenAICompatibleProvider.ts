@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const PROVIDERS = ['openai', 'ollama', 'huggingface', 'anthropic', 'openai-compatible'];
+const BASELINE_PROVIDERS = ['openai', 'ollama', 'huggingface', 'anthropic'];
+
+// The baseline migrations restrict modelProvider either with an inline CHECK (InitialMigration) or a Postgres enum
+// (CreateInitialTables). Both are replaced by a varchar, as in the entity, with a named CHECK that lists every provider.
+export class AllowOpenAICompatibleProvider1793260800000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await this.dropProviderChecks(queryRunner);
+    await queryRunner.query(
+      `ALTER TABLE "ai_configurations" ALTER COLUMN "modelProvider" TYPE character varying(50) USING "modelProvider"::text`,
+    );
+    await queryRunner.query(`DROP TYPE IF EXISTS "ai_configurations_modelprovider_enum"`);
+    await this.addProviderCheck(queryRunner, PROVIDERS);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await this.dropProviderChecks(queryRunner);
+    await queryRunner.query(
+      `UPDATE "ai_configurations" SET "isActive" = false, "modelProvider" = 'openai' WHERE "modelProvider" = 'openai-compatible'`,
+    );
+    await this.addProviderCheck(queryRunner, BASELINE_PROVIDERS);
+  }
+
+  private async dropProviderChecks(queryRunner: QueryRunner): Promise<void> {
+    const checks: { conname: string }[] = await queryRunner.query(`
+      SELECT con.conname
+      FROM pg_constraint con
+      JOIN pg_class rel ON rel.oid = con.conrelid
+      WHERE rel.relname = 'ai_configurations'
+        AND con.contype = 'c'
+        AND pg_get_constraintdef(con.oid) LIKE '%modelProvider%'
+    `);
+    for (const { conname } of checks) {
+      await queryRunner.query(`ALTER TABLE "ai_configurations" DROP CONSTRAINT "${conname}"`);
+    }
+  }
+
+  private async addProviderCheck(queryRunner: QueryRunner, providers: string[]): Promise<void> {
+    const values = providers.map((provider) => `'${provider}'`).join(', ');
+    await queryRunner.query(
+      `ALTER TABLE "ai_configurations" ADD CONSTRAINT "CHK_ai_configurations_modelProvider" CHECK ("modelProvider" IN (${values}))`,
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from 'typeorm';
+
+export class CreateChatSessions1793347200000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'chat_sessions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'sessionId',
+            type: 'varchar',
+          },
+          {
+            name: 'summary',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'summarizedTurns',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'summaryTokens',
+            type: 'int',
+            default: 0,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'chat_sessions',
+      new TableIndex({
+        name: 'IDX_chat_sessions_session_id',
+        columnNames: ['sessionId'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('chat_sessions');
+  }
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddKnowledgeChunkUpdatedAt1793433600000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'knowledge_chunks',
+      new TableColumn({
+        name: 'updatedAt',
+        type: 'timestamp',
+        default: 'CURRENT_TIMESTAMP',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('knowledge_chunks', 'updatedAt');
+  }
+}
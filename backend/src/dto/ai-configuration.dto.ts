@@ -1,4 +1,4 @@
-import { IsString, IsEnum, IsNumber, IsBoolean, IsOptional, Min, Max, IsObject } from 'class-validator';
+import { IsString, IsEnum, IsNumber, IsBoolean, IsOptional, Min, Max, IsObject, IsArray, IsUUID } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ModelProvider } from '../entities/ai-configuration.entity';
 import { AI_CONSTANTS } from '../common/constants/app.constants';
@@ -125,6 +125,15 @@ export class CreateAIConfigurationDto {
   @IsOptional()
   @IsObject()
   additionalSettings?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Configurations tried in order when this one fails; omit for the default (Ollama falls back to OpenAI when OPENAI_API_KEY is set), [] for none',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  fallbackConfigIds?: string[] | null;
 }
 
 export class UpdateAIConfigurationDto {
@@ -239,4 +248,38 @@ export class UpdateAIConfigurationDto {
   @IsOptional()
   @IsObject()
   additionalSettings?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Configurations tried in order when this one fails; null restores the default, [] disables fallback',
+    type: [String],
+    nullable: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  fallbackConfigIds?: string[] | null;
+}
+
+export class ListProviderModelsDto {
+  @ApiProperty({ 
+    description: 'Base URL of the OpenAI-compatible server',
+    example: 'http://localhost:8000/v1'
+  })
+  @IsString()
+  baseUrl: string;
+
+  @ApiPropertyOptional({ 
+    description: 'API key, if the server requires one'
+  })
+  @IsOptional()
+  @IsString()
+  apiKey?: string;
+
+  @ApiPropertyOptional({ 
+    description: 'Additional settings; `headers` are sent with the request',
+    example: { headers: { 'X-Team': 'perf' } }
+  })
+  @IsOptional()
+  @IsObject()
+  additionalSettings?: Record<string, any>;
 }
@@ -1,5 +1,6 @@
-import { IsString, IsOptional, IsUUID, IsBoolean } from 'class-validator';
+import { IsString, IsOptional, IsUUID, IsBoolean, IsInt, IsArray, IsNotEmpty, Min, Max, MaxLength } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
 
 export class CreateChatMessageDto {
   @ApiProperty({ description: 'User message' })
@@ -25,6 +26,130 @@ export class CreateChatMessageDto {
   @IsOptional()
   @IsBoolean()
   ragMode?: boolean;
+
+  @ApiPropertyOptional({ description: 'Restrict RAG to documents in these knowledge collections', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  collectionIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Restrict RAG to these knowledge documents (combined with collectionIds)', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  documentIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Let the model call tools (metrics, health, knowledge search) before answering; defaults to true outside RAG mode' })
+  @IsOptional()
+  @IsBoolean()
+  useTools?: boolean;
+}
+
+// A knowledge-base excerpt the answer was grounded on; `index` is the [n] marker used in the response
+export class ChatSourceDto {
+  @ApiProperty({ description: 'Citation number as referenced in the response, e.g. [1]' })
+  index: number;
+
+  @ApiProperty({ description: 'Knowledge document ID' })
+  documentId: string;
+
+  @ApiProperty({ description: 'Knowledge document name' })
+  documentName: string;
+
+  @ApiProperty({ description: 'Chunk ID' })
+  chunkId: string;
+
+  @ApiProperty({ description: 'Position of the chunk within the document' })
+  chunkIndex: number;
+
+  @ApiProperty({ description: 'Start of the excerpt (character offset into the extracted document text)' })
+  startOffset: number;
+
+  @ApiProperty({ description: 'End of the excerpt (character offset, exclusive)' })
+  endOffset: number;
+
+  @ApiPropertyOptional({ description: 'Heading trail or CSV header the excerpt belongs to' })
+  sectionPath?: string | null;
+
+  @ApiProperty({ description: 'Retrieval score (0 when the excerpt was included as general content)' })
+  score: number;
+
+  @ApiProperty({ description: 'Excerpt text as given to the model' })
+  excerpt: string;
+}
+
+// Verdict on one answer sentence; start/end are character offsets into the response
+export class GroundedSentenceDto {
+  @ApiProperty({ description: 'Start of the sentence in the response' })
+  start: number;
+
+  @ApiProperty({ description: 'End of the sentence in the response (exclusive)' })
+  end: number;
+
+  @ApiProperty({ description: 'Sentence text' })
+  text: string;
+
+  @ApiProperty({ description: 'Share of the sentence terms found in the excerpts (0-1)' })
+  coverage: number;
+
+  @ApiProperty({ description: 'Whether the excerpts support the sentence' })
+  supported: boolean;
+
+  @ApiProperty({ description: 'Excerpts ([n]) backing the sentence', type: [Number] })
+  sourceIndexes: number[];
+
+  @ApiProperty({ description: 'lexical, or judge when the model confirmed a sentence the lexical check could not' })
+  method: string;
+}
+
+export class GroundingDto {
+  @ApiPropertyOptional({ description: 'Share of scored sentences supported by the excerpts (null when none could be scored)' })
+  score: number | null;
+
+  @ApiProperty({ description: 'Whether the model judge was consulted' })
+  judged: boolean;
+
+  @ApiProperty({ description: 'Scored sentences of the model answer', type: [GroundedSentenceDto] })
+  sentences: GroundedSentenceDto[];
+
+  @ApiPropertyOptional({ description: 'The model answer scored below RAG_GROUNDING_MIN_SCORE and was replaced by quoted excerpts; sentences refer to the replaced answer' })
+  replaced?: boolean;
+}
+
+export class RagPolicyReasonDto {
+  @ApiProperty({ description: 'rag-disabled-by-policy, provider-not-allowed or provider-unreachable' })
+  code: string;
+
+  @ApiProperty({ description: 'Explanation shown to the user' })
+  message: string;
+}
+
+export class RagPolicyNoticeDto {
+  @ApiProperty({ description: 'Policy environment the decision was made in' })
+  environment: string;
+
+  @ApiProperty({ description: 'disabled (notice only) or degraded (answered without the model)' })
+  status: string;
+
+  @ApiProperty({ description: 'Why RAG could not run normally', type: [RagPolicyReasonDto] })
+  reasons: RagPolicyReasonDto[];
+}
+
+export class ToolInvocationDto {
+  @ApiProperty({ description: 'Tool name, e.g. get_performance_report' })
+  name: string;
+
+  @ApiProperty({ description: 'Arguments the model called it with' })
+  arguments: Record<string, unknown>;
+
+  @ApiPropertyOptional({ description: 'What the tool returned' })
+  result?: unknown;
+
+  @ApiPropertyOptional({ description: 'Why the call failed (unknown tool, invalid arguments or tool error)' })
+  error?: string;
+
+  @ApiProperty({ description: 'Time the tool took in milliseconds' })
+  durationMs: number;
 }
 
 export class ChatResponseDto {
@@ -46,6 +171,41 @@ export class ChatResponseDto {
   @IsOptional()
   @IsUUID()
   configId?: string;
+
+  @ApiPropertyOptional({ description: 'Model that answered, or extractive-fallback / rag-disabled / unavailable when none did' })
+  model?: string;
+
+  @ApiPropertyOptional({ description: 'True when no model answered: quoted excerpts, the RAG policy notice or an error message was returned instead' })
+  fallback?: boolean;
+
+  @ApiPropertyOptional({ description: 'Knowledge base excerpts used for the answer (RAG mode only)', type: [ChatSourceDto] })
+  sources?: ChatSourceDto[];
+
+  @ApiPropertyOptional({ description: 'Sentence-level check of the answer against the excerpts (RAG mode only)', type: GroundingDto })
+  grounding?: GroundingDto;
+
+  @ApiPropertyOptional({ description: 'Set when the RAG policy disabled or degraded the answer', type: RagPolicyNoticeDto })
+  ragPolicy?: RagPolicyNoticeDto;
+
+  @ApiPropertyOptional({ description: 'Validated JSON of structured endpoints: the anomaly report or the checklist' })
+  result?: unknown;
+
+  @ApiPropertyOptional({ description: 'Tools the model called before answering, in call order', type: [ToolInvocationDto] })
+  toolCalls?: ToolInvocationDto[];
+}
+
+export class GenerateChecklistDto {
+  @ApiProperty({ description: 'Component, endpoint or service to debug', example: 'GET /api/patients' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  component: string;
+
+  @ApiProperty({ description: 'Problem it has', example: 'p90 latency above 2s since the last deploy' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  issue: string;
 }
 
 // New DTO to allow saving conversation pairs from local providers (e.g., Ollama)
@@ -72,3 +232,103 @@ export class SaveChatHistoryDto {
   @IsString()
   model?: string;
 }
+
+// Optional multipart fields sent alongside the knowledge file
+export class UploadKnowledgeDto {
+  @ApiPropertyOptional({ description: 'Chunking strategy (markdown, sentence, csv, fixed); picked from the file type when omitted' })
+  @IsOptional()
+  @IsString()
+  chunkingStrategy?: string;
+
+  @ApiPropertyOptional({
+    description: `Target chunk size in characters (${AI_CONSTANTS.MIN_CHUNK_SIZE}-${AI_CONSTANTS.MAX_CHUNK_SIZE})`,
+    default: AI_CONSTANTS.DEFAULT_CHUNK_SIZE,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(AI_CONSTANTS.MIN_CHUNK_SIZE)
+  @Max(AI_CONSTANTS.MAX_CHUNK_SIZE)
+  chunkSize?: number;
+
+  @ApiPropertyOptional({ description: 'Overlap between consecutive chunks in characters', default: AI_CONSTANTS.DEFAULT_CHUNK_OVERLAP })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  chunkOverlap?: number;
+
+  @ApiPropertyOptional({ description: 'Knowledge collection to add the document to; its chunking settings apply unless overridden here' })
+  @IsOptional()
+  @IsUUID()
+  collectionId?: string;
+}
+
+export class CreateKnowledgeCollectionDto {
+  @ApiProperty({ description: 'Collection name (unique)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'What the collection contains' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Default chunking strategy for uploads into the collection' })
+  @IsOptional()
+  @IsString()
+  chunkingStrategy?: string;
+
+  @ApiPropertyOptional({ description: `Default chunk size in characters (${AI_CONSTANTS.MIN_CHUNK_SIZE}-${AI_CONSTANTS.MAX_CHUNK_SIZE})` })
+  @IsOptional()
+  @IsInt()
+  @Min(AI_CONSTANTS.MIN_CHUNK_SIZE)
+  @Max(AI_CONSTANTS.MAX_CHUNK_SIZE)
+  chunkSize?: number;
+
+  @ApiPropertyOptional({ description: 'Default overlap between consecutive chunks in characters' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  chunkOverlap?: number;
+}
+
+export class KnowledgeChunksQueryDto {
+  @ApiPropertyOptional({ description: 'Number of chunks to skip', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  @ApiPropertyOptional({ description: 'Chunks per page (1-500)', default: AI_CONSTANTS.KNOWLEDGE_CHUNK_PAGE_SIZE })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+export class KnowledgeSearchQueryDto {
+  @ApiProperty({ description: 'Free-text query' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  q: string;
+
+  @ApiPropertyOptional({ description: 'Only search this collection' })
+  @IsOptional()
+  @IsUUID()
+  collectionId?: string;
+
+  @ApiPropertyOptional({ description: 'Only search this document' })
+  @IsOptional()
+  @IsUUID()
+  documentId?: string;
+
+  @ApiPropertyOptional({ description: 'Maximum results (1-50)', default: AI_CONSTANTS.KNOWLEDGE_SEARCH_DEFAULT_LIMIT })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
@@ -0,0 +1,63 @@
+import { IsString, IsOptional, IsUUID, IsInt, IsArray, IsNotEmpty, IsEnum, Min, Max, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { EvaluationMode } from '../entities/evaluation-run.entity';
+
+// At least one of expectedDocumentId, expectedDocumentName and expectedPassage is required
+export class CreateEvaluationCaseDto {
+  @ApiProperty({ description: 'Question to ask' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  question: string;
+
+  @ApiPropertyOptional({ description: 'Knowledge document that should be retrieved' })
+  @IsOptional()
+  @IsUUID()
+  expectedDocumentId?: string;
+
+  @ApiPropertyOptional({ description: 'File name of the document that should be retrieved (used when no ID is given)' })
+  @IsOptional()
+  @IsString()
+  expectedDocumentName?: string;
+
+  @ApiPropertyOptional({ description: 'Text the retrieved chunk should contain' })
+  @IsOptional()
+  @IsString()
+  expectedPassage?: string;
+
+  @ApiPropertyOptional({ description: 'Search only this knowledge collection' })
+  @IsOptional()
+  @IsUUID()
+  collectionId?: string;
+}
+
+export class RunEvaluationDto {
+  @ApiPropertyOptional({ description: 'retrieval (retriever only) or rag (full chat pipeline)', enum: EvaluationMode })
+  @IsOptional()
+  @IsEnum(EvaluationMode)
+  mode?: EvaluationMode;
+
+  @ApiPropertyOptional({ description: 'Cutoff for recall@k and MRR (default 5)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  k?: number;
+
+  @ApiPropertyOptional({ description: 'Note stored with the run, e.g. "chunk size 800"' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+
+  @ApiPropertyOptional({ description: 'Only run these cases (default: all)', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  caseIds?: string[];
+
+  @ApiPropertyOptional({ description: 'AI configuration used for rag runs (default: the active one)' })
+  @IsOptional()
+  @IsUUID()
+  configId?: string;
+}
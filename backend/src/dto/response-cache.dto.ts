@@ -0,0 +1,40 @@
+import { IsOptional, IsUUID, IsString, IsInt, IsBoolean, Min, Max } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+
+export class ListResponseCacheDto {
+  @ApiPropertyOptional({ description: 'Only entries of this AI configuration' })
+  @IsOptional()
+  @IsUUID()
+  configId?: string;
+
+  @ApiPropertyOptional({ description: 'Only entries filled by this prompt type (e.g. performance_summary)' })
+  @IsOptional()
+  @IsString()
+  purpose?: string;
+
+  @ApiPropertyOptional({ description: 'Number of entries to skip', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  @ApiPropertyOptional({ description: 'Entries per page (1-500)', default: AI_CONSTANTS.RESPONSE_CACHE_PAGE_SIZE })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+export class PurgeResponseCacheDto {
+  @ApiPropertyOptional({ description: 'Only purge entries of this AI configuration' })
+  @IsOptional()
+  @IsUUID()
+  configId?: string;
+
+  @ApiPropertyOptional({ description: 'Only purge entries past their TTL', default: false })
+  @IsOptional()
+  @IsBoolean()
+  expiredOnly?: boolean;
+}
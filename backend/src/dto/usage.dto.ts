@@ -0,0 +1,32 @@
+import { IsOptional, IsIn, IsUUID, IsString, IsDateString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { UsageGroupBy } from '../services/llm-usage.service';
+
+export const USAGE_GROUP_BY: UsageGroupBy[] = ['config', 'model', 'session', 'day', 'purpose'];
+
+export class GetUsageSummaryDto {
+  @ApiPropertyOptional({ description: 'Start date (ISO string, default: 30 days before endDate)' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ description: 'End date (ISO string, default: now)' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({ description: 'Dimension to aggregate by (default: day)', enum: USAGE_GROUP_BY })
+  @IsOptional()
+  @IsIn(USAGE_GROUP_BY)
+  groupBy?: UsageGroupBy;
+
+  @ApiPropertyOptional({ description: 'Only calls answered by this AI configuration' })
+  @IsOptional()
+  @IsUUID()
+  configId?: string;
+
+  @ApiPropertyOptional({ description: 'Only calls made for this chat session' })
+  @IsOptional()
+  @IsString()
+  sessionId?: string;
+}
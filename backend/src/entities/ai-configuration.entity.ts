@@ -14,6 +14,7 @@ export enum ModelProvider {
   OLLAMA = 'ollama',
   HUGGINGFACE = 'huggingface',
   ANTHROPIC = 'anthropic',
+  OPENAI_COMPATIBLE = 'openai-compatible',
 }
 
 @Entity('ai_configurations')
@@ -115,6 +116,18 @@ export class AIConfiguration {
   })
   additionalSettings: Record<string, any>;
 
+  // Configurations tried in order when this one fails. null keeps the implicit fallback (Ollama → OpenAI when
+  // OPENAI_API_KEY is set); an empty list disables fallback
+  @Column({
+    type: 'text',
+    nullable: true,
+    transformer: {
+      to: (value: string[] | null | undefined) => (Array.isArray(value) ? JSON.stringify(value) : null),
+      from: (value: string | null) => (value ? JSON.parse(value) : null),
+    },
+  })
+  fallbackConfigIds: string[] | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
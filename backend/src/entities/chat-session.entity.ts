@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Per-session conversation memory: older turns folded into a rolling summary
+@Entity('chat_sessions')
+export class ChatSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index({ unique: true })
+  @Column()
+  sessionId: string;
+
+  @Column({ type: 'text', nullable: true })
+  summary: string | null;
+
+  // The oldest N turns of the session are represented by the summary
+  @Column({
+    type: 'int',
+    default: 0,
+  })
+  summarizedTurns: number;
+
+  @Column({
+    type: 'int',
+    default: 0,
+  })
+  summaryTokens: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
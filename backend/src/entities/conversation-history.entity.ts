@@ -53,6 +53,19 @@ export class ConversationHistory {
     temperature: number;
     maxTokens: number;
     timestamp: Date;
+    // Standalone search query used for retrieval when a RAG follow-up was rewritten
+    queryRewrite?: { query: string; method: string };
+    // Configuration that answered (differs from configId when a fallback did) and every configuration tried
+    providerConfigId?: string;
+    providerAttempts?: { configId?: string; provider: string; outcome: string; retries: number; error?: string }[];
+    // Token split and USD cost of the answering call, as recorded in llm_usage
+    promptTokens?: number;
+    completionTokens?: number;
+    cost?: number;
+    // Set when the answer was served from the response cache
+    responseCache?: { match: string; entryId: string; similarity?: number; cachedAt: Date; savedTokens: number };
+    // Tools the model called before answering
+    toolCalls?: { name: string; arguments: Record<string, unknown>; result?: unknown; error?: string; durationMs: number }[];
   };
 
   @CreateDateColumn()
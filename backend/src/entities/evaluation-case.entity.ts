@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+// Question with the document and/or passage retrieval is expected to find for it
+@Entity('evaluation_cases')
+export class EvaluationCase {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('text')
+  question: string;
+
+  // The expected document by id, or by file name so cases survive re-uploading the knowledge base
+  @Column({ type: 'uuid', nullable: true })
+  expectedDocumentId: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  expectedDocumentName: string | null;
+
+  // Text the relevant chunk must contain (compared case- and whitespace-insensitively)
+  @Column({ type: 'text', nullable: true })
+  expectedPassage: string | null;
+
+  // Limits retrieval for this question like a scoped chat message; null searches the whole knowledge base
+  @Column({ type: 'uuid', nullable: true })
+  collectionId: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,90 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+
+export enum EvaluationMode {
+  // Retriever only: recall@k and MRR
+  RETRIEVAL = 'retrieval',
+  // Full chat pipeline: adds answer faithfulness and whether the expected passage reached the prompt
+  RAG = 'rag',
+}
+
+const json = {
+  to: (value: any) => value ? JSON.stringify(value) : null,
+  from: (value: string | null) => value ? JSON.parse(value) : null,
+};
+
+// Per-question outcome of an evaluation run
+export interface EvaluationCaseResult {
+  caseId: string;
+  question: string;
+  // 1-based rank of the first relevant chunk within k, or null when none was retrieved
+  rank: number | null;
+  reciprocalRank: number;
+  retrieved: { documentId: string; documentName: string; chunkId: string; chunkIndex: number; score: number; relevant: boolean }[];
+  answer?: string;
+  // Model that answered; fallback answers (no model involved) are left out of faithfulness
+  model?: string;
+  fallback?: boolean;
+  faithfulness?: number | null;
+  contextHit?: boolean;
+  error?: string;
+}
+
+// Settings the run was made with, so metric changes can be traced to configuration changes
+export interface EvaluationRunConfig {
+  retrievalMode: string | null;
+  ragTopK: number;
+  excerptChars: number;
+  embeddingModel: string | null;
+  chunkSize: string | null;
+  chunkOverlap: string | null;
+  documentCount: number;
+}
+
+@Entity('evaluation_runs')
+export class EvaluationRun {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Free-form note such as "chunk size 800"
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  label: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  mode: EvaluationMode;
+
+  @Column({ type: 'int' })
+  k: number;
+
+  @Column({ type: 'int' })
+  caseCount: number;
+
+  @Column({ type: 'float' })
+  recallAtK: number;
+
+  @Column({ type: 'float' })
+  mrr: number;
+
+  // RAG runs only
+  @Column({ type: 'float', nullable: true })
+  faithfulness: number | null;
+
+  @Column({ type: 'float', nullable: true })
+  contextRecall: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  durationMs: number;
+
+  @Column({ type: 'text', nullable: true, transformer: json })
+  config: EvaluationRunConfig | null;
+
+  @Column({ type: 'text', nullable: true, transformer: json })
+  results: EvaluationCaseResult[] | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
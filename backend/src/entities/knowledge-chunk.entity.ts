@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { KnowledgeDocument } from './knowledge-document.entity';
+
+@Entity('knowledge_chunks')
+export class KnowledgeChunk {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  documentId: string;
+
+  @Column({ type: 'int' })
+  chunkIndex: number;
+
+  @Column('text')
+  content: string;
+
+  // Character offsets of the chunk within KnowledgeDocument.content
+  @Column({ type: 'int' })
+  startOffset: number;
+
+  @Column({ type: 'int' })
+  endOffset: number;
+
+  // Heading trail ("Results > Latency") or CSV header the chunk belongs to; not part of content
+  @Column({ type: 'text', nullable: true })
+  sectionPath: string | null;
+
+  // Vector from the embedding provider, stored as JSON so SQLite and Postgres share one column type
+  @Column({
+    type: 'text',
+    nullable: true,
+    transformer: {
+      to: (value: number[] | null) => value ? JSON.stringify(value) : null,
+      from: (value: string | null) => value ? JSON.parse(value) : null,
+    },
+  })
+  embedding: number[] | null;
+
+  // "<provider>:<model>" that produced the embedding; vectors from different models are never compared
+  @Column({ type: 'varchar', length: 150, nullable: true })
+  embeddingModel: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Bumped on every save (renumbering, embeddings); RetrieverService compares it across instances
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => KnowledgeDocument, (document) => document.chunks, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: KnowledgeDocument;
+}
@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+} from 'typeorm';
+import { KnowledgeDocument } from './knowledge-document.entity';
+
+// Named group of knowledge documents; chat messages can be scoped to one or more collections
+@Entity('knowledge_collections')
+export class KnowledgeCollection {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100, unique: true })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  // Chunking defaults for uploads into this collection; the upload's own fields win, then KNOWLEDGE_CHUNK_* and built-in defaults
+  @Column({ type: 'varchar', length: 30, nullable: true })
+  chunkingStrategy: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  chunkSize: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  chunkOverlap: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @OneToMany(() => KnowledgeDocument, (document) => document.collection)
+  documents: KnowledgeDocument[];
+}
@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { KnowledgeDocument } from './knowledge-document.entity';
+
+// Superseded version of a knowledge document; the current version lives on the document itself
+@Entity('knowledge_document_versions')
+export class KnowledgeDocumentVersion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  documentId: string;
+
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  mimeType: string;
+
+  @Column({ type: 'int', default: 0 })
+  size: number;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  contentHash: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  chunkCount: number;
+
+  // The version's original upload, kept on disk until the document is deleted
+  @Column({ nullable: true })
+  storagePath: string;
+
+  // When a newer version replaced this one, i.e. when that newer version was uploaded
+  @CreateDateColumn()
+  replacedAt: Date;
+
+  @ManyToOne(() => KnowledgeDocument, (document) => document.versions, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: KnowledgeDocument;
+}
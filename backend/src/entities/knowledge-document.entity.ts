@@ -0,0 +1,116 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { KnowledgeChunk } from './knowledge-chunk.entity';
+import { KnowledgeCollection } from './knowledge-collection.entity';
+import { KnowledgeDocumentVersion } from './knowledge-document-version.entity';
+
+export enum KnowledgeDocumentStatus {
+  // Queued or being parsed/chunked/indexed by the ingestion queue
+  PROCESSING = 'processing',
+  READY = 'ready',
+  // Extraction produced no readable text (e.g., a scanned PDF); kept so the user can see and remove it
+  UNREADABLE = 'unreadable',
+  // Ingestion failed; see `error`. Can be retried while the original file is on disk
+  ERROR = 'error',
+}
+
+export enum KnowledgeIngestionStage {
+  QUEUED = 'queued',
+  PARSING = 'parsing',
+  CLEANING = 'cleaning',
+  CHUNKING = 'chunking',
+  INDEXING = 'indexing',
+}
+
+@Entity('knowledge_documents')
+export class KnowledgeDocument {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  mimeType: string;
+
+  // Null for documents uploaded without a collection
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  collectionId: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  size: number;
+
+  // SHA-256 of the uploaded bytes; identical uploads are rejected as duplicates. Null for rows older than hashing
+  @Index()
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  contentHash: string | null;
+
+  // Incremented by each new version upload; superseded versions are kept in knowledge_document_versions
+  @Column({ type: 'int', default: 1 })
+  version: number;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: KnowledgeDocumentStatus.READY,
+  })
+  status: KnowledgeDocumentStatus;
+
+  // Current (or, after a failure, last) pipeline stage; null once ingestion finished
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  stage: KnowledgeIngestionStage | null;
+
+  // Ingestion progress in percent
+  @Column({ type: 'int', default: 0 })
+  progress: number;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  // Extracted (and for PDF, DOCX, HTML, XLSX and EPUB, Markdown-converted) text; the source of truth for chunking
+  @Column({ type: 'text', default: '' })
+  content: string;
+
+  @Column({ type: 'int', default: 0 })
+  chunkCount: number;
+
+  // Chunking settings the document was split with (see ChunkingService)
+  @Column({ type: 'varchar', length: 30, nullable: true })
+  chunkingStrategy: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  chunkSize: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  chunkOverlap: number | null;
+
+  // Original upload on disk, relative to the uploads directory; null when the file was not persisted
+  @Column({ nullable: true })
+  storagePath: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @OneToMany(() => KnowledgeChunk, (chunk) => chunk.document)
+  chunks: KnowledgeChunk[];
+
+  @OneToMany(() => KnowledgeDocumentVersion, (version) => version.document)
+  versions: KnowledgeDocumentVersion[];
+
+  @ManyToOne(() => KnowledgeCollection, (collection) => collection.documents, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'collectionId' })
+  collection: KnowledgeCollection;
+}
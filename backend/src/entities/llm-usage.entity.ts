@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+// One answered model call: tokens as reported by the provider and their cost under the price table at the time
+@Entity('llm_usage')
+export class LlmUsage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Configuration that answered; null for the implicit OPENAI_API_KEY fallback
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  configId: string | null;
+
+  @Column({ type: 'varchar', length: 50 })
+  provider: string;
+
+  @Column({ type: 'varchar', length: 200 })
+  model: string;
+
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  sessionId: string | null;
+
+  // What the call was for: chat, rag, query_rewrite, grounding_judge, memory_summary, performance_summary...
+  @Column({ type: 'varchar', length: 50, default: 'chat' })
+  purpose: string;
+
+  @Column({ type: 'int', default: 0 })
+  promptTokens: number;
+
+  @Column({ type: 'int', default: 0 })
+  completionTokens: number;
+
+  @Column({ type: 'int', default: 0 })
+  totalTokens: number;
+
+  // True when the provider reported no counts and they were estimated from the text
+  @Column({ type: 'boolean', default: false })
+  estimated: boolean;
+
+  // USD; 0 for local and unpriced models
+  @Column({ type: 'float', default: 0 })
+  cost: number;
+
+  // False when the model has no entry in the price table
+  @Column({ type: 'boolean', default: true })
+  priced: boolean;
+
+  @Index()
+  @CreateDateColumn()
+  createdAt: Date;
+}
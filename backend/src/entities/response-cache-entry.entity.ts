@@ -0,0 +1,79 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+// A model answer kept for reuse: the same prompt sent to the same model with the same parameters gets it back
+@Entity('response_cache')
+export class ResponseCacheEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // sha256 of scopeKey and the normalized prompt
+  @Index()
+  @Column({ type: 'varchar', length: 64 })
+  cacheKey: string;
+
+  // sha256 of provider, model, endpoint, parameters, system prompt and history; semantic matches stay within it
+  @Index()
+  @Column({ type: 'varchar', length: 64 })
+  scopeKey: string;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  configId: string | null;
+
+  @Column({ type: 'varchar', length: 50 })
+  provider: string;
+
+  @Column({ type: 'varchar', length: 200 })
+  model: string;
+
+  // promptType of the call that filled the entry (performance_summary, anomaly_detection, chat...)
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  purpose: string | null;
+
+  // Normalized prompt the entry answers
+  @Column({ type: 'text' })
+  prompt: string;
+
+  @Column({ type: 'text' })
+  response: string;
+
+  // Tokens the original call used; each hit saves as many
+  @Column({ type: 'int', default: 0 })
+  promptTokens: number;
+
+  @Column({ type: 'int', default: 0 })
+  completionTokens: number;
+
+  // Prompt vector for semantic matching, stored as JSON like knowledge chunk embeddings
+  @Column({
+    type: 'text',
+    nullable: true,
+    transformer: {
+      to: (value: number[] | null) => value ? JSON.stringify(value) : null,
+      from: (value: string | null) => value ? JSON.parse(value) : null,
+    },
+  })
+  embedding: number[] | null;
+
+  @Column({ type: 'varchar', length: 150, nullable: true })
+  embeddingModel: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  hits: number;
+
+  @Column({ type: Date, nullable: true })
+  lastHitAt: Date | null;
+
+  @Index()
+  @Column({ type: Date })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
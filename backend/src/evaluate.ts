@@ -0,0 +1,122 @@
+import { NestFactory } from '@nestjs/core';
+import { readFileSync } from 'fs';
+import { AppModule } from './app.module';
+import { EvaluationService, EvaluationCaseInput } from './services/evaluation.service';
+import { EvaluationMode, EvaluationRun } from './entities/evaluation-run.entity';
+
+// Command-line entry for the retrieval evaluation harness (npm run eval -- --help)
+const USAGE = `Usage: npm run eval -- [options]
+
+  --mode retrieval|rag   retriever only (default) or the full chat pipeline
+  --k <n>                cutoff for recall@k and MRR (default 5)
+  --label <text>         note stored with the run
+  --config <id>          AI configuration for rag runs (default: active)
+  --cases <file.json>    import cases from a JSON array before running
+  --list                 list stored runs and exit
+  --compare <a> <b>      compare run a (baseline) with run b and exit`;
+
+function parseArgs(argv: string[]): Record<string, string[]> {
+  const args: Record<string, string[]> = {};
+  let current: string | null = null;
+  for (const arg of argv) {
+    if (arg.startsWith('--')) {
+      current = arg.slice(2);
+      args[current] = [];
+    } else if (current) {
+      args[current].push(arg);
+    }
+  }
+  return args;
+}
+
+const formatMetric = (value: number | null) => (value === null ? '-' : value.toFixed(3));
+
+function formatDelta(current: number | null, previous: number | null): string {
+  if (current === null || previous === null) return '';
+  const delta = current - previous;
+  return ` (${delta >= 0 ? '+' : ''}${delta.toFixed(3)})`;
+}
+
+function printRun(run: EvaluationRun, previous?: EvaluationRun): void {
+  console.log(`Run ${run.id}${run.label ? ` "${run.label}"` : ''} — ${run.mode}, k=${run.k}, ${run.caseCount} cases, ${run.durationMs}ms`);
+  console.log(`  recall@${run.k}:      ${formatMetric(run.recallAtK)}${formatDelta(run.recallAtK, previous?.recallAtK ?? null)}`);
+  console.log(`  MRR:           ${formatMetric(run.mrr)}${formatDelta(run.mrr, previous?.mrr ?? null)}`);
+  if (run.mode === EvaluationMode.RAG) {
+    console.log(`  faithfulness:  ${formatMetric(run.faithfulness)}${formatDelta(run.faithfulness, previous?.faithfulness ?? null)}`);
+    console.log(`  context recall: ${formatMetric(run.contextRecall)}${formatDelta(run.contextRecall, previous?.contextRecall ?? null)}`);
+  }
+  if (previous) {
+    console.log(`  (deltas against ${previous.id}${previous.label ? ` "${previous.label}"` : ''})`);
+  }
+  for (const result of run.results || []) {
+    const outcome = result.error ? `error: ${result.error}` : result.rank ? `rank ${result.rank}` : 'miss';
+    const answeredBy = result.model ? ` (${result.fallback ? 'no model: ' : ''}${result.model})` : '';
+    console.log(`  - [${outcome}] ${result.question}${answeredBy}`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn'] });
+  try {
+    const evaluationService = app.get(EvaluationService);
+
+    if (args.list) {
+      for (const run of await evaluationService.listRuns()) {
+        console.log(
+          `${run.id}  ${run.createdAt.toISOString()}  ${run.mode.padEnd(9)} k=${run.k}  ` +
+          `recall ${formatMetric(run.recallAtK)}  MRR ${formatMetric(run.mrr)}  ` +
+          `faithfulness ${formatMetric(run.faithfulness)}  ${run.label || ''}`,
+        );
+      }
+      return;
+    }
+
+    if (args.compare) {
+      const [baselineId, candidateId] = args.compare;
+      if (!baselineId || !candidateId) {
+        throw new Error('--compare needs two run IDs');
+      }
+      const comparison = await evaluationService.compareRuns(baselineId, candidateId);
+      printRun(comparison.candidate, comparison.baseline);
+      for (const change of comparison.changedCases) {
+        console.log(`  * ${change.question}: ${change.baselineRank ?? 'miss'} → ${change.candidateRank ?? 'miss'}`);
+      }
+      return;
+    }
+
+    if (args.cases?.[0]) {
+      const inputs: EvaluationCaseInput[] = JSON.parse(readFileSync(args.cases[0], 'utf-8'));
+      for (const input of inputs) {
+        await evaluationService.createCase(input);
+      }
+      console.log(`Imported ${inputs.length} evaluation cases`);
+    }
+
+    const mode = (args.mode?.[0] as EvaluationMode) || EvaluationMode.RETRIEVAL;
+    if (!Object.values(EvaluationMode).includes(mode)) {
+      throw new Error(`Unknown mode "${mode}"`);
+    }
+    // Compare with the latest earlier run of the same mode
+    const previous = (await evaluationService.listRuns()).find((run) => run.mode === mode);
+    const run = await evaluationService.run({
+      mode,
+      k: args.k?.[0] ? Number(args.k[0]) : undefined,
+      label: args.label?.join(' '),
+      configId: args.config?.[0],
+    });
+    printRun(run, previous);
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(`Evaluation failed: ${error.message}`);
+  process.exit(1);
+});
@@ -3,9 +3,10 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { AIConfiguration } from '../entities/ai-configuration.entity';
 import { AIConfigurationService } from '../services/ai-configuration.service';
 import { AIConfigurationController } from '../controllers/ai-configuration.controller';
+import { AIModule } from './ai.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([AIConfiguration])],
+  imports: [TypeOrmModule.forFeature([AIConfiguration]), AIModule],
   controllers: [AIConfigurationController],
   providers: [AIConfigurationService],
   exports: [AIConfigurationService],
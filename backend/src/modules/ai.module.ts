@@ -1,11 +1,18 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AIConfiguration } from '../entities/ai-configuration.entity';
+import { LlmUsage } from '../entities/llm-usage.entity';
+import { ResponseCacheEntry } from '../entities/response-cache-entry.entity';
 import { AIService } from '../services/ai.service';
+import { ProviderCircuitBreakerService } from '../services/provider-circuit-breaker.service';
+import { LlmUsageService } from '../services/llm-usage.service';
+import { ResponseCacheService } from '../services/response-cache.service';
+import { KnowledgeModule } from './knowledge.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([AIConfiguration])],
-  providers: [AIService],
-  exports: [AIService],
+  // KnowledgeModule provides the embeddings used for semantic cache matches
+  imports: [TypeOrmModule.forFeature([AIConfiguration, LlmUsage, ResponseCacheEntry]), KnowledgeModule],
+  providers: [AIService, ProviderCircuitBreakerService, LlmUsageService, ResponseCacheService],
+  exports: [AIService, ProviderCircuitBreakerService, LlmUsageService, ResponseCacheService],
 })
 export class AIModule {}
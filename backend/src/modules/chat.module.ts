@@ -1,19 +1,30 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConversationHistory } from '../entities/conversation-history.entity';
+import { ChatSession } from '../entities/chat-session.entity';
 import { ChatService } from '../services/chat.service';
+import { ConversationMemoryService } from '../services/conversation-memory.service';
+import { QueryRewriteService } from '../services/query-rewrite.service';
+import { GroundingService } from '../services/grounding.service';
+import { ChatToolsService } from '../services/chat-tools.service';
 import { ChatController } from '../controllers/chat.controller';
 import { AIModule } from './ai.module';
 import { AIConfigurationModule } from './ai-configuration.module';
+import { KnowledgeModule } from './knowledge.module';
+import { RagPolicyModule } from './rag-policy.module';
+import { PerformanceModule } from './performance.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([ConversationHistory]),
+    TypeOrmModule.forFeature([ConversationHistory, ChatSession]),
     AIModule,
     AIConfigurationModule,
+    KnowledgeModule,
+    RagPolicyModule,
+    PerformanceModule,
   ],
   controllers: [ChatController],
-  providers: [ChatService],
-  exports: [ChatService],
+  providers: [ChatService, ConversationMemoryService, QueryRewriteService, GroundingService, ChatToolsService],
+  exports: [ChatService, GroundingService],
 })
 export class ChatModule {}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EvaluationCase } from '../entities/evaluation-case.entity';
+import { EvaluationRun } from '../entities/evaluation-run.entity';
+import { EvaluationService } from '../services/evaluation.service';
+import { EvaluationController } from '../controllers/evaluation.controller';
+import { ChatModule } from './chat.module';
+import { KnowledgeModule } from './knowledge.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([EvaluationCase, EvaluationRun]), ChatModule, KnowledgeModule],
+  controllers: [EvaluationController],
+  providers: [EvaluationService],
+  exports: [EvaluationService],
+})
+export class EvaluationModule {}
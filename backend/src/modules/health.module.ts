@@ -1,9 +1,11 @@
 import { Module } from '@nestjs/common';
 import { HealthController } from '../controllers/health.controller';
 import { PerformanceModule } from './performance.module';
+import { RagPolicyModule } from './rag-policy.module';
+import { AIModule } from './ai.module';
 
 @Module({
-  imports: [PerformanceModule],
+  imports: [PerformanceModule, RagPolicyModule, AIModule],
   controllers: [HealthController],
 })
 export class HealthModule {}
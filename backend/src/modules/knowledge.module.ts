@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { KnowledgeDocument } from '../entities/knowledge-document.entity';
+import { KnowledgeChunk } from '../entities/knowledge-chunk.entity';
+import { KnowledgeCollection } from '../entities/knowledge-collection.entity';
+import { KnowledgeDocumentVersion } from '../entities/knowledge-document-version.entity';
+import { KnowledgeService } from '../services/knowledge.service';
+import { EmbeddingService } from '../services/embedding.service';
+import { RetrieverService } from '../services/retriever.service';
+import { ChunkingService } from '../services/chunking.service';
+import { IngestionQueueService } from '../services/ingestion-queue.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([KnowledgeDocument, KnowledgeChunk, KnowledgeCollection, KnowledgeDocumentVersion])],
+  providers: [KnowledgeService, EmbeddingService, RetrieverService, ChunkingService, IngestionQueueService],
+  exports: [KnowledgeService, EmbeddingService, RetrieverService, ChunkingService],
+})
+export class KnowledgeModule {}
@@ -3,9 +3,10 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { PerformanceMetrics } from '../entities/performance-metrics.entity';
 import { PerformanceService } from '../services/performance.service';
 import { PerformanceController } from '../controllers/performance.controller';
+import { AIModule } from './ai.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([PerformanceMetrics])],
+  imports: [TypeOrmModule.forFeature([PerformanceMetrics]), AIModule],
   controllers: [PerformanceController],
   providers: [PerformanceService],
   exports: [PerformanceService],
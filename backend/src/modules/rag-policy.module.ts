@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { RagPolicyService } from '../services/rag-policy.service';
+import { AIModule } from './ai.module';
+import { AIConfigurationModule } from './ai-configuration.module';
+
+@Module({
+  imports: [AIModule, AIConfigurationModule],
+  providers: [RagPolicyService],
+  exports: [RagPolicyService],
+})
+export class RagPolicyModule {}
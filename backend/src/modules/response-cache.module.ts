@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { ResponseCacheController } from '../controllers/response-cache.controller';
+import { AIModule } from './ai.module';
+
+@Module({
+  imports: [AIModule],
+  controllers: [ResponseCacheController],
+})
+export class ResponseCacheModule {}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { UsageController } from '../controllers/usage.controller';
+import { AIModule } from './ai.module';
+
+@Module({
+  imports: [AIModule],
+  controllers: [UsageController],
+})
+export class UsageModule {}
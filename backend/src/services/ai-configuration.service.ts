@@ -1,10 +1,23 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { AIConfiguration } from '../entities/ai-configuration.entity';
-import { CreateAIConfigurationDto, UpdateAIConfigurationDto } from '../dto/ai-configuration.dto';
+import { In, Repository } from 'typeorm';
+import { AIConfiguration, ModelProvider } from '../entities/ai-configuration.entity';
+import { CreateAIConfigurationDto, UpdateAIConfigurationDto, ListProviderModelsDto } from '../dto/ai-configuration.dto';
 import axios from 'axios';
 import { ConfigService } from '@nestjs/config';
+import { AIService } from './ai.service';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+
+export interface ConfigurationTestResult {
+  success: boolean;
+  message: string;
+  response?: string;
+  modelUsed?: string;
+  performance?: {
+    responseTime: number;
+    tokenCount: number;
+  };
+}
 
 @Injectable()
 export class AIConfigurationService {
@@ -12,9 +25,12 @@ export class AIConfigurationService {
     @InjectRepository(AIConfiguration)
     private readonly aiConfigRepository: Repository<AIConfiguration>,
     private readonly configService: ConfigService,
+    private readonly aiService: AIService,
   ) {}
 
   async create(createDto: CreateAIConfigurationDto): Promise<AIConfiguration> {
+    await this.assertFallbacks(createDto.fallbackConfigIds);
+
     // If this is set as active, deactivate all others
     if (createDto.isActive) {
       await this.aiConfigRepository.update({ isActive: true }, { isActive: false });
@@ -50,6 +66,7 @@ export class AIConfigurationService {
 
   async update(id: string, updateDto: UpdateAIConfigurationDto): Promise<AIConfiguration> {
     const config = await this.findOne(id);
+    await this.assertFallbacks(updateDto.fallbackConfigIds, id);
 
     // If this is being set as active, deactivate all others
     if (updateDto.isActive) {
@@ -60,6 +77,22 @@ export class AIConfigurationService {
     return await this.aiConfigRepository.save(config);
   }
 
+  // Fallbacks must be other, existing configurations, each listed once
+  private async assertFallbacks(fallbackConfigIds: string[] | null | undefined, ownId?: string): Promise<void> {
+    if (!fallbackConfigIds?.length) return;
+    if (ownId && fallbackConfigIds.includes(ownId)) {
+      throw new BadRequestException('A configuration cannot be its own fallback');
+    }
+    if (new Set(fallbackConfigIds).size !== fallbackConfigIds.length) {
+      throw new BadRequestException('Each fallback configuration may only be listed once');
+    }
+    const existing = await this.aiConfigRepository.find({ where: { id: In(fallbackConfigIds) }, select: ['id'] });
+    const missing = fallbackConfigIds.filter((fallbackId) => !existing.some((config) => config.id === fallbackId));
+    if (missing.length) {
+      throw new BadRequestException(`Fallback configuration not found: ${missing.join(', ')}`);
+    }
+  }
+
   async remove(id: string): Promise<void> {
     const config = await this.findOne(id);
     await this.aiConfigRepository.remove(config);
@@ -75,7 +108,7 @@ export class AIConfigurationService {
     return await this.findOne(id);
   }
 
-  async testConfiguration(id: string): Promise<{ success: boolean; message: string }> {
+  async testConfiguration(id: string, message?: string): Promise<ConfigurationTestResult> {
     const config = await this.findOne(id);
     
     try {
@@ -88,8 +121,35 @@ export class AIConfigurationService {
         return { success: false, message: 'API key is required for OpenAI' };
       }
 
-      // TODO: Add actual connection test based on provider
-      return { success: true, message: 'Configuration is valid' };
+      if (config.modelProvider === 'anthropic' && !config.apiKey && !this.configService.get('ANTHROPIC_API_KEY')) {
+        return { success: false, message: 'API key is required for Anthropic' };
+      }
+
+      if (config.modelProvider === ModelProvider.OPENAI_COMPATIBLE && !config.baseUrl) {
+        return { success: false, message: 'Base URL is required for OpenAI-compatible providers' };
+      }
+
+      // Live round-trip through the configured provider with a short completion
+      const result = await this.aiService.generateResponse(message || 'Reply with a short greeting.', {
+        configId: id,
+        maxTokens: 64,
+        promptType: 'configuration_test',
+        // A fallback answering would hide a broken configuration
+        fallback: false,
+        // Neither would an answer from the response cache
+        cache: false,
+      });
+
+      return {
+        success: true,
+        message: `Configuration is working (${result.modelUsed})`,
+        response: result.response,
+        modelUsed: result.modelUsed,
+        performance: {
+          responseTime: result.responseTime,
+          tokenCount: result.tokensUsed,
+        },
+      };
     } catch (error) {
       return { success: false, message: (error as Error).message };
     }
@@ -166,4 +226,54 @@ export class AIConfigurationService {
       return { success: false, isRunning: false, error: e?.message || 'Unknown error' };
     }
   }
+
+  // Server-side check for a text-generation-inference endpoint; reports the served model for the config form
+  async checkHuggingFaceStatus(baseUrl?: string): Promise<{ success: boolean; isRunning: boolean; version?: string; models?: string[]; error?: string }> {
+    try {
+      const active = await this.findActive();
+      const activeHuggingFace = active?.modelProvider === ModelProvider.HUGGINGFACE ? active : null;
+      const configuredUrl = (
+        activeHuggingFace?.baseUrl ||
+        this.configService.get<string>('HUGGINGFACE_BASE_URL') ||
+        AI_CONSTANTS.HUGGINGFACE_DEFAULT_BASE_URL
+      ).replace(/\/+$/, '');
+      const url = baseUrl ? baseUrl.replace(/\/+$/, '') : configuredUrl;
+
+      const headers: any = { 'Content-Type': 'application/json' };
+      // The stored token only goes to the configured endpoint; any other URL is probed without credentials
+      const apiKey = activeHuggingFace?.apiKey || this.configService.get<string>('HUGGINGFACE_API_KEY');
+      if (apiKey && url === configuredUrl) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+      }
+
+      // TGI serves exactly one model and describes it on /info
+      try {
+        const info = await axios.get(`${url}/info`, { headers, timeout: 2500 });
+        if (info.status === 200 && info.data?.model_id) {
+          return { success: true, isRunning: true, version: info.data.version, models: [info.data.model_id] };
+        }
+      } catch {
+        // Hosted Inference endpoints have no /info; fall through to the OpenAI-style model list
+      }
+
+      const resp = await axios.get(`${url}/v1/models`, { headers, timeout: 2500 });
+      const models = (resp.data?.data || []).map((model: any) => model.id).filter(Boolean);
+      if (resp.status === 200) {
+        return { success: true, isRunning: true, models };
+      }
+      return { success: false, isRunning: false, error: `HTTP ${resp.status}` };
+    } catch (e: any) {
+      return { success: false, isRunning: false, error: e?.message || 'Unknown error' };
+    }
+  }
+
+  // Model discovery for OpenAI-compatible servers, used by the config form before the configuration is saved
+  async listOpenAICompatibleModels(dto: ListProviderModelsDto): Promise<{ success: boolean; models: string[]; error?: string }> {
+    try {
+      const models = await this.aiService.listOpenAICompatibleModels(dto);
+      return { success: true, models };
+    } catch (e: any) {
+      return { success: false, models: [], error: e?.message || 'Unknown error' };
+    }
+  }
 }
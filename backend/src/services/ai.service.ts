@@ -1,22 +1,101 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
 import { OpenAI } from 'openai';
 import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import axios from 'axios';
 import { AIConfiguration, ModelProvider } from '../entities/ai-configuration.entity';
+import { AI_CONSTANTS, ERROR_MESSAGES } from '../common/constants/app.constants';
+import { ProviderCircuitBreakerService } from './provider-circuit-breaker.service';
+import {
+  isProviderFailure,
+  isStreamOptionsRejection,
+  isToolsRejection,
+  isTransientProviderError,
+  ProviderError,
+} from '../utils/provider-errors';
+import { BudgetStatus, LlmBudgetExceededError, LlmUsageService } from './llm-usage.service';
+import { CacheLookup, ResponseCacheHit, ResponseCacheService } from './response-cache.service';
+import {
+  coerceToSchema,
+  describeJsonSchema,
+  extractJson,
+  JsonSchema,
+  parseStructuredOutput,
+  StructuredOutputError,
+  validateJson,
+} from '../utils/structured-output';
+import { ANOMALY_REPORT_SCHEMA, AnomalyReport, Checklist, CHECKLIST_SCHEMA } from '../utils/analysis-schemas';
 
-export interface AIResponse {
+export interface ProviderAttempt {
+  configId?: string;
+  // provider:model as in modelUsed
+  provider: string;
+  outcome: 'answered' | 'failed' | 'circuit-open' | 'over-budget';
+  // Extra calls made after transient errors
+  retries: number;
+  error?: string;
+}
+
+export interface AIResponse<T = unknown> {
   response: string;
+  // provider:model that produced the response (a fallback when the requested configuration failed)
   modelUsed: string;
   responseTime: number;
   tokensUsed: number;
+  // Split of tokensUsed as reported by the provider, estimated from the text when it reported nothing
+  promptTokens?: number;
+  completionTokens?: number;
+  tokensEstimated?: boolean;
+  // USD under the price table; 0 for local models
+  cost?: number;
   config: {
     temperature: number;
     maxTokens: number;
     topP: number;
   };
+  // Configuration that answered; absent for the implicit OPENAI_API_KEY fallback
+  configId?: string;
+  // Every configuration tried, in order
+  attempts?: ProviderAttempt[];
+  // Set when the answer came from the response cache instead of a provider call
+  cache?: ResponseCacheHit;
+  // structuredOutput calls: the validated JSON, and how it was obtained
+  data?: T;
+  structured?: {
+    valid: boolean;
+    // The reply needed cleaning up or type coercion to match the schema
+    repaired: boolean;
+    // Calls made, including retries after invalid output
+    attempts: number;
+    errors: string[];
+  };
+  // Tools the model called before answering, in call order
+  toolCalls?: ToolInvocation[];
+}
+
+// A function the model may call (OpenAI tools, Ollama tools); execute returns JSON-serialisable data
+export interface ChatTool {
+  name: string;
+  description: string;
+  // JSON Schema of the arguments object; arguments are coerced to it and rejected when they still do not match
+  parameters: JsonSchema;
+  execute(args: Record<string, any>): Promise<unknown>;
+}
+
+export interface ToolInvocation {
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  // Set instead of result when the tool is unknown, the arguments are invalid or the tool threw
+  error?: string;
+  durationMs: number;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
 }
 
 export interface GenerationOptions {
@@ -28,18 +107,69 @@ export interface GenerationOptions {
   presencePenalty?: number;
   promptType?: string;
   context?: string;
+  // Earlier turns, oldest first; sent as real chat messages between the system prompt and the prompt
+  history?: ChatMessage[];
+  // Rolling summary of turns older than `history`; appended to the system prompt
+  memorySummary?: string;
+  // false limits the call to the configuration itself (e.g. when testing it)
+  fallback?: boolean;
+  // Chat session the call is made for; recorded with its usage
+  sessionId?: string;
+  // false bypasses the response cache even when the configuration enables it
+  cache?: boolean;
+  // Ask for JSON matching the schema (OpenAI response_format, Ollama format, TGI grammar); generateResponse
+  // validates and repairs the reply and retries when it still does not match
+  structuredOutput?: { name: string; schema: JsonSchema };
+  // Tools offered to OpenAI, OpenAI-compatible and Ollama models; other providers answer without them.
+  // Calls that offer tools bypass the response cache since the answer depends on live data.
+  tools?: ChatTool[];
+  // Called as each tool call completes, e.g. to show it while the answer is still pending
+  onToolCall?: (invocation: ToolInvocation) => void;
+}
+
+// One model turn of the tool loop: its text, the tools it wants called, and the message to replay
+interface ToolStep {
+  content: string;
+  toolCalls: { id?: string; name: string; arguments: unknown }[];
+  message: any;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Text and token counts of a single provider call
+interface ProviderCompletion {
+  response: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface GenerationTarget {
+  configId?: string;
+  name?: string;
+  // Configuration merged with the call's options
+  config: any;
+  // modelUsed when it differs from provider:model
+  modelLabel?: string;
+  // Spent budget that keeps this configuration from being called
+  overBudget?: BudgetStatus;
 }
 
 @Injectable()
 export class AIService {
   private readonly logger = new Logger(AIService.name);
   private openaiClient: OpenAI | null = null;
+  private compatibleClients = new Map<string, OpenAI>();
+  // OpenAI-compatible clients whose server refused stream_options; they stream without usage from then on
+  private readonly streamUsageUnsupported = new WeakSet<OpenAI>();
   private defaultConfig: AIConfiguration | null = null;
 
   constructor(
     @InjectRepository(AIConfiguration)
     private readonly aiConfigRepository: Repository<AIConfiguration>,
     private readonly configService: ConfigService,
+    private readonly circuitBreaker: ProviderCircuitBreakerService,
+    private readonly usageService: LlmUsageService,
+    private readonly responseCache: ResponseCacheService,
   ) {
     // Initialize in constructor
     this.initialize().catch(error => {
@@ -133,23 +263,71 @@ export class AIService {
     }
 
     if (!this.openaiClient || (this.openaiClient as any).apiKey !== key) {
-      this.openaiClient = new OpenAI({ apiKey: key });
+      // Retries are handled by generateResponse, per the AI_RETRY_* settings
+      this.openaiClient = new OpenAI({ apiKey: key, maxRetries: 0 });
     }
     return this.openaiClient;
   }
 
-  async generateResponse(prompt: string, options: GenerationOptions = {}): Promise<AIResponse> {
-    const startTime = Date.now();
-    
+  // Client for vLLM, LM Studio, llama.cpp server or a gateway; never falls back to OPENAI_API_KEY so it can't leak
+  private getOpenAICompatibleClient(config: { baseUrl?: string; apiKey?: string; additionalSettings?: Record<string, any> }): OpenAI {
+    if (!config.baseUrl) {
+      throw new Error(ERROR_MESSAGES.OPENAI_COMPATIBLE_BASE_URL_MISSING);
+    }
+
+    // Accept both http://host:8000 and http://host:8000/v1; only a bare host gets the /v1 prefix
+    let baseURL = config.baseUrl.replace(/\/+$/, '');
+    try {
+      if (new URL(baseURL).pathname === '/') {
+        baseURL = `${baseURL}/v1`;
+      }
+    } catch {
+      throw new Error(`Invalid base URL: ${config.baseUrl}`);
+    }
+
+    const headers: Record<string, string> = config.additionalSettings?.headers || {};
+    const cacheKey = JSON.stringify([baseURL, config.apiKey || '', headers]);
+    let client = this.compatibleClients.get(cacheKey);
+    if (!client) {
+      client = new OpenAI({
+        baseURL,
+        // Most local servers accept any key; the SDK refuses to start without one
+        apiKey: config.apiKey || AI_CONSTANTS.OPENAI_COMPATIBLE_PLACEHOLDER_KEY,
+        defaultHeaders: headers,
+        maxRetries: 0,
+      });
+      this.compatibleClients.set(cacheKey, client);
+    }
+    return client;
+  }
+
+  private async getChatCompletionsClient(config: any): Promise<OpenAI> {
+    return config.modelProvider === ModelProvider.OPENAI_COMPATIBLE
+      ? this.getOpenAICompatibleClient(config)
+      : await this.getOpenAIClient(config.apiKey);
+  }
+
+  // List the models an OpenAI-compatible server exposes on /v1/models
+  async listOpenAICompatibleModels(config: { baseUrl?: string; apiKey?: string; additionalSettings?: Record<string, any> }): Promise<string[]> {
+    const client = this.getOpenAICompatibleClient(config);
+    const models: string[] = [];
+    for await (const model of client.models.list()) {
+      models.push(model.id);
+    }
+    return models;
+  }
+
+  // Configuration to use for a generation call: the requested one, else the active one, else the default
+  private async loadConfiguration(configId?: string): Promise<AIConfiguration> {
     let config: AIConfiguration | null = null;
     
-    if (options.configId) {
+    if (configId) {
       // Use specific configuration if provided
       config = await this.aiConfigRepository.findOne({
-        where: { id: options.configId },
+        where: { id: configId },
       });
       if (!config) {
-        this.logger.warn(`Configuration with ID ${options.configId} not found, falling back to default`);
+        this.logger.warn(`Configuration with ID ${configId} not found, falling back to default`);
       }
     }
     
@@ -170,6 +348,11 @@ export class AIService {
       }
     }
 
+    return config;
+  }
+
+  // Merge per-call options over a configuration
+  private toGenerationConfig(config: AIConfiguration, options: GenerationOptions): any {
     // Validate the configuration has required fields
     if (!config.modelProvider) {
       this.logger.error('Configuration missing model provider:', config);
@@ -188,92 +371,627 @@ export class AIService {
       presencePenalty: config.presencePenalty || 0,
       apiKey: config.apiKey,
       baseUrl: config.baseUrl,
+      additionalSettings: config.additionalSettings || {},
     };
 
     // Merge config with options
-    const finalConfig = {
+    const merged = {
       ...configObj,
       ...options,
     };
+    if (options.memorySummary) {
+      merged.systemPrompt = `${merged.systemPrompt}\n\nSummary of the earlier conversation:\n${options.memorySummary}`;
+    }
+    // Providers without a JSON mode only have the instructions to go on
+    if (options.structuredOutput) {
+      merged.systemPrompt = `${merged.systemPrompt}\n\n${describeJsonSchema(options.structuredOutput.schema)}`;
+    }
+    // additionalSettings.tools=false keeps this configuration's model from calling tools
+    if (!merged.tools?.length || merged.additionalSettings.tools === false) {
+      delete merged.tools;
+    }
+    return merged;
+  }
 
-    this.logger.log(`Generating response with provider: ${finalConfig.modelProvider}, model: ${finalConfig.modelName}`);
+  // Whether a failure of this configuration can be answered by another one
+  hasFallbacks(config: Pick<AIConfiguration, 'modelProvider' | 'fallbackConfigIds'>): boolean {
+    if (Array.isArray(config.fallbackConfigIds)) {
+      return config.fallbackConfigIds.length > 0;
+    }
+    return config.modelProvider === ModelProvider.OLLAMA && !!this.configService.get('OPENAI_API_KEY');
+  }
+
+  // The configuration to call followed by its fallbacks, in order. Fallbacks are not followed transitively.
+  private async resolveGenerationChain(primary: AIConfiguration, options: GenerationOptions): Promise<GenerationTarget[]> {
+    const targets: GenerationTarget[] = [
+      { configId: primary.id, name: primary.name, config: this.toGenerationConfig(primary, options) },
+    ];
+    if (options.fallback === false) {
+      return await this.applyBudgets(targets, options);
+    }
+
+    if (Array.isArray(primary.fallbackConfigIds)) {
+      const ids = primary.fallbackConfigIds.filter((id) => id !== primary.id);
+      const fallbacks = ids.length ? await this.aiConfigRepository.find({ where: { id: In(ids) } }) : [];
+      for (const id of ids) {
+        const fallback = fallbacks.find((config) => config.id === id);
+        if (!fallback) {
+          this.logger.warn(`Fallback configuration ${id} of ${primary.name} no longer exists, skipping it`);
+          continue;
+        }
+        targets.push({ configId: fallback.id, name: fallback.name, config: this.toGenerationConfig(fallback, options) });
+      }
+    } else if (this.hasFallbacks(primary)) {
+      // Without a declared list, Ollama falls back to OpenAI when a server key is available
+      targets.push({
+        config: {
+          ...targets[0].config,
+          modelProvider: ModelProvider.OPENAI,
+          modelName: 'gpt-3.5-turbo',
+          apiKey: this.configService.get('OPENAI_API_KEY'),
+          baseUrl: undefined,
+        },
+        modelLabel: 'fallback-openai:gpt-3.5-turbo',
+      });
+    }
+    return await this.applyBudgets(targets, options);
+  }
+
+  // Spent budgets: a blocking one on the requested configuration refuses the call; otherwise the configuration is
+  // skipped, and a downgrading budget's downgradeConfigId is tried in its place
+  private async applyBudgets(targets: GenerationTarget[], options: GenerationOptions): Promise<GenerationTarget[]> {
+    const checked: GenerationTarget[] = [];
+    for (const [index, target] of targets.entries()) {
+      const budget = await this.usageService.findExceededBudget({
+        configId: target.configId,
+        name: target.name,
+        provider: target.config.modelProvider,
+        model: target.config.modelName,
+        // The implicit OpenAI fallback is priced by the table, not by the Ollama configuration it stands in for
+        additionalSettings: target.configId ? target.config.additionalSettings : null,
+      });
+      if (!budget) {
+        checked.push(target);
+        continue;
+      }
+      if (index === 0 && budget.action === 'block') {
+        throw new LlmBudgetExceededError(budget);
+      }
+      checked.push({ ...target, overBudget: budget });
+
+      const downgradeId = budget.action === 'downgrade' ? budget.downgradeConfigId : undefined;
+      if (!downgradeId || options.fallback === false || [...targets, ...checked].some((t) => t.configId === downgradeId)) {
+        continue;
+      }
+      const downgrade = await this.aiConfigRepository.findOne({ where: { id: downgradeId } });
+      if (!downgrade) {
+        this.logger.warn(`Budget downgrade configuration ${downgradeId} no longer exists`);
+        continue;
+      }
+      const [replacement] = await this.applyBudgets(
+        [{ configId: downgrade.id, name: downgrade.name, config: this.toGenerationConfig(downgrade, options) }],
+        { ...options, fallback: false },
+      ).catch(() => []);
+      if (replacement) checked.push(replacement);
+    }
+    return checked;
+  }
+
+  private getRetryAttempts(): number {
+    const configured = parseInt(this.configService.get<string>('AI_RETRY_ATTEMPTS') || '', 10);
+    return configured >= 0 ? configured : AI_CONSTANTS.PROVIDER_RETRY_ATTEMPTS;
+  }
+
+  private getStructuredOutputRetries(): number {
+    const configured = parseInt(this.configService.get<string>('STRUCTURED_OUTPUT_RETRIES') || '', 10);
+    return configured >= 0 ? configured : AI_CONSTANTS.STRUCTURED_OUTPUT_RETRIES;
+  }
+
+  private getToolMaxSteps(): number {
+    const configured = parseInt(this.configService.get<string>('TOOL_CALL_MAX_STEPS') || '', 10);
+    return configured > 0 ? configured : AI_CONSTANTS.TOOL_CALL_MAX_STEPS;
+  }
+
+  private getRetryBaseDelayMs(): number {
+    const configured = parseInt(this.configService.get<string>('AI_RETRY_BASE_DELAY_MS') || '', 10);
+    return configured >= 0 ? configured : AI_CONSTANTS.PROVIDER_RETRY_BASE_DELAY_MS;
+  }
+
+  // One configuration: transient errors are retried with exponential backoff while its circuit allows calls
+  private async callWithRetries(
+    key: string,
+    attempt: ProviderAttempt,
+    call: () => Promise<AIResponse>,
+    canRetry: () => boolean,
+  ): Promise<AIResponse> {
+    const maxRetries = this.getRetryAttempts();
+    for (let retry = 0; ; retry++) {
+      try {
+        const response = await call();
+        this.circuitBreaker.recordSuccess(key);
+        return response;
+      } catch (error) {
+        if (isProviderFailure(error)) {
+          this.circuitBreaker.recordFailure(key, error as Error);
+        } else {
+          this.circuitBreaker.recordSuccess(key);
+        }
+        if (retry >= maxRetries || !isTransientProviderError(error) || !canRetry() || !this.circuitBreaker.tryAcquire(key)) {
+          throw error;
+        }
+        const baseDelay = this.getRetryBaseDelayMs();
+        const delay = baseDelay * 2 ** retry + Math.floor(Math.random() * (baseDelay / 2));
+        this.logger.warn(`${attempt.provider} failed with a transient error, retrying in ${delay}ms: ${(error as Error).message}`);
+        attempt.retries += 1;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  // Try the chain in order; configurations over budget or whose circuit is open are skipped without a call.
+  // canFallback=false (tokens already streamed) stops at the first failure.
+  private async runWithFallbacks(
+    targets: GenerationTarget[],
+    options: GenerationOptions,
+    call: (config: any) => Promise<AIResponse>,
+    canFallback: () => boolean = () => true,
+  ): Promise<AIResponse> {
+    const attempts: ProviderAttempt[] = [];
+    let lastError: Error | undefined;
+
+    for (const target of targets) {
+      const { config } = target;
+      const modelUsed = target.modelLabel || `${config.modelProvider}:${config.modelName}`;
+      const attempt: ProviderAttempt = { configId: target.configId, provider: modelUsed, outcome: 'failed', retries: 0 };
+      attempts.push(attempt);
+
+      if (target.overBudget) {
+        attempt.outcome = 'over-budget';
+        lastError = new LlmBudgetExceededError(target.overBudget);
+        this.logger.warn(`Skipping ${modelUsed}: ${lastError.message}`);
+        continue;
+      }
+
+      const key = this.circuitBreaker.keyFor(config);
+      if (!this.circuitBreaker.tryAcquire(key)) {
+        attempt.outcome = 'circuit-open';
+        lastError = new Error(`${modelUsed} is unavailable after repeated failures (circuit open)`);
+        this.logger.warn(`Skipping ${modelUsed}: circuit ${key} is open`);
+        continue;
+      }
+
+      if (attempts.length > 1) {
+        this.logger.warn(`Falling back to ${modelUsed}`);
+      }
+      try {
+        const response = await this.callWithRetries(key, attempt, () => call(config), canFallback);
+        attempt.outcome = 'answered';
+        const cost = await this.recordUsage(target, response, options);
+        return { ...response, modelUsed, configId: target.configId, attempts, cost };
+      } catch (error) {
+        attempt.error = (error as Error).message;
+        lastError = error as Error;
+        if (!canFallback()) break;
+      }
+    }
 
+    throw lastError || new Error('No AI configuration available');
+  }
+
+  // Usage accounting must never fail the answer it accounts for
+  private async recordUsage(target: GenerationTarget, response: AIResponse, options: GenerationOptions): Promise<number | undefined> {
     try {
-      switch (finalConfig.modelProvider) {
-        case ModelProvider.OPENAI:
-          const openaiResponse = await this.generateOpenAIResponse(prompt, finalConfig);
-          return {
-            response: openaiResponse.choices[0].message.content || '',
-            modelUsed: `${finalConfig.modelProvider}:${finalConfig.modelName}`,
-            responseTime: Date.now() - startTime,
-            tokensUsed: openaiResponse.usage?.total_tokens || 0,
-            config: {
-              temperature: finalConfig.temperature,
-              maxTokens: finalConfig.maxTokens,
-              topP: finalConfig.topP,
-            },
-          };
-
-        case ModelProvider.OLLAMA:
-          try {
-            const ollamaResponse = await this.generateOllamaResponse(prompt, finalConfig);
-            return {
-              response: ollamaResponse.response,
-              modelUsed: `${finalConfig.modelProvider}:${finalConfig.modelName}`,
-              responseTime: ollamaResponse.responseTime,
-              tokensUsed: ollamaResponse.tokensUsed,
-              config: ollamaResponse.config,
-            };
-          } catch (ollamaError) {
-            this.logger.warn('Ollama not available, attempting fallback to OpenAI', ollamaError.message);
-            
-            // Try to fallback to OpenAI if available
-            const openaiKey = this.configService.get('OPENAI_API_KEY');
-            if (openaiKey) {
-              this.logger.log('Falling back to OpenAI');
-              const fallbackConfig = {
-                ...finalConfig,
-                modelProvider: ModelProvider.OPENAI,
-                modelName: 'gpt-3.5-turbo',
-                apiKey: openaiKey,
-              };
-              
-              const openaiResponse = await this.generateOpenAIResponse(prompt, fallbackConfig);
-              return {
-                response: openaiResponse.choices[0].message.content || '',
-                modelUsed: `fallback-openai:${fallbackConfig.modelName}`,
-                responseTime: Date.now() - startTime,
-                tokensUsed: openaiResponse.usage?.total_tokens || 0,
-                config: {
-                  temperature: finalConfig.temperature,
-                  maxTokens: finalConfig.maxTokens,
-                  topP: finalConfig.topP,
-                },
-              };
-            } else {
-              throw ollamaError;
-            }
-          }
+      const { cost } = await this.usageService.record({
+        configId: target.configId,
+        provider: target.config.modelProvider,
+        model: target.config.modelName,
+        additionalSettings: target.configId ? target.config.additionalSettings : null,
+        sessionId: options.sessionId,
+        purpose: options.promptType,
+        promptTokens: response.promptTokens || 0,
+        completionTokens: response.completionTokens || 0,
+        estimated: response.tokensEstimated,
+      });
+      return cost;
+    } catch (error) {
+      this.logger.warn(`Failed to record LLM usage: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  // Response cache entry for the call, or null when the configuration or the call does not use the cache
+  private async lookupCache(primary: AIConfiguration, prompt: string, options: GenerationOptions): Promise<CacheLookup | null> {
+    if (options.cache === false || options.tools?.length) return null;
+    return await this.responseCache.lookup(
+      { configId: primary.id, config: this.toGenerationConfig(primary, options) },
+      prompt,
+      options.promptType,
+    );
+  }
+
+  // Only answers of the requested configuration are kept: a fallback's answer would later pass for its own
+  private async storeInCache(lookup: CacheLookup | null, response: AIResponse): Promise<void> {
+    if (lookup && response.configId === lookup.configId) {
+      await this.responseCache.store(lookup, response);
+    }
+  }
+
+  // A cache hit costs no tokens; savedTokens on `cache` tells what the original call used
+  private fromCache(lookup: CacheLookup, primary: AIConfiguration, options: GenerationOptions, startTime: number): AIResponse {
+    const { response, modelUsed, ...cache } = lookup.hit!;
+    const config = this.toGenerationConfig(primary, options);
+    return {
+      response,
+      modelUsed,
+      responseTime: Date.now() - startTime,
+      tokensUsed: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      config: { temperature: config.temperature, maxTokens: config.maxTokens, topP: config.topP },
+      configId: primary.id,
+      attempts: [],
+      cache,
+    };
+  }
+
+  // Parse a structuredOutput reply; other responses pass through
+  private withStructuredOutput(response: AIResponse, options: GenerationOptions): AIResponse {
+    if (!options.structuredOutput) return response;
+    const parsed = parseStructuredOutput(response.response, options.structuredOutput.schema);
+    return {
+      ...response,
+      data: parsed.data,
+      structured: { valid: parsed.valid, repaired: parsed.repaired, attempts: 1, errors: parsed.errors },
+    };
+  }
+
+  // Structured calls are retried with the validation errors until the reply matches the schema; tokens and cost
+  // add up across the tries. StructuredOutputError once STRUCTURED_OUTPUT_RETRIES (default 2) retries are used up.
+  async generateResponse(prompt: string, options: GenerationOptions = {}): Promise<AIResponse> {
+    const { structuredOutput } = options;
+    if (!structuredOutput) {
+      return await this.generateOnce(prompt, options);
+    }
+
+    const maxRetries = this.getStructuredOutputRetries();
+    let history = options.history || [];
+    let request = prompt;
+    let tokensUsed = 0;
+    let cost = 0;
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.generateOnce(request, { ...options, history });
+      tokensUsed += response.tokensUsed;
+      cost += response.cost || 0;
+      const structured = response.structured!;
+      if (structured.valid) {
+        return { ...response, tokensUsed, cost: Math.round(cost * 1_000_000) / 1_000_000, structured: { ...structured, attempts: attempt } };
+      }
+      if (attempt > maxRetries) {
+        throw new StructuredOutputError(structuredOutput.name, structured.errors, response.response);
+      }
 
-        default:
-          this.logger.error(`Unsupported model provider: ${finalConfig.modelProvider}`);
-          throw new Error(`Unsupported model provider: ${finalConfig.modelProvider}`);
+      this.logger.warn(`${structuredOutput.name} reply did not match its schema (attempt ${attempt}): ${structured.errors.slice(0, 3).join('; ')}`);
+      history = [...history, { role: 'user', content: request }, { role: 'assistant', content: response.response }];
+      request = `Your reply did not match the schema: ${structured.errors.slice(0, 5).join('; ')}. Reply again with only the corrected JSON.`;
+    }
+  }
+
+  private async generateOnce(prompt: string, options: GenerationOptions): Promise<AIResponse> {
+    const startTime = Date.now();
+    const primary = await this.loadConfiguration(options.configId);
+    const cached = await this.lookupCache(primary, prompt, options);
+    if (cached?.hit) {
+      return this.withStructuredOutput(this.fromCache(cached, primary, options, startTime), options);
+    }
+    const targets = await this.resolveGenerationChain(primary, options);
+
+    try {
+      const response = this.withStructuredOutput(
+        await this.runWithFallbacks(targets, options, (config) => this.callProvider(prompt, config, startTime)),
+        options,
+      );
+      // Replies that break the schema are retried, never cached
+      if (response.structured?.valid !== false) {
+        await this.storeInCache(cached, response);
       }
+      return response;
     } catch (error) {
+      if (error instanceof LlmBudgetExceededError) throw error;
       this.logger.error('AI generation failed:', error);
       throw new Error(`AI generation failed: ${error.message}`);
     }
   }
 
-  private async generateOpenAIResponse(prompt: string, config: any): Promise<any> {
-    const client = await this.getOpenAIClient(config.apiKey);
-    
-    const messages: ChatCompletionMessageParam[] = [
-      { role: 'system', content: config.systemPrompt },
+  // Single call to the configuration's provider, without retries or fallbacks
+  private async callProvider(prompt: string, finalConfig: any, startTime: number): Promise<AIResponse> {
+    this.logger.log(`Generating response with provider: ${finalConfig.modelProvider}, model: ${finalConfig.modelName}`);
+    if (this.offersTools(finalConfig)) {
+      return await this.callProviderWithTools(prompt, finalConfig, startTime);
+    }
+
+    const generationConfig = {
+      temperature: finalConfig.temperature,
+      maxTokens: finalConfig.maxTokens,
+      topP: finalConfig.topP,
+    };
+
+    let result: ProviderCompletion;
+    let responseTime: number | undefined;
+    switch (finalConfig.modelProvider) {
+      case ModelProvider.OPENAI:
+      case ModelProvider.OPENAI_COMPATIBLE: {
+        const openaiResponse = await this.generateOpenAIResponse(prompt, finalConfig);
+        result = {
+          response: openaiResponse.choices[0].message.content || '',
+          promptTokens: openaiResponse.usage?.prompt_tokens || 0,
+          completionTokens: openaiResponse.usage?.completion_tokens || 0,
+        };
+        break;
+      }
+
+      case ModelProvider.OLLAMA: {
+        const ollamaResponse = await this.generateOllamaResponse(prompt, finalConfig);
+        result = ollamaResponse;
+        responseTime = ollamaResponse.responseTime;
+        break;
+      }
+
+      case ModelProvider.ANTHROPIC:
+        result = await this.generateAnthropicResponse(prompt, finalConfig);
+        break;
+
+      case ModelProvider.HUGGINGFACE:
+        result = await this.generateHuggingFaceResponse(prompt, finalConfig);
+        break;
+
+      default:
+        this.logger.error(`Unsupported model provider: ${finalConfig.modelProvider}`);
+        throw new Error(`Unsupported model provider: ${finalConfig.modelProvider}`);
+    }
+
+    return this.toAIResponse(prompt, finalConfig, result, responseTime ?? Date.now() - startTime, generationConfig);
+  }
+
+  // Tools are sent to the providers with a function-calling API; the others answer without them
+  private offersTools(config: any): boolean {
+    return !!config.tools?.length && [
+      ModelProvider.OPENAI,
+      ModelProvider.OPENAI_COMPATIBLE,
+      ModelProvider.OLLAMA,
+    ].includes(config.modelProvider);
+  }
+
+  // Multi-step tool loop: while the model asks for tools they are run and their results sent back, up to
+  // TOOL_CALL_MAX_STEPS (default 4) turns; the turn after that gets no tools so the model has to answer.
+  // Tokens add up across turns. A model or server that refuses tools is asked again without them.
+  private async callProviderWithTools(prompt: string, finalConfig: any, startTime: number): Promise<AIResponse> {
+    const isOllama = finalConfig.modelProvider === ModelProvider.OLLAMA;
+    const connection = isOllama ? this.getOllamaConnection(finalConfig) : null;
+    const messages: any[] = this.buildChatMessages(prompt, finalConfig);
+    const invocations: ToolInvocation[] = [];
+    const maxSteps = this.getToolMaxSteps();
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    for (let turn = 0; ; turn++) {
+      const offerTools = turn < maxSteps;
+      let step: ToolStep;
+      try {
+        step = connection
+          ? await this.ollamaToolStep(prompt, messages, finalConfig, offerTools, connection, turn === 0)
+          : await this.openAIToolStep(prompt, messages, finalConfig, offerTools);
+      } catch (error) {
+        if (turn === 0 && isToolsRejection(error)) {
+          this.logger.warn(`${finalConfig.modelProvider}:${finalConfig.modelName} refused tools, answering without them`);
+          return await this.callProvider(prompt, { ...finalConfig, tools: undefined }, startTime);
+        }
+        throw connection ? this.toOllamaError(error, connection.baseUrl) : error;
+      }
+      promptTokens += step.promptTokens;
+      completionTokens += step.completionTokens;
+
+      if (!offerTools || !step.toolCalls.length) {
+        const response = this.toAIResponse(
+          prompt,
+          finalConfig,
+          { response: step.content, promptTokens, completionTokens },
+          Date.now() - startTime,
+          { temperature: finalConfig.temperature, maxTokens: finalConfig.maxTokens, topP: finalConfig.topP },
+        );
+        return invocations.length ? { ...response, toolCalls: invocations } : response;
+      }
+
+      messages.push(step.message);
+      for (const call of step.toolCalls) {
+        const invocation = await this.invokeTool(finalConfig.tools, call.name, call.arguments);
+        invocations.push(invocation);
+        finalConfig.onToolCall?.(invocation);
+        const content = this.toToolMessageContent(invocation);
+        messages.push(connection
+          ? { role: 'tool', tool_name: call.name, content }
+          : { role: 'tool', tool_call_id: call.id, content });
+      }
+    }
+  }
+
+  // Tool definitions in the function-calling format shared by OpenAI and Ollama
+  private toFunctionTools(tools: ChatTool[]) {
+    return tools.map((tool) => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters as Record<string, unknown>,
+      },
+    }));
+  }
+
+  // Runs one requested call; unknown tools, invalid arguments and failures become the error the model reads back
+  private async invokeTool(tools: ChatTool[], name: string, rawArguments: unknown): Promise<ToolInvocation> {
+    const startTime = Date.now();
+    // OpenAI sends the arguments as a JSON string, Ollama as an object
+    const parsed = typeof rawArguments === 'string' ? extractJson(rawArguments || '{}')?.value : rawArguments;
+    const args = (parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}) as Record<string, unknown>;
+
+    const tool = tools.find((candidate) => candidate.name === name);
+    if (!tool) {
+      return { name, arguments: args, error: `Unknown tool ${name}`, durationMs: 0 };
+    }
+    const coerced = coerceToSchema(args, tool.parameters).value as Record<string, unknown>;
+    const errors = validateJson(coerced, tool.parameters);
+    if (errors.length) {
+      return { name, arguments: args, error: `Invalid arguments: ${errors.slice(0, 3).join('; ')}`, durationMs: 0 };
+    }
+
+    try {
+      const result = await tool.execute(coerced);
+      return { name, arguments: coerced, result, durationMs: Date.now() - startTime };
+    } catch (error) {
+      this.logger.warn(`Tool ${name} failed: ${(error as Error).message}`);
+      return { name, arguments: coerced, error: (error as Error).message, durationMs: Date.now() - startTime };
+    }
+  }
+
+  // The tool message the model reads: the JSON result cut to TOOL_RESULT_MAX_CHARS, or the error
+  private toToolMessageContent(invocation: ToolInvocation): string {
+    if (invocation.error) {
+      return JSON.stringify({ error: invocation.error });
+    }
+    const text = JSON.stringify(invocation.result ?? null);
+    return text.length > AI_CONSTANTS.TOOL_RESULT_MAX_CHARS
+      ? `${text.slice(0, AI_CONSTANTS.TOOL_RESULT_MAX_CHARS)}... (truncated)`
+      : text;
+  }
+
+  // Counts a provider did not report are estimated from the text, so usage is never recorded as free
+  private toAIResponse(
+    prompt: string,
+    finalConfig: any,
+    result: ProviderCompletion,
+    responseTime: number,
+    generationConfig: AIResponse['config'],
+  ): AIResponse {
+    const estimate = (text: string) => Math.ceil((text || '').length / AI_CONSTANTS.CHARS_PER_TOKEN);
+    const promptTokens = result.promptTokens
+      || estimate(this.buildChatMessages(prompt, finalConfig).map((message) => message.content).join('\n'));
+    const completionTokens = result.completionTokens || estimate(result.response);
+
+    return {
+      response: result.response,
+      modelUsed: `${finalConfig.modelProvider}:${finalConfig.modelName}`,
+      responseTime,
+      tokensUsed: promptTokens + completionTokens,
+      promptTokens,
+      completionTokens,
+      tokensEstimated: !result.promptTokens || (!result.completionTokens && !!result.response),
+      config: generationConfig,
+    };
+  }
+
+  // Stream a response token-by-token; resolves with the full response once the provider finishes.
+  // Retries and fallbacks only happen before the first token: switching afterwards would send two answers.
+  async generateResponseStream(
+    prompt: string,
+    options: GenerationOptions = {},
+    onToken: (token: string) => void,
+  ): Promise<AIResponse> {
+    const startTime = Date.now();
+    const primary = await this.loadConfiguration(options.configId);
+    const cached = await this.lookupCache(primary, prompt, options);
+    if (cached?.hit) {
+      onToken(cached.hit.response);
+      return this.fromCache(cached, primary, options, startTime);
+    }
+    const targets = await this.resolveGenerationChain(primary, options);
+    let hasStreamed = false;
+    const relay = (token: string) => {
+      hasStreamed = true;
+      onToken(token);
+    };
+
+    try {
+      const response = await this.runWithFallbacks(
+        targets,
+        options,
+        (config) => this.streamProvider(prompt, config, relay, startTime),
+        () => !hasStreamed,
+      );
+      await this.storeInCache(cached, response);
+      return response;
+    } catch (error) {
+      if (error instanceof LlmBudgetExceededError) throw error;
+      this.logger.error('AI streaming failed:', error);
+      throw new Error(`AI generation failed: ${error.message}`);
+    }
+  }
+
+  // Single streamed call to the configuration's provider, without retries or fallbacks
+  private async streamProvider(
+    prompt: string,
+    finalConfig: any,
+    onToken: (token: string) => void,
+    startTime: number,
+  ): Promise<AIResponse> {
+    this.logger.log(`Streaming response with provider: ${finalConfig.modelProvider}, model: ${finalConfig.modelName}`);
+    if (this.offersTools(finalConfig)) {
+      // Tool turns are not streamed; the answer is relayed once the model stops calling tools
+      const response = await this.callProviderWithTools(prompt, finalConfig, startTime);
+      if (response.response) {
+        onToken(response.response);
+      }
+      return response;
+    }
+
+    const generationConfig = {
+      temperature: finalConfig.temperature,
+      maxTokens: finalConfig.maxTokens,
+      topP: finalConfig.topP,
+    };
+
+    let result: ProviderCompletion;
+    switch (finalConfig.modelProvider) {
+      case ModelProvider.OPENAI:
+      case ModelProvider.OPENAI_COMPATIBLE:
+        result = await this.streamOpenAIResponse(prompt, finalConfig, onToken);
+        break;
+
+      case ModelProvider.OLLAMA:
+        result = await this.streamOllamaResponse(prompt, finalConfig, onToken);
+        break;
+
+      case ModelProvider.ANTHROPIC:
+        result = await this.streamAnthropicResponse(prompt, finalConfig, onToken);
+        break;
+
+      case ModelProvider.HUGGINGFACE:
+        result = await this.streamHuggingFaceResponse(prompt, finalConfig, onToken);
+        break;
+
+      default:
+        this.logger.error(`Unsupported model provider: ${finalConfig.modelProvider}`);
+        throw new Error(`Unsupported model provider: ${finalConfig.modelProvider}`);
+    }
+
+    return this.toAIResponse(prompt, finalConfig, result, Date.now() - startTime, generationConfig);
+  }
+
+  // System prompt, then the earlier turns, then the current prompt as the final user message
+  private buildChatMessages(prompt: string, config: any): ChatMessage[] {
+    const history: ChatMessage[] = (config.history || []).filter((m: ChatMessage) => m.role !== 'system');
+    return [
+      ...(config.systemPrompt ? [{ role: 'system' as const, content: config.systemPrompt }] : []),
+      ...history,
       { role: 'user', content: prompt },
     ];
+  }
 
-    return await client.chat.completions.create({
+  private buildOpenAIRequest(
+    prompt: string,
+    config: any,
+    messages: ChatCompletionMessageParam[] = this.buildChatMessages(prompt, config),
+  ) {
+    return {
       model: config.modelName || 'gpt-3.5-turbo',
       messages,
       temperature: config.temperature,
@@ -281,10 +999,80 @@ export class AIService {
       top_p: config.topP,
       frequency_penalty: config.frequencyPenalty || 0,
       presence_penalty: config.presencePenalty || 0,
+      // json_object works on every chat model and compatible server; the schema itself is in the system prompt
+      ...(config.structuredOutput ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+  }
+
+  private async generateOpenAIResponse(prompt: string, config: any): Promise<any> {
+    const client = await this.getChatCompletionsClient(config);
+    return await client.chat.completions.create(this.buildOpenAIRequest(prompt, config));
+  }
+
+  // One turn of the tool loop. The last turn still lists the tools, which the tool messages refer to, but declines them.
+  private async openAIToolStep(prompt: string, messages: any[], config: any, offerTools: boolean): Promise<ToolStep> {
+    const client = await this.getChatCompletionsClient(config);
+    const completion = await client.chat.completions.create({
+      ...this.buildOpenAIRequest(prompt, config, messages),
+      tools: this.toFunctionTools(config.tools),
+      ...(offerTools ? {} : { tool_choice: 'none' as const }),
     });
+    const message = completion.choices[0].message;
+    return {
+      content: message.content || '',
+      toolCalls: (message.tool_calls || []).map((call) => ({ id: call.id, name: call.function.name, arguments: call.function.arguments })),
+      message: { role: 'assistant', content: message.content, tool_calls: message.tool_calls },
+      promptTokens: completion.usage?.prompt_tokens || 0,
+      completionTokens: completion.usage?.completion_tokens || 0,
+    };
   }
 
-  private async generateOllamaResponse(prompt: string, config: any): Promise<any> {
+  private async streamOpenAIResponse(
+    prompt: string,
+    config: any,
+    onToken: (token: string) => void,
+  ): Promise<ProviderCompletion> {
+    const client = await this.getChatCompletionsClient(config);
+    const request = { ...this.buildOpenAIRequest(prompt, config), stream: true as const };
+    const open = (includeUsage: boolean) => client.chat.completions.create(
+      includeUsage ? { ...request, stream_options: { include_usage: true } } : request,
+    );
+    let stream: Awaited<ReturnType<typeof open>>;
+    if (this.streamUsageUnsupported.has(client)) {
+      stream = await open(false);
+    } else {
+      try {
+        stream = await open(true);
+      } catch (error) {
+        // Some OpenAI-compatible servers reject fields they do not know; the answer then streams without usage
+        if (config.modelProvider !== ModelProvider.OPENAI_COMPATIBLE || !isStreamOptionsRejection(error)) throw error;
+        this.logger.warn(`${config.baseUrl} refused stream_options, streaming without token usage`);
+        this.streamUsageUnsupported.add(client);
+        stream = await open(false);
+      }
+    }
+
+    let response = '';
+    let promptTokens = 0;
+    let completionTokens = 0;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        response += delta;
+        onToken(delta);
+      }
+      // With include_usage the final chunk carries usage and an empty choices array
+      if (chunk.usage) {
+        promptTokens = chunk.usage.prompt_tokens;
+        completionTokens = chunk.usage.completion_tokens;
+      }
+    }
+
+    return { response, promptTokens, completionTokens };
+  }
+
+  // Resolve the Ollama base URL and request headers, accounting for tunneling services
+  private getOllamaConnection(config: any): { baseUrl: string; headers: Record<string, string> } {
     // Use the baseUrl from config - no hardcoding
     // For production deployments, this should come from the AI configuration
     let baseUrl = config.baseUrl || 'http://127.0.0.1:11434';
@@ -295,8 +1083,6 @@ export class AIService {
       baseUrl = baseUrl.replace('http://', 'https://');
     }
 
-    const startTime = Date.now();
-    
     const headers: any = {
       'Content-Type': 'application/json',
       'User-Agent': 'Backend-AI-Service/1.0',
@@ -314,35 +1100,50 @@ export class AIService {
         this.logger.warn('Failed to parse baseUrl for Host header:', baseUrl);
       }
     }
+
+    return { baseUrl, headers };
+  }
+
+  // Quick precheck to avoid Heroku router timeouts if the tunnel isn't reachable
+  private async precheckOllama(baseUrl: string, headers: Record<string, string>): Promise<void> {
+    try {
+      await axios.get(`${baseUrl}/api/version`, { headers, timeout: 2500 });
+    } catch (preErr: any) {
+      const msg = preErr?.message || 'unknown error';
+      this.logger.warn(`Ollama precheck failed at ${baseUrl}: ${msg}`);
+      throw new ProviderError(`Ollama not reachable (precheck): ${msg}`, preErr);
+    }
+  }
+
+  private buildOllamaChatRequest(prompt: string, config: any, stream: boolean, messages?: any[]) {
+    return {
+      model: config.modelName || 'llama2',
+      messages: messages || this.buildChatMessages(prompt, config),
+      options: {
+        temperature: config.temperature,
+        top_p: config.topP,
+        num_predict: config.maxTokens,
+        num_ctx: 2048,
+      },
+      keep_alive: '10m',
+      ...(config.structuredOutput ? { format: 'json' } : {}),
+      stream,
+    };
+  }
+
+  private async generateOllamaResponse(prompt: string, config: any): Promise<ProviderCompletion & { responseTime: number }> {
+    const { baseUrl, headers } = this.getOllamaConnection(config);
+
+    const startTime = Date.now();
     
     this.logger.log(`Attempting to connect to Ollama at: ${baseUrl}`);
     
-    const fullPrompt = `${config.systemPrompt}\n\nUser: ${prompt}\nAssistant:`;
-
     try {
-      // Quick precheck to avoid Heroku router timeouts if the tunnel isn't reachable
-      try {
-        await axios.get(`${baseUrl}/api/version`, { headers, timeout: 2500 });
-      } catch (preErr: any) {
-        const msg = preErr?.message || 'unknown error';
-        this.logger.warn(`Ollama precheck failed at ${baseUrl}: ${msg}`);
-        throw new Error(`Ollama not reachable (precheck): ${msg}`);
-      }
+      await this.precheckOllama(baseUrl, headers);
 
-      this.logger.log(`Sending request to Ollama at ${baseUrl}/api/generate`);
+      this.logger.log(`Sending request to Ollama at ${baseUrl}/api/chat`);
       
-      const response = await axios.post(`${baseUrl}/api/generate`, {
-        model: config.modelName || 'llama2',
-        prompt: fullPrompt,
-        options: {
-          temperature: config.temperature,
-          top_p: config.topP,
-          num_predict: config.maxTokens,
-          num_ctx: 2048,
-        },
-        keep_alive: '10m',
-        stream: false,
-      }, {
+      const response = await axios.post(`${baseUrl}/api/chat`, this.buildOllamaChatRequest(prompt, config, false), {
         headers,
         // Keep just under Heroku router 30s; allow extra time vs 25s
         timeout: 28000,
@@ -354,41 +1155,447 @@ export class AIService {
       
       const responseTime = Date.now() - startTime;
 
+      // prompt_eval_count is left out when the prompt was served from Ollama's cache
       return {
-        response: ollamaResponse.response || '',
+        response: ollamaResponse.message?.content || '',
         responseTime,
-        tokensUsed: ollamaResponse.eval_count || 0,
-        modelUsed: config.modelName || 'llama2',
-        config: {
-          temperature: config.temperature,
-          maxTokens: config.maxTokens,
-          topP: config.topP,
-        }
+        promptTokens: ollamaResponse.prompt_eval_count || 0,
+        completionTokens: ollamaResponse.eval_count || 0,
       };
     } catch (error) {
-      // Enhanced error logging
-      if (axios.isAxiosError(error)) {
-        if (error.response) {
-          this.logger.error(`Ollama request to ${baseUrl} failed with status ${error.response.status}: ${JSON.stringify(error.response.data)}`);
-        } else if (error.request) {
-          this.logger.error(`Ollama request to ${baseUrl} failed - no response received. This could indicate a network, firewall, or tunnel issue.`);
-        } else {
-          this.logger.error(`Ollama request setup failed: ${error.message}`);
+      throw this.toOllamaError(error, baseUrl);
+    }
+  }
+
+  // One turn of the tool loop; Ollama returns tool call arguments as objects and takes results as role 'tool'
+  private async ollamaToolStep(
+    prompt: string,
+    messages: any[],
+    config: any,
+    offerTools: boolean,
+    connection: { baseUrl: string; headers: Record<string, string> },
+    precheck: boolean,
+  ): Promise<ToolStep> {
+    const { baseUrl, headers } = connection;
+    if (precheck) {
+      await this.precheckOllama(baseUrl, headers);
+    }
+    const response = await axios.post(`${baseUrl}/api/chat`, {
+      ...this.buildOllamaChatRequest(prompt, config, false, messages),
+      ...(offerTools ? { tools: this.toFunctionTools(config.tools) } : {}),
+    }, {
+      headers,
+      timeout: 28000,
+    });
+
+    const message = response.data.message || {};
+    return {
+      content: message.content || '',
+      toolCalls: (message.tool_calls || []).map((call: any) => ({ name: call.function?.name, arguments: call.function?.arguments })),
+      message: { role: 'assistant', content: message.content || '', tool_calls: message.tool_calls },
+      promptTokens: response.data.prompt_eval_count || 0,
+      completionTokens: response.data.eval_count || 0,
+    };
+  }
+
+  // Feed a streamed HTTP body to onLine one line at a time (NDJSON and SSE are both line-oriented)
+  private async readStreamLines(stream: any, onLine: (line: string) => void): Promise<void> {
+    stream.setEncoding('utf-8');
+    let buffer = '';
+    for await (const chunk of stream) {
+      buffer += chunk;
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex >= 0) {
+        onLine(buffer.slice(0, newlineIndex).replace(/\r$/, ''));
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf('\n');
+      }
+    }
+    if (buffer) {
+      onLine(buffer);
+    }
+  }
+
+  // Relay Ollama's /api/chat NDJSON stream: one JSON object per line, the last one flagged with done=true
+  private async streamOllamaResponse(
+    prompt: string,
+    config: any,
+    onToken: (token: string) => void,
+  ): Promise<ProviderCompletion> {
+    const { baseUrl, headers } = this.getOllamaConnection(config);
+
+    try {
+      await this.precheckOllama(baseUrl, headers);
+
+      this.logger.log(`Streaming request to Ollama at ${baseUrl}/api/chat`);
+
+      const response = await axios.post(`${baseUrl}/api/chat`, this.buildOllamaChatRequest(prompt, config, true), {
+        headers,
+        responseType: 'stream',
+        // Idle timeout: each chunk resets it, so long answers are not cut off
+        timeout: 28000,
+      });
+
+      let text = '';
+      let promptTokens = 0;
+      let completionTokens = 0;
+      await this.readStreamLines(response.data, (line) => {
+        if (!line.trim()) return;
+        const part = JSON.parse(line);
+        if (part.error) {
+          throw new Error(part.error);
+        }
+        const delta = part.message?.content;
+        if (delta) {
+          text += delta;
+          onToken(delta);
+        }
+        if (part.done) {
+          promptTokens = part.prompt_eval_count || 0;
+          completionTokens = part.eval_count || 0;
         }
+      });
+
+      this.logger.log(`Completed streamed response from Ollama at ${baseUrl}`);
+      return { response: text, promptTokens, completionTokens };
+    } catch (error) {
+      throw this.toOllamaError(error, baseUrl);
+    }
+  }
+
+  // Log an Ollama transport failure and convert it into a user-facing error
+  private toOllamaError(error: any, baseUrl: string): Error {
+    // Enhanced error logging
+    if (axios.isAxiosError(error)) {
+      if (error.response) {
+        this.logger.error(`Ollama request to ${baseUrl} failed with status ${error.response.status}: ${JSON.stringify(error.response.data)}`);
+      } else if (error.request) {
+        this.logger.error(`Ollama request to ${baseUrl} failed - no response received. This could indicate a network, firewall, or tunnel issue.`);
       } else {
-        this.logger.error(`Ollama request failed with unexpected error: ${error.message}`);
+        this.logger.error(`Ollama request setup failed: ${error.message}`);
       }
-      
-      if (baseUrl.includes('pagekite.me') && error.message.includes('ECONNREFUSED')) {
-        throw new Error(`PageKite tunnel connection refused. Ensure the PageKite tunnel is running and accessible at: ${baseUrl}`);
-      }
-      
-      if (baseUrl.includes('pagekite.me') && (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND')) {
-        throw new Error(`Cannot connect to PageKite tunnel at ${baseUrl}. Verify the tunnel is active and Ollama is running.`);
+    } else {
+      this.logger.error(`Ollama request failed with unexpected error: ${error.message}`);
+    }
+    
+    if (baseUrl.includes('pagekite.me') && error.message.includes('ECONNREFUSED')) {
+      return new ProviderError(`PageKite tunnel connection refused. Ensure the PageKite tunnel is running and accessible at: ${baseUrl}`, error);
+    }
+    
+    if (baseUrl.includes('pagekite.me') && (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND')) {
+      return new ProviderError(`Cannot connect to PageKite tunnel at ${baseUrl}. Verify the tunnel is active and Ollama is running.`, error);
+    }
+    
+    return new ProviderError(`Ollama request failed: ${error.message}`, error);
+  }
+
+  // Resolve the Anthropic Messages API base URL and headers; apiKey/baseUrl on the config win over env
+  private getAnthropicConnection(config: any): { baseUrl: string; headers: Record<string, string> } {
+    const apiKey = config.apiKey || this.configService.get('ANTHROPIC_API_KEY');
+    if (!apiKey) {
+      throw new Error(ERROR_MESSAGES.ANTHROPIC_KEY_MISSING);
+    }
+
+    const baseUrl = (
+      config.baseUrl ||
+      this.configService.get('ANTHROPIC_BASE_URL') ||
+      AI_CONSTANTS.ANTHROPIC_DEFAULT_BASE_URL
+    ).replace(/\/+$/, '');
+
+    return {
+      baseUrl,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': AI_CONSTANTS.ANTHROPIC_API_VERSION,
+      },
+    };
+  }
+
+  private buildAnthropicRequest(prompt: string, config: any, stream: boolean) {
+    const request: Record<string, any> = {
+      model: config.modelName || AI_CONSTANTS.ANTHROPIC_DEFAULT_MODEL,
+      system: config.systemPrompt,
+      // The system prompt is a top-level field, so only user/assistant turns go into messages
+      messages: this.buildChatMessages(prompt, { ...config, systemPrompt: undefined }),
+      max_tokens: config.maxTokens || AI_CONSTANTS.DEFAULT_MAX_TOKENS,
+      // Anthropic accepts temperatures in [0, 1] while our configs allow up to 2
+      temperature: Math.min(1, config.temperature ?? AI_CONSTANTS.DEFAULT_TEMPERATURE),
+      stream,
+    };
+    // Only send top_p when it actually narrows sampling; newer models reject temperature and top_p together
+    if (config.topP !== undefined && config.topP < 1) {
+      request.top_p = config.topP;
+    }
+    return request;
+  }
+
+  private async generateAnthropicResponse(prompt: string, config: any): Promise<ProviderCompletion> {
+    const { baseUrl, headers } = this.getAnthropicConnection(config);
+
+    try {
+      const response = await axios.post(`${baseUrl}/v1/messages`, this.buildAnthropicRequest(prompt, config, false), {
+        headers,
+        timeout: 60000,
+      });
+
+      const message = response.data;
+      const text = (message.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+
+      return {
+        response: text,
+        promptTokens: message.usage?.input_tokens || 0,
+        completionTokens: message.usage?.output_tokens || 0,
+      };
+    } catch (error) {
+      throw this.toAnthropicError(error);
+    }
+  }
+
+  // Anthropic streams SSE: message_start carries input usage, content_block_delta the text, message_delta output usage
+  private async streamAnthropicResponse(
+    prompt: string,
+    config: any,
+    onToken: (token: string) => void,
+  ): Promise<ProviderCompletion> {
+    const { baseUrl, headers } = this.getAnthropicConnection(config);
+
+    try {
+      const response = await axios.post(`${baseUrl}/v1/messages`, this.buildAnthropicRequest(prompt, config, true), {
+        headers: { ...headers, Accept: 'text/event-stream' },
+        responseType: 'stream',
+        timeout: 60000,
+      });
+
+      let text = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+      await this.readStreamLines(response.data, (line) => {
+        if (!line.startsWith('data:')) return;
+        const event = JSON.parse(line.slice(5));
+        switch (event.type) {
+          case 'message_start':
+            inputTokens = event.message?.usage?.input_tokens || 0;
+            break;
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta' && event.delta.text) {
+              text += event.delta.text;
+              onToken(event.delta.text);
+            }
+            break;
+          case 'message_delta':
+            outputTokens = event.usage?.output_tokens || outputTokens;
+            break;
+          case 'error':
+            throw new Error(event.error?.message || 'Anthropic stream error');
+        }
+      });
+
+      return { response: text, promptTokens: inputTokens, completionTokens: outputTokens };
+    } catch (error) {
+      throw this.toAnthropicError(error);
+    }
+  }
+
+  private toAnthropicError(error: any): Error {
+    if (axios.isAxiosError(error) && error.response) {
+      // Error bodies are JSON for regular requests; for streamed requests the body is an unread stream
+      const apiMessage = error.response.data?.error?.message;
+      this.logger.error(`Anthropic request failed with status ${error.response.status}: ${apiMessage || error.message}`);
+      return new ProviderError(`Anthropic request failed (${error.response.status}): ${apiMessage || error.message}`, error);
+    }
+    this.logger.error(`Anthropic request failed: ${error.message}`);
+    return new ProviderError(`Anthropic request failed: ${error.message}`, error);
+  }
+
+  // Resolve the HuggingFace (TGI / Inference endpoint) base URL and headers; the token is optional for local TGI
+  private getHuggingFaceConnection(config: any): { baseUrl: string; headers: Record<string, string> } {
+    const baseUrl = (
+      config.baseUrl ||
+      this.configService.get('HUGGINGFACE_BASE_URL') ||
+      AI_CONSTANTS.HUGGINGFACE_DEFAULT_BASE_URL
+    ).replace(/\/+$/, '');
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = config.apiKey || this.configService.get('HUGGINGFACE_API_KEY');
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    return { baseUrl, headers };
+  }
+
+  // TGI serves both the native /generate API and the OpenAI-style Messages API; chat is the default
+  private useHuggingFaceGenerateApi(config: any): boolean {
+    return config.additionalSettings?.huggingfaceApi === 'generate';
+  }
+
+  private buildHuggingFaceChatRequest(prompt: string, config: any, stream: boolean) {
+    const request: Record<string, any> = {
+      model: config.modelName || AI_CONSTANTS.HUGGINGFACE_DEFAULT_MODEL,
+      messages: this.buildChatMessages(prompt, config),
+      max_tokens: config.maxTokens || AI_CONSTANTS.DEFAULT_MAX_TOKENS,
+      stream,
+    };
+    // TGI rejects temperature 0 and top_p 1, so leave them out and let the server decode greedily / unfiltered
+    if (config.temperature > 0) {
+      request.temperature = config.temperature;
+    }
+    if (config.topP !== undefined && config.topP > 0 && config.topP < 1) {
+      request.top_p = config.topP;
+    }
+    if (stream) {
+      request.stream_options = { include_usage: true };
+    }
+    // TGI constrains decoding to the schema with a grammar
+    if (config.structuredOutput) {
+      request.response_format = { type: 'json_object', value: config.structuredOutput.schema };
+    }
+    return request;
+  }
+
+  private buildHuggingFaceGenerateRequest(prompt: string, config: any) {
+    const parameters: Record<string, any> = {
+      max_new_tokens: config.maxTokens || AI_CONSTANTS.DEFAULT_MAX_TOKENS,
+      do_sample: config.temperature > 0,
+      return_full_text: false,
+      details: true,
+      decoder_input_details: true,
+    };
+    if (config.temperature > 0) {
+      parameters.temperature = config.temperature;
+    }
+    if (config.topP !== undefined && config.topP > 0 && config.topP < 1) {
+      parameters.top_p = config.topP;
+    }
+    if (config.structuredOutput) {
+      parameters.grammar = { type: 'json', value: config.structuredOutput.schema };
+    }
+
+    // /generate takes raw text with no chat template, so earlier turns are written out as a transcript
+    const transcript = (config.history || [])
+      .filter((m: ChatMessage) => m.role !== 'system')
+      .map((m: ChatMessage) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+      .join('\n');
+    const inputs = [config.systemPrompt, transcript, transcript ? `User: ${prompt}\nAssistant:` : prompt]
+      .filter(Boolean)
+      .join('\n\n');
+
+    return { inputs, parameters };
+  }
+
+  private async generateHuggingFaceResponse(prompt: string, config: any): Promise<ProviderCompletion> {
+    const { baseUrl, headers } = this.getHuggingFaceConnection(config);
+
+    try {
+      if (this.useHuggingFaceGenerateApi(config)) {
+        const response = await axios.post(`${baseUrl}/generate`, this.buildHuggingFaceGenerateRequest(prompt, config), {
+          headers,
+          timeout: 60000,
+        });
+
+        // details.prefill holds the prompt tokens when decoder_input_details is requested
+        const details = response.data?.details;
+        return {
+          response: response.data?.generated_text || '',
+          promptTokens: details?.prefill?.length || 0,
+          completionTokens: details?.generated_tokens || 0,
+        };
       }
-      
-      throw new Error(`Ollama request failed: ${error.message}`);
+
+      const response = await axios.post(`${baseUrl}/v1/chat/completions`, this.buildHuggingFaceChatRequest(prompt, config, false), {
+        headers,
+        timeout: 60000,
+      });
+
+      return {
+        response: response.data?.choices?.[0]?.message?.content || '',
+        promptTokens: response.data?.usage?.prompt_tokens || 0,
+        completionTokens: response.data?.usage?.completion_tokens || 0,
+      };
+    } catch (error) {
+      throw this.toHuggingFaceError(error, baseUrl);
+    }
+  }
+
+  // Both TGI streaming APIs emit SSE `data:` lines; the Messages API terminates with [DONE]
+  private async streamHuggingFaceResponse(
+    prompt: string,
+    config: any,
+    onToken: (token: string) => void,
+  ): Promise<ProviderCompletion> {
+    const { baseUrl, headers } = this.getHuggingFaceConnection(config);
+    const useGenerateApi = this.useHuggingFaceGenerateApi(config);
+
+    try {
+      const response = useGenerateApi
+        ? await axios.post(`${baseUrl}/generate_stream`, this.buildHuggingFaceGenerateRequest(prompt, config), {
+            headers: { ...headers, Accept: 'text/event-stream' },
+            responseType: 'stream',
+            timeout: 60000,
+          })
+        : await axios.post(`${baseUrl}/v1/chat/completions`, this.buildHuggingFaceChatRequest(prompt, config, true), {
+            headers: { ...headers, Accept: 'text/event-stream' },
+            responseType: 'stream',
+            timeout: 60000,
+          });
+
+      let text = '';
+      let promptTokens = 0;
+      let completionTokens = 0;
+      let streamedTokens = 0;
+      await this.readStreamLines(response.data, (line) => {
+        if (!line.startsWith('data:')) return;
+        const payload = line.slice(5).trim();
+        if (!payload || payload === '[DONE]') return;
+
+        const event = JSON.parse(payload);
+        if (event.error) {
+          throw new Error(event.error);
+        }
+
+        const delta = useGenerateApi
+          ? (event.token?.special ? '' : event.token?.text)
+          : event.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          streamedTokens++;
+          onToken(delta);
+        }
+
+        if (useGenerateApi && event.details) {
+          promptTokens = event.details.prefill?.length || 0;
+          completionTokens = event.details.generated_tokens || 0;
+        } else if (event.usage) {
+          promptTokens = event.usage.prompt_tokens || 0;
+          completionTokens = event.usage.completion_tokens || 0;
+        }
+      });
+
+      // Older TGI releases ignore stream_options, so fall back to counting streamed tokens
+      return { response: text, promptTokens, completionTokens: completionTokens || streamedTokens };
+    } catch (error) {
+      throw this.toHuggingFaceError(error, baseUrl);
+    }
+  }
+
+  private toHuggingFaceError(error: any, baseUrl: string): Error {
+    if (axios.isAxiosError(error) && error.response) {
+      // TGI error bodies look like { error, error_type }; streamed requests leave the body unread
+      const data: any = error.response.data;
+      const apiMessage = typeof data?.error === 'string' ? data.error : data?.error?.message;
+      this.logger.error(`HuggingFace request failed with status ${error.response.status}: ${apiMessage || error.message}`);
+      return new ProviderError(`HuggingFace request failed (${error.response.status}): ${apiMessage || error.message}`, error);
+    }
+    if (error.code === 'ECONNREFUSED') {
+      this.logger.error(`HuggingFace endpoint not reachable at ${baseUrl}`);
+      return new ProviderError(`Cannot connect to text-generation-inference at ${baseUrl}. Make sure the server is running.`, error);
     }
+    this.logger.error(`HuggingFace request failed: ${error.message}`);
+    return new ProviderError(`HuggingFace request failed: ${error.message}`, error);
   }
 
   async analyzePerformanceData(performanceData: any, prompt: string): Promise<AIResponse> {
@@ -411,45 +1618,42 @@ Please provide a detailed analysis including:
     });
   }
 
-  async detectAnomalies(performanceData: any, prompt: string): Promise<AIResponse> {
+  async detectAnomalies(performanceData: any, prompt: string): Promise<AIResponse<AnomalyReport>> {
     const contextPrompt = `
 Analyze the following performance data for anomalies: ${prompt}
 
 Data:
 ${JSON.stringify(performanceData, null, 2)}
 
-Identify:
-1. Unusual patterns or spikes
-2. Potential causes
-3. Severity level (low/medium/high)
-4. Recommended actions
+List each unusual pattern or spike with its type, a description, the severity (low/medium/high), the endpoint or
+metric involved, the likely cause and a recommended action. Return an empty anomalies list when nothing is unusual.
 `;
 
     return await this.generateResponse(contextPrompt, {
       promptType: 'anomaly_detection',
       temperature: 0.3,
-    });
+      structuredOutput: { name: 'anomaly_report', schema: ANOMALY_REPORT_SCHEMA },
+    }) as AIResponse<AnomalyReport>;
   }
 
-  async generateChecklist(component: string, issue: string): Promise<AIResponse> {
+  async generateChecklist(component: string, issue: string): Promise<AIResponse<Checklist>> {
     const prompt = `
 Generate a comprehensive debugging checklist for ${component} experiencing ${issue}.
 
-Include steps for:
-1. Initial assessment
-2. Data collection
-3. Analysis procedures
-4. Testing methods
-5. Resolution steps
-6. Prevention measures
-
-Format as a numbered list with clear, actionable items.
+Include clear, actionable steps for each phase, in order:
+1. Initial assessment (assessment)
+2. Data collection (data_collection)
+3. Analysis procedures (analysis)
+4. Testing methods (testing)
+5. Resolution steps (resolution)
+6. Prevention measures (prevention)
 `;
 
     return await this.generateResponse(prompt, {
       promptType: 'checklist_generation',
       temperature: 0.4,
-    });
+      structuredOutput: { name: 'checklist', schema: CHECKLIST_SCHEMA },
+    }) as AIResponse<Checklist>;
   }
 
   async assessConfigurationImpact(
@@ -0,0 +1,32 @@
+import { ChatToolsService } from './chat-tools.service';
+import { KnowledgeService } from './knowledge.service';
+import { PerformanceService } from './performance.service';
+
+describe('ChatToolsService', () => {
+  const knowledgeService = { search: jest.fn() };
+  const service = new ChatToolsService({} as PerformanceService, knowledgeService as unknown as KnowledgeService);
+
+  beforeEach(() => {
+    knowledgeService.search.mockReset().mockResolvedValue({
+      mode: 'bm25',
+      results: [{ documentName: 'runbook.md', sectionPath: 'Restarts', score: 0.91234, content: 'Restart the worker' }],
+    });
+  });
+
+  const searchTool = (...args: Parameters<ChatToolsService['getTools']>) =>
+    service.getTools(...args).find((tool) => tool.name === 'search_knowledge')!;
+
+  it('limits search_knowledge to the scope of the message', async () => {
+    const scope = { collectionIds: ['ops'], documentIds: ['doc-1'] };
+    const result = await searchTool(scope).execute({ query: 'restart', limit: 3 });
+
+    expect(knowledgeService.search).toHaveBeenCalledWith('restart', { scope, limit: 3 });
+    expect(result).toEqual([{ documentName: 'runbook.md', sectionPath: 'Restarts', score: 0.912, excerpt: 'Restart the worker' }]);
+  });
+
+  it('searches the whole knowledge base without a scope', async () => {
+    await searchTool().execute({ query: 'restart' });
+
+    expect(knowledgeService.search).toHaveBeenCalledWith('restart', { scope: undefined, limit: 5 });
+  });
+});
@@ -0,0 +1,139 @@
+import { Injectable } from '@nestjs/common';
+import { ChatTool } from './ai.service';
+import { PerformanceService } from './performance.service';
+import { KnowledgeScope, KnowledgeService } from './knowledge.service';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+
+// Look-back window of the metrics tools when the model does not give one
+const DEFAULT_WINDOW_HOURS = 24;
+const MAX_WINDOW_HOURS = 24 * 30;
+
+/**
+ * Tools the chat assistant can call to look at live metrics and the knowledge base instead of relying on what
+ * the user pastes. Results are trimmed to what the model needs: no time series or raw metric rows.
+ */
+@Injectable()
+export class ChatToolsService {
+  constructor(
+    private readonly performanceService: PerformanceService,
+    private readonly knowledgeService: KnowledgeService,
+  ) {}
+
+  // scope limits search_knowledge to the collections/documents the message was scoped to
+  getTools(scope?: KnowledgeScope): ChatTool[] {
+    return [
+      {
+        name: 'get_performance_report',
+        description: 'Summary of recorded API traffic over a recent window: request count, response time percentiles, '
+          + 'success and error rates, uptime, slowest and most error-prone endpoints, status code distribution and '
+          + 'hours with error spikes.',
+        parameters: {
+          type: 'object',
+          properties: {
+            hours: { type: 'integer', description: `Look-back window in hours (default ${DEFAULT_WINDOW_HOURS})`, minimum: 1, maximum: MAX_WINDOW_HOURS },
+            endpoint: { type: 'string', description: 'Only this exact endpoint path, e.g. /api/chat/message' },
+            method: { type: 'string', description: 'Only this HTTP method, e.g. GET' },
+          },
+          additionalProperties: false,
+        },
+        execute: (args) => this.getPerformanceReport(args),
+      },
+      {
+        name: 'get_endpoint_stats',
+        description: 'Per-endpoint request count, average response time, success rate and errors over a recent window, '
+          + 'sorted by the chosen measure.',
+        parameters: {
+          type: 'object',
+          properties: {
+            hours: { type: 'integer', description: `Look-back window in hours (default ${DEFAULT_WINDOW_HOURS})`, minimum: 1, maximum: MAX_WINDOW_HOURS },
+            search: { type: 'string', description: 'Only endpoints whose "METHOD /path" contains this text' },
+            sortBy: { type: 'string', enum: ['slowest', 'errors', 'requests'], description: 'Order of the rows (default slowest)' },
+            limit: { type: 'integer', description: 'Maximum rows (default 10)', minimum: 1, maximum: 50 },
+          },
+          additionalProperties: false,
+        },
+        execute: (args) => this.getEndpointStats(args),
+      },
+      {
+        name: 'search_knowledge',
+        description: 'Search the uploaded knowledge base documents (runbooks, architecture notes, past incidents) and '
+          + 'return the best matching excerpts with their document names.',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'What to look for' },
+            limit: { type: 'integer', description: 'Maximum excerpts (default 5)', minimum: 1, maximum: 10 },
+          },
+          required: ['query'],
+          additionalProperties: false,
+        },
+        execute: (args) => this.searchKnowledge(args as { query: string; limit?: number }, scope),
+      },
+      {
+        name: 'get_health_status',
+        description: 'Current health of the system from the last hour of traffic: healthy, warning or critical, with '
+          + 'the average response time, error rate and request count it is based on.',
+        parameters: { type: 'object', properties: {}, additionalProperties: false },
+        execute: () => this.getHealthStatus(),
+      },
+    ];
+  }
+
+  private windowStart(hours?: number): string {
+    return new Date(Date.now() - (hours || DEFAULT_WINDOW_HOURS) * 60 * 60 * 1000).toISOString();
+  }
+
+  private async getPerformanceReport(args: { hours?: number; endpoint?: string; method?: string }) {
+    const report = await this.performanceService.generateReport({
+      startDate: this.windowStart(args.hours),
+      endpoint: args.endpoint,
+      method: args.method?.toUpperCase(),
+    });
+    return {
+      windowHours: args.hours || DEFAULT_WINDOW_HOURS,
+      totalRequests: report.totalRequests,
+      averageResponseTime: report.averageResponseTime,
+      minResponseTime: report.minResponseTime,
+      maxResponseTime: report.maxResponseTime,
+      p50: report.p50,
+      p90: report.p90,
+      p99: report.p99,
+      successRate: report.successRate,
+      errorRate: report.errorRate,
+      uptime: report.uptime,
+      topSlowEndpoints: report.topSlowEndpoints,
+      topErrorEndpoints: report.topErrorEndpoints.filter((stat) => stat.errors > 0),
+      statusCodeDistribution: report.statusCodeDistribution,
+      errorSpikeHours: report.anomalies,
+    };
+  }
+
+  private async getEndpointStats(args: { hours?: number; search?: string; sortBy?: string; limit?: number }) {
+    const report = await this.performanceService.generateReport({ startDate: this.windowStart(args.hours) });
+    const search = args.search?.toLowerCase();
+    const sortKey = args.sortBy === 'errors' ? 'errors' : args.sortBy === 'requests' ? 'count' : 'averageResponseTime';
+    const rows = Object.entries(report.endpointStats)
+      .map(([key, stat]: [string, any]) => ({ key, ...stat }))
+      .filter((row) => !search || row.key.toLowerCase().includes(search))
+      .sort((a, b) => b[sortKey] - a[sortKey]);
+    return {
+      windowHours: args.hours || DEFAULT_WINDOW_HOURS,
+      matchingEndpoints: rows.length,
+      endpoints: rows.slice(0, args.limit || 10),
+    };
+  }
+
+  private async searchKnowledge(args: { query: string; limit?: number }, scope?: KnowledgeScope) {
+    const { results } = await this.knowledgeService.search(args.query, { scope, limit: args.limit || 5 });
+    return results.map((hit) => ({
+      documentName: hit.documentName,
+      sectionPath: hit.sectionPath,
+      score: Number(hit.score.toFixed(3)),
+      excerpt: hit.content.slice(0, AI_CONSTANTS.RAG_DEFAULT_EXCERPT_CHARS * 2),
+    }));
+  }
+
+  private async getHealthStatus() {
+    return { windowHours: 1, ...await this.performanceService.getHealthStatus() };
+  }
+}
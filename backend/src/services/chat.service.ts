@@ -1,60 +1,45 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadGatewayException, Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { v4 as uuidv4 } from 'uuid';
 import { ConversationHistory } from '../entities/conversation-history.entity';
-import { AIService } from './ai.service';
+import { AIService, AIResponse, GenerationOptions, ToolInvocation } from './ai.service';
 import { AIConfigurationService } from './ai-configuration.service';
-import { CreateChatMessageDto, ChatResponseDto } from '../dto/chat.dto';
-import * as fs from 'fs';
-import * as path from 'path';
-import pdfParse from 'pdf-parse';
-import { pdfBufferToMarkdown } from '../utils/pdf-markdown';
+import { ConversationMemoryService } from './conversation-memory.service';
+import { QueryRewrite, QueryRewriteService } from './query-rewrite.service';
+import { GroundingService } from './grounding.service';
+import { ChatToolsService } from './chat-tools.service';
+import { RagPolicyService } from './rag-policy.service';
+import { LlmBudgetExceededError } from './llm-usage.service';
+import { ChatSession } from '../entities/chat-session.entity';
+import { CreateChatMessageDto, ChatResponseDto, ChatSourceDto, GroundingDto } from '../dto/chat.dto';
+import { KnowledgeService } from './knowledge.service';
+import { RetrieverService, RetrievalMode, RetrievalResult } from './retriever.service';
+import { KnowledgeDocumentStatus } from '../entities/knowledge-document.entity';
+import { sanitizeText } from '../utils/text';
+import { StructuredOutputError } from '../utils/structured-output';
 import { ConfigService } from '@nestjs/config';
-
-// Simple knowledge base interface
-interface KnowledgeItem {
-  id: string;
-  name: string;
-  content: string;
-  size: number;
-  type: string;
-  uploadedAt: Date;
-}
+import { AI_CONSTANTS } from '../common/constants/app.constants';
 
 @Injectable()
 export class ChatService {
   private readonly logger = new Logger(ChatService.name);
-  private knowledgeBase: KnowledgeItem[] = [];
 
   constructor(
     @InjectRepository(ConversationHistory)
     private readonly conversationRepository: Repository<ConversationHistory>,
     private readonly aiService: AIService,
     private readonly aiConfigurationService: AIConfigurationService,
+    private readonly conversationMemoryService: ConversationMemoryService,
+    private readonly queryRewriteService: QueryRewriteService,
+    private readonly groundingService: GroundingService,
+    private readonly chatToolsService: ChatToolsService,
+    private readonly ragPolicyService: RagPolicyService,
+    private readonly knowledgeService: KnowledgeService,
+    private readonly retrieverService: RetrieverService,
     private readonly configService: ConfigService,
   ) {}
 
-  private sanitizeText(text: string, preserveMarkdown = false): string {
-    if (!text) return '';
-    let t = text;
-    // Normalize unicode (e.g., ligatures) and remove replacement chars
-    try { t = t.normalize('NFKC'); } catch {}
-    t = t.replace(/\uFFFD+/g, ' '); // drop � characters
-    // Remove control characters
-    t = t.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F-\x9F]+/g, ' ');
-    if (preserveMarkdown) {
-      // Keep markdown symbols and indentation; trim trailing spaces and collapse 3+ blank lines
-      t = t.replace(/[ \t]+\n/g, '\n');
-      t = t.replace(/\n{3,}/g, '\n\n');
-      return t.trim();
-    }
-    // Keep letters, numbers, punctuation and spaces; drop other odd glyphs
-    t = t.replace(/[^\p{L}\p{N}\p{P}\p{Zs}]/gu, ' ');
-    // Collapse whitespace
-    return t.replace(/\s+/g, ' ').trim();
-  }
-
   private async getDefaultConfigId(): Promise<string | undefined> {
     try {
       const activeConfig = await this.aiConfigurationService.findActive();
@@ -65,288 +50,178 @@ export class ChatService {
     }
   }
 
-  private isReadableText(text: string): boolean {
-    if (!text) return false;
-    const len = text.length;
-    if (len < 200) return false;
-    const lettersAndSpaces = (text.match(/[\p{L}\p{N}\s]/gu) || []).length;
-    const ratio = lettersAndSpaces / len;
-    const words = (text.match(/[\p{L}\p{N}]{2,}/gu) || []).length;
-    return ratio >= 0.7 && words >= 30; // simple heuristic
+  // Configurable via RAG_TOP_K; applies to every retrieval mode
+  private getRagTopK(): number {
+    const configured = parseInt(this.configService.get<string>('RAG_TOP_K') || '', 10);
+    return configured > 0 ? configured : AI_CONSTANTS.RAG_DEFAULT_TOP_K;
   }
 
-  // Knowledge base management methods
-  addKnowledgeItem(item: KnowledgeItem): void {
-  const isMarkdown = (item.type || '').toLowerCase() === 'text/markdown' || /\.md$/i.test(item.name);
-  const cleaned = this.sanitizeText(item.content || '', isMarkdown);
-    // Gate unreadable/scanned PDFs
-    const readable = this.isReadableText(cleaned);
-    const sanitized = { ...item, content: readable ? cleaned : '' };
-    this.knowledgeBase.push(sanitized);
-    if (!readable) {
-      this.logger.warn(`Knowledge item looks non-extractable (possibly scanned): ${sanitized.name}. Content omitted.`);
-    } else {
-      this.logger.log(`Added knowledge item: ${sanitized.name} (${sanitized.content.length} characters)`);
-    }
+  // Configurable via RAG_EXCERPT_CHARS
+  private getExcerptChars(): number {
+    const configured = parseInt(this.configService.get<string>('RAG_EXCERPT_CHARS') || '', 10);
+    return configured > 0 ? configured : AI_CONSTANTS.RAG_DEFAULT_EXCERPT_CHARS;
   }
 
-  getKnowledgeBase(): KnowledgeItem[] {
-    return this.knowledgeBase;
+  // Prompt-shaping settings in effect, recorded with evaluation runs
+  getRagSettings(): { topK: number; excerptChars: number } {
+    return { topK: this.getRagTopK(), excerptChars: this.getExcerptChars() };
   }
 
-  removeKnowledgeItem(id: string): void {
-    const index = this.knowledgeBase.findIndex(item => item.id === id);
-    if (index > -1) {
-      const removed = this.knowledgeBase.splice(index, 1)[0];
-      this.logger.log(`Removed knowledge item: ${removed.name}`);
-    }
-  }
-
-  clearKnowledgeBase(): void {
-    this.knowledgeBase = [];
-    this.logger.log('Cleared knowledge base');
+  // Citation entry for an excerpt shown to the model; offsets cover exactly the excerpt text
+  private toChatSource(result: RetrievalResult, index: number, excerpt: string): ChatSourceDto {
+    return {
+      index,
+      documentId: result.documentId,
+      documentName: result.documentName,
+      chunkId: result.chunkId,
+      chunkIndex: result.chunkIndex,
+      startOffset: result.startOffset,
+      endOffset: result.startOffset + excerpt.length,
+      sectionPath: result.sectionPath,
+      score: Number(result.score.toFixed(3)),
+      excerpt,
+    };
   }
 
-  // Enhanced RAG search with better semantic matching
-  private searchKnowledgeBase(query: string): string {
-    if (this.knowledgeBase.length === 0) {
-      this.logger.warn('RAG search requested but knowledge base is empty');
-      return '';
+  // Enhanced RAG search with better semantic matching; documentIds (when set) limits the search to a scope
+  private async searchKnowledgeBase(
+    query: string,
+    documentIds: string[] | null = null,
+    maxContextChars: number = AI_CONSTANTS.RAG_DEFAULT_MAX_CONTEXT_CHARS,
+  ): Promise<{ context: string; mode?: RetrievalMode; sources: ChatSourceDto[] }> {
+    const documentsCount = documentIds ? documentIds.length : await this.knowledgeService.countDocuments();
+    if (documentsCount === 0) {
+      this.logger.warn(documentIds ? 'RAG search requested but the selected scope has no documents' : 'RAG search requested but knowledge base is empty');
+      return { context: '', sources: [] };
     }
 
-    this.logger.log(`RAG: Searching ${this.knowledgeBase.length} documents for: "${query}"`);
+    this.logger.log(`RAG: Searching ${documentsCount} documents for: "${query}"`);
 
-    const queryLower = query.toLowerCase().trim();
     let relevantContent = '';
     const foundDocuments: string[] = [];
 
-    // Tighter chunking to keep prompts small and fast
-    const toChunks = (text: string, chunkSize = 400, overlap = 60) => {
-      const clean = this.sanitizeText(text, true);
-      const chunks: string[] = [];
-      for (let i = 0; i < clean.length; i += (chunkSize - overlap)) {
-        chunks.push(clean.slice(i, i + chunkSize));
-      }
-      return chunks;
-    };
-
-    const terms = Array.from(new Set(
-      queryLower
-        .split(/[^\p{L}\p{N}]+/u)
-        .filter(w => w && w.length > 2)
-    ));
-
-    const scoreChunk = (chunk: string) => {
-      const lower = chunk.toLowerCase();
-      let score = 0;
-      for (const t of terms) {
-        const re = new RegExp(`\\b${t}\\b`, 'gi');
-        const m = lower.match(re);
-        if (m) score += Math.min(10, m.length * 2);
-      }
-      if (/(^|\s)(introduction|abstract|conclusion|results|methods|background)(\s|\.|:)/i.test(chunk)) score += 3;
-      return score;
-    };
-
-    const scored: { name: string; chunk: string; score: number }[] = [];
-
-    for (const item of this.knowledgeBase) {
-      const chunks = toChunks(item.content);
-      for (const c of chunks) {
-        const s = scoreChunk(c);
-        if (s > 0) scored.push({ name: item.name, chunk: c, score: s });
-      }
-    }
-
-    scored.sort((a, b) => b.score - a.score);
+    const { mode, results: top } = await this.retrieverService.retrieve(query, {
+      topK: this.getRagTopK(),
+      documentIds: documentIds || undefined,
+    });
 
-    if (scored.length === 0) {
-      this.logger.log('RAG: No matching chunks found');
-      return '';
+    if (top.length === 0) {
+      this.logger.log(`RAG: No matching chunks found (${mode})`);
+      return { context: '', mode, sources: [] };
     }
 
-    // Keep prompt small: top 3 chunks, each <= 380 chars, overall cap ~2400 chars
-  const top = scored.slice(0, 3).map(s => ({ ...s, chunk: this.sanitizeText(s.chunk, true).slice(0, 380) }));
-    top.forEach(s => { if (!foundDocuments.includes(s.name)) foundDocuments.push(s.name); });
+    // Keep prompt small: top-k chunks, each <= RAG_EXCERPT_CHARS, overall cap from the RAG policy
+    top.forEach(s => { if (!foundDocuments.includes(s.documentName)) foundDocuments.push(s.documentName); });
 
+    const excerptChars = this.getExcerptChars();
     const parts: string[] = [];
+    const sources: ChatSourceDto[] = [];
     parts.push('=== KNOWLEDGE BASE CONTEXT (RAG MODE: CHUNKS) ===');
     for (const s of top) {
-      parts.push(`From "${s.name}" (score ${s.score}):\n${s.chunk}`);
+      const source = this.toChatSource(s, sources.length + 1, s.content.slice(0, excerptChars));
+      sources.push(source);
+      const section = s.sectionPath ? ` > ${s.sectionPath}` : '';
+      parts.push(`[${source.index}] From "${s.documentName}"${section} (score ${source.score}):\n${source.excerpt}`);
     }
     parts.push('=== END KNOWLEDGE BASE CONTEXT ===');
 
     relevantContent = parts.join('\n\n');
-    if (relevantContent.length > 2400) {
-      relevantContent = relevantContent.slice(0, 2400);
+    if (relevantContent.length > maxContextChars) {
+      relevantContent = relevantContent.slice(0, maxContextChars);
     }
 
-    this.logger.log(`RAG: Using ${top.length} chunks from ${foundDocuments.join(', ')}`);
-    return `\n\n${relevantContent}\n\n`;
+    this.logger.log(`RAG: Using ${top.length} ${mode} chunks from ${foundDocuments.join(', ')}`);
+    return { context: `\n\n${relevantContent}\n\n`, mode, sources };
   }
 
-  // Helper: score and return top RAG chunks for extractive fallback
-  private getTopRagChunks(query: string, topN = 3): { name: string; chunk: string; score: number }[] {
-    if (!this.knowledgeBase.length) return [];
-
-    const queryLower = (query || '').toLowerCase().trim();
-
-    const toChunks = (text: string, chunkSize = 400, overlap = 60) => {
-      const clean = this.sanitizeText(text || '', true);
-      const chunks: string[] = [];
-      for (let i = 0; i < clean.length; i += (chunkSize - overlap)) {
-        chunks.push(clean.slice(i, i + chunkSize));
-      }
-      return chunks;
-    };
-
-    const terms = Array.from(new Set(
-      queryLower
-        .split(/[^\p{L}\p{N}]+/u)
-        .filter(w => w && w.length > 2)
-    ));
-
-    const scoreChunk = (chunk: string) => {
-      const lower = chunk.toLowerCase();
-      let score = 0;
-      for (const t of terms) {
-        const re = new RegExp(`\\b${t}\\b`, 'gi');
-        const m = lower.match(re);
-        if (m) score += Math.min(10, m.length * 2);
-      }
-      if (/(^|\s)(introduction|abstract|conclusion|results|methods|background)(\s|\.|:)/i.test(chunk)) score += 3;
-      return score;
-    };
-
-    const scored: { name: string; chunk: string; score: number }[] = [];
-    for (const item of this.knowledgeBase) {
-      const chunks = toChunks(item.content);
-      for (const c of chunks) {
-        const s = scoreChunk(c);
-        if (s > 0) scored.push({ name: item.name, chunk: c, score: s });
-      }
-    }
-
-    scored.sort((a, b) => b.score - a.score);
-  return scored.slice(0, Math.max(1, topN)).map(s => ({ ...s, chunk: this.sanitizeText(s.chunk, true).slice(0, 380) }));
+  // Standalone search query for a RAG follow-up; null when the message is searched as is
+  private async rewriteQuery(
+    message: string,
+    history: ConversationHistory[],
+    options: { configId?: string; useModel?: boolean },
+  ): Promise<QueryRewrite | null> {
+    const rewrite = await this.queryRewriteService.rewrite(message, history, options);
+    return rewrite.method === 'none' ? null : rewrite;
   }
 
   // Helper: build an extractive answer when LLM is unavailable
-  private buildExtractiveFallback(query: string): string | null {
-    const top = this.getTopRagChunks(query, 4);
+  private async buildExtractiveFallback(
+    query: string,
+    documentIds: string[] | null = null,
+  ): Promise<{ response: string; sources: ChatSourceDto[] } | null> {
+    const { results: top } = await this.retrieverService.retrieve(query, {
+      topK: Math.max(4, this.getRagTopK()),
+      documentIds: documentIds || undefined,
+    });
     if (!top.length) {
       // If we have documents but none are usable (e.g., scanned PDFs), advise the user
-      if (this.knowledgeBase.length && this.knowledgeBase.filter(k => (k.content || '').length < 60).length >= Math.ceil(this.knowledgeBase.length / 2)) {
-        return 'Your uploaded documents appear to be scanned images or contain non-extractable text. I could not extract readable content. Please upload a text-based PDF/markdown or OCR the PDF, then try again.';
+      const documents = (await this.knowledgeService.listDocuments()).filter(d => !documentIds || documentIds.includes(d.id));
+      if (documents.length && documents.filter(d => d.status === KnowledgeDocumentStatus.UNREADABLE).length >= Math.ceil(documents.length / 2)) {
+        return {
+          response: 'Your uploaded documents appear to be scanned images or contain non-extractable text. I could not extract readable content. Please upload a text-based PDF/markdown or OCR the PDF, then try again.',
+          sources: [],
+        };
       }
       return null;
     }
 
     // Build an explicit follow-up instruction to push the model for title/main concepts
     let answer = 'Using the excerpts below, provide: 1) the document title, 2) 3–6 main concepts, and 3) a concise summary in 4–6 sentences.\n';
+    const excerptChars = this.getExcerptChars();
     const used = new Set<string>();
+    const sources: ChatSourceDto[] = [];
     for (const s of top) {
-      if (!used.has(s.name)) {
-        used.add(s.name);
-        answer += `\n• ${s.name}:\n`;
+      if (!used.has(s.documentName)) {
+        used.add(s.documentName);
+        answer += `\n• ${s.documentName}:\n`;
       }
-  const cleaned = this.sanitizeText(s.chunk, true);
-      const snippet = cleaned.length > 380 ? cleaned.slice(0, 380) + '…' : cleaned;
-      answer += snippet + '\n';
+      const source = this.toChatSource(s, sources.length + 1, s.content.slice(0, excerptChars));
+      sources.push(source);
+      const cleaned = sanitizeText(s.content, true);
+      const snippet = cleaned.length > excerptChars ? cleaned.slice(0, excerptChars) + '…' : cleaned;
+      answer += `[${source.index}] ${snippet}\n`;
     }
     answer += '\nCited documents: ' + Array.from(used).join(', ');
-    return answer;
+    return { response: answer, sources };
   }
 
   async sendMessage(createMessageDto: CreateChatMessageDto): Promise<ChatResponseDto> {
-    const { message, sessionId, configId, context, ragMode } = createMessageDto;
+    return await this.runChatTurn(createMessageDto, (prompt, options) =>
+      this.aiService.generateResponse(prompt, options),
+    );
+  }
+
+  // Same flow as sendMessage, but relays model tokens and tool calls as they arrive. The returned DTO is authoritative:
+  // guard and fallback answers are never streamed, so clients should replace partial text with it.
+  async streamMessage(
+    createMessageDto: CreateChatMessageDto,
+    onToken: (token: string) => void,
+    onToolCall?: (invocation: ToolInvocation) => void,
+  ): Promise<ChatResponseDto> {
+    return await this.runChatTurn(createMessageDto, (prompt, options) =>
+      this.aiService.generateResponseStream(prompt, { ...options, onToolCall }, onToken),
+    );
+  }
+
+  private async runChatTurn(
+    createMessageDto: CreateChatMessageDto,
+    generate: (prompt: string, options: GenerationOptions) => Promise<AIResponse>,
+  ): Promise<ChatResponseDto> {
+    const { message, sessionId, configId, context, ragMode, collectionIds, documentIds, useTools } = createMessageDto;
     const finalSessionId = sessionId || uuidv4();
+    // Documents the message may draw from (null = whole knowledge base); also used by the error fallback
+    let scopedDocumentIds: string[] | null = null;
+    const knowledgeScope = collectionIds?.length || documentIds?.length ? { collectionIds, documentIds } : undefined;
+    // Standalone form of a RAG follow-up (null when the message was searched as is); also used by the error fallback
+    let queryRewrite: QueryRewrite | null = null;
 
     try {
       const startTime = Date.now();
 
-      // --- Environment-based RAG gating (disable on hosted prod unless explicitly allowed) ---
-      if (ragMode) {
-        const nodeEnv = this.configService.get<string>('NODE_ENV');
-        const allowFlag = this.configService.get<string | boolean>('ALLOW_RAG_IN_PROD');
-        const allowRagInProd = allowFlag === 'true' || allowFlag === true || allowFlag === '1';
-        const isHeroku = !!this.configService.get<string>('DYNO'); // present on Heroku dynos
-        const isHostedProd = (nodeEnv === 'production' || nodeEnv === 'prod') && isHeroku;
-        // Treat local runs as non-hosted even if NODE_ENV mistakenly set to production
-        const isForceLocal = !!this.configService.get<string>('FORCE_LOCAL');
-        if (isHostedProd && !allowRagInProd && !isForceLocal) {
-          const notice = 'RAG is disabled on the hosted environment due to backend hosting limits. Run locally (npm run dev) to use document-grounded answers.';
-          const conversation = this.conversationRepository.create({
-            configId: configId || await this.getDefaultConfigId(),
-            sessionId: finalSessionId,
-            userMessage: message,
-            assistantResponse: notice,
-            context: context || null,
-            responseTime: 0,
-            tokenCount: 0,
-            metadata: {
-              model: 'rag-disabled',
-              temperature: 0,
-              maxTokens: 0,
-              timestamp: new Date(),
-              ragModeUsed: true,
-              knowledgeBaseUsed: false,
-              guardReason: 'rag-disabled-on-hosted-prod',
-            } as any,
-          });
-          await this.conversationRepository.save(conversation);
-          return {
-            response: notice,
-            sessionId: finalSessionId,
-            responseTime: 0,
-            tokenCount: 0,
-            configId,
-          };
-        }
-      }
-      // --- End RAG gating ---
-
-      // Early guard: if RAG is on and active provider is local-only Ollama (no public baseUrl),
-      // return extractive fallback ONLY when no OpenAI key is available to fallback to.
+      // RAG policy: decides whether this configuration may answer from documents here, and within which limits
+      const ragPolicy = ragMode ? await this.ragPolicyService.evaluate(configId) : null;
       if (ragMode) {
-        try {
-          const activeCfg = await this.aiConfigurationService.findActive();
-          const isOllama = String(activeCfg?.modelProvider || '').toLowerCase() === 'ollama';
-          const baseUrl = activeCfg?.baseUrl || '';
-          const localOnly = !baseUrl || /localhost|127\.0\.0\.1/i.test(baseUrl);
-          const hasOpenAIKey = !!this.configService.get('OPENAI_API_KEY');
-          if (isOllama && localOnly && this.knowledgeBase.length && !hasOpenAIKey) {
-            const fallback = this.buildExtractiveFallback(message) || 'No relevant excerpts were found in your uploaded documents.';
-            const conversation = this.conversationRepository.create({
-              configId: activeCfg?.id || (await this.getDefaultConfigId()),
-              sessionId: finalSessionId,
-              userMessage: message,
-              assistantResponse: fallback,
-              context: context || null,
-              responseTime: 0,
-              tokenCount: 0,
-              metadata: {
-                model: 'extractive-fallback',
-                temperature: 0,
-                maxTokens: 0,
-                timestamp: new Date(),
-                ragModeUsed: true,
-                knowledgeBaseUsed: true,
-                guardReason: 'ollama-local-unreachable-on-server',
-              } as any,
-            });
-            await this.conversationRepository.save(conversation);
-            return {
-              response: fallback,
-              sessionId: finalSessionId,
-              responseTime: 0,
-              tokenCount: 0,
-              configId: activeCfg?.id,
-            };
-          }
-        } catch (e) {
-          // ignore guard errors and proceed to normal path
-        }
+        scopedDocumentIds = await this.knowledgeService.resolveScope({ collectionIds, documentIds });
       }
 
       // Get conversation history for this session if sessionId is provided
@@ -355,43 +230,107 @@ export class ChatService {
         conversationHistory = await this.getConversationHistory(sessionId);
       }
 
-      // Build conversation context from history
-      let conversationContext = '';
-      if (conversationHistory.length > 0) {
-        conversationContext = '\n\nPrevious conversation:\n';
-        conversationHistory.forEach((entry, index) => {
-          conversationContext += `\nUser: ${entry.userMessage}\nAssistant: ${entry.assistantResponse}\n`;
+      // RAG disabled → the policy notice; provider unable to serve RAG here → quoted excerpts (or the notice)
+      if (ragPolicy && ragPolicy.status !== 'enabled') {
+        const notice = ragPolicy.reasons.map(r => r.message).join(' ');
+        let response = notice;
+        let sources: ChatSourceDto[] = [];
+        const useExtract = ragPolicy.status === 'degraded' && ragPolicy.policy.fallback === 'extractive';
+        if (useExtract) {
+          queryRewrite = await this.rewriteQuery(message, conversationHistory, { useModel: false });
+          const extract = await this.buildExtractiveFallback(queryRewrite?.query || message, scopedDocumentIds);
+          response = extract?.response || 'No relevant excerpts were found in your uploaded documents.';
+          sources = extract?.sources || [];
+        }
+        const policyNotice = { environment: ragPolicy.environment, status: ragPolicy.status, reasons: ragPolicy.reasons };
+        const model = useExtract ? 'extractive-fallback' : 'rag-disabled';
+        const conversation = this.conversationRepository.create({
+          configId: ragPolicy.configId || configId || await this.getDefaultConfigId(),
+          sessionId: finalSessionId,
+          userMessage: message,
+          assistantResponse: response,
+          context: context || null,
+          responseTime: 0,
+          tokenCount: 0,
+          metadata: {
+            model,
+            temperature: 0,
+            maxTokens: 0,
+            timestamp: new Date(),
+            ragModeUsed: true,
+            knowledgeBaseUsed: useExtract,
+            guardReason: ragPolicy.reasons[0]?.code,
+            ragPolicy: policyNotice,
+            knowledgeScope,
+            queryRewrite: queryRewrite || undefined,
+            sources,
+          } as any,
         });
-        conversationContext += '\nCurrent user message:\n';
+        await this.conversationRepository.save(conversation);
+        return {
+          response,
+          sessionId: finalSessionId,
+          responseTime: 0,
+          tokenCount: 0,
+          configId: ragPolicy.configId || configId,
+          model,
+          fallback: true,
+          sources,
+          ragPolicy: policyNotice,
+        };
       }
 
       // Perform RAG search ONLY if ragMode is enabled
       let knowledgeContext = '';
+      let retrievalMode: RetrievalMode | undefined;
+      let sources: ChatSourceDto[] = [];
+      const documentsCount = await this.knowledgeService.countDocuments();
       if (ragMode) {
-        knowledgeContext = this.searchKnowledgeBase(message);
-        if (!knowledgeContext && this.knowledgeBase.length > 0) {
+        queryRewrite = await this.rewriteQuery(message, conversationHistory, { configId });
+        ({ context: knowledgeContext, mode: retrievalMode, sources } = await this.searchKnowledgeBase(
+          queryRewrite?.query || message,
+          scopedDocumentIds,
+          ragPolicy?.policy.maxContextChars,
+        ));
+        const openingChunks = knowledgeContext
+          ? []
+          : (await this.knowledgeService.getChunks(scopedDocumentIds || undefined)).filter(c => c.chunkIndex === 0);
+        if (openingChunks.length > 0) {
           this.logger.log(`RAG: No specific matches, including general document content`);
-          // Keep general content small too
+          // Keep general content small too: the opening chunk of each document
           knowledgeContext = '\n\n--- KNOWLEDGE BASE CONTEXT (RAG MODE - GENERAL CONTENT) ---\n';
-          const cap = 2000;
+          const cap = ragPolicy?.policy.maxContextChars || AI_CONSTANTS.RAG_DEFAULT_MAX_CONTEXT_CHARS;
           let used = 0;
-          for (const item of this.knowledgeBase) {
-            const clean = this.sanitizeText(item.content, true).slice(0, 380);
-            const section = `\nDocument "${item.name}":\n${clean}`;
+          for (const item of openingChunks) {
+            const clean = item.content.slice(0, this.getExcerptChars());
+            const section = `\n[${sources.length + 1}] Document "${item.name}":\n${clean}`;
             if (used + section.length > cap) break;
             knowledgeContext += section;
             used += section.length;
+            // Not ranked against the query, hence score 0
+            sources.push({
+              index: sources.length + 1,
+              documentId: item.documentId,
+              documentName: item.name,
+              chunkId: item.id,
+              chunkIndex: item.chunkIndex,
+              startOffset: item.startOffset,
+              endOffset: item.startOffset + clean.length,
+              sectionPath: item.sectionPath,
+              score: 0,
+              excerpt: clean,
+            });
           }
           knowledgeContext += '\n--- END KNOWLEDGE BASE CONTEXT ---\n';
         }
         this.logger.log(`RAG Mode: ${ragMode ? 'ENABLED' : 'DISABLED'} - Found ${knowledgeContext.length > 0 ? 'relevant' : 'no'} knowledge base content`);
       }
 
-      // Combine all contexts: conversation + knowledge base (if RAG mode) + additional context
-      let fullPrompt = conversationContext + message;
+      // Combine the message with knowledge base (if RAG mode) + additional context
+      let fullPrompt = message;
       
       if (ragMode && knowledgeContext) {
-        fullPrompt = `${knowledgeContext}\nUsing only the content from the knowledge base above, answer the user. Be concise (max ~8 sentences). If the answer is not present in those documents, say you cannot find it in the uploaded documents. Always cite the document names you used.\n\nUser: ${message}\nAssistant:`;
+        fullPrompt = `${knowledgeContext}\nUsing only the content from the knowledge base above, answer the user. Earlier messages in the conversation only tell you what the user is referring to; do not use them as a source of facts. Be concise (max ~8 sentences). If the answer is not present in those documents, say you cannot find it in the uploaded documents. Cite the numbered excerpts you used inline as [1], [2], etc.\n\nUser: ${message}\nAssistant:`;
       } else if (ragMode && !knowledgeContext) {
         fullPrompt += '\n\nNote: RAG mode is enabled but no relevant documents were found in the knowledge base for this query. Please respond normally.';
       }
@@ -400,46 +339,98 @@ export class ChatService {
         fullPrompt += `\n\nAdditional context: ${context}`;
       }
 
-      this.logger.log(`Processing message with RAG: ${ragMode}, Conversation history: ${conversationHistory.length} messages, Knowledge docs: ${this.knowledgeBase.length}`);
+      // Replay earlier turns as chat messages within the config's token budget; older turns live in the session summary.
+      // RAG prompts keep them too, so follow-ups can be understood; the prompt restricts facts to the excerpts.
+      const memory = sessionId
+        ? await this.conversationMemoryService.buildMemory(sessionId, conversationHistory, configId)
+        : null;
+
+      this.logger.log(`Processing message with RAG: ${ragMode}, Conversation history: ${conversationHistory.length} messages, Knowledge docs: ${documentsCount}`);
 
       // Generate AI response with context (for RAG)
-      const aiResponse = await this.aiService.generateResponse(fullPrompt, {
+      const aiResponse = await generate(fullPrompt, {
         configId,
         context: context,
+        history: memory?.history || [],
+        memorySummary: memory?.summary || undefined,
         // Tighter cap to avoid tunnel/router timeouts
         maxTokens: ragMode ? 300 : undefined,
+        promptType: ragMode ? 'rag' : 'chat',
+        sessionId: finalSessionId,
+        // RAG answers must stay within the excerpts in the prompt, so tools are only offered there on request
+        tools: (useTools ?? !ragMode) ? this.chatToolsService.getTools(knowledgeScope) : undefined,
       });
 
       const responseTime = Date.now() - startTime;
 
+      // Check each sentence against the excerpts; a poorly grounded answer is swapped for quoted excerpts when configured
+      let answer = aiResponse.response;
+      let grounding: GroundingDto | undefined;
+      if (ragMode && sources.length) {
+        grounding = await this.groundingService.verify(aiResponse.response, sources, configId);
+        if (grounding.score !== null && grounding.score < this.groundingService.getMinScore()) {
+          const extract = await this.buildExtractiveFallback(queryRewrite?.query || message, scopedDocumentIds).catch(() => null);
+          if (extract) {
+            this.logger.warn(`RAG answer grounding ${grounding.score} is below the minimum, answering with excerpts instead`);
+            answer = extract.response;
+            sources = extract.sources;
+            grounding = { ...grounding, replaced: true };
+          }
+        }
+      }
+
+      const model = grounding?.replaced ? 'extractive-fallback' : aiResponse.modelUsed;
+
       // Save conversation history
       const conversation = this.conversationRepository.create({
         configId: configId || await this.getDefaultConfigId(),
         sessionId: finalSessionId,
         userMessage: message,
-        assistantResponse: aiResponse.response,
+        assistantResponse: answer,
         context,
         responseTime: aiResponse.responseTime,
         tokenCount: aiResponse.tokensUsed,
         metadata: {
-          model: aiResponse.modelUsed || 'gpt-3.5-turbo',
+          model: model || 'gpt-3.5-turbo',
+          providerConfigId: aiResponse.configId,
+          providerAttempts: aiResponse.attempts,
+          promptTokens: aiResponse.promptTokens,
+          completionTokens: aiResponse.completionTokens,
+          cost: aiResponse.cost,
+          responseCache: aiResponse.cache,
+          toolCalls: aiResponse.toolCalls,
           temperature: aiResponse.config?.temperature || 0.7,
           maxTokens: aiResponse.config?.maxTokens || 1000,
           timestamp: new Date(),
           ragModeUsed: ragMode || false,
           knowledgeBaseUsed: ragMode && knowledgeContext.length > 0,
-          documentsCount: this.knowledgeBase.length,
+          documentsCount,
+          retrievalMode,
+          knowledgeScope,
+          queryRewrite: queryRewrite || undefined,
+          sources,
+          grounding,
+          // Kept for review when the model answer was replaced for weak grounding
+          guardReason: grounding?.replaced ? 'low-grounding-score' : undefined,
+          originalResponse: grounding?.replaced ? aiResponse.response : undefined,
+          memoryTurns: memory ? memory.history.length / 2 : 0,
+          memorySummarizedTurns: memory?.summarizedTurns || 0,
         } as any,
       });
 
       await this.conversationRepository.save(conversation);
 
       return {
-        response: aiResponse.response,
+        response: answer,
         sessionId: finalSessionId,
         responseTime: aiResponse.responseTime,
         tokenCount: aiResponse.tokensUsed,
         configId,
+        model,
+        fallback: !!grounding?.replaced,
+        sources,
+        grounding,
+        toolCalls: aiResponse.toolCalls,
       };
     } catch (error) {
       this.logger.error('Error in chat service (handled):', error as any);
@@ -447,20 +438,30 @@ export class ChatService {
       // If RAG mode and we have documents, return an extractive answer instead of a generic config error
       let fallback = '';
       let kbUsed = false;
-      if (ragMode && this.knowledgeBase.length) {
-        const extract = this.buildExtractiveFallback(message);
+      let sources: ChatSourceDto[] = [];
+      // A scoped message must not fall back to excerpts from outside its scope
+      if (ragMode && (!knowledgeScope || scopedDocumentIds)) {
+        const extract = await this.buildExtractiveFallback(queryRewrite?.query || message, scopedDocumentIds).catch(() => null);
         if (extract) {
-          fallback = extract;
+          fallback = extract.response;
+          sources = extract.sources;
           kbUsed = true;
         }
       }
 
+      // A spent blocking budget is reported as such rather than as a configuration problem
+      const budgetExceeded = error instanceof LlmBudgetExceededError;
+      if (!fallback && budgetExceeded) {
+        fallback = `${error.message}. Raise the budget or try again next month.`;
+      }
+
       if (!fallback) {
         fallback = ragMode
           ? 'I could not complete the answer using your uploaded documents due to a server configuration issue. Please check the AI provider settings on the server or try again.'
           : 'I could not complete the request due to a server configuration issue. Please try again in a moment.';
       }
 
+      const model = kbUsed ? 'extractive-fallback' : 'unavailable';
       const conversation = this.conversationRepository.create({
         configId: await this.getDefaultConfigId(),
         sessionId: finalSessionId,
@@ -470,13 +471,17 @@ export class ChatService {
         responseTime: null,
         tokenCount: null,
         metadata: {
-          model: kbUsed ? 'extractive-fallback' : 'unavailable',
+          model,
           temperature: 0,
           maxTokens: 0,
           timestamp: new Date(),
           ragModeUsed: !!ragMode,
           knowledgeBaseUsed: kbUsed,
           error: !kbUsed,
+          guardReason: budgetExceeded ? 'budget-exceeded' : undefined,
+          knowledgeScope,
+          queryRewrite: queryRewrite || undefined,
+          sources,
         } as any,
       });
       await this.conversationRepository.save(conversation);
@@ -487,6 +492,9 @@ export class ChatService {
         responseTime: 0,
         tokenCount: 0,
         configId,
+        model,
+        fallback: true,
+        sources,
       };
     }
   }
@@ -503,15 +511,35 @@ export class ChatService {
   }
 
   async detectAnomalies(data: any, prompt: string): Promise<ChatResponseDto> {
-    const ai = await this.aiService.detectAnomalies(data, prompt);
+    const ai = await this.aiService.detectAnomalies(data, prompt).catch(this.toBadGateway);
     return {
       response: ai.response,
       sessionId: 'anomalies',
       responseTime: ai.responseTime,
       tokenCount: ai.tokensUsed,
+      result: ai.data,
     };
   }
 
+  async generateChecklist(component: string, issue: string): Promise<ChatResponseDto> {
+    const ai = await this.aiService.generateChecklist(component, issue).catch(this.toBadGateway);
+    return {
+      response: ai.response,
+      sessionId: 'checklist',
+      responseTime: ai.responseTime,
+      tokenCount: ai.tokensUsed,
+      result: ai.data,
+    };
+  }
+
+  // A model that keeps answering outside the schema is an upstream failure, not a server bug
+  private toBadGateway(error: unknown): never {
+    if (error instanceof StructuredOutputError) {
+      throw new BadGatewayException(error.message);
+    }
+    throw error;
+  }
+
   async saveConversationPair(params: {
     sessionId: string;
     userMessage: string;
@@ -549,6 +577,11 @@ export class ChatService {
 
   async deleteConversation(sessionId: string): Promise<void> {
     await this.conversationRepository.delete({ sessionId });
+    await this.conversationMemoryService.deleteSession(sessionId);
+  }
+
+  async getSessionMemory(sessionId: string): Promise<ChatSession | null> {
+    return await this.conversationMemoryService.getSession(sessionId);
   }
 
   async getAllSessions(): Promise<{ sessionId: string; lastMessage: Date; messageCount: number }[]> {
@@ -563,61 +596,4 @@ export class ChatService {
 
     return sessions;
   }
-
-  // Load knowledge files from uploads directory on startup
-  async onModuleInit() {
-    try {
-      const uploadsDir = path.resolve(process.cwd(), 'uploads');
-      if (!fs.existsSync(uploadsDir)) {
-        return;
-      }
-      const files = fs.readdirSync(uploadsDir);
-      for (const fileName of files) {
-        const filePath = path.join(uploadsDir, fileName);
-        try {
-          const stat = fs.statSync(filePath);
-          if (!stat.isFile()) continue;
-          const ext = path.extname(fileName).toLowerCase();
-          if (!['.txt', '.md', '.json', '.log', '.csv', '.pdf'].includes(ext)) continue;
-          let content = '';
-          let type = `text/${ext.replace('.', '')}`;
-          if (ext === '.pdf') {
-            const base = path.join(uploadsDir, path.parse(fileName).name);
-            const mdPath = `${base}.md`;
-            if (fs.existsSync(mdPath)) {
-              content = fs.readFileSync(mdPath, 'utf-8');
-              type = 'text/markdown';
-            } else {
-              const data = fs.readFileSync(filePath);
-              content = await pdfBufferToMarkdown(data, fileName);
-              type = 'text/markdown';
-              try { fs.writeFileSync(mdPath, content, 'utf-8'); } catch {}
-            }
-          } else {
-            content = fs.readFileSync(filePath, 'utf-8');
-            if (ext === '.md') type = 'text/markdown';
-          }
-          content = this.sanitizeText(content, true);
-          const item: KnowledgeItem = {
-            id: `kb-${fileName}`,
-            name: fileName,
-            content,
-            size: stat.size,
-            type,
-            uploadedAt: stat.mtime,
-          };
-          if (!this.knowledgeBase.some(k => k.name === item.name)) {
-            this.knowledgeBase.push(item);
-          }
-        } catch (e) {
-          this.logger.warn(`Failed to load knowledge file ${fileName}: ${e.message}`);
-        }
-      }
-      if (this.knowledgeBase.length) {
-        this.logger.log(`Loaded ${this.knowledgeBase.length} knowledge files from disk for RAG.`);
-      }
-    } catch (err) {
-      this.logger.warn('Failed during knowledge base initialization: ' + err.message);
-    }
-  }
 }
@@ -0,0 +1,89 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import {
+  ChunkingOptions,
+  ChunkingStrategy,
+  TextChunk,
+  csvStrategy,
+  fixedSizeStrategy,
+  markdownStrategy,
+  sentenceStrategy,
+} from '../utils/chunking';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+
+export interface ChunkDocumentParams {
+  fileName: string;
+  mimeType: string;
+  // Explicit strategy/sizes win over the registry's choice and the configured defaults
+  strategy?: string;
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+export interface ChunkDocumentResult {
+  strategy: string;
+  options: ChunkingOptions;
+  chunks: TextChunk[];
+}
+
+// Registry of chunking strategies, picked per document by type unless the upload names one
+@Injectable()
+export class ChunkingService {
+  private readonly strategies = new Map<string, ChunkingStrategy>();
+
+  constructor(private readonly configService: ConfigService) {
+    [markdownStrategy, sentenceStrategy, csvStrategy, fixedSizeStrategy].forEach((strategy) => this.register(strategy));
+  }
+
+  register(strategy: ChunkingStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  getStrategyNames(): string[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  getStrategy(name: string): ChunkingStrategy {
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new BadRequestException(`Unknown chunking strategy "${name}". Available: ${this.getStrategyNames().join(', ')}`);
+    }
+    return strategy;
+  }
+
+  resolveStrategy(fileName: string, mimeType: string, requested?: string): ChunkingStrategy {
+    if (requested) {
+      return this.getStrategy(requested);
+    }
+
+    const ext = path.extname(fileName).toLowerCase();
+    // PDF, DOCX, HTML, XLSX and EPUB arrive here as Markdown (see convertDocumentToMarkdown)
+    if (mimeType === 'text/markdown' || ext === '.md') return this.strategies.get('markdown');
+    if (mimeType === 'text/csv' || ext === '.csv') return this.strategies.get('csv');
+    if (ext === '.json') return this.strategies.get('fixed');
+    return this.strategies.get('sentence');
+  }
+
+  // KNOWLEDGE_CHUNK_SIZE / KNOWLEDGE_CHUNK_OVERLAP override the built-in defaults
+  resolveOptions(chunkSize?: number, chunkOverlap?: number): ChunkingOptions {
+    const size = chunkSize || parseInt(this.configService.get<string>('KNOWLEDGE_CHUNK_SIZE') || '', 10) || AI_CONSTANTS.DEFAULT_CHUNK_SIZE;
+    const clampedSize = Math.min(AI_CONSTANTS.MAX_CHUNK_SIZE, Math.max(AI_CONSTANTS.MIN_CHUNK_SIZE, size));
+    const configuredOverlap = parseInt(this.configService.get<string>('KNOWLEDGE_CHUNK_OVERLAP') || '', 10);
+    const overlap = chunkOverlap ?? (Number.isNaN(configuredOverlap) ? AI_CONSTANTS.DEFAULT_CHUNK_OVERLAP : configuredOverlap);
+    // Overlap beyond half a chunk would mostly duplicate content
+    return { chunkSize: clampedSize, chunkOverlap: Math.max(0, Math.min(overlap, Math.floor(clampedSize / 2))) };
+  }
+
+  // Strategies whose splitting relies on line structure need the text sanitized with layout preserved
+  preservesLayout(fileName: string, mimeType: string, requested?: string): boolean {
+    const strategy = this.resolveStrategy(fileName, mimeType, requested);
+    return strategy.name === 'markdown' || strategy.name === 'csv';
+  }
+
+  chunk(text: string, params: ChunkDocumentParams): ChunkDocumentResult {
+    const strategy = this.resolveStrategy(params.fileName, params.mimeType, params.strategy);
+    const options = this.resolveOptions(params.chunkSize, params.chunkOverlap);
+    return { strategy: strategy.name, options, chunks: strategy.chunk(text, options) };
+  }
+}
@@ -0,0 +1,149 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ChatSession } from '../entities/chat-session.entity';
+import { ConversationHistory } from '../entities/conversation-history.entity';
+import { AIConfiguration } from '../entities/ai-configuration.entity';
+import { AIService, ChatMessage } from './ai.service';
+import { AIConfigurationService } from './ai-configuration.service';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+
+export interface ConversationMemory {
+  summary: string | null;
+  history: ChatMessage[];
+  summarizedTurns: number;
+}
+
+// Formatting overhead per turn (role markers, separators) on top of the message text
+const TURN_OVERHEAD_TOKENS = 8;
+
+@Injectable()
+export class ConversationMemoryService {
+  private readonly logger = new Logger(ConversationMemoryService.name);
+
+  constructor(
+    @InjectRepository(ChatSession)
+    private readonly sessionRepository: Repository<ChatSession>,
+    private readonly aiService: AIService,
+    private readonly aiConfigurationService: AIConfigurationService,
+  ) {}
+
+  // Character-based estimate; close enough for budgeting without a provider-specific tokenizer
+  estimateTokens(text: string): number {
+    return Math.ceil((text || '').length / AI_CONSTANTS.CHARS_PER_TOKEN);
+  }
+
+  estimateTurnTokens(turn: ConversationHistory): number {
+    return this.estimateTokens(turn.userMessage) + this.estimateTokens(turn.assistantResponse) + TURN_OVERHEAD_TOKENS;
+  }
+
+  // Per-config budget from additionalSettings.memoryTokenBudget
+  getTokenBudget(config?: AIConfiguration | null): number {
+    const budget = Number(config?.additionalSettings?.memoryTokenBudget);
+    return budget > 0 ? budget : AI_CONSTANTS.DEFAULT_MEMORY_TOKEN_BUDGET;
+  }
+
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    return await this.sessionRepository.findOne({ where: { sessionId } });
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.sessionRepository.delete({ sessionId });
+  }
+
+  // Keep the newest turns verbatim within the budget and fold anything older into the session summary
+  async buildMemory(sessionId: string, turns: ConversationHistory[], configId?: string): Promise<ConversationMemory> {
+    const config = configId
+      ? await this.aiConfigurationService.findOne(configId).catch(() => null)
+      : await this.aiConfigurationService.findActive();
+    const budget = this.getTokenBudget(config);
+
+    // Turns arrive oldest first, so the summarized ones are always a prefix
+    let session = await this.getSession(sessionId);
+    const pending = turns.slice(session?.summarizedTurns || 0);
+
+    // Reserve room for the summary whenever one exists or is about to be written
+    const pendingTokens = pending.reduce((sum, turn) => sum + this.estimateTurnTokens(turn), 0);
+    const needsSummary = !!session?.summary || pendingTokens > budget;
+    let remaining = budget - (needsSummary ? Math.min(AI_CONSTANTS.MEMORY_SUMMARY_MAX_TOKENS, Math.floor(budget / 2)) : 0);
+
+    let splitIndex = pending.length;
+    while (splitIndex > 0) {
+      const cost = this.estimateTurnTokens(pending[splitIndex - 1]);
+      if (cost > remaining) break;
+      remaining -= cost;
+      splitIndex--;
+    }
+
+    const overflow = pending.slice(0, splitIndex);
+    const recent = pending.slice(splitIndex);
+
+    if (overflow.length > 0) {
+      try {
+        session = await this.foldIntoSummary(sessionId, session, overflow, config, budget);
+      } catch (error) {
+        // Without a fresh summary the overflow is dropped for this turn and folded in on a later one
+        this.logger.warn(`Failed to summarize ${overflow.length} turns for session ${sessionId}: ${(error as Error).message}`);
+      }
+    }
+
+    return {
+      summary: session?.summary || null,
+      history: recent.flatMap((turn) => [
+        { role: 'user' as const, content: turn.userMessage },
+        { role: 'assistant' as const, content: turn.assistantResponse },
+      ]),
+      summarizedTurns: session?.summarizedTurns || 0,
+    };
+  }
+
+  private async foldIntoSummary(
+    sessionId: string,
+    session: ChatSession | null,
+    overflow: ConversationHistory[],
+    config: AIConfiguration | null,
+    budget: number,
+  ): Promise<ChatSession> {
+    let summary = session?.summary || '';
+
+    // Fold in batches so a long backlog never produces a summarization prompt bigger than the budget
+    const batches: ConversationHistory[][] = [];
+    let batch: ConversationHistory[] = [];
+    let batchTokens = 0;
+    for (const turn of overflow) {
+      const cost = this.estimateTurnTokens(turn);
+      if (batch.length > 0 && batchTokens + cost > budget) {
+        batches.push(batch);
+        batch = [];
+        batchTokens = 0;
+      }
+      batch.push(turn);
+      batchTokens += cost;
+    }
+    batches.push(batch);
+
+    for (const turns of batches) {
+      const transcript = turns
+        .map((turn) => `User: ${turn.userMessage}\nAssistant: ${turn.assistantResponse}`)
+        .join('\n\n');
+      const prompt = `Update the running summary of a conversation between a user and an assistant.\n\nCurrent summary:\n${summary || '(none yet)'}\n\nNew turns to fold in:\n${transcript}\n\nWrite the updated summary as a short paragraph. Keep facts, names, numbers, decisions and open questions the user may refer back to. Reply with the summary only.`;
+
+      const result = await this.aiService.generateResponse(prompt, {
+        configId: config?.id,
+        temperature: 0.2,
+        maxTokens: AI_CONSTANTS.MEMORY_SUMMARY_MAX_TOKENS,
+        promptType: 'memory_summary',
+        sessionId,
+      });
+      summary = result.response.trim();
+    }
+
+    const target = session || this.sessionRepository.create({ sessionId, summarizedTurns: 0 });
+    target.summary = summary;
+    target.summaryTokens = this.estimateTokens(summary);
+    target.summarizedTurns = (target.summarizedTurns || 0) + overflow.length;
+
+    this.logger.log(`Folded ${overflow.length} turns into the summary for session ${sessionId}`);
+    return await this.sessionRepository.save(target);
+  }
+}
@@ -0,0 +1,109 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import OpenAI from 'openai';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+
+export type EmbeddingProvider = 'ollama' | 'openai';
+
+export interface EmbeddingModelInfo {
+  provider: EmbeddingProvider;
+  model: string;
+  // Stored on each chunk so vectors from different models are never compared
+  key: string;
+}
+
+// A failed provider is not retried on every query/upload until this much time has passed
+const UNAVAILABLE_COOLDOWN_MS = 60 * 1000;
+
+@Injectable()
+export class EmbeddingService {
+  private readonly logger = new Logger(EmbeddingService.name);
+  private openaiClient: OpenAI | null = null;
+  private unavailableUntil = 0;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  // EMBEDDING_PROVIDER=ollama|openai|none; unset picks OpenAI when a key is present, otherwise Ollama
+  getModel(): EmbeddingModelInfo | null {
+    const configured = (this.configService.get<string>('EMBEDDING_PROVIDER') || '').toLowerCase();
+    if (configured === 'none' || configured === 'off' || configured === 'false') {
+      return null;
+    }
+
+    const provider: EmbeddingProvider = configured === 'openai' || configured === 'ollama'
+      ? configured
+      : (this.configService.get('OPENAI_API_KEY') ? 'openai' : 'ollama');
+    const model = this.configService.get<string>('EMBEDDING_MODEL') || (provider === 'openai'
+      ? AI_CONSTANTS.OPENAI_DEFAULT_EMBEDDING_MODEL
+      : AI_CONSTANTS.OLLAMA_DEFAULT_EMBEDDING_MODEL);
+
+    return { provider, model, key: `${provider}:${model}` };
+  }
+
+  isAvailable(): boolean {
+    return !!this.getModel() && Date.now() >= this.unavailableUntil;
+  }
+
+  // Returns one vector per input, or null when no provider is configured or it cannot be reached
+  async embed(texts: string[]): Promise<{ vectors: number[][]; model: EmbeddingModelInfo } | null> {
+    const model = this.getModel();
+    if (!model || !texts.length || !this.isAvailable()) {
+      return null;
+    }
+
+    try {
+      const vectors = model.provider === 'openai'
+        ? await this.embedWithOpenAI(texts, model.model)
+        : await this.embedWithOllama(texts, model.model);
+      return { vectors, model };
+    } catch (error) {
+      this.unavailableUntil = Date.now() + UNAVAILABLE_COOLDOWN_MS;
+      this.logger.warn(`Embedding provider ${model.key} unavailable, using lexical retrieval: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  private async embedWithOllama(texts: string[], model: string): Promise<number[][]> {
+    const baseUrl = (this.configService.get('OLLAMA_BASE_URL') || AI_CONSTANTS.OLLAMA_DEFAULT_BASE_URL).replace(/\/$/, '');
+    const vectors: number[][] = [];
+    // /api/embeddings takes a single prompt per request
+    for (const text of texts) {
+      const response = await axios.post(`${baseUrl}/api/embeddings`, { model, prompt: text }, { timeout: 30000 });
+      const embedding = response.data?.embedding;
+      if (!Array.isArray(embedding) || !embedding.length) {
+        throw new Error(`Ollama returned no embedding for model ${model}`);
+      }
+      vectors.push(embedding);
+    }
+    return vectors;
+  }
+
+  private async embedWithOpenAI(texts: string[], model: string): Promise<number[][]> {
+    if (!this.openaiClient) {
+      this.openaiClient = new OpenAI({ apiKey: this.configService.get('OPENAI_API_KEY') });
+    }
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += AI_CONSTANTS.EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + AI_CONSTANTS.EMBEDDING_BATCH_SIZE);
+      const response = await this.openaiClient.embeddings.create({ model, input: batch });
+      const ordered = [...response.data].sort((a, b) => a.index - b.index);
+      vectors.push(...ordered.map((item) => item.embedding));
+    }
+    return vectors;
+  }
+
+  cosineSimilarity(a: number[], b: number[]): number {
+    if (!a?.length || a.length !== b?.length) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+  }
+}
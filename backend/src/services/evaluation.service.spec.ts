@@ -0,0 +1,59 @@
+import { EvaluationMode } from '../entities/evaluation-run.entity';
+import { EvaluationService } from './evaluation.service';
+
+describe('EvaluationService', () => {
+  const evaluationCase = { id: 'case-1', question: 'How do I restart the worker?', expectedDocumentName: 'runbook.md' };
+  const source = { documentId: 'doc-1', documentName: 'runbook.md', excerpt: 'Drain the worker, then restart it.' };
+  const chatService = {
+    sendMessage: jest.fn(),
+    deleteConversation: jest.fn().mockResolvedValue(undefined),
+    getRagSettings: () => ({ topK: 5, excerptChars: 800 }),
+  };
+  const groundingService = { verifyLexically: jest.fn().mockReturnValue({ score: 0.5 }) };
+
+  const service = new EvaluationService(
+    { find: jest.fn().mockResolvedValue([evaluationCase]) } as any,
+    { create: (run: unknown) => run, save: async (run: unknown) => ({ id: 'run-1', ...(run as object) }) } as any,
+    {
+      retrieve: jest.fn().mockResolvedValue({
+        mode: 'bm25',
+        results: [{ ...source, chunkId: 'chunk-1', chunkIndex: 0, score: 1, content: source.excerpt }],
+      }),
+    } as any,
+    { countDocuments: jest.fn().mockResolvedValue(1) } as any,
+    { getModel: () => null } as any,
+    chatService as any,
+    groundingService as any,
+    { get: () => undefined } as any,
+  );
+
+  beforeEach(() => {
+    chatService.sendMessage.mockReset();
+    groundingService.verifyLexically.mockClear();
+  });
+
+  it('scores faithfulness of model answers and records the model', async () => {
+    chatService.sendMessage.mockResolvedValue({ response: 'Drain it first.', model: 'llama3', fallback: false, sources: [source] });
+
+    const run = await service.run({ mode: EvaluationMode.RAG });
+
+    expect(run.faithfulness).toBe(0.5);
+    expect(run.results[0]).toMatchObject({ model: 'llama3', fallback: false, faithfulness: 0.5, contextHit: true });
+  });
+
+  it('leaves fallback answers out of faithfulness', async () => {
+    chatService.sendMessage.mockResolvedValue({
+      response: 'Using the excerpts below, provide: ...',
+      model: 'extractive-fallback',
+      fallback: true,
+      sources: [source],
+    });
+
+    const run = await service.run({ mode: EvaluationMode.RAG });
+
+    expect(groundingService.verifyLexically).not.toHaveBeenCalled();
+    expect(run.faithfulness).toBeNull();
+    expect(run.contextRecall).toBe(1);
+    expect(run.results[0]).toMatchObject({ model: 'extractive-fallback', fallback: true, faithfulness: null });
+  });
+});
@@ -0,0 +1,298 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { EvaluationCase } from '../entities/evaluation-case.entity';
+import {
+  EvaluationCaseResult,
+  EvaluationMode,
+  EvaluationRun,
+  EvaluationRunConfig,
+} from '../entities/evaluation-run.entity';
+import { ChatService } from './chat.service';
+import { EmbeddingService } from './embedding.service';
+import { GroundingService } from './grounding.service';
+import { KnowledgeService } from './knowledge.service';
+import { RetrievalMode, RetrieverService, tokenize } from './retriever.service';
+
+export interface EvaluationCaseInput {
+  question: string;
+  expectedDocumentId?: string;
+  expectedDocumentName?: string;
+  expectedPassage?: string;
+  collectionId?: string;
+}
+
+export interface EvaluationRunOptions {
+  mode?: EvaluationMode;
+  k?: number;
+  label?: string;
+  caseIds?: string[];
+  configId?: string;
+}
+
+export interface EvaluationComparison {
+  baseline: EvaluationRun;
+  candidate: EvaluationRun;
+  // candidate minus baseline; null when either run lacks the metric
+  delta: { recallAtK: number; mrr: number; faithfulness: number | null; contextRecall: number | null };
+  // Cases present in both runs whose first relevant rank changed
+  changedCases: { caseId: string; question: string; baselineRank: number | null; candidateRank: number | null }[];
+}
+
+const DEFAULT_K = 5;
+// Share of a passage's terms a chunk must contain when the passage is not found verbatim (e.g. split across chunks)
+const PASSAGE_TERM_COVERAGE = 0.8;
+
+// Offline quality checks for the knowledge base: stored question → expected document/passage cases are run against
+// the retriever (recall@k, MRR) or the full chat pipeline (plus answer faithfulness), and every run is kept for comparison.
+@Injectable()
+export class EvaluationService {
+  private readonly logger = new Logger(EvaluationService.name);
+
+  constructor(
+    @InjectRepository(EvaluationCase)
+    private readonly caseRepository: Repository<EvaluationCase>,
+    @InjectRepository(EvaluationRun)
+    private readonly runRepository: Repository<EvaluationRun>,
+    private readonly retrieverService: RetrieverService,
+    private readonly knowledgeService: KnowledgeService,
+    private readonly embeddingService: EmbeddingService,
+    private readonly chatService: ChatService,
+    private readonly groundingService: GroundingService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async listCases(): Promise<EvaluationCase[]> {
+    return await this.caseRepository.find({ order: { createdAt: 'ASC' } });
+  }
+
+  async createCase(input: EvaluationCaseInput): Promise<EvaluationCase> {
+    if (!input.expectedDocumentId && !input.expectedDocumentName && !input.expectedPassage) {
+      throw new BadRequestException('An evaluation case needs an expected document or passage');
+    }
+    // Keep the name next to the id so results stay readable after the document is gone
+    const document = input.expectedDocumentId
+      ? await this.knowledgeService.getDocumentStatus(input.expectedDocumentId)
+      : null;
+    if (input.collectionId) {
+      await this.knowledgeService.getCollection(input.collectionId);
+    }
+
+    return await this.caseRepository.save(
+      this.caseRepository.create({
+        question: input.question.trim(),
+        expectedDocumentId: document?.id ?? null,
+        expectedDocumentName: input.expectedDocumentName || document?.name || null,
+        expectedPassage: input.expectedPassage || null,
+        collectionId: input.collectionId || null,
+      }),
+    );
+  }
+
+  async removeCase(id: string): Promise<void> {
+    const result = await this.caseRepository.delete(id);
+    if (!result.affected) {
+      throw new NotFoundException(`Evaluation case with ID ${id} not found`);
+    }
+  }
+
+  async run(options: EvaluationRunOptions = {}): Promise<EvaluationRun> {
+    const mode = options.mode || EvaluationMode.RETRIEVAL;
+    const k = options.k || DEFAULT_K;
+    const cases = await this.caseRepository.find({
+      where: options.caseIds?.length ? { id: In(options.caseIds) } : {},
+      order: { createdAt: 'ASC' },
+    });
+    if (!cases.length) {
+      throw new BadRequestException('No evaluation cases to run; add some first');
+    }
+
+    const startTime = Date.now();
+    const results: EvaluationCaseResult[] = [];
+    let retrievalMode: RetrievalMode | null = null;
+    for (const evaluationCase of cases) {
+      const { result, mode: usedMode } = await this.runCase(evaluationCase, mode, k, options.configId);
+      retrievalMode = retrievalMode ?? usedMode;
+      results.push(result);
+    }
+
+    const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+    const round = (value: number | null) => value === null ? null : Number(value.toFixed(4));
+    const isRag = mode === EvaluationMode.RAG;
+
+    const run = await this.runRepository.save(
+      this.runRepository.create({
+        label: options.label || null,
+        mode,
+        k,
+        caseCount: cases.length,
+        recallAtK: round(average(results.map((r) => (r.rank ? 1 : 0)))),
+        mrr: round(average(results.map((r) => r.reciprocalRank))),
+        faithfulness: isRag
+          ? round(average(results.map((r) => r.faithfulness).filter((f): f is number => typeof f === 'number')))
+          : null,
+        contextRecall: isRag ? round(average(results.map((r) => (r.contextHit ? 1 : 0)))) : null,
+        durationMs: Date.now() - startTime,
+        config: await this.snapshotConfig(retrievalMode),
+        results,
+      }),
+    );
+    const fallbackAnswers = results.filter((r) => r.fallback).length;
+    this.logger.log(
+      `Evaluation run ${run.id} (${mode}, k=${k}, ${cases.length} cases): recall@k ${run.recallAtK}, MRR ${run.mrr}` +
+      (isRag ? `, faithfulness ${run.faithfulness}, context recall ${run.contextRecall}` : ''),
+    );
+    if (fallbackAnswers) {
+      this.logger.warn(`${fallbackAnswers} of ${cases.length} cases were answered without a model and are not in faithfulness`);
+    }
+    return run;
+  }
+
+  // Runs without their per-case results, newest first
+  async listRuns(): Promise<EvaluationRun[]> {
+    return await this.runRepository.find({
+      select: [
+        'id', 'label', 'mode', 'k', 'caseCount', 'recallAtK', 'mrr', 'faithfulness', 'contextRecall',
+        'durationMs', 'config', 'createdAt',
+      ],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async getRun(id: string): Promise<EvaluationRun> {
+    const run = await this.runRepository.findOne({ where: { id } });
+    if (!run) {
+      throw new NotFoundException(`Evaluation run with ID ${id} not found`);
+    }
+    return run;
+  }
+
+  async compareRuns(baselineId: string, candidateId: string): Promise<EvaluationComparison> {
+    const [baseline, candidate] = await Promise.all([this.getRun(baselineId), this.getRun(candidateId)]);
+    const diff = (a: number | null, b: number | null) => (a === null || b === null ? null : Number((b - a).toFixed(4)));
+    const baselineRanks = new Map((baseline.results || []).map((r) => [r.caseId, r.rank]));
+
+    return {
+      baseline,
+      candidate,
+      delta: {
+        recallAtK: diff(baseline.recallAtK, candidate.recallAtK),
+        mrr: diff(baseline.mrr, candidate.mrr),
+        faithfulness: diff(baseline.faithfulness, candidate.faithfulness),
+        contextRecall: diff(baseline.contextRecall, candidate.contextRecall),
+      },
+      changedCases: (candidate.results || [])
+        .filter((r) => baselineRanks.has(r.caseId) && baselineRanks.get(r.caseId) !== r.rank)
+        .map((r) => ({
+          caseId: r.caseId,
+          question: r.question,
+          baselineRank: baselineRanks.get(r.caseId),
+          candidateRank: r.rank,
+        })),
+    };
+  }
+
+  private async runCase(
+    evaluationCase: EvaluationCase,
+    mode: EvaluationMode,
+    k: number,
+    configId?: string,
+  ): Promise<{ result: EvaluationCaseResult; mode: RetrievalMode | null }> {
+    const result: EvaluationCaseResult = {
+      caseId: evaluationCase.id,
+      question: evaluationCase.question,
+      rank: null,
+      reciprocalRank: 0,
+      retrieved: [],
+    };
+
+    try {
+      const documentIds = evaluationCase.collectionId
+        ? await this.knowledgeService.resolveScope({ collectionIds: [evaluationCase.collectionId] })
+        : null;
+      const { mode: retrievalMode, results } = await this.retrieverService.retrieve(evaluationCase.question, {
+        topK: k,
+        documentIds: documentIds || undefined,
+      });
+      result.retrieved = results.map((r) => ({
+        documentId: r.documentId,
+        documentName: r.documentName,
+        chunkId: r.chunkId,
+        chunkIndex: r.chunkIndex,
+        score: Number(r.score.toFixed(4)),
+        relevant: this.isRelevant(evaluationCase, r.documentId, r.documentName, r.content),
+      }));
+      const firstRelevant = result.retrieved.findIndex((r) => r.relevant);
+      result.rank = firstRelevant >= 0 ? firstRelevant + 1 : null;
+      result.reciprocalRank = result.rank ? 1 / result.rank : 0;
+
+      if (mode === EvaluationMode.RAG) {
+        await this.answerCase(evaluationCase, result, configId);
+      }
+      return { result, mode: retrievalMode };
+    } catch (e) {
+      result.error = (e as Error).message;
+      this.logger.warn(`Evaluation case ${evaluationCase.id} failed: ${result.error}`);
+      return { result, mode: null };
+    }
+  }
+
+  // Ask through the chat pipeline in a throwaway session, then score the answer against the excerpts it was given
+  private async answerCase(evaluationCase: EvaluationCase, result: EvaluationCaseResult, configId?: string): Promise<void> {
+    const sessionId = `evaluation-${uuidv4()}`;
+    try {
+      const response = await this.chatService.sendMessage({
+        message: evaluationCase.question,
+        sessionId,
+        configId,
+        ragMode: true,
+        collectionIds: evaluationCase.collectionId ? [evaluationCase.collectionId] : undefined,
+      });
+      const sources = response.sources || [];
+      result.answer = response.response;
+      result.model = response.model;
+      result.fallback = !!response.fallback;
+      result.contextHit = sources.some((s) => this.isRelevant(evaluationCase, s.documentId, s.documentName, s.excerpt));
+      // Fallback answers (quoted excerpts, notices) involve no model, so scoring them would only blur the comparison.
+      // Lexical only, so runs stay comparable whether or not the grounding judge is enabled
+      result.faithfulness = result.fallback
+        ? null
+        : this.groundingService.verifyLexically(response.response, sources).score;
+    } finally {
+      await this.chatService.deleteConversation(sessionId).catch(() => undefined);
+    }
+  }
+
+  private isRelevant(evaluationCase: EvaluationCase, documentId: string, documentName: string, content: string): boolean {
+    if (evaluationCase.expectedDocumentId && documentId !== evaluationCase.expectedDocumentId) return false;
+    if (!evaluationCase.expectedDocumentId && evaluationCase.expectedDocumentName
+      && documentName !== evaluationCase.expectedDocumentName) return false;
+    return !evaluationCase.expectedPassage || this.containsPassage(content, evaluationCase.expectedPassage);
+  }
+
+  private containsPassage(content: string, passage: string): boolean {
+    const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+    if (normalize(content).includes(normalize(passage))) return true;
+
+    const passageTerms = new Set(tokenize(passage));
+    if (!passageTerms.size) return false;
+    const contentTerms = new Set(tokenize(content));
+    const found = Array.from(passageTerms).filter((term) => contentTerms.has(term)).length;
+    return found / passageTerms.size >= PASSAGE_TERM_COVERAGE;
+  }
+
+  private async snapshotConfig(retrievalMode: RetrievalMode | null): Promise<EvaluationRunConfig> {
+    const { topK, excerptChars } = this.chatService.getRagSettings();
+    return {
+      retrievalMode,
+      ragTopK: topK,
+      excerptChars,
+      embeddingModel: this.embeddingService.getModel()?.key ?? null,
+      chunkSize: this.configService.get<string>('KNOWLEDGE_CHUNK_SIZE') || null,
+      chunkOverlap: this.configService.get<string>('KNOWLEDGE_CHUNK_OVERLAP') || null,
+      documentCount: await this.knowledgeService.countDocuments(),
+    };
+  }
+}
@@ -0,0 +1,180 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AIService } from './ai.service';
+import { tokenize } from './retriever.service';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+
+export type GroundingMethod = 'lexical' | 'judge';
+
+export interface GroundedSentence {
+  // Character range of the sentence within the answer, so clients can mark it in place
+  start: number;
+  end: number;
+  text: string;
+  // Share of the sentence's terms found in the excerpts
+  coverage: number;
+  supported: boolean;
+  // Excerpts ([n]) that back the sentence: the ones it cites, else the best lexical match
+  sourceIndexes: number[];
+  method: GroundingMethod;
+}
+
+export interface GroundingReport {
+  // Share of scored sentences that are supported; null when no sentence could be scored
+  score: number | null;
+  judged: boolean;
+  sentences: GroundedSentence[];
+}
+
+export interface GroundingExcerpt {
+  index: number;
+  excerpt: string;
+}
+
+// Share of a sentence's terms that must occur in the excerpts for it to count as supported
+const SENTENCE_SUPPORT_COVERAGE = 0.6;
+// Sentences with fewer terms ("Sure.", "Here is a summary:") are not scored
+const MIN_SENTENCE_TERMS = 3;
+
+// Post-generation check of RAG answers: every sentence is compared with the excerpts the model was given.
+// Lexical term coverage always runs (numbers must appear verbatim); with RAG_GROUNDING_JUDGE=true the model
+// is asked about the sentences the lexical check could not place, which catches paraphrases.
+@Injectable()
+export class GroundingService {
+  private readonly logger = new Logger(GroundingService.name);
+
+  constructor(
+    private readonly aiService: AIService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Answers scoring below this are replaced by the extractive fallback; 0 (default) keeps every answer
+  getMinScore(): number {
+    const configured = parseFloat(this.configService.get<string>('RAG_GROUNDING_MIN_SCORE') || '');
+    return configured > 0 && configured <= 1 ? configured : 0;
+  }
+
+  private isJudgeEnabled(): boolean {
+    const flag = this.configService.get<string | boolean>('RAG_GROUNDING_JUDGE');
+    return flag === true || flag === 'true' || flag === '1';
+  }
+
+  async verify(answer: string, excerpts: GroundingExcerpt[], configId?: string): Promise<GroundingReport> {
+    const report = this.verifyLexically(answer, excerpts);
+    const unsupported = report.sentences.filter((s) => !s.supported);
+    if (!unsupported.length || !this.isJudgeEnabled()) {
+      return report;
+    }
+
+    try {
+      const supportedByJudge = await this.judge(unsupported, excerpts, configId);
+      unsupported.forEach((sentence, i) => {
+        if (supportedByJudge.has(i + 1)) {
+          sentence.supported = true;
+          sentence.method = 'judge';
+        }
+      });
+      report.judged = true;
+      report.score = this.score(report.sentences);
+    } catch (error) {
+      this.logger.warn(`Grounding judge unavailable, keeping the lexical verdict: ${(error as Error).message}`);
+    }
+    return report;
+  }
+
+  verifyLexically(answer: string, excerpts: GroundingExcerpt[]): GroundingReport {
+    const sentences: GroundedSentence[] = [];
+    if (!excerpts.length) {
+      return { score: null, judged: false, sentences };
+    }
+
+    const contextText = excerpts.map((e) => e.excerpt).join('\n');
+    const contextTerms = new Set(tokenize(contextText));
+    const excerptTerms = excerpts.map((e) => ({ index: e.index, terms: new Set(tokenize(e.excerpt)) }));
+
+    for (const { start, end, text } of this.splitSentences(answer || '')) {
+      const cited = Array.from(text.matchAll(/\[(\d+)\]/g), (m) => Number(m[1]))
+        .filter((index) => excerpts.some((e) => e.index === index));
+      const terms = Array.from(new Set(tokenize(text.replace(/\[\d+\]/g, ' '))));
+      if (terms.length < MIN_SENTENCE_TERMS) continue;
+
+      const coverage = terms.filter((term) => contextTerms.has(term)).length / terms.length;
+      // A figure the excerpts do not contain is the typical hallucination, however well the words match
+      const numbers = terms.filter((term) => /\d/.test(term));
+      const numbersFound = numbers.every((n) => contextTerms.has(n));
+      const best = excerptTerms
+        .map((e) => ({ index: e.index, found: terms.filter((term) => e.terms.has(term)).length }))
+        .sort((a, b) => b.found - a.found)[0];
+
+      sentences.push({
+        start,
+        end,
+        text,
+        coverage: Number(coverage.toFixed(3)),
+        supported: coverage >= SENTENCE_SUPPORT_COVERAGE && numbersFound,
+        sourceIndexes: cited.length ? Array.from(new Set(cited)) : best?.found ? [best.index] : [],
+        method: 'lexical',
+      });
+    }
+
+    return { score: this.score(sentences), judged: false, sentences };
+  }
+
+  private score(sentences: GroundedSentence[]): number | null {
+    if (!sentences.length) return null;
+    return Number((sentences.filter((s) => s.supported).length / sentences.length).toFixed(3));
+  }
+
+  // Sentences end at . ! ? (not inside numbers like 2.5) or at line breaks; offsets refer to the original answer
+  private splitSentences(answer: string): { start: number; end: number; text: string }[] {
+    const sentences: { start: number; end: number; text: string }[] = [];
+    const boundary = /[.!?]+(?=\s|$)(?:\s*\[\d+\])*|\n+/g;
+    let start = 0;
+    const push = (end: number) => {
+      const raw = answer.slice(start, end);
+      const leading = raw.length - raw.trimStart().length;
+      const text = raw.trim();
+      if (text) sentences.push({ start: start + leading, end: start + leading + text.length, text });
+    };
+    for (const match of answer.matchAll(boundary)) {
+      const end = match.index + match[0].length;
+      push(end);
+      start = end;
+    }
+    push(answer.length);
+    return sentences;
+  }
+
+  // Asks the model which numbered sentences the excerpts support; returns their numbers
+  private async judge(sentences: GroundedSentence[], excerpts: GroundingExcerpt[], configId?: string): Promise<Set<number>> {
+    const context = excerpts.map((e) => `[${e.index}] ${e.excerpt}`).join('\n\n');
+    const claims = sentences.map((s, i) => `${i + 1}. ${s.text}`).join('\n');
+    const prompt = `Excerpts:\n${context}\n\nStatements:\n${claims}\n\nWhich statements are fully supported by the excerpts above? Paraphrases count; facts, figures or names that are missing from the excerpts do not. Reply with the numbers of the supported statements separated by commas, or NONE.`;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('timed out')), AI_CONSTANTS.GROUNDING_JUDGE_TIMEOUT_MS);
+    });
+    try {
+      const result = await Promise.race([
+        this.aiService.generateResponse(prompt, {
+          configId,
+          temperature: 0,
+          maxTokens: AI_CONSTANTS.GROUNDING_JUDGE_MAX_TOKENS,
+          promptType: 'grounding_judge',
+        }),
+        timeout,
+      ]);
+      const reply = result.response || '';
+      if (/^\s*none\b/i.test(reply)) return new Set();
+      const numbers = Array.from(reply.matchAll(/\d+/g), (m) => Number(m[0]))
+        .filter((n) => n >= 1 && n <= sentences.length);
+      if (!numbers.length) {
+        throw new Error(`unexpected judge reply "${reply.slice(0, 80)}"`);
+      }
+      return new Set(numbers);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
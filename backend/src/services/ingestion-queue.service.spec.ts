@@ -0,0 +1,46 @@
+import { ConfigService } from '@nestjs/config';
+import { IngestionQueueService } from './ingestion-queue.service';
+
+describe('IngestionQueueService', () => {
+  const createQueue = () => new IngestionQueueService({ get: () => undefined } as unknown as ConfigService);
+
+  it('refuses a second job for a key that is still running', () => {
+    const queue = createQueue();
+    expect(queue.enqueue('doc', () => new Promise(() => undefined))).toBe(true);
+    expect(queue.has('doc')).toBe(true);
+    expect(queue.enqueue('doc', async () => undefined)).toBe(false);
+  });
+
+  it('settles once the running job has left the queue, so the key can be queued again', async () => {
+    const queue = createQueue();
+    let finish: () => void = () => undefined;
+    queue.enqueue('doc', () => new Promise<void>((resolve) => (finish = resolve)));
+    const settled = queue.settled('doc');
+    finish();
+    await settled;
+
+    expect(queue.has('doc')).toBe(false);
+    const rerun = jest.fn(async () => undefined);
+    expect(queue.enqueue('doc', rerun)).toBe(true);
+    await queue.settled('doc');
+    expect(rerun).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists running and queued keys', () => {
+    const queue = createQueue();
+    queue.enqueue('a', () => new Promise(() => undefined));
+    queue.enqueue('b', async () => undefined);
+    expect(queue.keys()).toEqual(['a', 'b']);
+  });
+
+  it('runs queued jobs one at a time by default', async () => {
+    const queue = createQueue();
+    const order: string[] = [];
+    queue.enqueue('a', async () => void order.push('a'));
+    queue.enqueue('b', async () => void order.push('b'));
+    expect(queue.has('b')).toBe(true);
+    await queue.settled('a');
+    await queue.settled('b');
+    expect(order).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,62 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+type IngestionTask = () => Promise<void>;
+
+// In-process job runner for knowledge ingestion. Jobs are keyed by document id, so a document is never
+// queued twice, and run with bounded concurrency (KNOWLEDGE_INGEST_CONCURRENCY, default 1) off the request path.
+// Jobs do not survive a restart; KnowledgeService re-queues documents left in processing once they go stale.
+@Injectable()
+export class IngestionQueueService {
+  private readonly logger = new Logger(IngestionQueueService.name);
+  private readonly pending: { key: string; task: IngestionTask }[] = [];
+  // Key -> the running job, settled once it has left the queue
+  private readonly running = new Map<string, Promise<void>>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  private getConcurrency(): number {
+    return Math.max(1, parseInt(this.configService.get<string>('KNOWLEDGE_INGEST_CONCURRENCY') || '', 10) || 1);
+  }
+
+  // False when a job for the key is already queued or running
+  enqueue(key: string, task: IngestionTask): boolean {
+    if (this.has(key)) return false;
+    this.pending.push({ key, task });
+    this.drain();
+    return true;
+  }
+
+  has(key: string): boolean {
+    return this.running.has(key) || this.pending.some((job) => job.key === key);
+  }
+
+  // Resolves once the running job for the key has left the queue (immediately when none is running)
+  settled(key: string): Promise<void> {
+    return this.running.get(key) ?? Promise.resolve();
+  }
+
+  // Keys of every queued or running job
+  keys(): string[] {
+    return [...this.running.keys(), ...this.pending.map((job) => job.key)];
+  }
+
+  // Jobs ahead of the key in the queue (0 when running or unknown)
+  getPosition(key: string): number {
+    return Math.max(0, this.pending.findIndex((job) => job.key === key));
+  }
+
+  private drain(): void {
+    while (this.running.size < this.getConcurrency() && this.pending.length) {
+      const { key, task } = this.pending.shift();
+      // Tasks record their own failures; this only guards the runner
+      const job = task()
+        .catch((err) => this.logger.error(`Ingestion job ${key} failed: ${(err as Error).message}`))
+        .finally(() => {
+          this.running.delete(key);
+          this.drain();
+        });
+      this.running.set(key, job);
+    }
+  }
+}
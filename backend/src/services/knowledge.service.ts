@@ -0,0 +1,943 @@
+import { ConflictException, Injectable, Logger, NotFoundException, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, IsNull, LessThan, Not, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { KnowledgeDocument, KnowledgeDocumentStatus, KnowledgeIngestionStage } from '../entities/knowledge-document.entity';
+import { KnowledgeChunk } from '../entities/knowledge-chunk.entity';
+import { KnowledgeCollection } from '../entities/knowledge-collection.entity';
+import { KnowledgeDocumentVersion } from '../entities/knowledge-document-version.entity';
+import {
+  CONVERTIBLE_EXTENSIONS,
+  convertDocumentToMarkdown,
+  detectDocumentFormat,
+  DOCUMENT_MIME_TYPES,
+} from '../utils/document-markdown';
+import { sanitizeText, isReadableText } from '../utils/text';
+import { EmbeddingService } from './embedding.service';
+import { findTermRanges, RetrievalMode, RetrieverService } from './retriever.service';
+import { ChunkingService } from './chunking.service';
+import { IngestionQueueService } from './ingestion-queue.service';
+import { APP_CONSTANTS, AI_CONSTANTS } from '../common/constants/app.constants';
+
+export interface KnowledgeUpload {
+  originalname: string;
+  buffer: Buffer;
+  mimetype?: string;
+  size?: number;
+}
+
+export interface KnowledgeChunkingSettings {
+  chunkingStrategy?: string;
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+export interface KnowledgeUploadSettings extends KnowledgeChunkingSettings {
+  collectionId?: string;
+}
+
+export interface KnowledgeCollectionInput extends KnowledgeChunkingSettings {
+  name: string;
+  description?: string;
+}
+
+export interface KnowledgeCollectionSummary extends KnowledgeCollection {
+  documentCount: number;
+}
+
+// Documents a chat message may draw from; omitted fields place no restriction
+export interface KnowledgeScope {
+  collectionIds?: string[];
+  documentIds?: string[];
+}
+
+// One entry of a document's version history; the current version comes first
+export interface KnowledgeVersionSummary {
+  version: number;
+  name: string;
+  mimeType: string;
+  size: number;
+  contentHash: string | null;
+  chunkCount: number;
+  uploadedAt: Date;
+  replacedAt: Date | null;
+  current: boolean;
+}
+
+export interface KnowledgeChunkWithSource {
+  id: string;
+  documentId: string;
+  name: string;
+  chunkIndex: number;
+  startOffset: number;
+  endOffset: number;
+  content: string;
+  sectionPath: string | null;
+}
+
+// Chunk as stored, without its embedding vector
+export interface KnowledgeChunkPreview {
+  id: string;
+  chunkIndex: number;
+  startOffset: number;
+  endOffset: number;
+  sectionPath: string | null;
+  content: string;
+  embeddingModel: string | null;
+}
+
+export interface KnowledgeSearchHit {
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  startOffset: number;
+  endOffset: number;
+  sectionPath: string | null;
+  score: number;
+  bm25Score?: number;
+  vectorScore?: number;
+  content: string;
+  // Query term occurrences within content; vector-only matches may have none
+  highlights: { start: number; end: number }[];
+}
+
+const IMPORTABLE_EXTENSIONS = ['.txt', '.md', '.json', '.log', '.csv', ...CONVERTIBLE_EXTENSIONS];
+// Instances sharing the database touch the documents they have queued this often, and reclaim documents left in
+// processing that nobody touched for INGESTION_STALE_MS (their instance stopped or restarted)
+const INGESTION_HEARTBEAT_MS = 30 * 1000;
+const INGESTION_STALE_MS = 2 * 60 * 1000;
+
+@Injectable()
+export class KnowledgeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(KnowledgeService.name);
+  private ingestionHeartbeat: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectRepository(KnowledgeDocument)
+    private readonly documentRepository: Repository<KnowledgeDocument>,
+    @InjectRepository(KnowledgeChunk)
+    private readonly chunkRepository: Repository<KnowledgeChunk>,
+    @InjectRepository(KnowledgeCollection)
+    private readonly collectionRepository: Repository<KnowledgeCollection>,
+    @InjectRepository(KnowledgeDocumentVersion)
+    private readonly versionRepository: Repository<KnowledgeDocumentVersion>,
+    private readonly embeddingService: EmbeddingService,
+    private readonly retrieverService: RetrieverService,
+    private readonly chunkingService: ChunkingService,
+    private readonly ingestionQueue: IngestionQueueService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // The database is the source of truth; scanning uploads/ is an opt-in migration path for older installs
+  async onModuleInit() {
+    const flag = (this.configService.get<string>('KNOWLEDGE_IMPORT_ON_STARTUP') || '').toLowerCase();
+    if (flag === 'true' || flag === '1') {
+      try {
+        await this.importFromDisk();
+      } catch (err) {
+        this.logger.warn('Failed to import knowledge files from disk: ' + (err as Error).message);
+      }
+    }
+
+    // Ingestion jobs live in memory, so documents a stopped instance left in processing are queued again
+    try {
+      await this.resumeStaleIngestion();
+    } catch (err) {
+      this.logger.warn('Failed to resume knowledge ingestion: ' + (err as Error).message);
+    }
+    this.ingestionHeartbeat = setInterval(() => {
+      this.touchQueuedDocuments()
+        .then(() => this.resumeStaleIngestion())
+        .catch((err) => this.logger.warn('Failed to resume knowledge ingestion: ' + (err as Error).message));
+    }, INGESTION_HEARTBEAT_MS);
+    this.ingestionHeartbeat.unref();
+
+    // Hash documents uploaded before duplicate detection so re-uploads of them are caught too
+    this.backfillContentHashes().catch((err) =>
+      this.logger.warn('Failed to hash knowledge documents: ' + (err as Error).message),
+    );
+
+    // Backfill vectors for chunks stored before embeddings were enabled or after the model changed; runs in the background
+    if (this.embeddingService.getModel()) {
+      this.embedPendingChunks().catch((err) =>
+        this.logger.warn('Failed to embed pending knowledge chunks: ' + (err as Error).message),
+      );
+    }
+  }
+
+  private getUploadsDir(): string {
+    return path.resolve(process.cwd(), APP_CONSTANTS.UPLOAD_DIRECTORY);
+  }
+
+  // Store the upload on disk and queue it for ingestion; the document stays in processing until the job finishes
+  async ingestFile(file: KnowledgeUpload, upload: KnowledgeUploadSettings = {}): Promise<KnowledgeDocument> {
+    // Settings sent with the upload win over the collection's defaults
+    const collection = upload.collectionId ? await this.getCollection(upload.collectionId) : null;
+    const settings: KnowledgeChunkingSettings = {
+      chunkingStrategy: upload.chunkingStrategy ?? collection?.chunkingStrategy ?? undefined,
+      chunkSize: upload.chunkSize ?? collection?.chunkSize ?? undefined,
+      chunkOverlap: upload.chunkOverlap ?? collection?.chunkOverlap ?? undefined,
+    };
+    // Reject an unknown strategy before anything is written
+    this.chunkingService.resolveStrategy(file.originalname, file.mimetype || '', settings.chunkingStrategy);
+
+    const contentHash = this.hashContent(file.buffer);
+    await this.assertNotDuplicate(file.originalname, contentHash);
+
+    const storagePath = this.storeUpload(file);
+    const document = await this.createPendingDocument({
+      name: file.originalname,
+      mimeType: this.getUploadMimeType(file),
+      size: file.size ?? file.buffer.length,
+      contentHash,
+      storagePath,
+      settings,
+      collectionId: collection?.id ?? null,
+    });
+    // Without a stored copy the job parses the buffer held in memory, and a failure cannot be retried
+    this.enqueueIngestion(document.id, storagePath ? undefined : file.buffer);
+    return document;
+  }
+
+  // Replace the document's content with a new upload. The superseded version is archived with its file, and
+  // re-ingestion keeps the chunks (and embeddings) whose text did not change
+  async uploadVersion(id: string, file: KnowledgeUpload): Promise<KnowledgeDocument> {
+    const document = await this.documentRepository.findOne({ where: { id } });
+    if (!document) {
+      throw new NotFoundException(`Knowledge document with ID ${id} not found`);
+    }
+    if (document.status === KnowledgeDocumentStatus.PROCESSING) {
+      throw new ConflictException(`Knowledge document ${document.name} is still being ingested`);
+    }
+
+    const contentHash = this.hashContent(file.buffer);
+    if (contentHash === document.contentHash) {
+      throw new ConflictException(`"${file.originalname}" is identical to the current version of ${document.name}`);
+    }
+    await this.assertNotDuplicate(file.originalname, contentHash, id);
+
+    const storagePath = this.storeUpload(file);
+    await this.versionRepository.save(
+      this.versionRepository.create({
+        documentId: id,
+        version: document.version,
+        name: document.name,
+        mimeType: document.mimeType,
+        size: document.size,
+        contentHash: document.contentHash,
+        chunkCount: document.chunkCount,
+        storagePath: document.storagePath,
+      }),
+    );
+    await this.documentRepository.update(id, {
+      name: file.originalname,
+      mimeType: this.getUploadMimeType(file),
+      size: file.size ?? file.buffer.length,
+      contentHash,
+      version: document.version + 1,
+      storagePath,
+      status: KnowledgeDocumentStatus.PROCESSING,
+      stage: KnowledgeIngestionStage.QUEUED,
+      progress: 0,
+      error: null,
+    });
+    this.enqueueIngestion(id, storagePath ? undefined : file.buffer);
+    this.logger.log(`Uploaded version ${document.version + 1} of ${document.name} as ${file.originalname}`);
+    return await this.getDocumentStatus(id);
+  }
+
+  async listVersions(id: string): Promise<KnowledgeVersionSummary[]> {
+    const document = await this.getDocumentStatus(id);
+    const archived = await this.versionRepository.find({ where: { documentId: id }, order: { version: 'DESC' } });
+    // A version was uploaded when its predecessor was replaced; the first one when the document was created
+    const uploadedAt = (index: number) => archived[index]?.replacedAt ?? document.createdAt;
+    return [
+      {
+        version: document.version,
+        name: document.name,
+        mimeType: document.mimeType,
+        size: document.size,
+        contentHash: document.contentHash,
+        chunkCount: document.chunkCount,
+        uploadedAt: uploadedAt(0),
+        replacedAt: null,
+        current: true,
+      },
+      ...archived.map((version, i) => ({
+        version: version.version,
+        name: version.name,
+        mimeType: version.mimeType,
+        size: version.size,
+        contentHash: version.contentHash,
+        chunkCount: version.chunkCount,
+        uploadedAt: uploadedAt(i + 1),
+        replacedAt: version.replacedAt,
+        current: false,
+      })),
+    ];
+  }
+
+  private hashContent(buffer: Buffer): string {
+    return crypto.createHash('sha256').update(buffer).digest('hex');
+  }
+
+  // Exact duplicates would count twice in retrieval; failed documents do not block a re-upload
+  private async assertNotDuplicate(fileName: string, contentHash: string, exceptId?: string): Promise<void> {
+    const duplicate = await this.documentRepository.findOne({
+      select: ['id', 'name'],
+      where: {
+        contentHash,
+        status: Not(KnowledgeDocumentStatus.ERROR),
+        ...(exceptId ? { id: Not(exceptId) } : {}),
+      },
+    });
+    if (duplicate) {
+      throw new ConflictException(
+        `"${fileName}" has the same content as knowledge document ${duplicate.name} (${duplicate.id})`,
+      );
+    }
+  }
+
+  // Unique name under uploads/, or null when the file could not be written
+  private storeUpload(file: KnowledgeUpload): string | null {
+    try {
+      const uploadsDir = this.getUploadsDir();
+      if (!fs.existsSync(uploadsDir)) {
+        fs.mkdirSync(uploadsDir, { recursive: true });
+      }
+      const storagePath = `${Date.now()}-${Math.round(Math.random() * 1e9)}-${file.originalname}`;
+      fs.writeFileSync(path.join(uploadsDir, storagePath), file.buffer);
+      return storagePath;
+    } catch (e) {
+      // Serverless and read-only hosts can still ingest: the extracted text lives in the database
+      this.logger.warn(`Failed to persist uploaded file to disk: ${(e as Error).message}`);
+      return null;
+    }
+  }
+
+  // Browsers send application/octet-stream for types they do not know (DOCX, EPUB, ...)
+  private getUploadMimeType(file: KnowledgeUpload): string {
+    return file.mimetype && file.mimetype !== 'application/octet-stream'
+      ? file.mimetype
+      : this.getDefaultMimeType(file.originalname);
+  }
+
+  private async backfillContentHashes(): Promise<void> {
+    const documents = await this.documentRepository.find({
+      select: ['id', 'storagePath'],
+      where: { contentHash: IsNull(), storagePath: Not(IsNull()) },
+    });
+    let hashed = 0;
+    for (const document of documents) {
+      if (!this.hasStoredFile(document)) continue;
+      const buffer = await fs.promises.readFile(path.join(this.getUploadsDir(), document.storagePath));
+      await this.documentRepository.update(document.id, { contentHash: this.hashContent(buffer) });
+      hashed++;
+    }
+    if (hashed) {
+      this.logger.log(`Hashed ${hashed} knowledge documents for duplicate detection`);
+    }
+  }
+
+  // The requested chunking settings are kept on the row until the job replaces them with the ones it used
+  private async createPendingDocument(params: {
+    name: string;
+    mimeType: string;
+    size: number;
+    contentHash: string | null;
+    storagePath: string | null;
+    settings?: KnowledgeChunkingSettings;
+    collectionId?: string | null;
+  }): Promise<KnowledgeDocument> {
+    const settings = params.settings || {};
+    return await this.documentRepository.save(
+      this.documentRepository.create({
+        name: params.name,
+        mimeType: params.mimeType,
+        size: params.size,
+        contentHash: params.contentHash,
+        status: KnowledgeDocumentStatus.PROCESSING,
+        stage: KnowledgeIngestionStage.QUEUED,
+        progress: 0,
+        content: '',
+        chunkCount: 0,
+        chunkingStrategy: settings.chunkingStrategy ?? null,
+        chunkSize: settings.chunkSize ?? null,
+        chunkOverlap: settings.chunkOverlap ?? null,
+        storagePath: params.storagePath,
+        collectionId: params.collectionId ?? null,
+      }),
+    );
+  }
+
+  private enqueueIngestion(documentId: string, buffer?: Buffer): void {
+    const task = () => this.runIngestion(documentId, buffer);
+    if (this.ingestionQueue.enqueue(documentId, task)) return;
+    // The previous job already recorded its result (so a new version or retry was accepted) but has not left the
+    // queue yet; queue this one behind it instead of leaving the document in processing
+    void this.ingestionQueue.settled(documentId).then(() => {
+      if (!this.ingestionQueue.enqueue(documentId, task)) {
+        this.logger.warn(`Ingestion of knowledge document ${documentId} is already queued`);
+      }
+    });
+  }
+
+  onModuleDestroy() {
+    if (this.ingestionHeartbeat) clearInterval(this.ingestionHeartbeat);
+  }
+
+  // Keeps the documents this instance has queued or running from looking stale to the others
+  private async touchQueuedDocuments(): Promise<void> {
+    const ids = this.ingestionQueue.keys();
+    if (!ids.length) return;
+    await this.documentRepository.update(
+      { id: In(ids), status: KnowledgeDocumentStatus.PROCESSING },
+      { updatedAt: new Date() },
+    );
+  }
+
+  // Documents in processing that another live instance is ingesting are touched by it, so only stale ones are
+  // taken over. Each is claimed with a conditional update, so a single instance picks it up.
+  private async resumeStaleIngestion(): Promise<void> {
+    const cutoff = new Date(Date.now() - INGESTION_STALE_MS);
+    const stale = await this.documentRepository.find({
+      select: ['id', 'name', 'storagePath'],
+      where: { status: KnowledgeDocumentStatus.PROCESSING, updatedAt: LessThan(cutoff) },
+    });
+
+    let resumed = 0;
+    for (const document of stale) {
+      if (this.ingestionQueue.has(document.id)) continue;
+      const hasFile = this.hasStoredFile(document);
+      const claim = await this.documentRepository.update(
+        { id: document.id, status: KnowledgeDocumentStatus.PROCESSING, updatedAt: LessThan(cutoff) },
+        hasFile
+          ? { stage: KnowledgeIngestionStage.QUEUED, progress: 0 }
+          : {
+            status: KnowledgeDocumentStatus.ERROR,
+            error: 'Ingestion was interrupted and the original file is not available; upload it again',
+          },
+      );
+      // Claimed by another instance, or touched by its owner in the meantime
+      if (!claim.affected || !hasFile) continue;
+      this.enqueueIngestion(document.id);
+      resumed++;
+    }
+    if (resumed) {
+      this.logger.log(`Resuming ingestion of ${resumed} knowledge documents`);
+    }
+  }
+
+  private hasStoredFile(document: KnowledgeDocument): boolean {
+    return !!document.storagePath && fs.existsSync(path.join(this.getUploadsDir(), document.storagePath));
+  }
+
+  // Ingestion pipeline: parse → clean → chunk → index, recording stage and progress on the document.
+  // Failures mark the document as error with the message and the stage they happened in.
+  private async runIngestion(documentId: string, buffer?: Buffer): Promise<void> {
+    const document = await this.documentRepository.findOne({ where: { id: documentId } });
+    // Deleted while queued
+    if (!document) return;
+
+    let stage = KnowledgeIngestionStage.PARSING;
+    try {
+      await this.documentRepository.update(documentId, { stage, progress: 5 });
+      const { content, mimeType } = await this.loadContent(document, buffer);
+
+      stage = KnowledgeIngestionStage.CLEANING;
+      await this.documentRepository.update(documentId, { stage, progress: 25 });
+      const strategy = document.chunkingStrategy ?? undefined;
+      const preserveLayout = this.chunkingService.preservesLayout(document.name, mimeType, strategy);
+      const cleaned = sanitizeText(content || '', preserveLayout);
+      // Gate unreadable content such as scanned PDFs
+      const readable = isReadableText(cleaned);
+
+      stage = KnowledgeIngestionStage.CHUNKING;
+      await this.documentRepository.update(documentId, { stage, progress: 40 });
+      const chunking = this.chunkingService.chunk(cleaned, {
+        fileName: document.name,
+        mimeType,
+        strategy,
+        chunkSize: document.chunkSize ?? undefined,
+        chunkOverlap: document.chunkOverlap ?? undefined,
+      });
+      const chunks = readable ? chunking.chunks : [];
+
+      stage = KnowledgeIngestionStage.INDEXING;
+      await this.documentRepository.update(documentId, { stage, progress: 50 });
+      // Chunks of the previous version (or of an interrupted attempt) with unchanged text are kept with their
+      // embeddings and only renumbered; the rest are replaced
+      const previous = await this.chunkRepository.find({ where: { documentId } });
+      const unchanged = new Map<string, KnowledgeChunk[]>();
+      for (const chunk of previous) {
+        const key = this.getChunkKey(chunk);
+        unchanged.set(key, [...(unchanged.get(key) || []), chunk]);
+      }
+      const kept: KnowledgeChunk[] = [];
+      const added: KnowledgeChunk[] = [];
+      const current = chunks.map((chunk, chunkIndex) => {
+        const sectionPath = chunk.sectionPath || null;
+        const match = unchanged.get(this.getChunkKey({ sectionPath, content: chunk.content }))?.shift();
+        if (match) {
+          kept.push(Object.assign(match, { chunkIndex, startOffset: chunk.startOffset, endOffset: chunk.endOffset }));
+          return match;
+        }
+        const created = this.chunkRepository.create({ ...chunk, sectionPath, chunkIndex, documentId });
+        added.push(created);
+        return created;
+      });
+      const removed = Array.from(unchanged.values()).flat();
+      if (removed.length) {
+        await this.chunkRepository.delete(removed.map((chunk) => chunk.id));
+        await this.retrieverService.removeChunks(removed.map((chunk) => chunk.id));
+      }
+      if (current.length) {
+        await this.chunkRepository.save(current);
+        // Without an embedding provider the new chunks stay lexical-only until embedPendingChunks runs
+        for (let i = 0; i < added.length; i += AI_CONSTANTS.EMBEDDING_BATCH_SIZE) {
+          const batch = added.slice(i, i + AI_CONSTANTS.EMBEDDING_BATCH_SIZE);
+          if (!(await this.embedChunks(batch))) break;
+          const progress = 50 + Math.floor((45 * (i + batch.length)) / added.length);
+          await this.documentRepository.update(documentId, { progress });
+        }
+        await this.retrieverService.indexChunks(current, document.name);
+      }
+
+      if (!(await this.documentRepository.count({ where: { id: documentId } }))) {
+        // Deleted while the job ran
+        await this.chunkRepository.delete({ documentId });
+        await this.retrieverService.removeDocuments([documentId]);
+        return;
+      }
+
+      await this.documentRepository.update(documentId, {
+        status: readable ? KnowledgeDocumentStatus.READY : KnowledgeDocumentStatus.UNREADABLE,
+        stage: null,
+        progress: 100,
+        error: null,
+        mimeType,
+        content: readable ? cleaned : '',
+        chunkCount: chunks.length,
+        chunkingStrategy: chunking.strategy,
+        chunkSize: chunking.options.chunkSize,
+        chunkOverlap: chunking.options.chunkOverlap,
+      });
+
+      if (!readable) {
+        this.logger.warn(`Knowledge item looks non-extractable (possibly scanned): ${document.name}. Content omitted.`);
+      } else {
+        this.logger.log(
+          `Added knowledge item: ${document.name} (${cleaned.length} characters, ${chunks.length} ${chunking.strategy} chunks; ` +
+          `${added.length} new, ${kept.length} unchanged, ${removed.length} removed)`,
+        );
+      }
+    } catch (e) {
+      const message = (e as Error).message || 'Unknown error';
+      this.logger.error(`Failed to ingest ${document.name} while ${stage}: ${message}`);
+      await this.documentRepository.update(documentId, { status: KnowledgeDocumentStatus.ERROR, stage, error: message });
+    }
+  }
+
+  private getChunkKey(chunk: Pick<KnowledgeChunk, 'sectionPath' | 'content'>): string {
+    return `${chunk.sectionPath || ''}\u0000${chunk.content}`;
+  }
+
+  // Text of the upload, or of the stored original on retry/import; converted formats (PDF, DOCX, ...) reuse their Markdown sidecar when present
+  private async loadContent(document: KnowledgeDocument, buffer?: Buffer): Promise<{ content: string; mimeType: string }> {
+    const isConverted = detectDocumentFormat(document.name, document.mimeType) !== null;
+    if (!buffer) {
+      if (!document.storagePath) {
+        throw new Error('The original file is not available; upload it again');
+      }
+      const sidecarPath = path.join(this.getUploadsDir(), this.getSidecarPath(document.storagePath));
+      if (isConverted && fs.existsSync(sidecarPath)) {
+        return { content: await fs.promises.readFile(sidecarPath, 'utf-8'), mimeType: 'text/markdown' };
+      }
+      buffer = await fs.promises.readFile(path.join(this.getUploadsDir(), document.storagePath));
+    }
+
+    const extracted = await this.extractContent(buffer, document.name, document.mimeType);
+    if (document.storagePath && isConverted) {
+      // Sidecar Markdown lets a retry or a later disk import skip parsing
+      try { fs.writeFileSync(path.join(this.getUploadsDir(), this.getSidecarPath(document.storagePath)), extracted.content, 'utf-8'); } catch {}
+    }
+    return extracted;
+  }
+
+  private getDefaultMimeType(fileName: string): string {
+    const format = detectDocumentFormat(fileName);
+    if (format) return DOCUMENT_MIME_TYPES[format];
+    const ext = path.extname(fileName).toLowerCase();
+    if (ext === '.md') return 'text/markdown';
+    return `text/${ext.replace('.', '') || 'plain'}`;
+  }
+
+  private async extractContent(buffer: Buffer, fileName: string, mimeType?: string): Promise<{ content: string; mimeType: string }> {
+    const ext = path.extname(fileName).toLowerCase();
+    const format = detectDocumentFormat(fileName, mimeType);
+    if (format) {
+      // A document that cannot be parsed fails ingestion; its raw bytes are not useful text
+      try {
+        return { content: await convertDocumentToMarkdown(format, buffer, fileName), mimeType: 'text/markdown' };
+      } catch (e) {
+        throw new Error(`Failed to parse ${format.toUpperCase()}: ${(e as Error).message}`);
+      }
+    }
+    return {
+      content: buffer.toString('utf-8'),
+      mimeType: ext === '.md' ? 'text/markdown' : (mimeType || this.getDefaultMimeType(fileName)),
+    };
+  }
+
+  async retryDocument(id: string): Promise<KnowledgeDocument> {
+    const document = await this.getDocumentStatus(id);
+    if (document.status !== KnowledgeDocumentStatus.ERROR) {
+      throw new ConflictException(`Knowledge document ${document.name} has not failed (status: ${document.status})`);
+    }
+    if (!this.hasStoredFile(document)) {
+      throw new ConflictException(`The original file of ${document.name} is not available; upload it again`);
+    }
+
+    await this.documentRepository.update(id, {
+      status: KnowledgeDocumentStatus.PROCESSING,
+      stage: KnowledgeIngestionStage.QUEUED,
+      progress: 0,
+      error: null,
+    });
+    this.enqueueIngestion(id);
+    this.logger.log(`Retrying ingestion of ${document.name}`);
+    return await this.getDocumentStatus(id);
+  }
+
+  // Document metadata without its content, for status polling
+  async getDocumentStatus(id: string): Promise<KnowledgeDocument & { queuePosition: number }> {
+    const document = await this.documentRepository.findOne({
+      select: [
+        'id', 'name', 'mimeType', 'size', 'contentHash', 'version', 'status', 'stage', 'progress', 'error', 'chunkCount',
+        'collectionId',
+        'chunkingStrategy', 'storagePath', 'createdAt', 'updatedAt',
+      ],
+      where: { id },
+    });
+    if (!document) {
+      throw new NotFoundException(`Knowledge document with ID ${id} not found`);
+    }
+    return Object.assign(document, { queuePosition: this.ingestionQueue.getPosition(id) });
+  }
+
+  private async embedChunks(chunks: KnowledgeChunk[]): Promise<number> {
+    // The section trail is embedded with the text so headings count toward similarity
+    const result = await this.embeddingService.embed(
+      chunks.map((chunk) => (chunk.sectionPath ? `${chunk.sectionPath}\n${chunk.content}` : chunk.content)),
+    );
+    if (!result) return 0;
+
+    chunks.forEach((chunk, i) => {
+      chunk.embedding = result.vectors[i];
+      chunk.embeddingModel = result.model.key;
+    });
+    await this.chunkRepository.save(chunks);
+    return chunks.length;
+  }
+
+  // Embed chunks that have no vector for the current embedding model
+  async embedPendingChunks(): Promise<number> {
+    const model = this.embeddingService.getModel();
+    if (!model) return 0;
+
+    const pending = await this.chunkRepository.find({
+      select: ['id', 'documentId', 'chunkIndex', 'content', 'sectionPath', 'startOffset', 'endOffset'],
+      where: [{ embeddingModel: IsNull() }, { embeddingModel: Not(model.key) }],
+    });
+
+    let embedded = 0;
+    for (let i = 0; i < pending.length; i += AI_CONSTANTS.EMBEDDING_BATCH_SIZE) {
+      const batch = pending.slice(i, i + AI_CONSTANTS.EMBEDDING_BATCH_SIZE);
+      const count = await this.embedChunks(batch);
+      if (!count) break;
+      await this.retrieverService.indexChunks(batch);
+      embedded += count;
+    }
+    if (embedded) {
+      this.logger.log(`Embedded ${embedded} knowledge chunks with ${model.key}`);
+    }
+    return embedded;
+  }
+
+  async listDocuments(collectionId?: string): Promise<KnowledgeDocument[]> {
+    return await this.documentRepository.find({
+      select: [
+        'id', 'name', 'mimeType', 'size', 'contentHash', 'version', 'status', 'stage', 'progress', 'error', 'chunkCount',
+        'collectionId',
+        'chunkingStrategy', 'chunkSize', 'chunkOverlap', 'storagePath', 'createdAt', 'updatedAt',
+      ],
+      where: collectionId ? { collectionId } : {},
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async countDocuments(): Promise<number> {
+    return await this.documentRepository.count();
+  }
+
+  // All chunks of readable documents with their document name, in document order; optionally limited to some documents
+  async getChunks(documentIds?: string[]): Promise<KnowledgeChunkWithSource[]> {
+    if (documentIds && !documentIds.length) return [];
+    const query = this.chunkRepository
+      .createQueryBuilder('chunk')
+      .innerJoin('chunk.document', 'document')
+      .select([
+        'chunk.id', 'chunk.documentId', 'chunk.chunkIndex', 'chunk.startOffset', 'chunk.endOffset',
+        'chunk.content', 'chunk.sectionPath', 'document.name', 'document.createdAt',
+      ])
+      .orderBy('document.createdAt', 'ASC')
+      .addOrderBy('chunk.chunkIndex', 'ASC');
+    if (documentIds) {
+      query.where('chunk.documentId IN (:...documentIds)', { documentIds });
+    }
+    const rows = await query.getRawMany();
+
+    return rows.map((row) => ({
+      id: row.chunk_id,
+      documentId: row.chunk_documentId,
+      name: row.document_name,
+      chunkIndex: row.chunk_chunkIndex,
+      startOffset: row.chunk_startOffset,
+      endOffset: row.chunk_endOffset,
+      content: row.chunk_content,
+      sectionPath: row.chunk_sectionPath,
+    }));
+  }
+
+  // Document with the extracted (Markdown) text its chunks were cut from
+  async getDocumentContent(id: string): Promise<KnowledgeDocument> {
+    const document = await this.documentRepository.findOne({ where: { id } });
+    if (!document) {
+      throw new NotFoundException(`Knowledge document with ID ${id} not found`);
+    }
+    return document;
+  }
+
+  // One page of a document's chunks in order; offsets index into the document content
+  async getDocumentChunks(
+    id: string,
+    page: { offset?: number; limit?: number } = {},
+  ): Promise<{ chunks: KnowledgeChunkPreview[]; total: number }> {
+    await this.getDocumentStatus(id);
+    const [chunks, total] = await this.chunkRepository.findAndCount({
+      select: ['id', 'chunkIndex', 'startOffset', 'endOffset', 'sectionPath', 'content', 'embeddingModel'],
+      where: { documentId: id },
+      order: { chunkIndex: 'ASC' },
+      skip: page.offset || 0,
+      take: page.limit || AI_CONSTANTS.KNOWLEDGE_CHUNK_PAGE_SIZE,
+    });
+    return { chunks, total };
+  }
+
+  // Free-text search over the same retrieval path as RAG, with query terms located in each chunk
+  async search(
+    query: string,
+    options: { scope?: KnowledgeScope; limit?: number } = {},
+  ): Promise<{ mode: RetrievalMode; results: KnowledgeSearchHit[] }> {
+    const documentIds = await this.resolveScope(options.scope);
+    if (documentIds && !documentIds.length) {
+      return { mode: 'bm25', results: [] };
+    }
+    const { mode, results } = await this.retrieverService.retrieve(query, {
+      topK: options.limit || AI_CONSTANTS.KNOWLEDGE_SEARCH_DEFAULT_LIMIT,
+      documentIds: documentIds || undefined,
+    });
+    return {
+      mode,
+      results: results.map((result) => ({
+        chunkId: result.chunkId,
+        documentId: result.documentId,
+        documentName: result.documentName,
+        chunkIndex: result.chunkIndex,
+        startOffset: result.startOffset,
+        endOffset: result.endOffset,
+        sectionPath: result.sectionPath,
+        score: result.score,
+        bm25Score: result.bm25Score,
+        vectorScore: result.vectorScore,
+        content: result.content,
+        highlights: findTermRanges(result.content, query),
+      })),
+    };
+  }
+
+  // Ids of the documents a scoped message may use, or null when the whole knowledge base is in scope
+  async resolveScope(scope: KnowledgeScope = {}): Promise<string[] | null> {
+    const collectionIds = scope.collectionIds || [];
+    const documentIds = scope.documentIds || [];
+    if (!collectionIds.length && !documentIds.length) return null;
+
+    const ids = new Set(documentIds);
+    if (collectionIds.length) {
+      const documents = await this.documentRepository.find({ select: ['id'], where: { collectionId: In(collectionIds) } });
+      documents.forEach((document) => ids.add(document.id));
+    }
+    return Array.from(ids);
+  }
+
+  async createCollection(input: KnowledgeCollectionInput): Promise<KnowledgeCollection> {
+    const name = input.name.trim();
+    if (input.chunkingStrategy) {
+      this.chunkingService.getStrategy(input.chunkingStrategy);
+    }
+    if (await this.collectionRepository.findOne({ where: { name } })) {
+      throw new ConflictException(`Knowledge collection "${name}" already exists`);
+    }
+
+    const collection = await this.collectionRepository.save(
+      this.collectionRepository.create({
+        name,
+        description: input.description || null,
+        chunkingStrategy: input.chunkingStrategy || null,
+        chunkSize: input.chunkSize ?? null,
+        chunkOverlap: input.chunkOverlap ?? null,
+      }),
+    );
+    this.logger.log(`Created knowledge collection: ${collection.name}`);
+    return collection;
+  }
+
+  async getCollection(id: string): Promise<KnowledgeCollection> {
+    const collection = await this.collectionRepository.findOne({ where: { id } });
+    if (!collection) {
+      throw new NotFoundException(`Knowledge collection with ID ${id} not found`);
+    }
+    return collection;
+  }
+
+  async listCollections(): Promise<KnowledgeCollectionSummary[]> {
+    const collections = await this.collectionRepository.find({ order: { name: 'ASC' } });
+    const counts = await this.documentRepository
+      .createQueryBuilder('document')
+      .select('document.collectionId', 'collectionId')
+      .addSelect('COUNT(*)', 'count')
+      .where('document.collectionId IS NOT NULL')
+      .groupBy('document.collectionId')
+      .getRawMany();
+    const countById = new Map(counts.map((row) => [row.collectionId, Number(row.count)]));
+    return collections.map((collection) => ({ ...collection, documentCount: countById.get(collection.id) || 0 }));
+  }
+
+  // Deleting a collection deletes its documents, their chunks and their files
+  async removeCollection(id: string): Promise<void> {
+    const collection = await this.getCollection(id);
+    const documents = await this.documentRepository.find({ select: ['id', 'name', 'storagePath'], where: { collectionId: id } });
+    await this.deleteDocuments(documents);
+    await this.collectionRepository.delete(id);
+    this.logger.log(`Removed knowledge collection: ${collection.name} (${documents.length} documents)`);
+  }
+
+  async removeDocument(id: string): Promise<void> {
+    const document = await this.documentRepository.findOne({ where: { id } });
+    if (!document) {
+      throw new NotFoundException(`Knowledge document with ID ${id} not found`);
+    }
+    await this.deleteDocuments([document]);
+    this.logger.log(`Removed knowledge item: ${document.name}`);
+  }
+
+  async clear(): Promise<void> {
+    const documents = await this.documentRepository.find({ select: ['id', 'name', 'storagePath'] });
+    await this.deleteDocuments(documents);
+    this.logger.log('Cleared knowledge base');
+  }
+
+  private async deleteDocuments(documents: KnowledgeDocument[]): Promise<void> {
+    if (!documents.length) return;
+    const ids = documents.map((document) => document.id);
+    const versions = await this.versionRepository.find({ select: ['id', 'storagePath'], where: { documentId: In(ids) } });
+    // Delete chunks and versions explicitly: SQLite only cascades when foreign keys are enforced
+    await this.chunkRepository.delete(ids.map((documentId) => ({ documentId })));
+    await this.versionRepository.delete(ids.map((documentId) => ({ documentId })));
+    await this.documentRepository.delete(ids);
+    await this.retrieverService.removeDocuments(ids);
+
+    const storagePaths = [...documents, ...versions].map((item) => item.storagePath).filter(Boolean);
+    for (const storagePath of storagePaths) {
+      for (const file of [storagePath, this.getSidecarPath(storagePath)]) {
+        const filePath = path.join(this.getUploadsDir(), file);
+        try {
+          if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+        } catch (e) {
+          this.logger.warn(`Failed to delete ${filePath}: ${(e as Error).message}`);
+        }
+      }
+    }
+  }
+
+  private getSidecarPath(storagePath: string): string {
+    return `${path.parse(storagePath).name}.md`;
+  }
+
+  // Queue files left in uploads/ by older versions (or copied in by hand) that are not in the database yet
+  async importFromDisk(): Promise<{ imported: number; skipped: number }> {
+    const uploadsDir = this.getUploadsDir();
+    if (!fs.existsSync(uploadsDir)) {
+      return { imported: 0, skipped: 0 };
+    }
+
+    // Files of superseded versions stay on disk and must not come back as documents of their own
+    const known = new Set(
+      [
+        ...(await this.documentRepository.find({ select: ['storagePath'] })),
+        ...(await this.versionRepository.find({ select: ['storagePath'] })),
+      ]
+        .map((item) => item.storagePath)
+        .filter(Boolean),
+    );
+    const files = fs.readdirSync(uploadsDir);
+    const convertedBases = new Set(
+      files.filter((f) => detectDocumentFormat(f) !== null).map((f) => path.parse(f).name),
+    );
+
+    let imported = 0;
+    let skipped = 0;
+    for (const fileName of files) {
+      const ext = path.extname(fileName).toLowerCase();
+      // Markdown sidecars are picked up together with their PDF/DOCX/... original
+      const isSidecar = ext === '.md' && convertedBases.has(path.parse(fileName).name);
+      if (!IMPORTABLE_EXTENSIONS.includes(ext) || isSidecar || known.has(fileName)) {
+        skipped++;
+        continue;
+      }
+
+      const filePath = path.join(uploadsDir, fileName);
+      try {
+        const stat = fs.statSync(filePath);
+        if (!stat.isFile()) continue;
+
+        const contentHash = this.hashContent(await fs.promises.readFile(filePath));
+        if (await this.documentRepository.count({ where: { contentHash, status: Not(KnowledgeDocumentStatus.ERROR) } })) {
+          skipped++;
+          continue;
+        }
+
+        // Parsed by the ingestion queue like an upload (reusing a converted document's sidecar when present)
+        const document = await this.createPendingDocument({
+          name: fileName,
+          mimeType: this.getDefaultMimeType(fileName),
+          size: stat.size,
+          contentHash,
+          storagePath: fileName,
+        });
+        this.enqueueIngestion(document.id);
+        imported++;
+      } catch (e) {
+        this.logger.warn(`Failed to load knowledge file ${fileName}: ${(e as Error).message}`);
+        skipped++;
+      }
+    }
+
+    this.logger.log(`Imported ${imported} knowledge files from disk (${skipped} skipped)`);
+    return { imported, skipped };
+  }
+}
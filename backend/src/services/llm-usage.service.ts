@@ -0,0 +1,339 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, MoreThanOrEqual, Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { LlmUsage } from '../entities/llm-usage.entity';
+import { AIConfiguration } from '../entities/ai-configuration.entity';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+import {
+  computeCost,
+  findModelPrice,
+  MODEL_PRICES,
+  ModelPrice,
+  parseModelPrice,
+  SELF_HOSTED_PROVIDERS,
+} from '../utils/llm-pricing';
+
+export type UsageGroupBy = 'config' | 'model' | 'session' | 'day' | 'purpose';
+
+// What a call does once its budget is spent: fail, or move on to a cheaper configuration
+export type BudgetAction = 'block' | 'downgrade';
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // USD
+  cost: number;
+  // Calls whose token counts were estimated because the provider reported none
+  estimatedRequests: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+  label: string;
+}
+
+export interface UsageSummary {
+  startDate: string;
+  endDate: string;
+  groupBy: UsageGroupBy;
+  totals: UsageTotals;
+  groups: UsageGroup[];
+  // provider:model pairs used in the period without a price, billed as 0
+  unpricedModels: string[];
+}
+
+export interface BudgetStatus {
+  scope: 'global' | 'configuration';
+  configId?: string;
+  name?: string;
+  // Calendar month (UTC) the spend is counted over, e.g. "2026-10"
+  month: string;
+  limitUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+  exceeded: boolean;
+  action: BudgetAction;
+  // Configuration that answers instead when a downgrading budget is spent
+  downgradeConfigId?: string;
+}
+
+export interface UsageEntry {
+  configId?: string;
+  provider: string;
+  model: string;
+  // Settings of the configuration that answered, for its pricing override
+  additionalSettings?: Record<string, any> | null;
+  sessionId?: string;
+  purpose?: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean;
+}
+
+// Cents, or enough digits to show sub-cent amounts
+const formatUsd = (value: number): string => `$${value >= 0.01 || value === 0 ? value.toFixed(2) : value.toPrecision(2)}`;
+
+// Thrown instead of calling a provider whose blocking budget is spent
+export class LlmBudgetExceededError extends Error {
+  constructor(readonly budget: BudgetStatus) {
+    super(
+      budget.scope === 'global'
+        ? `The monthly LLM budget of ${formatUsd(budget.limitUsd)} is spent (${formatUsd(budget.spentUsd)} used in ${budget.month})`
+        : `The monthly budget of ${formatUsd(budget.limitUsd)} for configuration "${budget.name || budget.configId}" is spent (${formatUsd(budget.spentUsd)} used in ${budget.month})`,
+    );
+    this.name = 'LlmBudgetExceededError';
+  }
+}
+
+const EMPTY_TOTALS = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+  estimatedRequests: 0,
+});
+
+const roundUsd = (value: number): number => Math.round(value * 1_000_000) / 1_000_000;
+
+// Records the tokens and cost of every answered model call and enforces monthly budgets.
+// Prices: a configuration's additionalSettings.pricing, then LLM_PRICES (JSON keyed by provider:model), then
+// MODEL_PRICES. Budgets: a configuration's additionalSettings.budget ({ monthlyUsd, action, downgradeConfigId })
+// and LLM_MONTHLY_BUDGET_USD / LLM_BUDGET_ACTION across all configurations. Only priced calls count against them.
+@Injectable()
+export class LlmUsageService {
+  private readonly logger = new Logger(LlmUsageService.name);
+
+  constructor(
+    @InjectRepository(LlmUsage)
+    private readonly usageRepository: Repository<LlmUsage>,
+    @InjectRepository(AIConfiguration)
+    private readonly aiConfigRepository: Repository<AIConfiguration>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // LLM_PRICES: {"openai:gpt-4o": {"inputPerMillion": 2.5, "outputPerMillion": 10}, ...}
+  private getConfiguredPrices(): Record<string, ModelPrice> {
+    const raw = this.configService.get<string>('LLM_PRICES');
+    if (!raw) return {};
+    try {
+      const parsed = JSON.parse(raw);
+      const prices: Record<string, ModelPrice> = {};
+      for (const [key, value] of Object.entries(parsed || {})) {
+        const price = parseModelPrice(value);
+        if (price) prices[key] = price;
+      }
+      return prices;
+    } catch (error) {
+      this.logger.warn(`Ignoring LLM_PRICES, it is not valid JSON: ${(error as Error).message}`);
+      return {};
+    }
+  }
+
+  // Effective price table: the built-in list with LLM_PRICES entries added or replaced
+  getPriceTable(): Record<string, ModelPrice> {
+    return { ...MODEL_PRICES, ...this.getConfiguredPrices() };
+  }
+
+  // null when the model is hosted by a provider the table does not price
+  getPrice(provider: string, model: string, additionalSettings?: Record<string, any> | null): ModelPrice | null {
+    const override = parseModelPrice(additionalSettings?.pricing);
+    if (override) return override;
+    const price = findModelPrice(this.getPriceTable(), provider, model);
+    if (price) return price;
+    return SELF_HOSTED_PROVIDERS.includes(String(provider).toLowerCase())
+      ? { inputPerMillion: 0, outputPerMillion: 0 }
+      : null;
+  }
+
+  async record(entry: UsageEntry): Promise<{ cost: number; priced: boolean }> {
+    const price = this.getPrice(entry.provider, entry.model, entry.additionalSettings);
+    const cost = price ? computeCost(price, entry.promptTokens, entry.completionTokens) : 0;
+    await this.usageRepository.save(
+      this.usageRepository.create({
+        configId: entry.configId || null,
+        provider: entry.provider,
+        model: entry.model,
+        sessionId: entry.sessionId || null,
+        purpose: entry.purpose || 'chat',
+        promptTokens: entry.promptTokens,
+        completionTokens: entry.completionTokens,
+        totalTokens: entry.promptTokens + entry.completionTokens,
+        estimated: !!entry.estimated,
+        cost,
+        priced: !!price,
+      }),
+    );
+    return { cost, priced: !!price };
+  }
+
+  async summarize(filters: {
+    startDate?: string;
+    endDate?: string;
+    groupBy?: UsageGroupBy;
+    configId?: string;
+    sessionId?: string;
+  }): Promise<UsageSummary> {
+    const end = filters.endDate ? new Date(filters.endDate) : new Date();
+    const start = filters.startDate ? new Date(filters.startDate) : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const groupBy = filters.groupBy || 'day';
+
+    const where: any = { createdAt: Between(start, end) };
+    if (filters.configId) where.configId = filters.configId;
+    if (filters.sessionId) where.sessionId = filters.sessionId;
+    const rows = await this.usageRepository.find({ where, order: { createdAt: 'ASC' } });
+
+    const configNames = new Map(
+      (await this.aiConfigRepository.find({ select: ['id', 'name'] })).map((config) => [config.id, config.name]),
+    );
+    const totals = EMPTY_TOTALS();
+    const groups = new Map<string, UsageGroup>();
+    const unpriced = new Set<string>();
+
+    for (const row of rows) {
+      const { key, label } = this.groupKey(row, groupBy, configNames);
+      let group = groups.get(key);
+      if (!group) {
+        group = { key, label, ...EMPTY_TOTALS() };
+        groups.set(key, group);
+      }
+      for (const target of [totals, group]) {
+        target.requests += 1;
+        target.promptTokens += row.promptTokens;
+        target.completionTokens += row.completionTokens;
+        target.totalTokens += row.totalTokens;
+        target.cost += row.cost;
+        if (row.estimated) target.estimatedRequests += 1;
+      }
+      if (!row.priced) unpriced.add(`${row.provider}:${row.model}`);
+    }
+
+    totals.cost = roundUsd(totals.cost);
+    const sorted = Array.from(groups.values()).map((group) => ({ ...group, cost: roundUsd(group.cost) }));
+    // Days read chronologically; everything else by spend, then volume
+    sorted.sort((a, b) =>
+      groupBy === 'day' ? a.key.localeCompare(b.key) : b.cost - a.cost || b.totalTokens - a.totalTokens,
+    );
+
+    return {
+      startDate: start.toISOString(),
+      endDate: end.toISOString(),
+      groupBy,
+      totals,
+      groups: sorted,
+      unpricedModels: Array.from(unpriced),
+    };
+  }
+
+  private groupKey(row: LlmUsage, groupBy: UsageGroupBy, configNames: Map<string, string>): { key: string; label: string } {
+    switch (groupBy) {
+      case 'config':
+        return row.configId
+          ? { key: row.configId, label: configNames.get(row.configId) || `${row.configId} (deleted)` }
+          : { key: 'none', label: 'OPENAI_API_KEY fallback' };
+      case 'model':
+        return { key: `${row.provider}:${row.model}`, label: `${row.provider}:${row.model}` };
+      case 'session':
+        return { key: row.sessionId || 'none', label: row.sessionId || 'No session' };
+      case 'purpose':
+        return { key: row.purpose, label: row.purpose };
+      case 'day':
+      default: {
+        const day = new Date(row.createdAt).toISOString().slice(0, 10);
+        return { key: day, label: day };
+      }
+    }
+  }
+
+  private getMonthStart(now = new Date()): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+
+  private async getMonthlySpend(configId?: string): Promise<number> {
+    const where: any = { createdAt: MoreThanOrEqual(this.getMonthStart()) };
+    if (configId) where.configId = configId;
+    const rows = await this.usageRepository.find({ where, select: ['cost'] });
+    return roundUsd(rows.reduce((sum, row) => sum + (row.cost || 0), 0));
+  }
+
+  private toAction(value: any): BudgetAction {
+    const action = String(value || '').toLowerCase();
+    if (action === 'block' || action === 'downgrade') return action;
+    return AI_CONSTANTS.DEFAULT_BUDGET_ACTION as BudgetAction;
+  }
+
+  private buildStatus(
+    scope: BudgetStatus['scope'],
+    limitUsd: number,
+    spentUsd: number,
+    action: BudgetAction,
+    extra: Partial<BudgetStatus> = {},
+  ): BudgetStatus {
+    return {
+      scope,
+      ...extra,
+      month: this.getMonthStart().toISOString().slice(0, 7),
+      limitUsd,
+      spentUsd,
+      remainingUsd: roundUsd(Math.max(0, limitUsd - spentUsd)),
+      exceeded: spentUsd >= limitUsd,
+      action,
+    };
+  }
+
+  private async getGlobalBudget(): Promise<BudgetStatus | null> {
+    const limit = Number(this.configService.get<string>('LLM_MONTHLY_BUDGET_USD'));
+    if (!(limit > 0)) return null;
+    return this.buildStatus('global', limit, await this.getMonthlySpend(), this.toAction(this.configService.get('LLM_BUDGET_ACTION')));
+  }
+
+  private async getConfigurationBudget(config: Pick<AIConfiguration, 'id' | 'name' | 'additionalSettings'>): Promise<BudgetStatus | null> {
+    const budget = config.additionalSettings?.budget;
+    const limit = Number(budget?.monthlyUsd);
+    if (!config.id || !(limit > 0)) return null;
+    return this.buildStatus('configuration', limit, await this.getMonthlySpend(config.id), this.toAction(budget.action), {
+      configId: config.id,
+      name: config.name,
+      downgradeConfigId: typeof budget.downgradeConfigId === 'string' ? budget.downgradeConfigId : undefined,
+    });
+  }
+
+  // This month's budgets: the global one (if set) and every configuration that declares one
+  async getBudgets(): Promise<BudgetStatus[]> {
+    const statuses: BudgetStatus[] = [];
+    const global = await this.getGlobalBudget();
+    if (global) statuses.push(global);
+    for (const config of await this.aiConfigRepository.find({ order: { createdAt: 'DESC' } })) {
+      const status = await this.getConfigurationBudget(config);
+      if (status) statuses.push(status);
+    }
+    return statuses;
+  }
+
+  // The spent budget a call to this configuration would exceed, configuration budget first; null when it may go out.
+  // Free calls (self-hosted or zero-priced models) are never stopped.
+  async findExceededBudget(target: {
+    configId?: string;
+    name?: string;
+    provider: string;
+    model: string;
+    additionalSettings?: Record<string, any> | null;
+  }): Promise<BudgetStatus | null> {
+    const price = this.getPrice(target.provider, target.model, target.additionalSettings);
+    if (!price || (price.inputPerMillion === 0 && price.outputPerMillion === 0)) return null;
+
+    if (target.configId) {
+      const status = await this.getConfigurationBudget({
+        id: target.configId,
+        name: target.name || '',
+        additionalSettings: target.additionalSettings || {},
+      });
+      if (status?.exceeded) return status;
+    }
+    const global = await this.getGlobalBudget();
+    return global?.exceeded ? global : null;
+  }
+}
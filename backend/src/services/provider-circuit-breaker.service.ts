@@ -0,0 +1,94 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderCircuit {
+  // Provider endpoint the circuit guards, e.g. "ollama:http://gpu-box:11434"
+  key: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  lastError: string | null;
+}
+
+interface CircuitRecord extends ProviderCircuit {
+  // Half-open admits a single probe; other calls are turned away until it settles
+  probeInFlight: boolean;
+}
+
+// Circuit breaker per provider endpoint. After CIRCUIT_BREAKER_FAILURES consecutive failures (default 3) calls
+// are refused without contacting the provider; after CIRCUIT_BREAKER_RESET_MS (default 30s) one probe call is let
+// through, and its outcome closes the circuit or opens it again. State lives in memory, per backend instance.
+@Injectable()
+export class ProviderCircuitBreakerService {
+  private readonly logger = new Logger(ProviderCircuitBreakerService.name);
+  private readonly circuits = new Map<string, CircuitRecord>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  private getFailureThreshold(): number {
+    const configured = parseInt(this.configService.get<string>('CIRCUIT_BREAKER_FAILURES') || '', 10);
+    return configured > 0 ? configured : AI_CONSTANTS.CIRCUIT_BREAKER_FAILURE_THRESHOLD;
+  }
+
+  private getResetMs(): number {
+    const configured = parseInt(this.configService.get<string>('CIRCUIT_BREAKER_RESET_MS') || '', 10);
+    return configured > 0 ? configured : AI_CONSTANTS.CIRCUIT_BREAKER_RESET_MS;
+  }
+
+  keyFor(config: { modelProvider: string; baseUrl?: string | null }): string {
+    return `${config.modelProvider}:${(config.baseUrl || 'default').replace(/\/+$/, '')}`;
+  }
+
+  private getCircuit(key: string): CircuitRecord {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { key, state: 'closed', consecutiveFailures: 0, openedAt: null, lastError: null, probeInFlight: false };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  // Whether a call may go out now; an open circuit past its cooldown turns half-open and admits this call as the probe
+  tryAcquire(key: string): boolean {
+    const circuit = this.getCircuit(key);
+    if (circuit.state === 'closed') return true;
+    if (circuit.state === 'open') {
+      if (Date.now() - (circuit.openedAt?.getTime() || 0) < this.getResetMs()) return false;
+      circuit.state = 'half-open';
+      this.logger.log(`Circuit ${key} half-open, probing the provider`);
+    }
+    if (circuit.probeInFlight) return false;
+    circuit.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess(key: string): void {
+    const circuit = this.getCircuit(key);
+    if (circuit.state !== 'closed') {
+      this.logger.log(`Circuit ${key} closed, the provider answered again`);
+    }
+    Object.assign(circuit, { state: 'closed', consecutiveFailures: 0, openedAt: null, probeInFlight: false });
+  }
+
+  recordFailure(key: string, error: Error): void {
+    const circuit = this.getCircuit(key);
+    circuit.consecutiveFailures += 1;
+    circuit.lastError = error.message;
+    circuit.probeInFlight = false;
+    if (circuit.state === 'half-open' || circuit.consecutiveFailures >= this.getFailureThreshold()) {
+      if (circuit.state !== 'open') {
+        this.logger.warn(`Circuit ${key} open after ${circuit.consecutiveFailures} consecutive failures: ${error.message}`);
+      }
+      circuit.state = 'open';
+      circuit.openedAt = new Date();
+    }
+  }
+
+  // Snapshot for the health endpoint
+  getCircuits(): ProviderCircuit[] {
+    return Array.from(this.circuits.values()).map(({ probeInFlight, ...circuit }) => ({ ...circuit }));
+  }
+}
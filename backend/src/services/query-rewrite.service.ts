@@ -0,0 +1,137 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConversationHistory } from '../entities/conversation-history.entity';
+import { AIService } from './ai.service';
+import { tokenize } from './retriever.service';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+
+export type QueryRewriteMethod = 'none' | 'llm' | 'heuristic';
+
+export interface QueryRewrite {
+  // Query to retrieve with; the message itself when no rewrite was needed
+  query: string;
+  method: QueryRewriteMethod;
+}
+
+// Words that only make sense with an antecedent from earlier turns
+const REFERENCE_WORDS = /\b(it|its|it's|this|that|these|those|they|them|their|theirs|he|him|his|she|her|hers|there|former|latter|same|above)\b/gi;
+// Openers of elliptical follow-ups ("what about the limits?", "and for Postgres?")
+const FOLLOW_UP_OPENERS = /^\s*(and|also|but|so|or|what about|how about|what else|why not|why|how come|more|ok|okay|then)\b/i;
+// Terms of the previous question carried over by the heuristic rewrite (short words like "is" are skipped)
+const MAX_CARRIED_TERMS = 8;
+// Longest model rewrite accepted as a query; longer output is an answer, not a query
+const MAX_QUERY_CHARS = 300;
+// Earlier assistant answers are cut to this length in the rewrite prompt
+const ANSWER_PREVIEW_CHARS = 400;
+
+// Turns a RAG follow-up ("what about its limitations?") into a standalone search query using recent turns:
+// the model rewrites it when reachable, otherwise a heuristic carries the previous question's terms over.
+// Configurable via RAG_QUERY_REWRITE: llm (default), heuristic or off.
+@Injectable()
+export class QueryRewriteService {
+  private readonly logger = new Logger(QueryRewriteService.name);
+
+  constructor(
+    private readonly aiService: AIService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private getStrategy(): 'llm' | 'heuristic' | 'off' {
+    const configured = (this.configService.get<string>('RAG_QUERY_REWRITE') || '').toLowerCase();
+    return configured === 'heuristic' || configured === 'off' ? configured : 'llm';
+  }
+
+  // History arrives oldest first; useModel=false when the caller already knows no model is reachable
+  async rewrite(
+    message: string,
+    history: ConversationHistory[],
+    options: { configId?: string; useModel?: boolean } = {},
+  ): Promise<QueryRewrite> {
+    const strategy = this.getStrategy();
+    const turns = history.slice(-AI_CONSTANTS.QUERY_REWRITE_TURNS);
+    if (strategy === 'off' || !turns.length || !this.isFollowUp(message)) {
+      return { query: message, method: 'none' };
+    }
+
+    if (strategy === 'llm' && options.useModel !== false) {
+      try {
+        const query = await this.rewriteWithModel(message, turns, options.configId);
+        if (query) {
+          this.logger.log(`Rewrote follow-up "${message}" as "${query}"`);
+          return { query, method: 'llm' };
+        }
+      } catch (error) {
+        this.logger.warn(`Query rewrite via model failed, using heuristic: ${(error as Error).message}`);
+      }
+    }
+
+    const query = this.rewriteHeuristically(message, turns);
+    if (query === message) {
+      return { query: message, method: 'none' };
+    }
+    this.logger.log(`Rewrote follow-up "${message}" as "${query}" (heuristic)`);
+    return { query, method: 'heuristic' };
+  }
+
+  private isFollowUp(message: string): boolean {
+    REFERENCE_WORDS.lastIndex = 0;
+    return REFERENCE_WORDS.test(message) || FOLLOW_UP_OPENERS.test(message) || tokenize(message).length < 2;
+  }
+
+  private async rewriteWithModel(message: string, turns: ConversationHistory[], configId?: string): Promise<string | null> {
+    const transcript = turns
+      .map((turn) => {
+        const answer = turn.assistantResponse || '';
+        const preview = answer.length > ANSWER_PREVIEW_CHARS ? `${answer.slice(0, ANSWER_PREVIEW_CHARS)}…` : answer;
+        return `User: ${turn.userMessage}\nAssistant: ${preview}`;
+      })
+      .join('\n\n');
+    const prompt = `Rewrite the user's latest message as a standalone search query for a document search. Resolve pronouns and references using the conversation, and keep names, numbers and technical terms. If the message is already standalone, repeat it unchanged. Reply with the query only, on one line.\n\nConversation:\n${transcript}\n\nLatest message: ${message}\n\nStandalone query:`;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('timed out')), AI_CONSTANTS.QUERY_REWRITE_TIMEOUT_MS);
+    });
+    try {
+      const result = await Promise.race([
+        this.aiService.generateResponse(prompt, {
+          configId,
+          temperature: 0,
+          maxTokens: AI_CONSTANTS.QUERY_REWRITE_MAX_TOKENS,
+          promptType: 'query_rewrite',
+        }),
+        timeout,
+      ]);
+      return this.cleanModelQuery(result.response);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // First non-empty line without "Query:" labels or quotes; null when it cannot be a query
+  private cleanModelQuery(output: string): string | null {
+    const line = (output || '').split('\n').map((l) => l.trim()).find(Boolean) || '';
+    const query = line
+      .replace(/^(standalone\s+)?(search\s+)?query\s*:\s*/i, '')
+      .replace(/^["'`“”]+|["'`“”]+$/g, '')
+      .trim();
+    return query && query.length <= MAX_QUERY_CHARS && tokenize(query).length ? query : null;
+  }
+
+  // Drop reference words and append the terms of the most recent earlier question that has any
+  private rewriteHeuristically(message: string, turns: ConversationHistory[]): string {
+    const messageTerms = new Set(tokenize(message));
+    let carried: string[] = [];
+    for (let i = turns.length - 1; i >= 0 && !carried.length; i--) {
+      // A rewritten question carries its own antecedent, so chains of follow-ups keep the topic
+      const previous = turns[i].metadata?.queryRewrite?.query || turns[i].userMessage;
+      carried = Array.from(new Set(tokenize(previous.replace(REFERENCE_WORDS, ' '))))
+        .filter((term) => term.length > 2 && !messageTerms.has(term))
+        .slice(0, MAX_CARRIED_TERMS);
+    }
+    if (!carried.length) return message;
+
+    const stripped = message.replace(REFERENCE_WORDS, ' ').replace(/\s+/g, ' ').trim();
+    return `${stripped} ${carried.join(' ')}`.trim();
+  }
+}
@@ -0,0 +1,202 @@
+import { Injectable, Logger, PayloadTooLargeException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AIConfiguration, ModelProvider } from '../entities/ai-configuration.entity';
+import { AIConfigurationService } from './ai-configuration.service';
+import { AIService } from './ai.service';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+
+// What a RAG message gets when the provider cannot serve it: quoted excerpts, or the notice alone
+export type RagFallback = 'extractive' | 'notice';
+
+export interface RagPolicy {
+  enabled: boolean;
+  // Largest knowledge upload accepted, in bytes
+  maxDocumentBytes: number;
+  // Cap on the knowledge context placed in the prompt
+  maxContextChars: number;
+  // Providers allowed to answer RAG messages; empty = any
+  allowedProviders: string[];
+  // Whether providers on localhost/127.0.0.1 are reachable from this backend (false when it runs on a server
+  // and the model runs on the user's machine)
+  localProvidersReachable: boolean;
+  fallback: RagFallback;
+  // Shown instead of an answer when RAG is disabled
+  notice: string;
+}
+
+export type RagPolicyStatus = 'enabled' | 'degraded' | 'disabled';
+
+export interface RagPolicyReason {
+  code: 'rag-disabled-by-policy' | 'provider-not-allowed' | 'provider-unreachable';
+  message: string;
+}
+
+export interface RagPolicyDecision {
+  environment: string;
+  status: RagPolicyStatus;
+  reasons: RagPolicyReason[];
+  configId?: string;
+  provider?: string;
+  policy: RagPolicy;
+}
+
+const DEFAULT_POLICY: RagPolicy = {
+  enabled: true,
+  maxDocumentBytes: 10 * 1024 * 1024,
+  maxContextChars: AI_CONSTANTS.RAG_DEFAULT_MAX_CONTEXT_CHARS,
+  allowedProviders: [],
+  localProvidersReachable: true,
+  fallback: 'extractive',
+  notice: 'RAG is disabled on this server. Run locally (npm run dev) to use document-grounded answers.',
+};
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+// Built-in rules per environment; RAG_POLICY overrides them and a config's additionalSettings.ragPolicy comes last
+const ENVIRONMENT_POLICIES: Record<string, Partial<RagPolicy>> = {
+  local: {},
+  production: { localProvidersReachable: false },
+  // Heroku: ephemeral disk and a 30s router timeout
+  hosted: {
+    enabled: false,
+    maxDocumentBytes: 5 * 1024 * 1024,
+    localProvidersReachable: false,
+    notice: 'RAG is disabled on the hosted environment due to backend hosting limits. Run locally (npm run dev) to use document-grounded answers.',
+  },
+};
+
+// Decides whether RAG may run and within which limits, from the environment and the AI configuration in use.
+// The environment is RAG_POLICY_ENV, else derived: FORCE_LOCAL → local, NODE_ENV=production on a Heroku dyno
+// → hosted, other production → production, anything else → local. ALLOW_RAG_IN_PROD=true enables hosted RAG.
+@Injectable()
+export class RagPolicyService {
+  private readonly logger = new Logger(RagPolicyService.name);
+
+  constructor(
+    private readonly aiConfigurationService: AIConfigurationService,
+    private readonly aiService: AIService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private isFlagSet(name: string): boolean {
+    const flag = this.configService.get<string | boolean>(name);
+    return flag === true || flag === 'true' || flag === '1';
+  }
+
+  getEnvironment(): string {
+    const configured = (this.configService.get<string>('RAG_POLICY_ENV') || '').trim().toLowerCase();
+    if (configured) return configured;
+    // Treat local runs as non-hosted even if NODE_ENV is mistakenly set to production
+    if (this.configService.get<string>('FORCE_LOCAL')) return 'local';
+    const nodeEnv = this.configService.get<string>('NODE_ENV');
+    if (nodeEnv !== 'production' && nodeEnv !== 'prod') return 'local';
+    return this.configService.get<string>('DYNO') ? 'hosted' : 'production';
+  }
+
+  // RAG_POLICY: JSON object of partial policies keyed by environment name, "*" applying to all of them
+  private getConfiguredOverrides(environment: string): Partial<RagPolicy>[] {
+    const raw = this.configService.get<string>('RAG_POLICY');
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      return [parsed?.['*'], parsed?.[environment]].filter((rules) => rules && typeof rules === 'object');
+    } catch (error) {
+      this.logger.warn(`Ignoring RAG_POLICY, it is not valid JSON: ${(error as Error).message}`);
+      return [];
+    }
+  }
+
+  // Effective policy for the environment, optionally narrowed by a configuration's additionalSettings.ragPolicy
+  getPolicy(config?: AIConfiguration | null): RagPolicy {
+    const environment = this.getEnvironment();
+    const layers: Partial<RagPolicy>[] = [ENVIRONMENT_POLICIES[environment] || {}];
+    if (environment === 'hosted' && this.isFlagSet('ALLOW_RAG_IN_PROD')) {
+      layers.push({ enabled: true });
+    }
+    layers.push(...this.getConfiguredOverrides(environment));
+    if (config?.additionalSettings?.ragPolicy && typeof config.additionalSettings.ragPolicy === 'object') {
+      layers.push(config.additionalSettings.ragPolicy);
+    }
+
+    const policy = { ...DEFAULT_POLICY };
+    for (const rules of layers) {
+      if (typeof rules.enabled === 'boolean') policy.enabled = rules.enabled;
+      if (Number(rules.maxDocumentBytes) > 0) policy.maxDocumentBytes = Number(rules.maxDocumentBytes);
+      if (Number(rules.maxContextChars) > 0) policy.maxContextChars = Number(rules.maxContextChars);
+      if (Array.isArray(rules.allowedProviders)) {
+        policy.allowedProviders = rules.allowedProviders.map((provider) => String(provider).toLowerCase());
+      }
+      if (typeof rules.localProvidersReachable === 'boolean') policy.localProvidersReachable = rules.localProvidersReachable;
+      if (rules.fallback === 'extractive' || rules.fallback === 'notice') policy.fallback = rules.fallback;
+      if (typeof rules.notice === 'string' && rules.notice.trim()) policy.notice = rules.notice.trim();
+    }
+    return policy;
+  }
+
+  // Decision for the given configuration, else the active one
+  async evaluate(configId?: string): Promise<RagPolicyDecision> {
+    const config = await this.resolveConfig(configId);
+    const environment = this.getEnvironment();
+    const policy = this.getPolicy(config);
+    const provider = config?.modelProvider ? String(config.modelProvider).toLowerCase() : undefined;
+    const reasons: RagPolicyReason[] = [];
+
+    if (!policy.enabled) {
+      reasons.push({ code: 'rag-disabled-by-policy', message: policy.notice });
+      return { environment, status: 'disabled', reasons, configId: config?.id, provider, policy };
+    }
+
+    if (provider && policy.allowedProviders.length && !policy.allowedProviders.includes(provider)) {
+      reasons.push({
+        code: 'provider-not-allowed',
+        message: `${provider} is not allowed to answer from documents in the ${environment} environment (allowed: ${policy.allowedProviders.join(', ')}).`,
+      });
+    }
+    // A failed call moves on to the configuration's fallbacks, so an unreachable Ollama only matters without them
+    const baseUrl = config?.baseUrl || '';
+    const isLocalUrl = !baseUrl || /localhost|127\.0\.0\.1/i.test(baseUrl);
+    if (
+      config &&
+      provider === ModelProvider.OLLAMA &&
+      isLocalUrl &&
+      !policy.localProvidersReachable &&
+      !this.aiService.hasFallbacks(config)
+    ) {
+      reasons.push({
+        code: 'provider-unreachable',
+        message: `The Ollama endpoint ${baseUrl || '(default)'} is local to your machine and cannot be reached from this server.`,
+      });
+    }
+
+    return {
+      environment,
+      status: reasons.length ? 'degraded' : 'enabled',
+      reasons,
+      configId: config?.id,
+      provider,
+      policy,
+    };
+  }
+
+  // Uploads are checked against the active configuration's policy
+  async assertDocumentSize(fileName: string, size: number): Promise<void> {
+    const policy = this.getPolicy(await this.resolveConfig());
+    if (size > policy.maxDocumentBytes) {
+      throw new PayloadTooLargeException(
+        `"${fileName}" is ${formatBytes(size)}; the RAG policy of the ${this.getEnvironment()} environment allows up to ${formatBytes(policy.maxDocumentBytes)} per document`,
+      );
+    }
+  }
+
+  private async resolveConfig(configId?: string): Promise<AIConfiguration | null> {
+    try {
+      return configId
+        ? await this.aiConfigurationService.findOne(configId)
+        : await this.aiConfigurationService.findActive();
+    } catch (error) {
+      this.logger.warn(`No AI configuration to evaluate the RAG policy against: ${(error as Error).message}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,383 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, LessThanOrEqual, MoreThan, Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { ResponseCacheEntry } from '../entities/response-cache-entry.entity';
+import { AIConfiguration } from '../entities/ai-configuration.entity';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+import { EmbeddingService } from './embedding.service';
+import { hashCacheKey, hashCacheScope, normalizePrompt } from '../utils/response-cache-key';
+
+export type CacheMatch = 'exact' | 'semantic';
+
+export interface ResponseCacheSettings {
+  enabled: boolean;
+  ttlSeconds: number;
+  // Also answer prompts whose embedding is at least similarityThreshold (cosine) close to a cached one
+  semantic: boolean;
+  similarityThreshold: number;
+}
+
+export interface ResponseCacheHit {
+  match: CacheMatch;
+  entryId: string;
+  // Cosine similarity of the two prompts, for semantic matches
+  similarity?: number;
+  cachedAt: Date;
+  // Tokens of the original call, not spent again
+  savedTokens: number;
+}
+
+// Prepared by lookup(); after a miss it is handed back to store() with the provider's answer
+export interface CacheLookup {
+  settings: ResponseCacheSettings;
+  configId?: string;
+  provider: string;
+  model: string;
+  purpose?: string;
+  scopeKey: string;
+  cacheKey: string;
+  prompt: string;
+  // Prompt vector computed for the semantic lookup, reused when the answer is stored
+  embedding?: { vector: number[]; model: string };
+  hit?: ResponseCacheHit & { response: string; modelUsed: string };
+}
+
+export interface ResponseCacheTarget {
+  configId?: string;
+  // Configuration merged with the call's options
+  config: any;
+}
+
+export interface ResponseCacheCounters {
+  exactHits: number;
+  semanticHits: number;
+  misses: number;
+  stores: number;
+  savedTokens: number;
+  // Hits / lookups, null before the first lookup
+  hitRate: number | null;
+}
+
+export interface ResponseCacheConfigStats extends ResponseCacheCounters {
+  configId: string | null;
+  name?: string;
+  enabled: boolean;
+  entries: number;
+}
+
+export interface ResponseCacheStats {
+  // Counters are kept in memory, per backend instance, since this time
+  since: string;
+  totals: ResponseCacheCounters;
+  configurations: ResponseCacheConfigStats[];
+  entries: number;
+  expiredEntries: number;
+  defaults: ResponseCacheSettings;
+}
+
+export interface ResponseCacheEntryFilters {
+  configId?: string;
+  purpose?: string;
+  offset?: number;
+  limit?: number;
+}
+
+type RawCounters = Omit<ResponseCacheCounters, 'hitRate'>;
+
+const EMPTY_COUNTERS = (): RawCounters => ({ exactHits: 0, semanticHits: 0, misses: 0, stores: 0, savedTokens: 0 });
+
+const withHitRate = (counters: RawCounters): ResponseCacheCounters => {
+  const hits = counters.exactHits + counters.semanticHits;
+  const lookups = hits + counters.misses;
+  return { ...counters, hitRate: lookups ? Math.round((hits / lookups) * 1000) / 1000 : null };
+};
+
+// Entries are listed without their vectors
+const toListedEntry = ({ embedding, ...entry }: ResponseCacheEntry) => ({ ...entry, embedded: !!embedding });
+
+// Caches model answers per configuration. The key is provider, model, endpoint, parameters, system prompt, history
+// and the whitespace-normalized prompt; a miss can still be answered by a semantically close prompt in the same
+// scope when semantic matching is on. A configuration opts in with additionalSettings.responseCache (true, or
+// { enabled, ttlSeconds, semantic, similarityThreshold }); RESPONSE_CACHE_* environment variables are the defaults.
+// Cache errors are logged and treated as misses so they never fail a call.
+@Injectable()
+export class ResponseCacheService {
+  private readonly logger = new Logger(ResponseCacheService.name);
+  private readonly counters = new Map<string, RawCounters>();
+  private readonly since = new Date();
+
+  constructor(
+    @InjectRepository(ResponseCacheEntry)
+    private readonly cacheRepository: Repository<ResponseCacheEntry>,
+    @InjectRepository(AIConfiguration)
+    private readonly aiConfigRepository: Repository<AIConfiguration>,
+    private readonly configService: ConfigService,
+    private readonly embeddingService: EmbeddingService,
+  ) {}
+
+  private getFlag(name: string): boolean {
+    const flag = this.configService.get<string | boolean>(name);
+    return flag === true || flag === 'true' || flag === '1';
+  }
+
+  getDefaultSettings(): ResponseCacheSettings {
+    const ttlSeconds = parseInt(this.configService.get<string>('RESPONSE_CACHE_TTL_SECONDS') || '', 10);
+    const similarity = parseFloat(this.configService.get<string>('RESPONSE_CACHE_SIMILARITY') || '');
+    return {
+      enabled: this.getFlag('RESPONSE_CACHE_ENABLED'),
+      ttlSeconds: ttlSeconds > 0 ? ttlSeconds : AI_CONSTANTS.RESPONSE_CACHE_TTL_SECONDS,
+      semantic: this.getFlag('RESPONSE_CACHE_SEMANTIC'),
+      similarityThreshold: similarity > 0 && similarity <= 1 ? similarity : AI_CONSTANTS.RESPONSE_CACHE_SIMILARITY,
+    };
+  }
+
+  // A configuration's additionalSettings.responseCache over the environment defaults
+  getSettings(additionalSettings?: Record<string, any> | null): ResponseCacheSettings {
+    const defaults = this.getDefaultSettings();
+    const configured = additionalSettings?.responseCache;
+    if (typeof configured === 'boolean') {
+      return { ...defaults, enabled: configured };
+    }
+    if (!configured || typeof configured !== 'object') {
+      return defaults;
+    }
+
+    const ttlSeconds = Number(configured.ttlSeconds);
+    const similarity = Number(configured.similarityThreshold);
+    return {
+      enabled: typeof configured.enabled === 'boolean' ? configured.enabled : true,
+      ttlSeconds: ttlSeconds > 0 ? Math.floor(ttlSeconds) : defaults.ttlSeconds,
+      semantic: typeof configured.semantic === 'boolean' ? configured.semantic : defaults.semantic,
+      similarityThreshold: similarity > 0 && similarity <= 1 ? similarity : defaults.similarityThreshold,
+    };
+  }
+
+  private count(configId: string | undefined, update: (counters: RawCounters) => void): void {
+    const key = configId || 'default';
+    let counters = this.counters.get(key);
+    if (!counters) {
+      counters = EMPTY_COUNTERS();
+      this.counters.set(key, counters);
+    }
+    update(counters);
+  }
+
+  // Exact match first, then (when enabled) the closest unexpired entry of the same scope. Returns null when the
+  // configuration does not cache; otherwise the lookup, with `hit` set when a cached answer can be served.
+  async lookup(target: ResponseCacheTarget, prompt: string, purpose?: string): Promise<CacheLookup | null> {
+    const { config } = target;
+    const settings = this.getSettings(config.additionalSettings);
+    if (!settings.enabled) return null;
+
+    const scopeKey = hashCacheScope({
+      provider: config.modelProvider,
+      model: config.modelName,
+      baseUrl: config.baseUrl,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      topP: config.topP,
+      frequencyPenalty: config.frequencyPenalty,
+      presencePenalty: config.presencePenalty,
+      systemPrompt: config.systemPrompt,
+      history: config.history,
+    });
+    const normalized = normalizePrompt(prompt);
+    const lookup: CacheLookup = {
+      settings,
+      configId: target.configId,
+      provider: config.modelProvider,
+      model: config.modelName,
+      purpose,
+      scopeKey,
+      cacheKey: hashCacheKey(scopeKey, normalized),
+      prompt: normalized,
+    };
+
+    try {
+      const now = new Date();
+      const exact = await this.cacheRepository.findOne({ where: { cacheKey: lookup.cacheKey }, order: { createdAt: 'DESC' } });
+      if (exact && exact.expiresAt > now) {
+        return await this.serve(lookup, exact, 'exact');
+      }
+      if (exact) {
+        await this.cacheRepository.delete({ cacheKey: lookup.cacheKey });
+      }
+
+      if (settings.semantic) {
+        const semantic = await this.findSimilar(lookup, now);
+        if (semantic) {
+          return await this.serve(lookup, semantic.entry, 'semantic', semantic.similarity);
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Response cache lookup failed, calling the provider: ${(error as Error).message}`);
+    }
+
+    this.count(target.configId, (counters) => counters.misses++);
+    return lookup;
+  }
+
+  private async findSimilar(lookup: CacheLookup, now: Date): Promise<{ entry: ResponseCacheEntry; similarity: number } | null> {
+    // Long prompts (performance data dumps) differ in details an embedding of their start would not see
+    if (lookup.prompt.length > AI_CONSTANTS.RESPONSE_CACHE_SEMANTIC_MAX_CHARS) return null;
+    const embedded = await this.embeddingService.embed([lookup.prompt]);
+    if (!embedded) return null;
+    lookup.embedding = { vector: embedded.vectors[0], model: embedded.model.key };
+
+    const candidates = await this.cacheRepository.find({
+      where: { scopeKey: lookup.scopeKey, embeddingModel: embedded.model.key, expiresAt: MoreThan(now) },
+      order: { createdAt: 'DESC' },
+      take: AI_CONSTANTS.RESPONSE_CACHE_SEMANTIC_CANDIDATES,
+    });
+    let best: { entry: ResponseCacheEntry; similarity: number } | null = null;
+    for (const entry of candidates) {
+      const similarity = this.embeddingService.cosineSimilarity(lookup.embedding.vector, entry.embedding || []);
+      if (similarity >= lookup.settings.similarityThreshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+    return best;
+  }
+
+  private async serve(lookup: CacheLookup, entry: ResponseCacheEntry, match: CacheMatch, similarity?: number): Promise<CacheLookup> {
+    await this.cacheRepository.update(entry.id, { hits: entry.hits + 1, lastHitAt: new Date() });
+    const savedTokens = entry.promptTokens + entry.completionTokens;
+    this.count(lookup.configId, (counters) => {
+      if (match === 'exact') counters.exactHits++;
+      else counters.semanticHits++;
+      counters.savedTokens += savedTokens;
+    });
+    this.logger.log(`Response cache ${match} hit for ${entry.provider}:${entry.model} (entry ${entry.id})`);
+
+    return {
+      ...lookup,
+      hit: {
+        match,
+        entryId: entry.id,
+        similarity: similarity !== undefined ? Math.round(similarity * 1000) / 1000 : undefined,
+        cachedAt: entry.createdAt,
+        savedTokens,
+        response: entry.response,
+        modelUsed: `${entry.provider}:${entry.model}`,
+      },
+    };
+  }
+
+  // Keep the answer to a missed lookup; an expired entry under the same key is replaced
+  async store(lookup: CacheLookup, answer: { response: string; promptTokens?: number; completionTokens?: number }): Promise<void> {
+    if (!answer.response?.trim()) return;
+    try {
+      let embedding = lookup.embedding;
+      if (!embedding && lookup.settings.semantic && lookup.prompt.length <= AI_CONSTANTS.RESPONSE_CACHE_SEMANTIC_MAX_CHARS) {
+        const embedded = await this.embeddingService.embed([lookup.prompt]);
+        if (embedded) embedding = { vector: embedded.vectors[0], model: embedded.model.key };
+      }
+
+      await this.cacheRepository.delete({ cacheKey: lookup.cacheKey });
+      await this.cacheRepository.save(this.cacheRepository.create({
+        cacheKey: lookup.cacheKey,
+        scopeKey: lookup.scopeKey,
+        configId: lookup.configId || null,
+        provider: lookup.provider,
+        model: lookup.model,
+        purpose: lookup.purpose || null,
+        prompt: lookup.prompt,
+        response: answer.response,
+        promptTokens: answer.promptTokens || 0,
+        completionTokens: answer.completionTokens || 0,
+        embedding: embedding?.vector || null,
+        embeddingModel: embedding?.model || null,
+        hits: 0,
+        lastHitAt: null,
+        expiresAt: new Date(Date.now() + lookup.settings.ttlSeconds * 1000),
+      }));
+      this.count(lookup.configId, (counters) => counters.stores++);
+    } catch (error) {
+      this.logger.warn(`Failed to store response in cache: ${(error as Error).message}`);
+    }
+  }
+
+  async getStats(): Promise<ResponseCacheStats> {
+    const now = new Date();
+    const [entries, expiredEntries, configurations, perConfig] = await Promise.all([
+      this.cacheRepository.count(),
+      this.cacheRepository.count({ where: { expiresAt: LessThanOrEqual(now) } }),
+      this.aiConfigRepository.find({ order: { createdAt: 'ASC' } }),
+      this.cacheRepository
+        .createQueryBuilder('entry')
+        .select('entry.configId', 'configId')
+        .addSelect('COUNT(*)', 'entries')
+        .groupBy('entry.configId')
+        .getRawMany<{ configId: string | null; entries: string | number }>(),
+    ]);
+
+    const entryCounts = new Map(perConfig.map((row) => [row.configId || 'default', Number(row.entries)]));
+    const totals = EMPTY_COUNTERS();
+    for (const counters of this.counters.values()) {
+      for (const field of Object.keys(totals) as (keyof RawCounters)[]) {
+        totals[field] += counters[field];
+      }
+    }
+
+    return {
+      since: this.since.toISOString(),
+      totals: withHitRate(totals),
+      configurations: configurations.map((config) => ({
+        configId: config.id,
+        name: config.name,
+        enabled: this.getSettings(config.additionalSettings).enabled,
+        entries: entryCounts.get(config.id) || 0,
+        ...withHitRate(this.counters.get(config.id) || EMPTY_COUNTERS()),
+      })),
+      entries,
+      expiredEntries,
+      defaults: this.getDefaultSettings(),
+    };
+  }
+
+  async listEntries(filters: ResponseCacheEntryFilters = {}): Promise<{ data: ReturnType<typeof toListedEntry>[]; total: number }> {
+    const where: FindOptionsWhere<ResponseCacheEntry> = {};
+    if (filters.configId) where.configId = filters.configId;
+    if (filters.purpose) where.purpose = filters.purpose;
+
+    const [entries, total] = await this.cacheRepository.findAndCount({
+      where,
+      order: { createdAt: 'DESC' },
+      skip: filters.offset || 0,
+      take: filters.limit || AI_CONSTANTS.RESPONSE_CACHE_PAGE_SIZE,
+    });
+    return { data: entries.map(toListedEntry), total };
+  }
+
+  async getEntry(id: string): Promise<ReturnType<typeof toListedEntry>> {
+    const entry = await this.cacheRepository.findOne({ where: { id } });
+    if (!entry) {
+      throw new NotFoundException(`Response cache entry with ID ${id} not found`);
+    }
+    return toListedEntry(entry);
+  }
+
+  async removeEntry(id: string): Promise<void> {
+    const result = await this.cacheRepository.delete(id);
+    if (!result.affected) {
+      throw new NotFoundException(`Response cache entry with ID ${id} not found`);
+    }
+  }
+
+  // Every entry, a configuration's entries, or only those past their TTL
+  async purge(options: { configId?: string; expiredOnly?: boolean } = {}): Promise<{ deleted: number }> {
+    const where: FindOptionsWhere<ResponseCacheEntry> = {};
+    if (options.configId) where.configId = options.configId;
+    if (options.expiredOnly) where.expiresAt = LessThanOrEqual(new Date());
+
+    const deleted = await this.cacheRepository.count({ where });
+    if (Object.keys(where).length) {
+      await this.cacheRepository.delete(where);
+    } else {
+      await this.cacheRepository.clear();
+    }
+    this.logger.log(`Purged ${deleted} response cache entries`);
+    return { deleted };
+  }
+}
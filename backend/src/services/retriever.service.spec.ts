@@ -0,0 +1,104 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { KnowledgeChunk } from '../entities/knowledge-chunk.entity';
+import { EmbeddingService } from './embedding.service';
+import { RetrieverService } from './retriever.service';
+
+// Stands in for knowledge_chunks as written by any instance sharing the database
+function createTable() {
+  const rows: KnowledgeChunk[] = [];
+  let clock = 0;
+  const write = (id: string, content: string) => {
+    const existing = rows.findIndex((row) => row.id === id);
+    const row = {
+      id,
+      documentId: `doc-${id}`,
+      chunkIndex: 0,
+      startOffset: 0,
+      endOffset: content.length,
+      content,
+      sectionPath: null,
+      embedding: null,
+      embeddingModel: null,
+      updatedAt: new Date(++clock),
+      document: { id: `doc-${id}`, name: `${id}.md` },
+    } as unknown as KnowledgeChunk;
+    if (existing >= 0) rows.splice(existing, 1, row);
+    else rows.push(row);
+  };
+  const builder = {
+    innerJoin: () => builder,
+    addSelect: () => builder,
+    select: () => builder,
+    getMany: jest.fn(async () => rows.map((row) => ({ ...row }))),
+    getRawOne: async () => ({
+      count: rows.length,
+      latest: rows.length ? new Date(Math.max(...rows.map((row) => row.updatedAt.getTime()))) : null,
+    }),
+  };
+  const repository = { createQueryBuilder: () => builder } as unknown as Repository<KnowledgeChunk>;
+  return { rows, write, builder, repository };
+}
+
+describe('RetrieverService', () => {
+  let now: number;
+  let table: ReturnType<typeof createTable>;
+  let retriever: RetrieverService;
+  const names = async (query: string) => (await retriever.retrieve(query, { topK: 5 })).results.map((r) => r.documentName);
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    table = createTable();
+    retriever = new RetrieverService(
+      table.repository,
+      { getModel: () => null } as unknown as EmbeddingService,
+      { get: () => 'bm25' } as unknown as ConfigService,
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('picks up chunks written by another instance after the sync interval', async () => {
+    table.write('restart', 'Restart the payments worker');
+    expect(await names('payments')).toEqual(['restart.md']);
+
+    table.write('capacity', 'Payments capacity is 200 captures per second');
+    expect(await names('capacity')).toEqual([]);
+
+    now += 5000;
+    expect(await names('capacity')).toEqual(['capacity.md']);
+  });
+
+  it('drops chunks another instance deleted', async () => {
+    table.write('restart', 'Restart the payments worker');
+    expect(await names('payments')).toEqual(['restart.md']);
+
+    table.rows.length = 0;
+    now += 5000;
+    expect(await names('payments')).toEqual([]);
+  });
+
+  it('reloads after a local update even when the table is back to the fingerprint it was loaded with', async () => {
+    expect(await names('payments')).toEqual([]);
+    table.write('restart', 'Restart the payments worker');
+    await retriever.indexChunks([table.rows[0]], 'restart.md');
+    expect(await names('payments')).toEqual(['restart.md']);
+
+    // Deleted by another instance: count and latest updatedAt match the empty table the index was loaded from
+    table.rows.length = 0;
+    now += 5000;
+    expect(await names('payments')).toEqual([]);
+  });
+
+  it('does not reload while the table is unchanged', async () => {
+    table.write('restart', 'Restart the payments worker');
+    await names('payments');
+    now += 5000;
+    await names('payments');
+    now += 5000;
+    await names('payments');
+
+    expect(table.builder.getMany).toHaveBeenCalledTimes(1);
+  });
+});
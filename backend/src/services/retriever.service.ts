@@ -0,0 +1,355 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { KnowledgeChunk } from '../entities/knowledge-chunk.entity';
+import { EmbeddingService } from './embedding.service';
+import { AI_CONSTANTS } from '../common/constants/app.constants';
+
+export type RetrievalMode = 'hybrid' | 'bm25' | 'vector';
+
+export interface RetrievalResult {
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  // Character range of the chunk within KnowledgeDocument.content
+  startOffset: number;
+  endOffset: number;
+  content: string;
+  sectionPath: string | null;
+  // RRF score when fused, otherwise the BM25 or cosine score
+  score: number;
+  bm25Score?: number;
+  vectorScore?: number;
+}
+
+export interface RetrievalResponse {
+  mode: RetrievalMode;
+  results: RetrievalResult[];
+}
+
+export interface RetrieveOptions {
+  topK?: number;
+  // Set false to rank with BM25 only even when embeddings are available
+  useVectors?: boolean;
+  // Only rank chunks of these documents (see KnowledgeService.resolveScope)
+  documentIds?: string[];
+}
+
+interface IndexedChunk {
+  id: string;
+  documentId: string;
+  documentName: string;
+  chunkIndex: number;
+  startOffset: number;
+  endOffset: number;
+  content: string;
+  sectionPath: string | null;
+  termFreqs: Map<string, number>;
+  length: number;
+  embedding: number[] | null;
+  embeddingModel: string | null;
+}
+
+// Standard BM25 parameters and the usual RRF constant
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const RRF_K = 60;
+// Each ranker contributes this many times topK candidates to the fusion
+const FUSION_CANDIDATE_FACTOR = 4;
+// How often a query checks knowledge_chunks for changes made by other instances
+const INDEX_SYNC_INTERVAL_MS = 5000;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'was', 'were', 'has', 'have', 'had',
+  'this', 'that', 'these', 'those', 'with', 'from', 'into', 'what', 'which', 'who', 'whom', 'why', 'how',
+  'when', 'where', 'does', 'did', 'its', 'our', 'your', 'their', 'there', 'then', 'than', 'them', 'they',
+  'about', 'would', 'could', 'should', 'will', 'been', 'being', 'also', 'out', 'use', 'used',
+]);
+
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+// Character ranges of the words in text that are query terms (as tokenize sees them), for highlighting
+export function findTermRanges(text: string, query: string): { start: number; end: number }[] {
+  const terms = new Set(tokenize(query));
+  if (!terms.size) return [];
+  return Array.from((text || '').matchAll(/[\p{L}\p{N}]+/gu))
+    .filter((match) => terms.has(match[0].toLowerCase()))
+    .map((match) => ({ start: match.index, end: match.index + match[0].length }));
+}
+
+// Single retrieval implementation for RAG prompts, extractive fallback and search APIs.
+// Keeps a BM25 inverted index in memory, loaded from knowledge_chunks on first use and updated by KnowledgeService on every upload/delete.
+// Instances sharing the database also change the chunks, so queries reload the index when the table no longer matches it.
+@Injectable()
+export class RetrieverService {
+  private readonly logger = new Logger(RetrieverService.name);
+  private readonly chunks = new Map<string, IndexedChunk>();
+  private readonly postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+  private loading: Promise<void> | null = null;
+  // Fingerprint of knowledge_chunks when the index was loaded, and when it was last compared
+  private signature: string | null = null;
+  private checkedAt = 0;
+  // Set by local updates: the index no longer matches the fingerprint it was loaded with
+  private changedLocally = false;
+
+  constructor(
+    @InjectRepository(KnowledgeChunk)
+    private readonly chunkRepository: Repository<KnowledgeChunk>,
+    private readonly embeddingService: EmbeddingService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private ensureIndex(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadIndex().catch((error) => {
+        // Allow the next query to retry
+        this.loading = null;
+        throw error;
+      });
+    } else if (this.signature !== null && Date.now() - this.checkedAt >= INDEX_SYNC_INTERVAL_MS) {
+      this.checkedAt = Date.now();
+      this.loading = this.loading.then(() => this.syncIndex());
+    }
+    return this.loading;
+  }
+
+  private async loadIndex(): Promise<void> {
+    // Read first, so a change made while the rows load is picked up by the next sync
+    const signature = await this.readSignature();
+    const rows = await this.chunkRepository
+      .createQueryBuilder('chunk')
+      .innerJoin('chunk.document', 'document')
+      .addSelect(['document.id', 'document.name'])
+      .getMany();
+
+    this.changedLocally = false;
+    this.chunks.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+    for (const chunk of rows) {
+      this.upsert(chunk, chunk.document?.name);
+    }
+    this.signature = signature;
+    this.checkedAt = Date.now();
+    this.logger.log(`Indexed ${rows.length} knowledge chunks for retrieval`);
+  }
+
+  // Reload when another instance added, replaced, removed or embedded chunks. The fingerprint cannot tell local
+  // changes from remote ones, so a local change costs one extra reload; a failed check keeps serving the current index.
+  private async syncIndex(): Promise<void> {
+    try {
+      if (this.changedLocally || (await this.readSignature()) !== this.signature) {
+        await this.loadIndex();
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to refresh the retrieval index: ${(error as Error).message}`);
+    }
+  }
+
+  // Deletes change the count; inserts and updates (renumbering, embeddings) the latest updatedAt
+  private async readSignature(): Promise<string> {
+    const row = await this.chunkRepository
+      .createQueryBuilder('chunk')
+      .select('COUNT(*)', 'count')
+      .addSelect('MAX(chunk.updatedAt)', 'latest')
+      .getRawOne();
+    return JSON.stringify(row ?? null);
+  }
+
+  // Add or replace chunks in the index (after upload, or after their embeddings were computed)
+  async indexChunks(chunks: KnowledgeChunk[], documentName?: string): Promise<void> {
+    // Before the first load the database is read in full anyway
+    if (!this.loading) return;
+    await this.loading;
+    for (const chunk of chunks) {
+      this.upsert(chunk, documentName);
+    }
+    this.changedLocally = true;
+  }
+
+  async removeDocuments(documentIds: string[]): Promise<void> {
+    if (!this.loading) return;
+    await this.loading;
+    const ids = new Set(documentIds);
+    for (const chunk of Array.from(this.chunks.values())) {
+      if (ids.has(chunk.documentId)) this.remove(chunk.id);
+    }
+    this.changedLocally = true;
+  }
+
+  // Drop individual chunks, e.g. those a new document version no longer contains
+  async removeChunks(chunkIds: string[]): Promise<void> {
+    if (!this.loading) return;
+    await this.loading;
+    for (const chunkId of chunkIds) {
+      this.remove(chunkId);
+    }
+    this.changedLocally = true;
+  }
+
+  private upsert(chunk: KnowledgeChunk, documentName?: string): void {
+    const existing = this.chunks.get(chunk.id);
+    if (existing) this.remove(chunk.id);
+
+    // Headings/CSV header are searchable even though they are not part of the chunk text
+    const sectionPath = chunk.sectionPath ?? existing?.sectionPath ?? null;
+    const terms = tokenize(`${sectionPath || ''} ${chunk.content}`);
+    const termFreqs = new Map<string, number>();
+    for (const term of terms) {
+      termFreqs.set(term, (termFreqs.get(term) || 0) + 1);
+    }
+
+    this.chunks.set(chunk.id, {
+      id: chunk.id,
+      documentId: chunk.documentId,
+      documentName: documentName ?? existing?.documentName,
+      chunkIndex: chunk.chunkIndex,
+      startOffset: chunk.startOffset,
+      endOffset: chunk.endOffset,
+      content: chunk.content,
+      sectionPath,
+      termFreqs,
+      length: terms.length,
+      // Partial updates (e.g., embedding backfill) keep what the index already knows
+      embedding: chunk.embedding ?? existing?.embedding ?? null,
+      embeddingModel: chunk.embeddingModel ?? existing?.embeddingModel ?? null,
+    });
+    this.totalLength += terms.length;
+    for (const term of termFreqs.keys()) {
+      if (!this.postings.has(term)) this.postings.set(term, new Set());
+      this.postings.get(term).add(chunk.id);
+    }
+  }
+
+  private remove(chunkId: string): void {
+    const chunk = this.chunks.get(chunkId);
+    if (!chunk) return;
+    for (const term of chunk.termFreqs.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(chunkId);
+      if (posting && !posting.size) this.postings.delete(term);
+    }
+    this.totalLength -= chunk.length;
+    this.chunks.delete(chunkId);
+  }
+
+  async retrieve(query: string, options: RetrieveOptions = {}): Promise<RetrievalResponse> {
+    await this.ensureIndex();
+    const topK = Math.max(1, options.topK || AI_CONSTANTS.RAG_DEFAULT_TOP_K);
+    if (!this.chunks.size) {
+      return { mode: 'bm25', results: [] };
+    }
+
+    const candidateCount = topK * FUSION_CANDIDATE_FACTOR;
+    const scope = options.documentIds ? new Set(options.documentIds) : null;
+    const inScope = (chunk: IndexedChunk) => !scope || scope.has(chunk.documentId);
+    const bm25 = this.scoreBm25(query, inScope).slice(0, candidateCount);
+    const useVectors = options.useVectors !== false && this.isHybridEnabled();
+    const vector = useVectors ? await this.scoreVectors(query, candidateCount, inScope) : null;
+
+    if (!vector?.length) {
+      return { mode: 'bm25', results: bm25.slice(0, topK).map(({ chunk, score }) => this.toResult(chunk, score, { bm25Score: score })) };
+    }
+    if (!bm25.length) {
+      return { mode: 'vector', results: vector.slice(0, topK).map(({ chunk, score }) => this.toResult(chunk, score, { vectorScore: score })) };
+    }
+
+    // Reciprocal rank fusion: robust to the very different scales of BM25 and cosine scores
+    const fused = new Map<string, { chunk: IndexedChunk; score: number; bm25Score?: number; vectorScore?: number }>();
+    bm25.forEach(({ chunk, score }, rank) => {
+      fused.set(chunk.id, { chunk, score: 1 / (RRF_K + rank + 1), bm25Score: score });
+    });
+    vector.forEach(({ chunk, score }, rank) => {
+      const entry = fused.get(chunk.id) || { chunk, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      entry.vectorScore = score;
+      fused.set(chunk.id, entry);
+    });
+
+    const results = Array.from(fused.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(({ chunk, score, bm25Score, vectorScore }) => this.toResult(chunk, score, { bm25Score, vectorScore }));
+    return { mode: 'hybrid', results };
+  }
+
+  // RAG_RETRIEVAL=bm25 turns off vector fusion globally
+  private isHybridEnabled(): boolean {
+    return (this.configService.get<string>('RAG_RETRIEVAL') || 'hybrid').toLowerCase() !== 'bm25';
+  }
+
+  // Collection statistics (idf, average length) stay global so scores do not shift with the scope
+  private scoreBm25(query: string, inScope: (chunk: IndexedChunk) => boolean): { chunk: IndexedChunk; score: number }[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const total = this.chunks.size;
+    const avgLength = this.totalLength / total || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + (total - posting.size + 0.5) / (posting.size + 0.5));
+      for (const chunkId of posting) {
+        const chunk = this.chunks.get(chunkId);
+        if (!inScope(chunk)) continue;
+        const tf = chunk.termFreqs.get(term);
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (chunk.length / avgLength));
+        scores.set(chunkId, (scores.get(chunkId) || 0) + idf * ((tf * (BM25_K1 + 1)) / norm));
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([chunkId, score]) => ({ chunk: this.chunks.get(chunkId), score }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Null when no embedding provider is reachable or no chunk has a vector for the current model
+  private async scoreVectors(
+    query: string,
+    limit: number,
+    inScope: (chunk: IndexedChunk) => boolean,
+  ): Promise<{ chunk: IndexedChunk; score: number }[] | null> {
+    const model = this.embeddingService.getModel();
+    if (!model || !this.embeddingService.isAvailable()) return null;
+
+    const candidates = Array.from(this.chunks.values()).filter((chunk) => chunk.embedding && chunk.embeddingModel === model.key && inScope(chunk));
+    if (!candidates.length) return null;
+
+    const result = await this.embeddingService.embed([query]);
+    if (!result) return null;
+    const [queryVector] = result.vectors;
+
+    return candidates
+      .map((chunk) => ({ chunk, score: this.embeddingService.cosineSimilarity(queryVector, chunk.embedding) }))
+      .filter(({ score }) => score >= AI_CONSTANTS.RAG_MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private toResult(
+    chunk: IndexedChunk,
+    score: number,
+    components: { bm25Score?: number; vectorScore?: number },
+  ): RetrievalResult {
+    return {
+      chunkId: chunk.id,
+      documentId: chunk.documentId,
+      documentName: chunk.documentName,
+      chunkIndex: chunk.chunkIndex,
+      startOffset: chunk.startOffset,
+      endOffset: chunk.endOffset,
+      content: chunk.content,
+      sectionPath: chunk.sectionPath,
+      score,
+      ...components,
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { JsonSchema } from './structured-output';
+
+export type Severity = 'low' | 'medium' | 'high';
+
+export interface DetectedAnomaly {
+  // Short category such as latency_spike, error_rate, throughput_drop or saturation
+  type: string;
+  description: string;
+  severity: Severity;
+  endpoint?: string;
+  metric?: string;
+  // When the anomaly was observed, as given in the data
+  timestamp?: string;
+  likelyCause?: string;
+  recommendedAction?: string;
+}
+
+export interface AnomalyReport {
+  summary: string;
+  anomalies: DetectedAnomaly[];
+}
+
+export type ChecklistPhase = 'assessment' | 'data_collection' | 'analysis' | 'testing' | 'resolution' | 'prevention';
+
+export interface ChecklistStep {
+  phase: ChecklistPhase;
+  action: string;
+  details?: string;
+}
+
+export interface Checklist {
+  title: string;
+  steps: ChecklistStep[];
+}
+
+export const SEVERITIES: Severity[] = ['low', 'medium', 'high'];
+
+export const CHECKLIST_PHASES: ChecklistPhase[] = ['assessment', 'data_collection', 'analysis', 'testing', 'resolution', 'prevention'];
+
+/** Anomalies found in performance data; an empty list means nothing unusual. */
+export const ANOMALY_REPORT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['summary', 'anomalies'],
+  additionalProperties: false,
+  properties: {
+    summary: { type: 'string', description: 'One or two sentences on the overall state' },
+    anomalies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type', 'description', 'severity'],
+        additionalProperties: false,
+        properties: {
+          type: { type: 'string', description: 'Category, e.g. latency_spike, error_rate, throughput_drop, saturation' },
+          description: { type: 'string' },
+          severity: { type: 'string', enum: SEVERITIES },
+          endpoint: { type: 'string' },
+          metric: { type: 'string' },
+          timestamp: { type: 'string' },
+          likelyCause: { type: 'string' },
+          recommendedAction: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+/** Debugging checklist, steps in the order they should be carried out. */
+export const CHECKLIST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['title', 'steps'],
+  additionalProperties: false,
+  properties: {
+    title: { type: 'string' },
+    steps: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['phase', 'action'],
+        additionalProperties: false,
+        properties: {
+          phase: { type: 'string', enum: CHECKLIST_PHASES },
+          action: { type: 'string', description: 'One concrete, actionable step' },
+          details: { type: 'string' },
+        },
+      },
+    },
+  },
+};
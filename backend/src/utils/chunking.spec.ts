@@ -0,0 +1,63 @@
+import { csvStrategy, markdownStrategy } from './chunking';
+import { buildMarkdownDocument } from './markdown';
+
+const options = { chunkSize: 400, chunkOverlap: 0 };
+
+const restart = 'Drain the payments worker, wait for in-flight captures to settle, then restart it. '.repeat(4).trim();
+const capacity = 'The gateway accepts 200 captures per second per merchant before throttling.';
+const runbook = `# Payments Runbook\n\n## Restart procedure\n\n${restart}\n\n## Capacity limits\n\n${capacity}\n`;
+
+describe('markdownStrategy', () => {
+  it('carries headings in sectionPath instead of emitting heading-only chunks', () => {
+    const chunks = markdownStrategy.chunk(runbook, options);
+
+    expect(chunks.map((chunk) => chunk.sectionPath)).toEqual([
+      'Payments Runbook > Restart procedure',
+      'Payments Runbook > Capacity limits',
+    ]);
+    expect(chunks[0].content).toBe(restart);
+    expect(chunks[1].content).toBe(capacity);
+    expect(chunks.some((chunk) => /^#/.test(chunk.content))).toBe(false);
+  });
+
+  it('keeps every chunk an exact slice of the input', () => {
+    for (const chunk of markdownStrategy.chunk(runbook, { chunkSize: 120, chunkOverlap: 30 })) {
+      expect(runbook.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+    }
+  });
+
+  it('skips the front matter of converted documents', () => {
+    const converted = buildMarkdownDocument('Payments Runbook', { format: 'docx' }, `## Capacity limits\n\n${capacity}`);
+    const chunks = markdownStrategy.chunk(converted, options);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ content: capacity, sectionPath: 'Payments Runbook > Capacity limits' });
+    expect(converted.slice(chunks[0].startOffset, chunks[0].endOffset)).toBe(capacity);
+  });
+
+  it('keeps text before the first heading without a section path', () => {
+    const [intro, section] = markdownStrategy.chunk(`Read this first.\n\n# Setup\n\nInstall it.`, options);
+
+    expect(intro).toEqual({ content: 'Read this first.', startOffset: 0, endOffset: 16 });
+    expect(section).toMatchObject({ content: 'Install it.', sectionPath: 'Setup' });
+  });
+
+  it('splits oversized tables between rows', () => {
+    const rows = Array.from({ length: 12 }, (_, i) => `| endpoint-${i} | ${i * 10} ms |`);
+    const table = ['| Endpoint | p95 |', '| --- | --- |', ...rows].join('\n');
+    const chunks = markdownStrategy.chunk(`# Latency\n\n${table}`, { chunkSize: 100, chunkOverlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.split('\n').every((line) => /^\|.*\|$/.test(line))).toBe(true);
+    }
+  });
+});
+
+describe('csvStrategy', () => {
+  it('carries the header row as sectionPath', () => {
+    const [chunk] = csvStrategy.chunk('endpoint,p95\n/chat,240\n/health,12', options);
+
+    expect(chunk).toMatchObject({ content: '/chat,240\n/health,12', sectionPath: 'Columns: endpoint,p95' });
+  });
+});
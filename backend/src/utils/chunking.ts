@@ -0,0 +1,200 @@
+/**
+ * Chunking strategies for knowledge documents.
+ * Every chunk is an exact slice of the input (startOffset/endOffset index into it), so citations can point back
+ * into KnowledgeDocument.content. Context that is not part of the slice (heading trail, CSV header) goes in sectionPath.
+ */
+
+export interface TextChunk {
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  // e.g. "Results > Latency" for Markdown, or the header row for CSV
+  sectionPath?: string;
+}
+
+export interface ChunkingOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+export interface ChunkingStrategy {
+  name: string;
+  chunk(text: string, options: ChunkingOptions): TextChunk[];
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+// Narrow a range to exclude surrounding whitespace; null when nothing is left
+function trimRange(text: string, start: number, end: number): Range | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : null;
+}
+
+// Fixed windows, used for anything a smarter splitter could not fit into chunkSize
+function windowRanges(text: string, range: Range, options: ChunkingOptions): Range[] {
+  const ranges: Range[] = [];
+  const step = Math.max(1, options.chunkSize - options.chunkOverlap);
+  for (let i = range.start; i < range.end; i += step) {
+    const end = Math.min(range.end, i + options.chunkSize);
+    const trimmed = trimRange(text, i, end);
+    if (trimmed) ranges.push(trimmed);
+    if (end === range.end) break;
+  }
+  return ranges;
+}
+
+// Sentence boundaries: terminal punctuation followed by whitespace, or a line break
+export function sentenceRanges(text: string, range: Range = { start: 0, end: text.length }): Range[] {
+  const ranges: Range[] = [];
+  const boundary = /[.!?]+["')\]]*\s+|\n+/g;
+  const slice = text.slice(range.start, range.end);
+  let from = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(slice))) {
+    const trimmed = trimRange(text, range.start + from, range.start + match.index + match[0].length);
+    if (trimmed) ranges.push(trimmed);
+    from = match.index + match[0].length;
+  }
+  const rest = trimRange(text, range.start + from, range.end);
+  if (rest) ranges.push(rest);
+  return ranges;
+}
+
+// Greedily pack consecutive units into chunks of at most chunkSize characters. Overlap is made of whole
+// trailing units of the previous chunk; units longer than chunkSize fall back to fixed windows.
+function packRanges(text: string, units: Range[], options: ChunkingOptions, overlap = true): Range[] {
+  const chunks: Range[] = [];
+  let current: Range[] = [];
+
+  const flush = () => {
+    if (!current.length) return;
+    chunks.push({ start: current[0].start, end: current[current.length - 1].end });
+    if (!overlap || options.chunkOverlap <= 0) {
+      current = [];
+      return;
+    }
+    const end = current[current.length - 1].end;
+    const carried: Range[] = [];
+    for (let i = current.length - 1; i > 0 && end - current[i].start <= options.chunkOverlap; i--) {
+      carried.unshift(current[i]);
+    }
+    current = carried;
+  };
+
+  for (const unit of units) {
+    if (unit.end - unit.start > options.chunkSize) {
+      flush();
+      current = [];
+      chunks.push(...windowRanges(text, unit, options));
+      continue;
+    }
+    if (current.length && unit.end - current[0].start > options.chunkSize) {
+      flush();
+      // Carried overlap that does not leave room for the unit is dropped
+      if (current.length && unit.end - current[0].start > options.chunkSize) current = [];
+    }
+    current.push(unit);
+  }
+  if (current.length) {
+    chunks.push({ start: current[0].start, end: current[current.length - 1].end });
+  }
+  return chunks;
+}
+
+function toChunks(text: string, ranges: Range[], sectionPath?: string): TextChunk[] {
+  return ranges.map(({ start, end }) => ({
+    content: text.slice(start, end),
+    startOffset: start,
+    endOffset: end,
+    ...(sectionPath ? { sectionPath } : {}),
+  }));
+}
+
+export const fixedSizeStrategy: ChunkingStrategy = {
+  name: 'fixed',
+  chunk: (text, options) => toChunks(text, windowRanges(text, { start: 0, end: text.length }, options)),
+};
+
+export const sentenceStrategy: ChunkingStrategy = {
+  name: 'sentence',
+  chunk: (text, options) => toChunks(text, packRanges(text, sentenceRanges(text), options)),
+};
+
+// Front matter written by buildMarkdownDocument (source, format, generated timestamp): metadata, not content
+const FRONT_MATTER = /^---[ \t]*\n[\s\S]*?\n---[ \t]*(?:\n|$)/;
+
+// Split at headings, carry the heading trail as sectionPath, and pack paragraphs (tables row by row) within each section
+export const markdownStrategy: ChunkingStrategy = {
+  name: 'markdown',
+  chunk: (text, options) => {
+    const sections: { range: Range; path: string }[] = [];
+    const trail: { level: number; title: string }[] = [];
+    const heading = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/gm;
+    let sectionStart = FRONT_MATTER.exec(text)?.[0].length ?? 0;
+    heading.lastIndex = sectionStart;
+    let sectionPath = '';
+    let match: RegExpExecArray | null;
+    while ((match = heading.exec(text))) {
+      sections.push({ range: { start: sectionStart, end: match.index }, path: sectionPath });
+      const level = match[1].length;
+      while (trail.length && trail[trail.length - 1].level >= level) trail.pop();
+      trail.push({ level, title: match[2].trim() });
+      sectionPath = trail.map((h) => h.title).join(' > ');
+      // The heading is carried by sectionPath only: kept in the body it would become a heading-only chunk whenever
+      // the next paragraph does not fit with it, and count its words twice in lexical search
+      sectionStart = match.index + match[0].length;
+    }
+    sections.push({ range: { start: sectionStart, end: text.length }, path: sectionPath });
+
+    const chunks: TextChunk[] = [];
+    for (const section of sections) {
+      const units: Range[] = [];
+      const blocks = /[^\n]+(?:\n(?![ \t]*\n)[^\n]*)*/g;
+      const body = text.slice(section.range.start, section.range.end);
+      let block: RegExpExecArray | null;
+      while ((block = blocks.exec(body))) {
+        const range = trimRange(text, section.range.start + block.index, section.range.start + block.index + block[0].length);
+        if (!range) continue;
+        if (range.end - range.start <= options.chunkSize) {
+          units.push(range);
+        } else if (/^\s*\|/.test(block[0])) {
+          // Oversized table: split between rows, never inside one
+          units.push(...splitLines(text, range));
+        } else {
+          units.push(...sentenceRanges(text, range));
+        }
+      }
+      chunks.push(...toChunks(text, packRanges(text, units, options), section.path));
+    }
+    return chunks;
+  },
+};
+
+function splitLines(text: string, range: Range): Range[] {
+  const ranges: Range[] = [];
+  let from = range.start;
+  for (let i = range.start; i <= range.end; i++) {
+    if (i === range.end || text[i] === '\n') {
+      const trimmed = trimRange(text, from, i);
+      if (trimmed) ranges.push(trimmed);
+      from = i + 1;
+    }
+  }
+  return ranges;
+}
+
+// Groups of whole rows; the header row is carried as sectionPath instead of being repeated in every chunk
+export const csvStrategy: ChunkingStrategy = {
+  name: 'csv',
+  chunk: (text, options) => {
+    const lines = splitLines(text, { start: 0, end: text.length });
+    if (lines.length < 2) return sentenceStrategy.chunk(text, options);
+    const [header, ...rows] = lines;
+    const columns = text.slice(header.start, header.end);
+    return toChunks(text, packRanges(text, rows, options, false), `Columns: ${columns}`);
+  },
+};
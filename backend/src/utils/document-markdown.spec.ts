@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { convertDocumentToMarkdown, detectDocumentFormat } from './document-markdown';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__', name));
+
+async function convert(name: string): Promise<string> {
+  const format = detectDocumentFormat(name);
+  if (!format) throw new Error(`No format for ${name}`);
+  return convertDocumentToMarkdown(format, fixture(name), name);
+}
+
+// Front matter lines between the opening and closing ---
+function frontMatter(markdown: string): Record<string, string> {
+  const match = /^---\n([\s\S]*?)\n---\n/.exec(markdown);
+  if (!match) throw new Error('Missing front matter');
+  return Object.fromEntries(match[1].split('\n').map((line) => line.split(/:\s(.*)/s).slice(0, 2)));
+}
+
+describe('detectDocumentFormat', () => {
+  it('prefers the extension over a generic MIME type', () => {
+    expect(detectDocumentFormat('notes.docx', 'application/octet-stream')).toBe('docx');
+  });
+
+  it('falls back to the MIME type', () => {
+    expect(detectDocumentFormat('upload', 'text/html; charset=utf-8')).toBe('html');
+    expect(detectDocumentFormat('upload', 'text/plain')).toBeNull();
+  });
+});
+
+describe('convertDocumentToMarkdown', () => {
+  describe('docx', () => {
+    it('writes front matter and uses the first heading as the title', async () => {
+      const markdown = await convert('sample.docx');
+      expect(frontMatter(markdown)).toMatchObject({ source: 'Release Notes', format: 'docx' });
+      expect(markdown).toContain('---\n\n# Release Notes\n\nOverview of the release.');
+    });
+
+    it('does not repeat the title heading in the body', async () => {
+      const markdown = await convert('sample.docx');
+      expect(markdown.match(/^# Release Notes$/gm)).toHaveLength(1);
+    });
+
+    it('converts headings, bullet and numbered lists, and tables', async () => {
+      const markdown = await convert('sample.docx');
+      expect(markdown).toContain('## Fixes');
+      expect(markdown).toContain('- First bullet\n- Second bullet\n\n1. Step one\n2. Step two');
+      expect(markdown).toContain('| Metric | Value |\n| --- | --- |\n| Latency | 120 ms |');
+    });
+  });
+
+  describe('html', () => {
+    it('uses the <title> and does not repeat a matching <h1>', async () => {
+      const markdown = await convert('sample.html');
+      expect(frontMatter(markdown)).toMatchObject({ source: 'Runbook', format: 'html' });
+      expect(markdown.match(/^# Runbook$/gm)).toHaveLength(1);
+    });
+
+    it('converts headings, lists and tables', async () => {
+      const markdown = await convert('sample.html');
+      expect(markdown).toContain('## Checks');
+      expect(markdown).toContain('- CPU below 80%\n- Memory below 70%');
+      expect(markdown).toContain('1. Restart the worker\n2. Verify the queue');
+      expect(markdown).toContain('| Service | Owner |\n| --- | --- |\n| api | platform |');
+    });
+  });
+
+  describe('xlsx', () => {
+    it('renders each sheet as a titled table with shared strings resolved', async () => {
+      const markdown = await convert('sample.xlsx');
+      expect(frontMatter(markdown)).toMatchObject({ source: 'Latency Report', format: 'xlsx', sheets: '1' });
+      expect(markdown).toContain('# Latency Report');
+      expect(markdown).toContain('## Latency\n\n| Endpoint | p95 ms |\n| --- | --- |\n| /chat | 240 |');
+    });
+  });
+
+  describe('epub', () => {
+    it('follows the spine and takes the title from the package metadata', async () => {
+      const markdown = await convert('sample.epub');
+      expect(frontMatter(markdown)).toMatchObject({ source: 'Operations Guide', format: 'epub', chapters: '2' });
+      expect(markdown.indexOf('# Chapter One')).toBeLessThan(markdown.indexOf('# Chapter Two'));
+      expect(markdown).toContain('- Alerts\n- Dashboards');
+      expect(markdown).toContain('| Level | Action |\n| --- | --- |\n| warn | page |');
+    });
+  });
+});
@@ -0,0 +1,449 @@
+import * as path from 'path';
+import { buildMarkdownDocument, markdownTable } from './markdown';
+import { htmlToMarkdown, MarkupToken, tokenizeMarkup } from './markup';
+import { pdfBufferToMarkdown } from './pdf-markdown';
+import { openZip, ZipArchive } from './zip';
+
+/**
+ * Converters from binary/markup document formats to the Markdown form produced by pdfBufferToMarkdown,
+ * so every format goes through the same cleaning and chunking pipeline.
+ */
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'xlsx' | 'epub';
+
+const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.html': 'html',
+  '.htm': 'html',
+  '.xhtml': 'html',
+  '.xlsx': 'xlsx',
+  '.epub': 'epub',
+};
+
+const FORMAT_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/epub+zip': 'epub',
+};
+
+export const CONVERTIBLE_EXTENSIONS = Object.keys(FORMAT_BY_EXTENSION);
+
+export const DOCUMENT_MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  html: 'text/html',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  epub: 'application/epub+zip',
+};
+
+// Extension first (browsers often send application/octet-stream), then the declared MIME type
+export function detectDocumentFormat(fileName: string, mimeType?: string | null): DocumentFormat | null {
+  const byExtension = FORMAT_BY_EXTENSION[path.extname(fileName || '').toLowerCase()];
+  if (byExtension) return byExtension;
+  const normalizedMime = (mimeType || '').split(';')[0].trim().toLowerCase();
+  return FORMAT_BY_MIME_TYPE[normalizedMime] ?? null;
+}
+
+export async function convertDocumentToMarkdown(
+  format: DocumentFormat,
+  buffer: Buffer,
+  fileName: string,
+): Promise<string> {
+  const fallbackTitle = path.basename(fileName || 'document', path.extname(fileName || ''));
+  switch (format) {
+    case 'pdf':
+      return pdfBufferToMarkdown(buffer, fallbackTitle);
+    case 'docx':
+      return docxBufferToMarkdown(buffer, fallbackTitle);
+    case 'html':
+      return htmlBufferToMarkdown(buffer, fallbackTitle);
+    case 'xlsx':
+      return xlsxBufferToMarkdown(buffer, fallbackTitle);
+    case 'epub':
+      return epubBufferToMarkdown(buffer, fallbackTitle);
+  }
+}
+
+export function htmlBufferToMarkdown(buffer: Buffer, fallbackTitle = 'Document'): string {
+  const { title, markdown } = htmlToMarkdown(buffer.toString('utf-8'));
+  const firstHeading = /^#\s+(.+)$/m.exec(markdown);
+  const documentTitle = title || firstHeading?.[1] || fallbackTitle;
+  // buildMarkdownDocument already renders the title as the # heading
+  const body =
+    firstHeading?.[1] === documentTitle
+      ? (markdown.slice(0, firstHeading.index) + markdown.slice(firstHeading.index + firstHeading[0].length)).trim()
+      : markdown;
+  return buildMarkdownDocument(documentTitle, { format: 'html' }, body);
+}
+
+// --- DOCX (WordprocessingML) ---
+
+export function docxBufferToMarkdown(buffer: Buffer, fallbackTitle = 'Document'): string {
+  const zip = openZip(buffer);
+  const documentXml = zip.readText('word/document.xml');
+  if (!documentXml) {
+    throw new Error('word/document.xml not found');
+  }
+
+  const headingStyles = readDocxHeadingStyles(zip);
+  const listFormats = readDocxListFormats(zip);
+  const counters = new Map<string, number>();
+  // list holds the numId so consecutive items of one list stay together and separate lists don't merge
+  const blocks: { list: string | null; text: string }[] = [];
+  const tables: { rows: string[][]; cell: string | null }[] = [];
+  let paragraph: { text: string; style: string | null; level: number | null; numId: string | null; ilvl: number } | null = null;
+  let titleText: string | null = null;
+  let inText = false;
+  let fallbackDepth = 0;
+
+  for (const token of tokenizeMarkup(documentXml)) {
+    const name = token.name;
+    const table = tables[tables.length - 1];
+
+    // Alternate content repeats the same text for older readers
+    if (name === 'mc:fallback' && !token.selfClosing) {
+      fallbackDepth += token.type === 'open' ? 1 : -1;
+      continue;
+    }
+    if (fallbackDepth) continue;
+
+    if (token.type === 'text') {
+      if (inText && paragraph) paragraph.text += token.text;
+      continue;
+    }
+    const opening = token.type === 'open';
+    const val = token.attrs?.['w:val'];
+
+    if (name === 'w:t') {
+      inText = opening && !token.selfClosing;
+    } else if (name === 'w:p') {
+      if (opening) {
+        paragraph = { text: '', style: null, level: null, numId: null, ilvl: 0 };
+        if (!token.selfClosing) continue;
+      }
+      const text = (paragraph?.text || '').replace(/[ \t]+/g, ' ').trim();
+      const current = paragraph;
+      paragraph = null;
+      if (!text || !current) continue;
+      if (table?.cell != null) {
+        table.cell += `${text} `;
+        continue;
+      }
+      const level = current.level ?? (current.style ? headingStyles.get(current.style) : undefined);
+      if (level === 0) {
+        // The Title paragraph becomes the document's own # heading
+        titleText = titleText ?? text.replace(/\s+/g, ' ');
+      } else if (level) {
+        blocks.push({ list: null, text: `${'#'.repeat(level)} ${text.replace(/\n+/g, ' ')}` });
+      } else if (current.numId && current.numId !== '0') {
+        const key = `${current.numId}:${current.ilvl}`;
+        const ordered = listFormats.get(key) !== undefined && listFormats.get(key) !== 'bullet';
+        const count = (counters.get(key) || 0) + 1;
+        counters.set(key, count);
+        // Restart deeper levels when a shallower item appears
+        for (const other of counters.keys()) {
+          const [numId, ilvl] = other.split(':');
+          if (numId === current.numId && Number(ilvl) > current.ilvl) counters.delete(other);
+        }
+        const marker = ordered ? `${count}.` : '-';
+        blocks.push({ list: current.numId, text: `${'  '.repeat(current.ilvl)}${marker} ${text.replace(/\n+/g, ' ')}` });
+      } else {
+        blocks.push({ list: null, text });
+      }
+    } else if (!paragraph && name !== 'w:tbl' && name !== 'w:tr' && name !== 'w:tc') {
+      continue;
+    } else if (name === 'w:pstyle' && opening && paragraph) {
+      paragraph.style = val ?? null;
+    } else if (name === 'w:outlinelvl' && opening && paragraph && val !== undefined) {
+      const outline = Number(val);
+      paragraph.level = outline >= 0 && outline < 6 ? outline + 1 : null;
+    } else if (name === 'w:numid' && opening && paragraph) {
+      paragraph.numId = val ?? null;
+    } else if (name === 'w:ilvl' && opening && paragraph) {
+      paragraph.ilvl = Number(val) || 0;
+    } else if ((name === 'w:tab' || name === 'w:br' || name === 'w:cr') && opening && paragraph && !inText) {
+      paragraph.text += name === 'w:tab' ? ' ' : '\n';
+    } else if (name === 'w:tbl') {
+      if (opening) {
+        tables.push({ rows: [], cell: null });
+      } else if (table) {
+        tables.pop();
+        const rows = table.rows.filter((row) => row.some((cell) => cell));
+        const parent = tables[tables.length - 1];
+        if (parent?.cell != null) {
+          parent.cell += `${rows.map((row) => row.join(' ')).join('; ')} `;
+        } else if (rows.length) {
+          blocks.push({ list: null, text: markdownTable(rows) });
+        }
+      }
+    } else if (name === 'w:tr' && opening && table) {
+      table.rows.push([]);
+    } else if (name === 'w:tc' && table) {
+      if (opening) {
+        if (!table.rows.length) table.rows.push([]);
+        table.cell = '';
+      } else if (table.cell != null) {
+        table.rows[table.rows.length - 1].push(table.cell.replace(/\s+/g, ' ').trim());
+        table.cell = null;
+      }
+    }
+  }
+
+  const headingIndex = blocks.findIndex((block) => /^#\s/.test(block.text));
+  const firstHeading = headingIndex >= 0 ? blocks[headingIndex].text.slice(2) : null;
+  const title = readCoreTitle(zip) || titleText || firstHeading || fallbackTitle;
+  // buildMarkdownDocument already renders the title as the # heading
+  if (firstHeading !== null && firstHeading === title) blocks.splice(headingIndex, 1);
+  const body = blocks
+    .map((block, i) => (i === 0 ? '' : block.list && block.list === blocks[i - 1].list ? '\n' : '\n\n') + block.text)
+    .join('');
+  return buildMarkdownDocument(title, { format: 'docx' }, body);
+}
+
+// styleId -> heading level (0 for Title), from word/styles.xml names ("heading 1", "Title") so localized style ids still match
+function readDocxHeadingStyles(zip: ZipArchive): Map<string, number> {
+  const levels = new Map<string, number>();
+  for (let level = 1; level <= 6; level++) levels.set(`Heading${level}`, level);
+  // 0 marks the Title style
+  levels.set('Title', 0);
+
+  const stylesXml = zip.readText('word/styles.xml');
+  if (!stylesXml) return levels;
+  let styleId: string | null = null;
+  for (const token of tokenizeMarkup(stylesXml)) {
+    if (token.type !== 'open') continue;
+    if (token.name === 'w:style') {
+      styleId = token.attrs?.['w:styleid'] ?? null;
+    } else if (token.name === 'w:name' && styleId) {
+      const styleName = (token.attrs?.['w:val'] || '').toLowerCase();
+      const heading = /^heading\s*([1-6])$/.exec(styleName);
+      if (heading) levels.set(styleId, Number(heading[1]));
+      else if (styleName === 'title') levels.set(styleId, 0);
+    }
+  }
+  return levels;
+}
+
+// "numId:ilvl" -> numFmt ("bullet", "decimal", ...), from word/numbering.xml
+function readDocxListFormats(zip: ZipArchive): Map<string, string> {
+  const formats = new Map<string, string>();
+  const numberingXml = zip.readText('word/numbering.xml');
+  if (!numberingXml) return formats;
+
+  const abstractFormats = new Map<string, Map<number, string>>();
+  const numToAbstract = new Map<string, string>();
+  let abstractId: string | null = null;
+  let numId: string | null = null;
+  let level = 0;
+  for (const token of tokenizeMarkup(numberingXml)) {
+    if (token.type === 'close') {
+      if (token.name === 'w:abstractnum') abstractId = null;
+      if (token.name === 'w:num') numId = null;
+      continue;
+    }
+    if (token.type !== 'open') continue;
+    const attrs = token.attrs || {};
+    if (token.name === 'w:abstractnum') {
+      abstractId = attrs['w:abstractnumid'] ?? null;
+      if (abstractId) abstractFormats.set(abstractId, new Map());
+    } else if (token.name === 'w:lvl' && abstractId) {
+      level = Number(attrs['w:ilvl']) || 0;
+    } else if (token.name === 'w:numfmt' && abstractId) {
+      abstractFormats.get(abstractId)?.set(level, attrs['w:val'] || 'decimal');
+    } else if (token.name === 'w:num') {
+      numId = attrs['w:numid'] ?? null;
+    } else if (token.name === 'w:abstractnumid' && numId) {
+      numToAbstract.set(numId, attrs['w:val']);
+    }
+  }
+
+  for (const [num, abstract] of numToAbstract) {
+    for (const [ilvl, format] of abstractFormats.get(abstract) || []) {
+      formats.set(`${num}:${ilvl}`, format);
+    }
+  }
+  return formats;
+}
+
+function readCoreTitle(zip: ZipArchive): string | null {
+  const coreXml = zip.readText('docProps/core.xml');
+  return coreXml ? textOf(tokenizeMarkup(coreXml), 'dc:title') : null;
+}
+
+// --- XLSX (SpreadsheetML) ---
+
+export function xlsxBufferToMarkdown(buffer: Buffer, fallbackTitle = 'Workbook'): string {
+  const zip = openZip(buffer);
+  const workbookXml = zip.readText('xl/workbook.xml');
+  if (!workbookXml) {
+    throw new Error('xl/workbook.xml not found');
+  }
+
+  const targets = readRelationships(zip, 'xl/_rels/workbook.xml.rels', 'xl');
+  const sharedStrings = readSharedStrings(zip);
+  const sections: string[] = [];
+  let sheetCount = 0;
+
+  for (const token of tokenizeMarkup(workbookXml)) {
+    if (token.type !== 'open' || token.name !== 'sheet') continue;
+    sheetCount++;
+    const sheetName = token.attrs?.name || `Sheet ${sheetCount}`;
+    const target = targets.get(token.attrs?.['r:id'] || '');
+    const sheetXml = target ? zip.readText(target) : null;
+    const rows = sheetXml ? readSheetRows(sheetXml, sharedStrings) : [];
+    if (rows.length) {
+      sections.push(`## ${sheetName}\n\n${markdownTable(rows)}`);
+    }
+  }
+
+  const title = readCoreTitle(zip) || fallbackTitle;
+  return buildMarkdownDocument(title, { format: 'xlsx', sheets: sheetCount }, sections.join('\n\n'));
+}
+
+function readSharedStrings(zip: ZipArchive): string[] {
+  const xml = zip.readText('xl/sharedStrings.xml');
+  if (!xml) return [];
+  const strings: string[] = [];
+  let current: string | null = null;
+  let inText = false;
+  let phoneticDepth = 0;
+  for (const token of tokenizeMarkup(xml)) {
+    if (token.name === 'rph' && !token.selfClosing) {
+      // Phonetic guides (ruby text) would duplicate the reading
+      phoneticDepth += token.type === 'open' ? 1 : -1;
+    } else if (token.name === 'si') {
+      if (token.type === 'open') current = '';
+      else if (current != null) {
+        strings.push(current);
+        current = null;
+      }
+    } else if (token.name === 't') {
+      inText = token.type === 'open' && !token.selfClosing;
+    } else if (token.type === 'text' && inText && !phoneticDepth && current != null) {
+      current += token.text;
+    }
+  }
+  return strings;
+}
+
+function readSheetRows(sheetXml: string, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+  let row: string[] | null = null;
+  let cell: { column: number; type: string; value: string } | null = null;
+  let capture = false;
+
+  for (const token of tokenizeMarkup(sheetXml)) {
+    const name = token.name;
+    if (name === 'row') {
+      if (token.type === 'open') {
+        row = [];
+        if (token.selfClosing) row = null;
+      } else if (row) {
+        if (row.some((value) => value)) rows.push(Array.from(row, (value) => value ?? ''));
+        row = null;
+      }
+    } else if (name === 'c' && row) {
+      if (token.type === 'open') {
+        const ref = /^([A-Z]+)/i.exec(token.attrs?.r || '')?.[1];
+        cell = { column: ref ? columnIndex(ref) : row.length, type: token.attrs?.t || 'n', value: '' };
+        if (token.selfClosing) cell = null;
+      } else if (cell) {
+        row[cell.column] = formatCell(cell.type, cell.value, sharedStrings);
+        cell = null;
+      }
+    } else if (name === 'v' || name === 't') {
+      capture = token.type === 'open' && !token.selfClosing && cell != null;
+    } else if (token.type === 'text' && capture && cell) {
+      cell.value += token.text;
+    }
+  }
+
+  // Drop columns that are empty in every row
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  const used = Array.from({ length: width }, (_, i) => rows.some((r) => r[i]));
+  return rows.map((r) => Array.from({ length: width }, (_, i) => r[i] ?? '').filter((_, i) => used[i]));
+}
+
+function formatCell(type: string, value: string, sharedStrings: string[]): string {
+  if (type === 's') return sharedStrings[Number(value)] ?? '';
+  if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE';
+  return value;
+}
+
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters.toUpperCase()) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+// --- EPUB ---
+
+export function epubBufferToMarkdown(buffer: Buffer, fallbackTitle = 'Book'): string {
+  const zip = openZip(buffer);
+  const containerXml = zip.readText('META-INF/container.xml');
+  const rootfile = containerXml
+    ? tokenizeMarkup(containerXml).find((token) => token.type === 'open' && token.name === 'rootfile')
+    : undefined;
+  const opfPath = rootfile?.attrs?.['full-path'];
+  const opfXml = opfPath ? zip.readText(opfPath) : null;
+  if (!opfPath || !opfXml) {
+    throw new Error('EPUB package document not found');
+  }
+
+  const opfTokens = tokenizeMarkup(opfXml);
+  const opfDir = path.posix.dirname(opfPath);
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+  const spine: string[] = [];
+  for (const token of opfTokens) {
+    if (token.type !== 'open') continue;
+    if (token.name === 'item' && token.attrs?.id && token.attrs.href) {
+      manifest.set(token.attrs.id, { href: token.attrs.href, mediaType: token.attrs['media-type'] || '' });
+    } else if (token.name === 'itemref' && token.attrs?.idref && token.attrs.linear !== 'no') {
+      spine.push(token.attrs.idref);
+    }
+  }
+
+  const chapters: string[] = [];
+  for (const idref of spine) {
+    const item = manifest.get(idref);
+    if (!item || !/html/i.test(item.mediaType || item.href)) continue;
+    const href = decodeURIComponent(item.href.split('#')[0]);
+    const xhtml = zip.readText(opfDir === '.' ? href : path.posix.join(opfDir, href));
+    const { markdown } = xhtml ? htmlToMarkdown(xhtml) : { markdown: '' };
+    if (markdown) chapters.push(markdown);
+  }
+
+  const title = textOf(opfTokens, 'dc:title') || fallbackTitle;
+  return buildMarkdownDocument(title, { format: 'epub', chapters: chapters.length }, chapters.join('\n\n'));
+}
+
+// --- shared helpers ---
+
+// Relationship id -> archive path, resolved against the part's base directory
+function readRelationships(zip: ZipArchive, relsPath: string, baseDir: string): Map<string, string> {
+  const targets = new Map<string, string>();
+  const xml = zip.readText(relsPath);
+  if (!xml) return targets;
+  for (const token of tokenizeMarkup(xml)) {
+    if (token.type !== 'open' || token.name !== 'relationship') continue;
+    const { id, target } = token.attrs || {};
+    if (!id || !target) continue;
+    targets.set(id, target.startsWith('/') ? target.slice(1) : path.posix.join(baseDir, target));
+  }
+  return targets;
+}
+
+// Text content of the first element with the given name
+function textOf(tokens: MarkupToken[], name: string): string | null {
+  const start = tokens.findIndex((token) => token.type === 'open' && token.name === name && !token.selfClosing);
+  if (start < 0) return null;
+  let text = '';
+  for (const token of tokens.slice(start + 1)) {
+    if (token.type === 'close' && token.name === name) break;
+    if (token.type === 'text') text += token.text;
+  }
+  return text.replace(/\s+/g, ' ').trim() || null;
+}
@@ -0,0 +1,66 @@
+/** USD per million tokens, billed separately for the prompt and the completion. */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * List prices of hosted models, keyed by `provider:model`. A key also matches dated snapshots of the model
+ * (`openai:gpt-4o` covers `gpt-4o-2024-08-06`); the longest matching key wins, so `gpt-4o-mini` is not billed as
+ * `gpt-4o`. Providers that run on your own hardware (ollama, huggingface, openai-compatible) cost nothing unless
+ * LLM_PRICES or a configuration's additionalSettings.pricing says otherwise.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'openai:gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'openai:gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'openai:gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'openai:gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'openai:gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'openai:gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+  'openai:gpt-4': { inputPerMillion: 30, outputPerMillion: 60 },
+  'openai:gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  'openai:o3-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  'anthropic:claude-3-haiku': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  'anthropic:claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'anthropic:claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'anthropic:claude-3-7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'anthropic:claude-sonnet-4': { inputPerMillion: 3, outputPerMillion: 15 },
+  'anthropic:claude-3-opus': { inputPerMillion: 15, outputPerMillion: 75 },
+  'anthropic:claude-opus-4': { inputPerMillion: 15, outputPerMillion: 75 },
+};
+
+/** Providers served from your own hardware: free unless a price is configured. */
+export const SELF_HOSTED_PROVIDERS = ['ollama', 'huggingface', 'openai-compatible'];
+
+/** Reads `{ inputPerMillion, outputPerMillion }`, or null when either is missing or negative. */
+export function parseModelPrice(value: any): ModelPrice | null {
+  const inputPerMillion = Number(value?.inputPerMillion);
+  const outputPerMillion = Number(value?.outputPerMillion);
+  if (!Number.isFinite(inputPerMillion) || !Number.isFinite(outputPerMillion) || inputPerMillion < 0 || outputPerMillion < 0) {
+    return null;
+  }
+  return { inputPerMillion, outputPerMillion };
+}
+
+/**
+ * Price of `provider:model` from the table: the exact key, else the longest key the model name starts with
+ * followed by a `-`. Returns null for models the table does not know.
+ */
+export function findModelPrice(table: Record<string, ModelPrice>, provider: string, model: string): ModelPrice | null {
+  const key = `${provider}:${model}`.toLowerCase();
+  let best: string | null = null;
+  for (const candidate of Object.keys(table)) {
+    const normalized = candidate.toLowerCase();
+    if (normalized === key) return table[candidate];
+    if (key.startsWith(`${normalized}-`) && (!best || normalized.length > best.length)) {
+      best = candidate;
+    }
+  }
+  return best ? table[best] : null;
+}
+
+/** USD for the given token counts, rounded to a millionth of a dollar. */
+export function computeCost(price: ModelPrice, promptTokens: number, completionTokens: number): number {
+  const cost = (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,36 @@
+/**
+ * Builders for the Markdown form every converted document is stored in (see pdfBufferToMarkdown):
+ * YAML-style front matter, the title as a level-1 heading, then the body.
+ */
+export function buildMarkdownDocument(title: string, meta: Record<string, string | number>, body: string): string {
+  const header = [
+    '---',
+    `source: ${sanitizeInline(title)}`,
+    ...Object.entries(meta).map(([key, value]) => `${key}: ${sanitizeInline(String(value))}`),
+    `generated: ${new Date().toISOString()}`,
+    '---',
+    '',
+    `# ${sanitizeInline(title)}`,
+    '',
+  ].join('\n');
+
+  return `${header}\n${body}`;
+}
+
+// Pipe table; the first row is the header. Rows are padded to the widest row.
+export function markdownTable(rows: string[][]): string {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  if (!width) return '';
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => escapeCell(cells[i] || '')).join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [line(header), `| ${Array(width).fill('---').join(' | ')} |`, ...body.map(line)].join('\n');
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+}
+
+export function sanitizeInline(s: string): string {
+  return s.replace(/[\u0000-\u001f]+/g, ' ').trim();
+}
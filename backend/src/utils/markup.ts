@@ -0,0 +1,218 @@
+import { markdownTable } from './markdown';
+
+/**
+ * Lenient tokenizer shared by the HTML, XHTML (EPUB) and Office XML converters.
+ * Tag and attribute names are lower-cased; text is entity-decoded. Not a validating parser.
+ */
+export interface MarkupToken {
+  type: 'open' | 'close' | 'text';
+  name?: string;
+  attrs?: Record<string, string>;
+  selfClosing?: boolean;
+  text?: string;
+}
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/\s*([a-zA-Z][\w:.-]*)\s*>|<([a-zA-Z][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+export function tokenizeMarkup(source: string): MarkupToken[] {
+  const tokens: MarkupToken[] = [];
+  let last = 0;
+  for (const match of source.matchAll(TOKEN_PATTERN)) {
+    if (match.index > last) {
+      tokens.push({ type: 'text', text: decodeEntities(source.slice(last, match.index)) });
+    }
+    last = match.index + match[0].length;
+
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'text', text: match[1] });
+    } else if (match[2]) {
+      tokens.push({ type: 'close', name: match[2].toLowerCase() });
+    } else if (match[3]) {
+      const attrs: Record<string, string> = {};
+      for (const attr of (match[4] || '').matchAll(ATTRIBUTE_PATTERN)) {
+        attrs[attr[1].toLowerCase()] = decodeEntities(attr[2] ?? attr[3] ?? attr[4] ?? '');
+      }
+      tokens.push({ type: 'open', name: match[3].toLowerCase(), attrs, selfClosing: match[5] === '/' });
+    }
+    // Comments, doctypes and processing instructions are dropped
+  }
+  if (last < source.length) {
+    tokens.push({ type: 'text', text: decodeEntities(source.slice(last)) });
+  }
+  return tokens;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  copy: '©', reg: '®', trade: '™', deg: '°', euro: '€',
+  aacute: 'á', agrave: 'à', auml: 'ä', ccedil: 'ç', eacute: 'é', egrave: 'è',
+  iacute: 'í', ntilde: 'ñ', oacute: 'ó', ouml: 'ö', uacute: 'ú', uuml: 'ü', szlig: 'ß',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[body] ?? NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+// Elements whose content never reaches the Markdown (head is skipped except for <title>)
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'head', 'iframe', 'object']);
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav', 'blockquote',
+  'figure', 'figcaption', 'address', 'dl', 'dt', 'dd', 'form', 'fieldset', 'hr', 'body',
+]);
+
+interface TableState {
+  rows: string[][];
+  cell: string | null;
+}
+
+/**
+ * Converts HTML/XHTML to the Markdown subset the chunkers understand: ATX headings, bullet and
+ * numbered lists, pipe tables and fenced preformatted blocks. Inline formatting and links are reduced to text.
+ */
+export function htmlToMarkdown(html: string): { title: string | null; markdown: string } {
+  let out = '';
+  let title: string | null = null;
+  let inTitle = false;
+  let headingLevel = 0;
+  let preDepth = 0;
+  const skipStack: string[] = [];
+  const lists: { ordered: boolean; counter: number }[] = [];
+  const tables: TableState[] = [];
+
+  const blockBreak = () => {
+    if (lists.length) {
+      if (!/\s$/.test(out)) out += ' ';
+    } else if (out && !out.endsWith('\n\n')) {
+      out += out.endsWith('\n') ? '\n' : '\n\n';
+    }
+  };
+  const lineBreak = () => {
+    if (out && !out.endsWith('\n')) out += '\n';
+  };
+  const write = (text: string) => {
+    let collapsed = text.replace(/\s+/g, ' ');
+    if (!out || /\s$/.test(out)) collapsed = collapsed.trimStart();
+    out += collapsed;
+  };
+
+  for (const token of tokenizeMarkup(html)) {
+    const table = tables[tables.length - 1];
+
+    if (skipStack.length) {
+      const skipped = skipStack[skipStack.length - 1];
+      if (token.name === 'title' && skipped === 'head') {
+        inTitle = token.type === 'open' && !token.selfClosing;
+      } else if (inTitle && token.type === 'text') {
+        title = `${title || ''}${token.text}`;
+      } else if (token.name === skipped && token.type === 'close') {
+        skipStack.pop();
+      } else if (token.name === skipped && token.type === 'open' && !token.selfClosing) {
+        skipStack.push(skipped);
+      }
+      continue;
+    }
+
+    if (token.type === 'text') {
+      if (table?.cell != null) table.cell += token.text;
+      else if (preDepth) out += token.text;
+      else write(token.text);
+      continue;
+    }
+
+    const name = token.name;
+    const opening = token.type === 'open';
+    if (opening && SKIPPED_ELEMENTS.has(name) && !token.selfClosing) {
+      skipStack.push(name);
+      continue;
+    }
+
+    const heading = /^h([1-6])$/.exec(name);
+    if (name === 'title' && opening) {
+      // <title> outside <head>; keep it out of the body
+      skipStack.push('title');
+    } else if (name === 'table') {
+      if (opening) {
+        tables.push({ rows: [], cell: null });
+      } else if (table) {
+        tables.pop();
+        const rows = table.rows.filter((row) => row.some((cell) => cell.trim()));
+        const parent = tables[tables.length - 1];
+        if (parent?.cell != null) {
+          parent.cell += ` ${rows.map((row) => row.join(' ')).join('; ')} `;
+        } else if (rows.length) {
+          blockBreak();
+          lineBreak();
+          out += markdownTable(rows);
+          out += '\n\n';
+        }
+      }
+    } else if (table && name === 'tr') {
+      if (opening) table.rows.push([]);
+    } else if (table && (name === 'td' || name === 'th')) {
+      if (opening) {
+        if (!table.rows.length) table.rows.push([]);
+        table.cell = '';
+      } else if (table.cell != null) {
+        table.rows[table.rows.length - 1].push(table.cell.replace(/\s+/g, ' ').trim());
+        table.cell = null;
+      }
+    } else if (table?.cell != null) {
+      // Anything else inside a cell is inline text
+      if (name === 'br' || BLOCK_ELEMENTS.has(name) || name === 'li') table.cell += ' ';
+    } else if (heading) {
+      if (opening) {
+        blockBreak();
+        out += `${'#'.repeat(Number(heading[1]))} `;
+        headingLevel = Number(heading[1]);
+      } else if (headingLevel) {
+        headingLevel = 0;
+        out += '\n\n';
+      }
+    } else if (name === 'pre') {
+      if (opening) {
+        blockBreak();
+        lineBreak();
+        out += '```\n';
+        preDepth++;
+      } else if (preDepth) {
+        preDepth--;
+        lineBreak();
+        out += '```\n\n';
+      }
+    } else if (name === 'ul' || name === 'ol') {
+      if (opening) {
+        if (lists.length) lineBreak();
+        else blockBreak();
+        lists.push({ ordered: name === 'ol', counter: 0 });
+      } else if (lists.length) {
+        lists.pop();
+        if (!lists.length) out += '\n\n';
+      }
+    } else if (name === 'li' && opening) {
+      const list = lists[lists.length - 1];
+      lineBreak();
+      out += `${'  '.repeat(Math.max(0, lists.length - 1))}${list?.ordered ? `${++list.counter}.` : '-'} `;
+    } else if (name === 'br') {
+      if (headingLevel) out += ' ';
+      else out += '\n';
+    } else if (BLOCK_ELEMENTS.has(name) && !headingLevel) {
+      blockBreak();
+    }
+  }
+
+  const markdown = out
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return { title: title ? title.replace(/\s+/g, ' ').trim() || null : null, markdown };
+}
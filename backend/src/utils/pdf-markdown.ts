@@ -1,4 +1,6 @@
-import pdfParse from 'pdf-parse';
+// pdf-parse is a CommonJS `module.exports = fn`; without esModuleInterop a default import resolves to undefined
+import pdfParse = require('pdf-parse');
+import { buildMarkdownDocument } from './markdown';
 
 /**
  * Convert a PDF buffer into Markdown using simple heuristics.
@@ -9,18 +11,7 @@ export async function pdfBufferToMarkdown(buffer: Buffer, filename?: string): Pr
   const title = (info as any)?.Title?.trim?.() || (filename || 'Untitled PDF');
   const mdBody = textToMarkdownHeuristics(text || '');
 
-  const header = [
-    '---',
-    `source: ${sanitizeInline(title)}`,
-    `pages: ${numpages ?? 'unknown'}`,
-    `generated: ${new Date().toISOString()}`,
-    '---',
-    '',
-    `# ${sanitizeInline(title)}`,
-    '',
-  ].join('\n');
-
-  return `${header}${mdBody}`;
+  return buildMarkdownDocument(title, { pages: numpages ?? 'unknown' }, mdBody);
 }
 
 function textToMarkdownHeuristics(text: string): string {
@@ -82,7 +73,3 @@ function titleCaseIfScreaming(s: string): string {
   }
   return s;
 }
-
-function sanitizeInline(s: string): string {
-  return s.replace(/[\u0000-\u001f]+/g, ' ').trim();
-}
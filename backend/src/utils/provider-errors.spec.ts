@@ -0,0 +1,20 @@
+import { isStreamOptionsRejection, isToolsRejection } from './provider-errors';
+
+describe('provider rejections', () => {
+  const openAIError = (status: number, message: string) => ({ status, error: { message } });
+
+  it('recognizes servers refusing stream_options', () => {
+    expect(isStreamOptionsRejection(openAIError(400, 'Unrecognized request argument supplied: stream_options'))).toBe(true);
+    expect(isStreamOptionsRejection({ response: { status: 422, data: { detail: 'extra field include_usage' } } })).toBe(true);
+  });
+
+  it('does not mistake other failures for a stream_options rejection', () => {
+    expect(isStreamOptionsRejection(openAIError(400, 'model not found'))).toBe(false);
+    expect(isStreamOptionsRejection(openAIError(500, 'stream_options caused a crash'))).toBe(false);
+  });
+
+  it('recognizes models refusing tools', () => {
+    expect(isToolsRejection(openAIError(400, 'llama2 does not support tools'))).toBe(true);
+    expect(isToolsRejection(openAIError(400, 'Unrecognized request argument supplied: stream_options'))).toBe(false);
+  });
+});
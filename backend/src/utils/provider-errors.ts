@@ -0,0 +1,60 @@
+/**
+ * Error from a model provider call that keeps the HTTP status and network error code of its cause,
+ * so retry and circuit-breaker decisions survive the conversion into a user-facing message.
+ */
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+
+  constructor(message: string, cause?: any) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = cause?.response?.status ?? cause?.status;
+    this.code = cause?.code;
+  }
+}
+
+// Statuses worth another attempt: timeouts on the provider side, rate limits and gateway/overload errors
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+// Dropped connections; refused/unknown hosts and client timeouts are not retried (the next fallback is tried instead)
+const TRANSIENT_CODES = new Set(['ECONNRESET', 'EPIPE', 'EAI_AGAIN', 'ERR_STREAM_PREMATURE_CLOSE']);
+
+/**
+ * Whether retrying the same call shortly is likely to succeed.
+ */
+export function isTransientProviderError(error: any): boolean {
+  if (typeof error?.status === 'number') return TRANSIENT_STATUSES.has(error.status);
+  if (error?.code && TRANSIENT_CODES.has(error.code)) return true;
+  return /socket hang up/i.test(error?.message || '');
+}
+
+/**
+ * Whether the error says something about the provider's health (counted by its circuit breaker).
+ * Other 4xx responses are about the request (bad model name, prompt too long) and prove the provider is up.
+ */
+export function isProviderFailure(error: any): boolean {
+  const status = error?.status;
+  return typeof status !== 'number' || status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Whether a request was refused for offering tools: models without function calling, servers without tool support.
+ */
+export function isToolsRejection(error: any): boolean {
+  return isRejectionMentioning(error, /tool|function/i);
+}
+
+/**
+ * Whether a streaming request was refused for its stream_options: OpenAI-compatible servers that reject unknown fields.
+ */
+export function isStreamOptionsRejection(error: any): boolean {
+  return isRejectionMentioning(error, /stream_options|include_usage/i);
+}
+
+// A 400/422 whose body names the offending part of the request
+function isRejectionMentioning(error: any, pattern: RegExp): boolean {
+  const status = error?.response?.status ?? error?.status;
+  if (status !== 400 && status !== 422) return false;
+  const body = error?.response?.data ?? error?.error ?? error?.message;
+  return pattern.test(typeof body === 'string' ? body : JSON.stringify(body ?? ''));
+}
@@ -0,0 +1,45 @@
+import { createHash } from 'crypto';
+
+/** Everything besides the prompt that decides what a model answers. */
+export interface ResponseCacheScope {
+  provider: string;
+  model: string;
+  baseUrl?: string | null;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  systemPrompt?: string;
+  history?: Array<{ role: string; content: string }>;
+}
+
+/** Prompt with surrounding whitespace trimmed and every whitespace run collapsed to one space. */
+export function normalizePrompt(prompt: string): string {
+  return (prompt || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * sha256 of the scope. Fields are serialized in a fixed order and text is normalized like the prompt, so
+ * equivalent calls share a scope whatever order the options were assembled in.
+ */
+export function hashCacheScope(scope: ResponseCacheScope): string {
+  const canonical = [
+    scope.provider,
+    scope.model,
+    (scope.baseUrl || '').replace(/\/+$/, ''),
+    scope.temperature ?? null,
+    scope.maxTokens ?? null,
+    scope.topP ?? null,
+    scope.frequencyPenalty ?? null,
+    scope.presencePenalty ?? null,
+    normalizePrompt(scope.systemPrompt || ''),
+    (scope.history || []).map((message) => [message.role, normalizePrompt(message.content)]),
+  ];
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+/** Exact-match key: the scope hash combined with the normalized prompt. */
+export function hashCacheKey(scopeKey: string, normalizedPrompt: string): string {
+  return createHash('sha256').update(`${scopeKey}\n${normalizedPrompt}`).digest('hex');
+}
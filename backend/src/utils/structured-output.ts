@@ -0,0 +1,223 @@
+/**
+ * The subset of JSON Schema used for structured model output: types, object properties and required keys,
+ * array items and sizes, enums and numeric bounds.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  // false drops keys the schema does not list
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: Array<string | number | boolean>;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface StructuredOutputResult<T = unknown> {
+  valid: boolean;
+  data?: T;
+  // True when the reply needed cleaning up (code fences, prose, trailing commas, type coercion) to match
+  repaired: boolean;
+  // JSONPath-like messages such as "$.anomalies[0].severity must be one of low, medium, high"
+  errors: string[];
+}
+
+/** Raised when a model reply still breaks the schema after every retry. */
+export class StructuredOutputError extends Error {
+  constructor(readonly schemaName: string, readonly errors: string[], readonly lastResponse: string) {
+    super(`The model reply did not match the ${schemaName} schema: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/** System prompt instruction that asks for a reply matching the schema. */
+export function describeJsonSchema(schema: JsonSchema): string {
+  return `Reply with a single JSON value that matches this JSON Schema, with no prose or code fences around it:\n${JSON.stringify(schema)}`;
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Parses the JSON value in a model reply. Falls back to the outermost object or array in the text with code fences,
+ * typographic quotes and trailing commas cleaned up; returns null when nothing parses.
+ */
+export function extractJson(text: string): { value: unknown; repaired: boolean } | null {
+  const trimmed = (text || '').trim();
+  try {
+    return { value: JSON.parse(trimmed), repaired: false };
+  } catch {
+    // fall through to the repairs below
+  }
+
+  let candidate = trimmed.replace(/```(?:json)?/gi, '').trim();
+  const start = candidate.search(/[[{]/);
+  if (start < 0) return null;
+  const close = candidate[start] === '{' ? '}' : ']';
+  const end = candidate.lastIndexOf(close);
+  if (end <= start) return null;
+  candidate = candidate
+    .slice(start, end + 1)
+    .replace(/[“”]/g, '"')
+    .replace(/,\s*([}\]])/g, '$1');
+
+  try {
+    return { value: JSON.parse(candidate), repaired: true };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Coerces near misses into the schema's shape: numeric and boolean strings, enum values in another case, a single
+ * item where an array is expected, a bare array where an object holds one required array, and unknown keys when
+ * additionalProperties is false. Values that cannot be coerced are left for validation to report.
+ */
+export function coerceToSchema(value: unknown, schema: JsonSchema): { value: unknown; changed: boolean } {
+  let changed = false;
+  let result: any = value;
+
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      if (typeof result === 'string' && result.trim() && Number.isFinite(Number(result))) {
+        result = Number(result);
+        changed = true;
+      }
+      if (schema.type === 'integer' && typeof result === 'number' && !Number.isInteger(result)) {
+        result = Math.round(result);
+        changed = true;
+      }
+      break;
+
+    case 'boolean':
+      if (result === 'true' || result === 'false') {
+        result = result === 'true';
+        changed = true;
+      }
+      break;
+
+    case 'string':
+      if (typeof result === 'number' || typeof result === 'boolean') {
+        result = String(result);
+        changed = true;
+      }
+      break;
+
+    case 'array':
+      if (result !== null && result !== undefined && !Array.isArray(result)) {
+        result = [result];
+        changed = true;
+      }
+      if (Array.isArray(result) && schema.items) {
+        result = result.map((item) => {
+          const coerced = coerceToSchema(item, schema.items as JsonSchema);
+          changed = changed || coerced.changed;
+          return coerced.value;
+        });
+      }
+      break;
+
+    case 'object': {
+      const arrayKeys = (schema.required || []).filter((key) => schema.properties?.[key]?.type === 'array');
+      if (Array.isArray(result) && arrayKeys.length === 1) {
+        result = { [arrayKeys[0]]: result };
+        changed = true;
+      }
+      if (typeOf(result) !== 'object') break;
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(result)) {
+        const property = schema.properties?.[key];
+        if (!property) {
+          if (schema.additionalProperties === false) {
+            changed = true;
+          } else {
+            copy[key] = item;
+          }
+          continue;
+        }
+        const coerced = coerceToSchema(item, property);
+        changed = changed || coerced.changed;
+        copy[key] = coerced.value;
+      }
+      result = copy;
+      break;
+    }
+  }
+
+  if (schema.enum && typeof result === 'string' && !schema.enum.includes(result)) {
+    const match = schema.enum.find((option) => typeof option === 'string' && option.toLowerCase() === result.trim().toLowerCase());
+    if (match !== undefined) {
+      result = match;
+      changed = true;
+    }
+  }
+
+  return { value: result, changed };
+}
+
+/** Every way the value breaks the schema; empty when it conforms. */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const matches = schema.type === 'integer'
+      ? typeof value === 'number' && Number.isInteger(value)
+      : actual === schema.type;
+    if (!matches) {
+      return [`${path} must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}, got ${actual}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be at most ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path} must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJson(item, schema.items as JsonSchema, `${path}[${index}]`)));
+    }
+  } else if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined || record[key] === null) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, property] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined && record[key] !== null) {
+        errors.push(...validateJson(record[key], property, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** Extracts, coerces and validates a model reply against the schema. */
+export function parseStructuredOutput<T = unknown>(text: string, schema: JsonSchema): StructuredOutputResult<T> {
+  const extracted = extractJson(text);
+  if (!extracted) {
+    return { valid: false, repaired: false, errors: ['$ is not valid JSON'] };
+  }
+  const coerced = coerceToSchema(extracted.value, schema);
+  const errors = validateJson(coerced.value, schema);
+  return {
+    valid: errors.length === 0,
+    data: errors.length === 0 ? coerced.value as T : undefined,
+    repaired: extracted.repaired || coerced.changed,
+    errors,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Normalize extracted document text for storage and prompts.
+ * With preserveMarkdown, headings/bullets/indentation survive and only whitespace is tidied.
+ */
+export function sanitizeText(text: string, preserveMarkdown = false): string {
+  if (!text) return '';
+  let t = text;
+  // Normalize unicode (e.g., ligatures) and remove replacement chars
+  try { t = t.normalize('NFKC'); } catch {}
+  t = t.replace(/\uFFFD+/g, ' '); // drop � characters
+  // Remove control characters
+  t = t.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F-\x9F]+/g, ' ');
+  if (preserveMarkdown) {
+    // Keep markdown symbols and indentation; trim trailing spaces and collapse 3+ blank lines
+    t = t.replace(/[ \t]+\n/g, '\n');
+    t = t.replace(/\n{3,}/g, '\n\n');
+    return t.trim();
+  }
+  // Keep letters, numbers, punctuation and spaces; drop other odd glyphs
+  t = t.replace(/[^\p{L}\p{N}\p{P}\p{Zs}]/gu, ' ');
+  // Collapse whitespace
+  return t.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Heuristic gate for scanned/garbled extractions: enough length, mostly letters and real words.
+ */
+export function isReadableText(text: string): boolean {
+  if (!text) return false;
+  const len = text.length;
+  if (len < 200) return false;
+  const lettersAndSpaces = (text.match(/[\p{L}\p{N}\s]/gu) || []).length;
+  const ratio = lettersAndSpaces / len;
+  const words = (text.match(/[\p{L}\p{N}]{2,}/gu) || []).length;
+  return ratio >= 0.7 && words >= 30; // simple heuristic
+}
@@ -0,0 +1,32 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { openZip } from './zip';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__', name));
+
+describe('openZip', () => {
+  it('reads stored and deflated entries', () => {
+    const zip = openZip(fixture('sample.epub'));
+    expect(zip.readText('mimetype')).toBe('application/epub+zip');
+    expect(zip.readText('OEBPS/ch1.xhtml')).toContain('<h1>Chapter One</h1>');
+    expect(zip.read('missing.xml')).toBeNull();
+  });
+
+  it('rejects entries that inflate past the size cap', () => {
+    // A 40MB run of zeros deflated to ~40KB
+    const zip = openZip(fixture('bomb.zip'));
+    expect(() => zip.read('word/document.xml')).toThrow('ZIP entry too large: word/document.xml');
+  });
+
+  it('bounds inflation even when the declared size is understated', () => {
+    const buffer = Buffer.from(fixture('bomb.zip'));
+    // Zero the uncompressed size in the central directory record
+    const central = buffer.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    buffer.writeUInt32LE(0, central + 24);
+    expect(() => openZip(buffer).read('word/document.xml')).toThrow('ZIP entry too large: word/document.xml');
+  });
+
+  it('rejects buffers that are not ZIP archives', () => {
+    expect(() => openZip(Buffer.from('plain text, not an archive'))).toThrow('Not a ZIP archive');
+  });
+});
@@ -0,0 +1,113 @@
+import * as zlib from 'zlib';
+
+/**
+ * Minimal ZIP reader for Office Open XML and EPUB containers.
+ * Supports stored and deflated entries (all these formats use); ZIP64 and encrypted archives are rejected.
+ */
+export interface ZipArchive {
+  names: string[];
+  read(name: string): Buffer | null;
+  readText(name: string): string | null;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  encrypted: boolean;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Uploads are capped at 10MB, so anything inflating past these limits is a ZIP bomb rather than a document
+const MAX_ENTRY_SIZE = 32 * 1024 * 1024;
+const MAX_TOTAL_SIZE = 64 * 1024 * 1024;
+
+export function openZip(buffer: Buffer): ZipArchive {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      encrypted: (flags & 0x1) === 1,
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  // Inflated bytes across every read of this archive
+  let totalRead = 0;
+
+  const read = (name: string): Buffer | null => {
+    const entry = entries.get(name.replace(/^\//, ''));
+    if (!entry) return null;
+    if (entry.encrypted) {
+      throw new Error(`Encrypted ZIP entry: ${name}`);
+    }
+    const limit = Math.min(MAX_ENTRY_SIZE, MAX_TOTAL_SIZE - totalRead);
+    if (entry.uncompressedSize > limit) {
+      throw new Error(`ZIP entry too large: ${name}`);
+    }
+    const header = entry.localHeaderOffset;
+    if (buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    // Sizes are taken from the central directory; local headers may defer them to a data descriptor
+    const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+    const data = buffer.subarray(start, start + entry.compressedSize);
+    let content: Buffer;
+    if (entry.method === 0) {
+      content = Buffer.from(data);
+    } else if (entry.method === 8) {
+      // The declared size can lie, so inflation is bounded as well
+      try {
+        content = zlib.inflateRawSync(data, { maxOutputLength: limit });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new Error(`ZIP entry too large: ${name}`);
+        }
+        throw error;
+      }
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+    }
+    totalRead += content.length;
+    return content;
+  };
+
+  return {
+    names: Array.from(entries.keys()),
+    read,
+    readText: (name) => read(name)?.toString('utf-8') ?? null,
+  };
+}
@@ -3,21 +3,28 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useAnalyticsPage } from "@/features/analytics/use-analytics-page"
-import { usePerformanceSummary } from "@/features/analytics/hooks"
+import { usePerformanceSummary, useUsageSummary, useBudgets } from "@/features/analytics/hooks"
 import { Skeleton } from "@/components/ui/skeleton"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, Line, LineChart } from 'recharts'
 import { AlertCircle, CheckCircle2, XCircle } from "lucide-react"
 import { cn } from "@/lib/utils"
 
+// Cents, or enough digits to show sub-cent amounts
+const formatUsd = (value: number) => `$${value >= 0.01 || value === 0 ? value.toFixed(2) : value.toPrecision(2)}`
+
 export default function AnalyticsPage() {
   const {
     timeframe,
     metrics,
     isLoading,
+    usageGroupBy,
     setTimeframe,
+    setUsageGroupBy,
   } = useAnalyticsPage()
 
   const { data: summary, isLoading: loadingSummary } = usePerformanceSummary(timeframe)
+  const { data: usage } = useUsageSummary(timeframe, usageGroupBy)
+  const { data: budgets } = useBudgets()
 
   if (isLoading || loadingSummary) {
     return (
@@ -159,6 +166,79 @@ export default function AnalyticsPage() {
         </Card>
       </div>
 
+      {/* LLM usage and cost */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>LLM Usage &amp; Cost</CardTitle>
+            <CardDescription>
+              {usage?.totals.requests ?? 0} calls • {(usage?.totals.promptTokens ?? 0).toLocaleString()} prompt / {(usage?.totals.completionTokens ?? 0).toLocaleString()} completion tokens • {formatUsd(usage?.totals.cost ?? 0)}
+            </CardDescription>
+          </div>
+          <Tabs value={usageGroupBy} onValueChange={(value) => setUsageGroupBy(value as typeof usageGroupBy)}>
+            <TabsList>
+              <TabsTrigger value="day">Day</TabsTrigger>
+              <TabsTrigger value="config">Configuration</TabsTrigger>
+              <TabsTrigger value="model">Model</TabsTrigger>
+              <TabsTrigger value="session">Session</TabsTrigger>
+              <TabsTrigger value="purpose">Purpose</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!!budgets?.length && (
+            <div className="space-y-2">
+              {budgets.map((budget) => (
+                <div key={budget.configId || 'global'} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span>{budget.scope === 'global' ? 'All configurations' : budget.name} ({budget.month}, {budget.action})</span>
+                    <span className={cn("text-muted-foreground", budget.exceeded && "text-red-500")}>
+                      {formatUsd(budget.spentUsd)} / {formatUsd(budget.limitUsd)}
+                    </span>
+                  </div>
+                  <div className="h-2 w-full rounded bg-muted">
+                    <div
+                      className={cn("h-2 rounded bg-primary", budget.exceeded && "bg-red-500")}
+                      style={{ width: `${Math.min(100, (budget.spentUsd / budget.limitUsd) * 100)}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {usageGroupBy === 'day' ? (
+            <div className="h-[240px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={usage?.groups || []}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" />
+                  <YAxis yAxisId="left" />
+                  <YAxis yAxisId="right" orientation="right" />
+                  <Tooltip />
+                  <Bar yAxisId="left" dataKey="totalTokens" fill="hsl(var(--primary))" name="Tokens" radius={[4,4,0,0]} />
+                  <Bar yAxisId="right" dataKey="cost" fill="#82ca9d" name="Cost (USD)" radius={[4,4,0,0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {(usage?.groups || []).map((group) => (
+                <div key={group.key} className="flex items-center justify-between text-sm">
+                  <div className="truncate mr-2">{group.label}</div>
+                  <div className="text-muted-foreground whitespace-nowrap">
+                    {group.requests} calls • {group.totalTokens.toLocaleString()} tokens • {formatUsd(group.cost)}
+                  </div>
+                </div>
+              ))}
+              {!usage?.groups.length && <div className="text-sm text-muted-foreground">No model calls in this period</div>}
+            </div>
+          )}
+          {!!usage?.unpricedModels.length && (
+            <p className="text-xs text-muted-foreground">No price for {usage.unpricedModels.join(', ')}; counted as $0.</p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Time Series */}
       <Card>
         <CardHeader>
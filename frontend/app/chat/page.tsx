@@ -7,35 +7,177 @@ import { Avatar } from "@/components/ui/avatar"
 import { Switch } from "@/components/ui/switch"
 import { useChatPage } from "@/features/chat/use-chat-page"
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
-import { useKnowledgeBase, useUploadKnowledge, useDeleteKnowledge, useClearKnowledge } from "@/features/chat/hooks"
-import { FileText, Upload, X, Trash2 } from "lucide-react"
-import { useRef } from "react"
+import {
+  useKnowledgeBase,
+  useUploadKnowledge,
+  useDeleteKnowledge,
+  useRetryKnowledge,
+  useUploadKnowledgeVersion,
+  useClearKnowledge,
+  useKnowledgeCollections,
+  useCreateKnowledgeCollection,
+  useDeleteKnowledgeCollection,
+} from "@/features/chat/hooks"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ChatSource, Grounding, ToolInvocation } from "@/features/chat/types"
+import { FileText, Upload, X, Trash2, ChevronDown, History, FolderOpen, Plus, RotateCw, FileUp, ShieldCheck, ShieldAlert, AlertCircle, Wrench } from "lucide-react"
+import { ReactNode, useEffect, useRef, useState } from "react"
+
+// Select needs a non-empty value for "no collection"
+const NO_COLLECTION = "none"
+
+// Answer text with the sentences the excerpts do not support underlined
+function GroundedText({ content, grounding }: { content: string; grounding?: Grounding }) {
+  const unsupported = grounding && !grounding.replaced
+    ? grounding.sentences.filter((s) => !s.supported && content.slice(s.start, s.end) === s.text)
+    : []
+  if (!unsupported.length) return <>{content}</>
+
+  const parts: ReactNode[] = []
+  let cursor = 0
+  for (const sentence of unsupported) {
+    if (sentence.start < cursor) continue
+    parts.push(content.slice(cursor, sentence.start))
+    parts.push(
+      <span
+        key={sentence.start}
+        className="underline decoration-wavy decoration-amber-500 underline-offset-4"
+        title={`Not supported by the excerpts (${Math.round(sentence.coverage * 100)}% of terms found)`}
+      >
+        {sentence.text}
+      </span>
+    )
+    cursor = sentence.end
+  }
+  parts.push(content.slice(cursor))
+  return <>{parts}</>
+}
+
+// Tools the assistant called before answering; each expands to its arguments and result
+function ToolCallList({ toolCalls }: { toolCalls: ToolInvocation[] }) {
+  return (
+    <div className="mb-2 space-y-1">
+      {toolCalls.map((call, index) => (
+        <Collapsible key={`${call.name}-${index}`} className="rounded border bg-background/60 text-xs">
+          <CollapsibleTrigger className="group flex w-full items-center gap-2 px-2 py-1 text-muted-foreground">
+            <Wrench className="h-3 w-3 shrink-0" />
+            <span className="font-mono">{call.name}</span>
+            <span className={call.error ? 'text-destructive' : undefined}>
+              {call.error ? 'failed' : `${call.durationMs}ms`}
+            </span>
+            <ChevronDown className="ml-auto h-3 w-3 transition-transform group-data-[state=open]:rotate-180" />
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-1 px-2 pb-2">
+            <pre className="whitespace-pre-wrap break-all">{JSON.stringify(call.arguments, null, 2)}</pre>
+            <pre className={`max-h-48 overflow-auto whitespace-pre-wrap break-all ${call.error ? 'text-destructive' : ''}`}>
+              {call.error || JSON.stringify(call.result, null, 2)}
+            </pre>
+          </CollapsibleContent>
+        </Collapsible>
+      ))}
+    </div>
+  )
+}
 
 export default function ChatPage() {
   const {
     messages,
     newMessage,
     isTyping,
+    isStreaming,
     activeConfig,
     ragMode,
+    ragStatus,
+    collectionIds,
+    sessionMemory,
     setNewMessage,
     handleSendMessage,
     handleKeyPress,
     clearChat,
     setRagMode,
+    setCollectionIds,
   } = useChatPage()
 
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const versionInputRef = useRef<HTMLInputElement>(null)
+  const [versionTargetId, setVersionTargetId] = useState<string | null>(null)
+  const [openSource, setOpenSource] = useState<ChatSource | null>(null)
   const { data: knowledgeBase } = useKnowledgeBase()
   const { mutate: uploadKnowledge, isPending: isUploading } = useUploadKnowledge()
   const { mutate: deleteKnowledge, isPending: isDeleting } = useDeleteKnowledge()
+  const { mutate: retryKnowledge, isPending: isRetrying } = useRetryKnowledge()
+  const { mutate: uploadKnowledgeVersion, isPending: isUploadingVersion } = useUploadKnowledgeVersion()
   const { mutate: clearKnowledge, isPending: isClearing } = useClearKnowledge()
+  const { data: collections } = useKnowledgeCollections()
+  const { mutate: createCollection, isPending: isCreatingCollection } = useCreateKnowledgeCollection()
+  const { mutate: deleteCollection, isPending: isDeletingCollection } = useDeleteKnowledgeCollection()
+  const [newCollectionName, setNewCollectionName] = useState("")
+  const [uploadCollectionId, setUploadCollectionId] = useState(NO_COLLECTION)
+
+  // Drop selections of collections that no longer exist
+  useEffect(() => {
+    if (!collections) return
+    const existing = new Set(collections.data.map((collection) => collection.id))
+    if (collectionIds.some((id) => !existing.has(id))) {
+      setCollectionIds(collectionIds.filter((id) => existing.has(id)))
+    }
+    if (uploadCollectionId !== NO_COLLECTION && !existing.has(uploadCollectionId)) {
+      setUploadCollectionId(NO_COLLECTION)
+    }
+  }, [collections, collectionIds, setCollectionIds, uploadCollectionId])
+
+  const collectionName = (id?: string | null) => collections?.data.find((collection) => collection.id === id)?.name
+
+  const scopeLabel = collectionIds.length === 0
+    ? 'All documents'
+    : collectionIds.length === 1
+      ? collectionName(collectionIds[0]) || '1 collection'
+      : `${collectionIds.length} collections`
+
+  const toggleCollection = (id: string, checked: boolean) => {
+    setCollectionIds(checked ? [...collectionIds, id] : collectionIds.filter((selected) => selected !== id))
+  }
+
+  const handleCreateCollection = () => {
+    const name = newCollectionName.trim()
+    if (!name) return
+    createCollection({ name }, { onSuccess: () => setNewCollectionName("") })
+  }
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
-      uploadKnowledge(file)
+      uploadKnowledge({ file, collectionId: uploadCollectionId === NO_COLLECTION ? undefined : uploadCollectionId })
+    }
+    // Allow selecting the same file again
+    event.target.value = ""
+  }
+
+  const chooseVersionFile = (id: string) => {
+    setVersionTargetId(id)
+    versionInputRef.current?.click()
+  }
+
+  const handleVersionUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file && versionTargetId) {
+      uploadKnowledgeVersion({ id: versionTargetId, file })
     }
+    event.target.value = ""
+    setVersionTargetId(null)
   }
 
   if (!activeConfig) {
@@ -65,6 +207,31 @@ export default function ChatPage() {
                   RAG Mode {ragMode && <span className="text-primary">(Using Documents)</span>}
                 </label>
               </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={!ragMode}>
+                    <FolderOpen className="h-4 w-4 mr-2" />
+                    {scopeLabel}
+                    <ChevronDown className="h-4 w-4 ml-1" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuLabel>Search in</DropdownMenuLabel>
+                  <DropdownMenuItem onSelect={() => setCollectionIds([])}>All documents</DropdownMenuItem>
+                  {!!collections?.data.length && <DropdownMenuSeparator />}
+                  {collections?.data.map((collection) => (
+                    <DropdownMenuCheckboxItem
+                      key={collection.id}
+                      checked={collectionIds.includes(collection.id)}
+                      onCheckedChange={(checked) => toggleCollection(collection.id, checked === true)}
+                      onSelect={(event) => event.preventDefault()}
+                    >
+                      {collection.name}
+                      <span className="ml-auto pl-2 text-xs text-muted-foreground">{collection.documentCount}</span>
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
             <Button
               variant="outline"
@@ -77,8 +244,42 @@ export default function ChatPage() {
               Clear Chat
             </Button>
           </div>
+          {ragMode && ragStatus && ragStatus.status !== 'enabled' && (
+            <div className="flex items-start gap-2 px-4 py-2 border-b bg-amber-50 dark:bg-amber-950/40 text-sm text-amber-700 dark:text-amber-400">
+              <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              <div>
+                <p className="font-medium">
+                  {ragStatus.status === 'disabled'
+                    ? 'RAG is disabled on this server'
+                    : ragStatus.policy.fallback === 'extractive'
+                      ? 'RAG is degraded: answers are document excerpts, not model answers'
+                      : 'RAG is degraded: the model cannot answer from documents here'}
+                </p>
+                {ragStatus.reasons.map((reason) => (
+                  <p key={reason.code}>{reason.message}</p>
+                ))}
+              </div>
+            </div>
+          )}
           
           <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {sessionMemory?.summary && (
+              <Collapsible className="rounded-lg border border-dashed bg-muted/40 p-3 text-sm">
+                <CollapsibleTrigger className="group flex w-full items-center justify-between text-muted-foreground">
+                  <span className="flex items-center gap-2">
+                    <History className="h-4 w-4" />
+                    Earlier conversation summarized ({sessionMemory.summarizedTurns} {sessionMemory.summarizedTurns === 1 ? 'turn' : 'turns'})
+                  </span>
+                  <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <p className="mt-2 whitespace-pre-wrap">{sessionMemory.summary}</p>
+                  <span className="text-xs text-muted-foreground mt-1 block">
+                    The assistant sees this summary instead of the older messages.
+                  </span>
+                </CollapsibleContent>
+              </Collapsible>
+            )}
             {messages.map((message, index) => (
               <div
                 key={message.id || index}
@@ -97,7 +298,47 @@ export default function ChatPage() {
                         : 'bg-muted'
                     }`}
                   >
-                    <p className="text-sm">{message.content}</p>
+                    {message.role === 'assistant' && !!message.toolCalls?.length && (
+                      <ToolCallList toolCalls={message.toolCalls} />
+                    )}
+                    <p className="text-sm">
+                      <GroundedText content={message.content} grounding={message.role === 'assistant' ? message.grounding : undefined} />
+                    </p>
+                    {message.role === 'assistant' && message.ragPolicy && message.ragPolicy.status !== 'enabled' && (
+                      <span className="flex items-center gap-1 text-xs mt-2 text-amber-600">
+                        <AlertCircle className="h-3 w-3 shrink-0" />
+                        {message.ragPolicy.status === 'disabled'
+                          ? 'RAG is disabled by the server policy'
+                          : `Answered with document excerpts only: ${message.ragPolicy.reasons.map((reason) => reason.message).join(' ')}`}
+                      </span>
+                    )}
+                    {message.role === 'assistant' && message.grounding?.score != null && (
+                      <span
+                        className={`flex items-center gap-1 text-xs mt-2 ${message.grounding.score < 1 ? 'text-amber-600' : 'text-muted-foreground'}`}
+                      >
+                        {message.grounding.score < 1 ? <ShieldAlert className="h-3 w-3" /> : <ShieldCheck className="h-3 w-3" />}
+                        {message.grounding.replaced
+                          ? `The model's answer was poorly grounded (${Math.round(message.grounding.score * 100)}%), showing document excerpts instead`
+                          : `${Math.round(message.grounding.score * 100)}% of sentences supported by the excerpts`}
+                      </span>
+                    )}
+                    {message.role === 'assistant' && !!message.sources?.length && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {message.sources.map((source) => (
+                          <button
+                            key={`${source.chunkId}-${source.index}`}
+                            type="button"
+                            onClick={() => setOpenSource(source)}
+                            title={source.sectionPath ? `${source.documentName} > ${source.sectionPath}` : source.documentName}
+                          >
+                            <Badge variant="outline" className="cursor-pointer hover:bg-background max-w-[220px]">
+                              <span className="font-semibold">[{source.index}]</span>
+                              <span className="truncate">{source.documentName}</span>
+                            </Badge>
+                          </button>
+                        ))}
+                      </div>
+                    )}
                     <span className="text-xs opacity-70 mt-1 block">
                       {new Date(message.timestamp).toLocaleTimeString()}
                     </span>
@@ -105,7 +346,7 @@ export default function ChatPage() {
                 </div>
               </div>
             ))}
-            {isTyping && (
+            {isTyping && !isStreaming && (
               <div className="flex justify-start">
                 <div className="bg-muted rounded-lg p-3 flex gap-1">
                   <div className="w-2 h-2 rounded-full bg-foreground/50 animate-bounce" />
@@ -136,6 +377,26 @@ export default function ChatPage() {
         </Card>
       </div>
 
+      <Dialog open={!!openSource} onOpenChange={(open) => !open && setOpenSource(null)}>
+        <DialogContent className="max-w-2xl">
+          {openSource && (
+            <>
+              <DialogHeader>
+                <DialogTitle>[{openSource.index}] {openSource.documentName}</DialogTitle>
+                <DialogDescription>
+                  {openSource.sectionPath ? `${openSource.sectionPath} • ` : ''}
+                  chunk {openSource.chunkIndex + 1} • characters {openSource.startOffset}–{openSource.endOffset}
+                  {openSource.score > 0 && ` • score ${openSource.score}`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="max-h-[60vh] overflow-y-auto rounded-md border bg-muted/40 p-3">
+                <p className="text-sm whitespace-pre-wrap">{openSource.excerpt}</p>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <Sheet>
         <SheetTrigger asChild>
           <Button variant="outline" className="shrink-0">
@@ -148,6 +409,55 @@ export default function ChatPage() {
             <SheetTitle>Knowledge Base</SheetTitle>
           </SheetHeader>
           <div className="mt-4 space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Collections</p>
+              <div className="flex gap-2">
+                <Input
+                  value={newCollectionName}
+                  onChange={(e) => setNewCollectionName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleCreateCollection()}
+                  placeholder="New collection name"
+                  maxLength={100}
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleCreateCollection}
+                  disabled={!newCollectionName.trim() || isCreatingCollection}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              {collections?.data.map((collection) => (
+                <div key={collection.id} className="flex items-center justify-between px-2 py-1 rounded-md border text-sm">
+                  <span>
+                    {collection.name}
+                    <span className="text-muted-foreground"> • {collection.documentCount} {collection.documentCount === 1 ? 'document' : 'documents'}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Delete collection and its documents"
+                    onClick={() => deleteCollection(collection.id)}
+                    disabled={isDeletingCollection}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <Select value={uploadCollectionId} onValueChange={setUploadCollectionId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Upload into collection" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLLECTION}>No collection</SelectItem>
+                {collections?.data.map((collection) => (
+                  <SelectItem key={collection.id} value={collection.id}>{collection.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
             <div className="flex justify-between">
               <Button
                 variant="outline"
@@ -162,7 +472,14 @@ export default function ChatPage() {
                 type="file"
                 className="hidden"
                 onChange={handleFileUpload}
-                accept=".txt,.pdf,.doc,.docx"
+                accept=".txt,.md,.csv,.json,.log,.pdf,.docx,.html,.htm,.xlsx,.epub"
+              />
+              <input
+                ref={versionInputRef}
+                type="file"
+                className="hidden"
+                onChange={handleVersionUpload}
+                accept=".txt,.md,.csv,.json,.log,.pdf,.docx,.html,.htm,.xlsx,.epub"
               />
               <Button
                 variant="outline"
@@ -183,19 +500,62 @@ export default function ChatPage() {
                     <p className="font-medium">{file.name}</p>
                     <p className="text-sm text-muted-foreground">
                       {file.type} • {(file.size / 1024).toFixed(1)}KB
+                      {(file.version ?? 1) > 1 && ` • v${file.version}`}
+                      {collectionName(file.collectionId) && ` • ${collectionName(file.collectionId)}`}
+                      {file.status === 'unreadable'
+                        ? ' • no readable text'
+                        : file.status === 'ready' && file.chunkCount !== undefined &&
+                          ` • ${file.chunkCount} ${file.chunkingStrategy ? `${file.chunkingStrategy} ` : ''}chunks`}
                     </p>
+                    {file.status === 'processing' && (
+                      <div className="mt-1 space-y-1">
+                        <p className="text-xs text-muted-foreground">
+                          {file.stage === 'queued' ? 'Queued' : `Processing (${file.stage})`} • {file.progress ?? 0}%
+                        </p>
+                        <div className="h-1 w-full rounded bg-muted">
+                          <div className="h-1 rounded bg-primary transition-all" style={{ width: `${file.progress ?? 0}%` }} />
+                        </div>
+                      </div>
+                    )}
+                    {file.status === 'error' && (
+                      <p className="text-xs text-red-600 mt-1">
+                        Failed{file.stage ? ` while ${file.stage}` : ''}: {file.error || 'unknown error'}
+                      </p>
+                    )}
                     <p className="text-sm text-muted-foreground">
                       {new Date(file.uploadedAt).toLocaleDateString()}
                     </p>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => deleteKnowledge(file.id)}
-                    disabled={isDeleting}
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Upload new version"
+                      onClick={() => chooseVersionFile(file.id)}
+                      disabled={isUploadingVersion || file.status === 'processing'}
+                    >
+                      <FileUp className="h-4 w-4" />
+                    </Button>
+                    {file.status === 'error' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Retry processing"
+                        onClick={() => retryKnowledge(file.id)}
+                        disabled={isRetrying}
+                      >
+                        <RotateCw className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteKnowledge(file.id)}
+                      disabled={isDeleting}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
               ))}
 
@@ -42,6 +42,8 @@ export default function ConfigPage() {
   const [availableModels, setAvailableModels] = useState<OllamaModel[]>([])
   const [isLoadingModels, setIsLoadingModels] = useState(false)
   const [showOllamaSetup, setShowOllamaSetup] = useState(false)
+  const [endpointStatus, setEndpointStatus] = useState<{ isRunning: boolean; version?: string; models?: string[]; error?: string } | null>(null)
+  const [isCheckingEndpoint, setIsCheckingEndpoint] = useState(false)
   const [configService] = useState(() => ConfigService.getInstance())
   const [appConfig, setAppConfig] = useState<AppConfig | null>(null)
 
@@ -146,6 +148,47 @@ export default function ConfigPage() {
     }
   }
 
+  // Ask the backend to probe the endpoint (avoids browser CORS) and prefill the served model
+  const checkEndpointModels = async () => {
+    setIsCheckingEndpoint(true)
+    try {
+      const baseUrl = form.getValues('baseUrl')?.trim() || undefined
+      let status
+      if (form.getValues('modelProvider') === 'huggingface') {
+        const response = await axiosInstance.get(API_ENDPOINTS.CONFIG.HUGGINGFACE_STATUS, { params: { baseUrl } })
+        status = response.data?.data ?? response.data
+      } else {
+        // Send the unsaved key and headers too, so servers behind auth can be listed before saving
+        const additionalSettings = form.getValues('additionalSettings')
+        const response = await axiosInstance.post(API_ENDPOINTS.CONFIG.OPENAI_COMPATIBLE_MODELS, {
+          baseUrl,
+          apiKey: form.getValues('apiKey')?.trim() || undefined,
+          additionalSettings: additionalSettings && typeof additionalSettings === 'object' ? additionalSettings : undefined,
+        })
+        const data = response.data?.data ?? response.data
+        status = { isRunning: !!data?.success, models: data?.models, error: data?.error }
+      }
+      setEndpointStatus(status)
+      if (status?.isRunning && status.models?.length && !form.getValues('modelName')) {
+        form.setValue('modelName', status.models[0])
+      }
+    } catch (error) {
+      console.error('Error checking model endpoint:', error)
+      setEndpointStatus({ isRunning: false, error: 'Failed to check endpoint' })
+    } finally {
+      setIsCheckingEndpoint(false)
+    }
+  }
+
+  const watchedProvider = form.watch('modelProvider')
+  const usesRemoteEndpoint = watchedProvider === 'huggingface' || watchedProvider === 'openai-compatible'
+  const endpointModels = usesRemoteEndpoint && endpointStatus?.isRunning ? endpointStatus.models ?? [] : []
+
+  // Models discovered for one provider/endpoint don't apply to another
+  useEffect(() => {
+    setEndpointStatus(null)
+  }, [watchedProvider, showDialog])
+
   return (
     <div className="space-y-6">
       {/* Ollama Setup Info Card */}
@@ -311,6 +354,7 @@ export default function ConfigPage() {
                               <SelectItem value="anthropic">Anthropic</SelectItem>
                               <SelectItem value="ollama">Ollama</SelectItem>
                               <SelectItem value="huggingface">Hugging Face</SelectItem>
+                              <SelectItem value="openai-compatible">OpenAI-compatible</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormMessage />
@@ -342,6 +386,17 @@ export default function ConfigPage() {
                                   ))}
                                 </SelectContent>
                               </Select>
+                            ) : endpointModels.length > 0 ? (
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select a served model" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {endpointModels.map((model) => (
+                                    <SelectItem key={model} value={model}>{model}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
                             ) : (
                               <Input 
                                 placeholder={
@@ -364,6 +419,62 @@ export default function ConfigPage() {
                       )}
                     />
                     
+                    {/* Server endpoint - shown for HuggingFace TGI and OpenAI-compatible servers */}
+                    {usesRemoteEndpoint && (
+                      <FormField
+                        control={form.control}
+                        name="baseUrl"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Endpoint URL</FormLabel>
+                            <div className="flex gap-2">
+                              <FormControl>
+                                <Input
+                                  placeholder={watchedProvider === 'huggingface' ? "e.g., http://localhost:8080" : "e.g., http://localhost:8000/v1"}
+                                  {...field}
+                                  value={field.value ?? ''}
+                                />
+                              </FormControl>
+                              <Button
+                                type="button"
+                                variant="outline"
+                                onClick={checkEndpointModels}
+                                disabled={isCheckingEndpoint}
+                              >
+                                <RefreshCw className={`h-4 w-4 mr-1 ${isCheckingEndpoint ? 'animate-spin' : ''}`} />
+                                Load Models
+                              </Button>
+                            </div>
+                            {watchedProvider === 'huggingface' ? (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                <p className="mb-1">• Leave empty to use the server default (http://127.0.0.1:8080)</p>
+                                <p>• Set {'{"huggingfaceApi": "generate"}'} in Additional Settings to use /generate instead of chat completions</p>
+                              </div>
+                            ) : (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                <p className="mb-1">• Any server speaking the OpenAI API: vLLM, LM Studio, llama.cpp server, an internal gateway</p>
+                                <p>• Extra request headers go in Additional Settings as {'{"headers": {"X-Name": "value"}}'}</p>
+                              </div>
+                            )}
+                            {endpointStatus && (
+                              endpointStatus.isRunning ? (
+                                <p className="text-xs text-green-600 flex items-center gap-1">
+                                  <CheckCircle className="h-3 w-3" />
+                                  Reachable{endpointStatus.version ? ` (TGI ${endpointStatus.version})` : ''}
+                                </p>
+                              ) : (
+                                <p className="text-xs text-red-600 flex items-center gap-1">
+                                  <XCircle className="h-3 w-3" />
+                                  {endpointStatus.error || 'Endpoint not reachable'}
+                                </p>
+                              )
+                            )}
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
                     {/* PageKite Tunnel URL field - Only shown for Ollama */}
                     {form.watch('modelProvider') === 'ollama' && (
                       <FormField
@@ -504,7 +615,7 @@ export default function ConfigPage() {
                         />
                         {/**
                          * Removed Base URL field for non-Ollama providers.
-                         * Only Ollama requires/uses baseUrl. For OpenAI, leave baseUrl empty.
+                         * Only Ollama, HuggingFace and OpenAI-compatible (shown above) use baseUrl. For OpenAI, leave baseUrl empty.
                          */}
                         {/* (no baseUrl input here) */}
                         <FormField
@@ -0,0 +1,238 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Skeleton } from "@/components/ui/skeleton"
+import { CHUNK_PAGE_SIZE, KnowledgeView, useKnowledgePage } from "@/features/chat/use-knowledge-page"
+import { ChevronLeft, ChevronRight, FileText, Search } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { ReactNode } from "react"
+
+// Text with the given character ranges wrapped in <mark>
+function HighlightedText({ text, ranges }: { text: string; ranges: { start: number; end: number }[] }) {
+  const parts: ReactNode[] = []
+  let cursor = 0
+  for (const range of ranges) {
+    if (range.start < cursor) continue
+    parts.push(text.slice(cursor, range.start))
+    parts.push(
+      <mark key={range.start} className="bg-yellow-200 dark:bg-yellow-700 rounded-sm px-0.5">
+        {text.slice(range.start, range.end)}
+      </mark>
+    )
+    cursor = range.end
+  }
+  parts.push(text.slice(cursor))
+  return <>{parts}</>
+}
+
+export default function KnowledgePage() {
+  const {
+    documents,
+    isLoadingDocuments,
+    selectedId,
+    selectDocument,
+    view,
+    setView,
+    content,
+    isLoadingContent,
+    chunks,
+    isLoadingChunks,
+    chunkOffset,
+    setChunkOffset,
+    focusedChunkId,
+    searchInput,
+    setSearchInput,
+    searchQuery,
+    submitSearch,
+    searchSelectedOnly,
+    setSearchSelectedOnly,
+    searchResults,
+    isSearching,
+    openSearchHit,
+  } = useKnowledgePage()
+
+  const selected = documents.find((document) => document.id === selectedId)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Knowledge Base</h1>
+        <p className="text-muted-foreground">Inspect the text extracted from each document, how it was chunked, and what a query retrieves</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Search</CardTitle>
+          <CardDescription>Ranks chunks the same way RAG retrieval does; matched terms are highlighted</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={submitSearch} className="flex items-center gap-2">
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="e.g. p95 latency budget for checkout"
+            />
+            <Button type="submit" disabled={!searchInput.trim() || isSearching}>
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </Button>
+          </form>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Switch
+              checked={searchSelectedOnly}
+              onCheckedChange={setSearchSelectedOnly}
+              disabled={!selectedId}
+            />
+            Only search the selected document{selected ? ` (${selected.name})` : ''}
+          </label>
+          {searchQuery && searchResults && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                {searchResults.total} {searchResults.total === 1 ? 'result' : 'results'} ({searchResults.mode} retrieval)
+              </p>
+              {searchResults.data.map((hit) => (
+                <button
+                  key={hit.chunkId}
+                  type="button"
+                  onClick={() => openSearchHit(hit)}
+                  className="w-full text-left rounded-md border p-3 hover:bg-muted"
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-xs mb-1">
+                    <span className="font-medium">{hit.documentName}</span>
+                    {hit.sectionPath && <span className="text-muted-foreground">&gt; {hit.sectionPath}</span>}
+                    <Badge variant="outline">chunk {hit.chunkIndex}</Badge>
+                    <span className="text-muted-foreground">score {hit.score.toFixed(3)}</span>
+                    {!hit.highlights.length && <span className="text-muted-foreground">(semantic match only)</span>}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap line-clamp-4">
+                    <HighlightedText text={hit.content} ranges={hit.highlights} />
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-[280px_1fr]">
+        <Card>
+          <CardHeader>
+            <CardTitle>Documents</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {isLoadingDocuments && <Skeleton className="h-8 w-full" />}
+            {!isLoadingDocuments && !documents.length && (
+              <p className="text-sm text-muted-foreground">No documents yet. Upload them from the chat page.</p>
+            )}
+            {documents.map((document) => (
+              <button
+                key={document.id}
+                type="button"
+                onClick={() => selectDocument(document.id)}
+                className={cn(
+                  "w-full text-left rounded-md px-2 py-1.5 text-sm hover:bg-muted flex items-center gap-2",
+                  document.id === selectedId && "bg-muted"
+                )}
+              >
+                <FileText className="h-4 w-4 shrink-0" />
+                <span className="truncate flex-1">{document.name}</span>
+                {document.status === 'ready'
+                  ? <span className="text-xs text-muted-foreground">{document.chunkCount}</span>
+                  : <Badge variant="outline" className="text-xs">{document.status}</Badge>}
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          {!selectedId ? (
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">
+              Select a document to see its extracted text and chunks
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle className="truncate">{content?.name || selected?.name}</CardTitle>
+                {content && (
+                  <CardDescription>
+                    {content.type} • v{content.version} • {content.length.toLocaleString()} characters • {content.chunkCount} chunks
+                    {content.chunkingStrategy && ` • ${content.chunkingStrategy}`}
+                    {content.chunkSize && ` ${content.chunkSize}/${content.chunkOverlap ?? 0}`}
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent>
+                <Tabs value={view} onValueChange={(value) => setView(value as KnowledgeView)}>
+                  <TabsList>
+                    <TabsTrigger value="content">Extracted text</TabsTrigger>
+                    <TabsTrigger value="chunks">Chunks</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="content" className="mt-4">
+                    {isLoadingContent && <Skeleton className="h-64 w-full" />}
+                    {content && content.status === 'processing' && (
+                      <p className="text-sm text-muted-foreground">Still processing; the text appears once ingestion finishes.</p>
+                    )}
+                    {content && content.status !== 'processing' && (
+                      content.content
+                        ? <pre className="text-xs whitespace-pre-wrap break-words bg-muted rounded-md p-3 max-h-[60vh] overflow-auto">{content.content}</pre>
+                        : <p className="text-sm text-muted-foreground">No text could be extracted from this document.</p>
+                    )}
+                  </TabsContent>
+                  <TabsContent value="chunks" className="mt-4 space-y-3">
+                    {isLoadingChunks && <Skeleton className="h-64 w-full" />}
+                    {chunks && !chunks.total && (
+                      <p className="text-sm text-muted-foreground">This document has no chunks.</p>
+                    )}
+                    {chunks?.data.map((chunk) => (
+                      <div
+                        key={chunk.id}
+                        className={cn("rounded-md border p-3", chunk.id === focusedChunkId && "border-primary ring-1 ring-primary")}
+                      >
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mb-2">
+                          <Badge variant="outline">#{chunk.chunkIndex}</Badge>
+                          <span>{chunk.startOffset}–{chunk.endOffset}</span>
+                          <span>{chunk.length} chars</span>
+                          {chunk.sectionPath && <span className="truncate">{chunk.sectionPath}</span>}
+                          <span className="ml-auto">{chunk.embeddingModel ? `embedded (${chunk.embeddingModel})` : 'not embedded'}</span>
+                        </div>
+                        <pre className="text-xs whitespace-pre-wrap break-words">{chunk.content}</pre>
+                      </div>
+                    ))}
+                    {chunks && chunks.total > CHUNK_PAGE_SIZE && (
+                      <div className="flex items-center justify-between">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setChunkOffset(Math.max(0, chunkOffset - CHUNK_PAGE_SIZE))}
+                          disabled={chunkOffset === 0}
+                        >
+                          <ChevronLeft className="h-4 w-4" />
+                        </Button>
+                        <span className="text-xs text-muted-foreground">
+                          {chunkOffset + 1}–{Math.min(chunkOffset + CHUNK_PAGE_SIZE, chunks.total)} of {chunks.total}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setChunkOffset(chunkOffset + CHUNK_PAGE_SIZE)}
+                          disabled={chunkOffset + CHUNK_PAGE_SIZE >= chunks.total}
+                        >
+                          <ChevronRight className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  )
+}
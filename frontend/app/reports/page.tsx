@@ -1,12 +1,65 @@
 "use client"
 
+import { useState } from "react"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { useAllReports, useGenerateReport, useDownloadReport } from "@/features/analytics/hooks"
+import { Badge } from "@/components/ui/badge"
+import { useAllReports, useGenerateReport, useDownloadReport, useGenerateChecklist } from "@/features/analytics/hooks"
+import { Checklist, DetectedAnomaly } from "@/features/analytics/types"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Download, FileText, Plus } from "lucide-react"
+import { Download, FileText, ListChecks, Plus } from "lucide-react"
 import { format } from "date-fns"
 
+const severityVariant = { high: "destructive", medium: "secondary", low: "outline" } as const
+
+// Anomalies the model found in a report; each can be turned into a debugging checklist on demand
+function AnomalyList({ anomalies }: { anomalies: DetectedAnomaly[] }) {
+  const { mutate: generateChecklist, isPending, variables } = useGenerateChecklist()
+  const [checklists, setChecklists] = useState<Record<number, Checklist>>({})
+
+  return (
+    <div className="space-y-2 pt-2">
+      <span className="font-medium">Anomalies:</span>
+      {anomalies.map((anomaly, index) => {
+        const where = anomaly.endpoint || anomaly.metric
+        const checklist = checklists[index]
+        return (
+          <div key={index} className="rounded-md border p-2 text-sm space-y-1">
+            <div className="flex items-center gap-2">
+              <Badge variant={severityVariant[anomaly.severity]}>{anomaly.severity}</Badge>
+              <span className="font-medium">{anomaly.type}</span>
+              {where && <span className="text-muted-foreground truncate">{where}</span>}
+            </div>
+            <p className="text-muted-foreground">{anomaly.description}</p>
+            {checklist ? (
+              <ol className="list-decimal pl-5 space-y-0.5">
+                {checklist.steps.map((step, i) => (
+                  <li key={i}>
+                    <span className="text-muted-foreground">{step.phase.replace("_", " ")}:</span> {step.action}
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isPending}
+                onClick={() => generateChecklist(
+                  { component: where || anomaly.type, issue: anomaly.description },
+                  { onSuccess: (result) => setChecklists((current) => ({ ...current, [index]: result })) }
+                )}
+              >
+                <ListChecks className="mr-2 h-4 w-4" />
+                {isPending && variables?.issue === anomaly.description ? "Generating…" : "Checklist"}
+              </Button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
 export default function ReportsPage() {
   const { data: reports, isLoading } = useAllReports()
   const { mutate: generateReport, isPending: isGenerating } = useGenerateReport()
@@ -97,6 +150,7 @@ export default function ReportsPage() {
                     </div>
                   </>
                 )}
+                {!!report.anomalies?.length && <AnomalyList anomalies={report.anomalies} />}
               </div>
             </CardContent>
             <CardFooter className="flex justify-end gap-2">
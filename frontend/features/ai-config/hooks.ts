@@ -97,7 +97,12 @@ export const useActivateConfiguration = () => {
 export const useTestConfiguration = () => {
   return useMutation({
     mutationFn: aiConfigService.testConfiguration,
-    onSuccess: () => {
+    onSuccess: (result) => {
+      // The endpoint reports provider failures in the body rather than as an HTTP error
+      if (result?.success === false) {
+        toast.error(`${MESSAGES.ERROR.CONFIG.TEST}: ${result.message}`)
+        return
+      }
       toast.success(MESSAGES.SUCCESS.CONFIG.TEST)
     },
     onError: () => {
@@ -12,6 +12,8 @@ export interface AIConfiguration {
   apiKey?: string
   baseUrl?: string
   isActive: boolean
+  // Configurations tried in order when this one fails; null = the default Ollama → OpenAI fallback
+  fallbackConfigIds?: string[] | null
   additionalSettings?: Record<string, unknown> | null
   createdAt?: string
   updatedAt?: string
@@ -26,5 +28,10 @@ export interface AIConfigurationTestResponse {
   success: boolean
   message: string
   response?: string
+  modelUsed?: string
+  performance?: {
+    responseTime: number
+    tokenCount: number
+  }
   error?: string
 } 
\ No newline at end of file
@@ -13,7 +13,7 @@ import {
 import { AIConfiguration } from './types'
 import ConfigService from '@/lib/services/config.service'
 
-const ProvidersEnum = z.enum(['openai', 'anthropic', 'ollama', 'huggingface'])
+const ProvidersEnum = z.enum(['openai', 'anthropic', 'ollama', 'huggingface', 'openai-compatible'])
 
 const configFormSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -32,7 +32,8 @@ const configFormSchema = z.object({
   additionalSettings: z.any().nullable(),
 }).superRefine((data, ctx) => {
   const provider = data.modelProvider
-  if (["openai", "anthropic", "huggingface"].includes(provider)) {
+  // HuggingFace tokens are optional: a local text-generation-inference server needs none
+  if (["openai", "anthropic"].includes(provider)) {
     if (!data.apiKey || data.apiKey.trim().length === 0) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
@@ -41,7 +42,14 @@ const configFormSchema = z.object({
       })
     }
   }
-  if (provider === 'ollama' && data.baseUrl && !/^https?:\/\//i.test(data.baseUrl)) {
+  if (provider === 'openai-compatible' && !data.baseUrl?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Base URL is required for OpenAI-compatible servers',
+      path: ['baseUrl'],
+    })
+  }
+  if (provider !== 'openai' && provider !== 'anthropic' && data.baseUrl && !/^https?:\/\//i.test(data.baseUrl)) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
       message: 'Base URL must start with http:// or https://',
@@ -136,7 +144,7 @@ export function useConfigPage() {
 
       const payload: ConfigFormValues = {
         ...data,
-        baseUrl: provider === 'ollama' ? (data.baseUrl?.trim() || '') : undefined as any,
+        baseUrl: ['ollama', 'huggingface', 'openai-compatible'].includes(provider) ? (data.baseUrl?.trim() || '') : undefined as any,
         apiKey: data.apiKey?.trim() || (provider === 'ollama' ? undefined as any : ''),
         additionalSettings: additional as any,
       }
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { analyticsService } from './service'
-import { TimeFrame, PerformanceSummary } from './types'
+import { TimeFrame, PerformanceSummary, UsageGroupBy, UsageSummary, BudgetStatus } from './types'
 import { toast } from 'sonner'
 import { MESSAGES } from '@/lib/constants/messages'
 
@@ -27,6 +27,23 @@ export const usePerformanceSummary = (timeframe: TimeFrame) => {
   })
 }
 
+export const useUsageSummary = (timeframe: TimeFrame, groupBy: UsageGroupBy) => {
+  return useQuery<UsageSummary>({
+    queryKey: ['usageSummary', timeframe, groupBy],
+    queryFn: () => analyticsService.getUsageSummary(timeframe, groupBy),
+    staleTime: 60 * 1000,
+    refetchInterval: 30 * 1000,
+  })
+}
+
+export const useBudgets = () => {
+  return useQuery<BudgetStatus[]>({
+    queryKey: ['budgets'],
+    queryFn: analyticsService.getBudgets,
+    refetchInterval: 30 * 1000,
+  })
+}
+
 export const usePerformanceReport = () => {
   return useQuery({
     queryKey: ['performanceReport'],
@@ -63,6 +80,15 @@ export const useGenerateReport = () => {
   })
 }
 
+export const useGenerateChecklist = () => {
+  return useMutation({
+    mutationFn: analyticsService.generateChecklist,
+    onError: () => {
+      toast.error(MESSAGES.ERROR.REPORTS.CHECKLIST)
+    }
+  })
+}
+
 export const useReportById = (id: string) => {
   return useQuery({
     queryKey: ['report', id],
@@ -1,6 +1,6 @@
 import axiosInstance from '@/lib/api/axios'
 import { API_ENDPOINTS } from '@/lib/constants/endpoints'
-import { PerformanceMetrics, PerformanceMetricsResponse, PerformanceReport, PerformanceReportResponse, SystemHealth, TimeFrame, PerformanceSummary } from './types'
+import { PerformanceMetrics, PerformanceMetricsResponse, PerformanceReport, PerformanceReportResponse, SystemHealth, TimeFrame, PerformanceSummary, UsageGroupBy, UsageSummary, BudgetStatus, Checklist } from './types'
 
 const rangeFromTimeframe = (timeframe: TimeFrame) => {
   const end = new Date()
@@ -52,6 +52,17 @@ export const analyticsService = {
     return response.data?.success ? response.data.data : response.data
   },
 
+  getUsageSummary: async (timeframe: TimeFrame, groupBy: UsageGroupBy): Promise<UsageSummary> => {
+    const response = await axiosInstance.get(API_ENDPOINTS.USAGE.SUMMARY, { params: { ...rangeFromTimeframe(timeframe), groupBy } })
+    return response.data?.success ? response.data.data : response.data
+  },
+
+  getBudgets: async (): Promise<BudgetStatus[]> => {
+    const response = await axiosInstance.get(API_ENDPOINTS.USAGE.BUDGETS)
+    const payload = response.data?.success ? response.data.data : response.data
+    return payload?.data || []
+  },
+
   getHealth: async (): Promise<SystemHealth> => {
     const response = await axiosInstance.get(API_ENDPOINTS.REPORTS.HEALTH)
     return response.data?.success ? response.data.data : response.data
@@ -67,6 +78,12 @@ export const analyticsService = {
     return response.data
   },
 
+  generateChecklist: async (params: { component: string; issue: string }): Promise<Checklist> => {
+    const response = await axiosInstance.post(API_ENDPOINTS.CHAT.CHECKLIST, params)
+    const payload = response.data?.success ? response.data.data : response.data
+    return payload.result
+  },
+
   getReportById: async (id: string): Promise<PerformanceReport> => {
     const response = await axiosInstance.get(API_ENDPOINTS.REPORTS.BY_ID(id))
     return response.data
@@ -59,12 +59,38 @@ export interface PerformanceMetricsResponse {
   data: PerformanceMetrics
 }
 
+export interface DetectedAnomaly {
+  type: string
+  description: string
+  severity: 'low' | 'medium' | 'high'
+  endpoint?: string
+  metric?: string
+  timestamp?: string
+  likelyCause?: string
+  recommendedAction?: string
+}
+
+export type ChecklistPhase = 'assessment' | 'data_collection' | 'analysis' | 'testing' | 'resolution' | 'prevention'
+
+export interface ChecklistStep {
+  phase: ChecklistPhase
+  action: string
+  details?: string
+}
+
+export interface Checklist {
+  title: string
+  steps: ChecklistStep[]
+}
+
 export interface PerformanceReport {
   id: string
   createdAt: string
   metrics: PerformanceMetrics
   summary: string
   status: 'completed' | 'pending' | 'failed'
+  // Anomalies the model found in the report's data (empty when it was unavailable)
+  anomalies?: DetectedAnomaly[]
 }
 
 export interface PerformanceReportResponse {
@@ -82,4 +108,44 @@ export interface SystemHealth {
   timestamp: string
 }
 
-export type TimeFrame = '24h' | '7d' | '30d'
\ No newline at end of file
+export type TimeFrame = '24h' | '7d' | '30d'
+
+export type UsageGroupBy = 'day' | 'config' | 'model' | 'session' | 'purpose'
+
+export interface UsageTotals {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  // USD
+  cost: number
+  // Calls whose token counts were estimated because the provider reported none
+  estimatedRequests: number
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string
+  label: string
+}
+
+export interface UsageSummary {
+  startDate: string
+  endDate: string
+  groupBy: UsageGroupBy
+  totals: UsageTotals
+  groups: UsageGroup[]
+  unpricedModels: string[]
+}
+
+export interface BudgetStatus {
+  scope: 'global' | 'configuration'
+  configId?: string
+  name?: string
+  month: string
+  limitUsd: number
+  spentUsd: number
+  remainingUsd: number
+  exceeded: boolean
+  action: 'block' | 'downgrade'
+  downgradeConfigId?: string
+}
\ No newline at end of file
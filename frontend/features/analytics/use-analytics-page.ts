@@ -1,11 +1,12 @@
 import { useEffect, useState } from 'react'
 import { useAnalytics } from './hooks'
-import { TimeFrame } from './types'
+import { TimeFrame, UsageGroupBy } from './types'
 import { toast } from 'sonner'
 import { MESSAGES } from '@/lib/constants/messages'
 
 export function useAnalyticsPage() {
   const [timeframe, setTimeframe] = useState<TimeFrame>('24h')
+  const [usageGroupBy, setUsageGroupBy] = useState<UsageGroupBy>('day')
   
   const { 
     data: metrics,
@@ -22,11 +23,13 @@ export function useAnalyticsPage() {
   return {
     // State
     timeframe,
+    usageGroupBy,
     metrics,
     isLoading,
     error,
 
     // Actions
     setTimeframe,
+    setUsageGroupBy,
   }
 }
\ No newline at end of file
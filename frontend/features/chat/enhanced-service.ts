@@ -1,8 +1,26 @@
 // Enhanced chat service that can route to local Ollama or backend
-import axiosInstance from '@/lib/api/axios'
+import axiosInstance, { resolveApiBaseUrl } from '@/lib/api/axios'
 import { API_ENDPOINTS } from '@/lib/constants/endpoints'
 import { ollamaService } from '@/lib/services/ollama.service'
-import { ChatAnalytics, ChatAnomalies, ChatHistory, ChatSession, KnowledgeBase, KnowledgeBaseResponse, SendMessageResponse } from './types'
+import {
+  ChatAnalytics,
+  ChatAnomalies,
+  ChatHistory,
+  ChatSession,
+  ChatStreamResult,
+  KnowledgeBase,
+  KnowledgeBaseResponse,
+  KnowledgeChunkPage,
+  KnowledgeDocumentContent,
+  KnowledgeSearchResponse,
+  KnowledgeCollection,
+  KnowledgeCollectionResponse,
+  KnowledgeScope,
+  RagStatus,
+  SendMessageResponse,
+  SessionMemory,
+  ToolInvocation,
+} from './types'
 
 interface AIConfiguration {
   id: string
@@ -18,6 +36,28 @@ interface AIConfiguration {
   isActive: boolean
 }
 
+interface OllamaChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// Parse one Server-Sent Events block ("event: x\ndata: y"); comment-only blocks (heartbeats) yield null
+const parseSseEvent = (block: string): { event: string; data: string } | null => {
+  let event = 'message'
+  const data: string[] = []
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim()
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+  }
+  return data.length ? { event, data: data.join('\n') } : null
+}
+
+// Only non-empty lists are sent: an empty scope means the whole knowledge base
+const scopePayload = (scope: KnowledgeScope): KnowledgeScope => ({
+  ...(scope.collectionIds?.length ? { collectionIds: scope.collectionIds } : {}),
+  ...(scope.documentIds?.length ? { documentIds: scope.documentIds } : {}),
+})
+
 export const enhancedChatService = {
   // Get the active configuration to determine routing
   getActiveConfiguration: async (): Promise<AIConfiguration | null> => {
@@ -31,14 +71,14 @@ export const enhancedChatService = {
   },
 
   // Send message with intelligent routing
-  sendMessage: async (message: string, sessionId?: string, ragMode?: boolean): Promise<SendMessageResponse> => {
+  sendMessage: async (message: string, sessionId?: string, ragMode?: boolean, scope?: KnowledgeScope): Promise<SendMessageResponse> => {
     // Always ensure a client-provided sessionId to allow polling fallback
     const ensuredSessionId = sessionId || `sess-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
 
     // If RAG mode is enabled, always use backend regardless of provider
     if (ragMode) {
       console.log('RAG mode enabled, routing to backend for knowledge base access')
-      return await enhancedChatService.sendMessageToBackend(message, ensuredSessionId, ragMode)
+      return await enhancedChatService.sendMessageToBackend(message, ensuredSessionId, ragMode, scope)
     }
 
     // Get active configuration to determine routing
@@ -53,6 +93,28 @@ export const enhancedChatService = {
     }
   },
 
+  // Same routing as sendMessage, but backend replies are streamed token-by-token through onToken,
+  // and the tools the assistant calls through onToolCall as they complete
+  streamMessage: async (
+    message: string,
+    sessionId: string | undefined,
+    ragMode: boolean | undefined,
+    onToken: (token: string) => void,
+    scope?: KnowledgeScope,
+    onToolCall?: (invocation: ToolInvocation) => void
+  ): Promise<SendMessageResponse> => {
+    const ensuredSessionId = sessionId || `sess-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+    if (!ragMode) {
+      const activeConfig = await enhancedChatService.getActiveConfiguration()
+      if (activeConfig?.modelProvider === 'ollama') {
+        return await enhancedChatService.sendMessageToOllama(message, activeConfig, ensuredSessionId)
+      }
+    }
+
+    return await enhancedChatService.streamMessageFromBackend(message, ensuredSessionId, ragMode, onToken, scope, onToolCall)
+  },
+
   // Send message to user's local Ollama
   sendMessageToOllama: async (
     message: string, 
@@ -72,37 +134,35 @@ export const enhancedChatService = {
         return await enhancedChatService.sendMessageToBackend(message, sessionId, false)
       }
 
-      // Build prompt including prior conversation if we have a session
-      let conversationContext = ''
+      // Replay prior turns of this session as chat messages
+      const messages: OllamaChatMessage[] = config.systemPrompt ? [{ role: 'system', content: config.systemPrompt }] : []
       const currentSessionId = sessionId || `ollama-session-${Date.now()}`
       try {
         const historyRes = await axiosInstance.get(API_ENDPOINTS.CHAT.HISTORY(currentSessionId))
         const backendData = historyRes.data
         const records = (backendData.success ? backendData.data : backendData) as Array<any>
-        if (Array.isArray(records) && records.length > 0) {
-          conversationContext = '\n\nPrevious conversation:\n'
+        if (Array.isArray(records)) {
           records.forEach((entry: any) => {
-            conversationContext += `\nUser: ${entry.userMessage}\nAssistant: ${entry.assistantResponse}\n`
+            messages.push({ role: 'user', content: entry.userMessage })
+            messages.push({ role: 'assistant', content: entry.assistantResponse })
           })
-          conversationContext += '\nCurrent user message:\n'
         }
       } catch (e) {
         console.warn('Failed to load conversation history for local prompt context:', e)
       }
-
-      const fullPrompt = (config.systemPrompt ? `${config.systemPrompt}\n\n` : '') + conversationContext + `User: ${message}\nAssistant:`
+      messages.push({ role: 'user', content: message })
 
       let ollamaUrl = config.baseUrl || 'http://localhost:11434'
       if (ollamaUrl.includes('pagekite.me') && ollamaUrl.startsWith('http://')) {
         ollamaUrl = ollamaUrl.replace('http://', 'https://')
       }
-      const response = await fetch(`${ollamaUrl}/api/generate`, {
+      const response = await fetch(`${ollamaUrl}/api/chat`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'omit',
         body: JSON.stringify({
           model: config.modelName,
-          prompt: fullPrompt,
+          messages,
           options: {
             temperature: config.temperature,
             top_p: config.topP,
@@ -117,13 +177,14 @@ export const enhancedChatService = {
       }
 
       const data = await response.json()
+      const reply: string = data.message?.content ?? ''
 
       // Persist the conversation to backend via dedicated endpoint
       try {
         await axiosInstance.post(API_ENDPOINTS.CHAT.SAVE_HISTORY, {
           sessionId: currentSessionId,
           userMessage: message,
-          assistantResponse: data.response,
+          assistantResponse: reply,
           model: `ollama:${config.modelName}`,
           configId: config.id,
         })
@@ -134,7 +195,7 @@ export const enhancedChatService = {
       return {
         message: {
           role: 'assistant' as const,
-          content: data.response,
+          content: reply,
           timestamp: new Date().toISOString(),
           sessionId: currentSessionId
         },
@@ -151,11 +212,13 @@ export const enhancedChatService = {
   sendMessageToBackend: async (
     message: string, 
     sessionId?: string, 
-    ragMode?: boolean
+    ragMode?: boolean,
+    scope?: KnowledgeScope
   ): Promise<SendMessageResponse> => {
     const payload: any = { message }
     if (sessionId) payload.sessionId = sessionId
     if (ragMode !== undefined) payload.ragMode = ragMode
+    if (ragMode && scope) Object.assign(payload, scopePayload(scope))
     
     console.log('Frontend service: Sending payload to backend:', payload)
 
@@ -168,7 +231,11 @@ export const enhancedChatService = {
           role: 'assistant' as const,
           content: actualData.response,
           timestamp: new Date().toISOString(),
-          sessionId: actualData.sessionId
+          sessionId: actualData.sessionId,
+          sources: actualData.sources,
+          grounding: actualData.grounding,
+          ragPolicy: actualData.ragPolicy,
+          toolCalls: actualData.toolCalls
         },
         sessionId: actualData.sessionId
       }
@@ -177,38 +244,130 @@ export const enhancedChatService = {
       console.warn('Backend POST failed, attempting history polling fallback...', err?.message || err)
       if (!sessionId) throw err
 
-      // Poll conversation history for up to ~45s
-      const start = Date.now()
-      const pollDelay = (ms: number) => new Promise(res => setTimeout(res, ms))
-      let lastCount = 0
-      while (Date.now() - start < 45000) {
-        try {
-          const res = await axiosInstance.get(API_ENDPOINTS.CHAT.HISTORY(sessionId))
-          const backendData = res.data
-          const records = (backendData.success ? backendData.data : backendData) as Array<any>
-          if (Array.isArray(records) && records.length > 0) {
-            // Find the latest assistant message
-            const last = records[records.length - 1]
-            if (last && last.assistantResponse && records.length !== lastCount) {
-              return {
-                message: {
-                  role: 'assistant',
-                  content: last.assistantResponse,
-                  timestamp: last.createdAt || new Date().toISOString(),
-                  sessionId
-                },
-                sessionId
-              }
-            }
-            lastCount = records.length
-          }
-        } catch {}
-        await pollDelay(3000)
+      const reply = await enhancedChatService.waitForHistoryReply(sessionId, message)
+      if (reply) return reply
+      throw err
+    }
+  },
+
+  // Stream a reply from the backend over Server-Sent Events (POST /chat/stream)
+  streamMessageFromBackend: async (
+    message: string,
+    sessionId: string,
+    ragMode: boolean | undefined,
+    onToken: (token: string) => void,
+    scope?: KnowledgeScope,
+    onToolCall?: (invocation: ToolInvocation) => void
+  ): Promise<SendMessageResponse> => {
+    const payload: Record<string, unknown> = { message, sessionId }
+    if (ragMode !== undefined) payload.ragMode = ragMode
+    if (ragMode && scope) Object.assign(payload, scopePayload(scope))
+
+    let accepted = false
+    try {
+      const baseUrl = await resolveApiBaseUrl()
+      const response = await fetch(`${baseUrl || ''}${API_ENDPOINTS.CHAT.STREAM}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify(payload),
+      })
+      if (!response.ok || !response.body) {
+        throw new Error(`Stream request failed: ${response.status} ${response.statusText}`)
+      }
+      accepted = true
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+      let result: ChatStreamResult | null = null
+
+      while (!result) {
+        const { value, done } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+
+        let boundary = buffer.indexOf('\n\n')
+        while (boundary >= 0) {
+          const parsed = parseSseEvent(buffer.slice(0, boundary))
+          buffer = buffer.slice(boundary + 2)
+          boundary = buffer.indexOf('\n\n')
+          if (!parsed) continue
+
+          const data = JSON.parse(parsed.data)
+          if (parsed.event === 'token') onToken(data.content)
+          else if (parsed.event === 'tool') onToolCall?.(data as ToolInvocation)
+          else if (parsed.event === 'done') result = data as ChatStreamResult
+          else if (parsed.event === 'error') throw new Error(data.message || 'Streaming failed')
+        }
+      }
+
+      if (!result) throw new Error('Stream closed before the response completed')
+
+      return {
+        message: {
+          role: 'assistant' as const,
+          content: result.response,
+          timestamp: new Date().toISOString(),
+          sessionId: result.sessionId,
+          sources: result.sources,
+          grounding: result.grounding,
+          ragPolicy: result.ragPolicy,
+          toolCalls: result.toolCalls
+        },
+        sessionId: result.sessionId
+      }
+    } catch (err) {
+      // Nothing reached the server: retry through the blocking endpoint
+      if (!accepted) {
+        console.warn('Chat stream unavailable, falling back to blocking request...', err)
+        return await enhancedChatService.sendMessageToBackend(message, sessionId, ragMode, scope)
       }
+
+      // The server keeps generating after a dropped connection and saves the reply to history
+      console.warn('Chat stream interrupted, attempting history polling fallback...', err)
+      const reply = await enhancedChatService.waitForHistoryReply(sessionId, message)
+      if (reply) return reply
       throw err
     }
   },
 
+  // Poll conversation history for the assistant reply of a request whose connection was lost
+  waitForHistoryReply: async (sessionId: string, userMessage: string): Promise<SendMessageResponse | null> => {
+    // Poll conversation history for up to ~45s
+    const start = Date.now()
+    const pollDelay = (ms: number) => new Promise(res => setTimeout(res, ms))
+    let lastCount = 0
+    while (Date.now() - start < 45000) {
+      try {
+        const res = await axiosInstance.get(API_ENDPOINTS.CHAT.HISTORY(sessionId))
+        const backendData = res.data
+        const records = (backendData.success ? backendData.data : backendData) as Array<any>
+        if (Array.isArray(records) && records.length > 0) {
+          // Find the latest assistant message for the message we sent
+          const last = records[records.length - 1]
+          if (last && last.assistantResponse && last.userMessage === userMessage && records.length !== lastCount) {
+            return {
+              message: {
+                role: 'assistant',
+                content: last.assistantResponse,
+                timestamp: last.createdAt || new Date().toISOString(),
+                sessionId,
+                sources: last.metadata?.sources,
+                grounding: last.metadata?.grounding,
+                ragPolicy: last.metadata?.ragPolicy,
+                toolCalls: last.metadata?.toolCalls
+              },
+              sessionId
+            }
+          }
+          lastCount = records.length
+        }
+      } catch {}
+      await pollDelay(3000)
+    }
+    return null
+  },
+
   // Existing methods from original service
   getChatHistory: async (sessionId: string): Promise<ChatHistory> => {
     console.log('Service: Getting chat history for sessionId:', sessionId)
@@ -225,7 +384,7 @@ export const enhancedChatService = {
     
     const messages: ChatHistory['messages'] = records.flatMap((entry: any) => [
       { id: `${entry.id}-user`, role: 'user' as const, content: entry.userMessage, timestamp: entry.createdAt, sessionId },
-      { id: `${entry.id}-assistant`, role: 'assistant' as const, content: entry.assistantResponse, timestamp: entry.createdAt, sessionId }
+      { id: `${entry.id}-assistant`, role: 'assistant' as const, content: entry.assistantResponse, timestamp: entry.createdAt, sessionId, sources: entry.metadata?.sources, grounding: entry.metadata?.grounding, ragPolicy: entry.metadata?.ragPolicy, toolCalls: entry.metadata?.toolCalls }
     ])
     
     console.log('Service: Processed messages:', messages)
@@ -237,6 +396,13 @@ export const enhancedChatService = {
     return response.data
   },
 
+  // Null until the session has grown past its token budget and older turns were summarized
+  getSessionMemory: async (sessionId: string): Promise<SessionMemory | null> => {
+    const response = await axiosInstance.get(API_ENDPOINTS.CHAT.SESSION_MEMORY(sessionId))
+    const backendData = response.data
+    return (backendData?.success ? backendData.data : backendData) ?? null
+  },
+
   deleteHistory: async (sessionId: string): Promise<void> => {
     await axiosInstance.delete(API_ENDPOINTS.CHAT.DELETE_HISTORY(sessionId))
   },
@@ -251,9 +417,10 @@ export const enhancedChatService = {
     return response.data
   },
 
-  uploadKnowledge: async (file: File): Promise<KnowledgeBase> => {
+  uploadKnowledge: async ({ file, collectionId }: { file: File; collectionId?: string }): Promise<KnowledgeBase> => {
     const formData = new FormData()
     formData.append('file', file)
+    if (collectionId) formData.append('collectionId', collectionId)
     
     const response = await axiosInstance.post(API_ENDPOINTS.CHAT.UPLOAD_KNOWLEDGE, formData, {
       headers: {
@@ -264,17 +431,76 @@ export const enhancedChatService = {
     return backendData.success ? backendData.data : backendData
   },
 
+  // Replaces the document's content; the previous version is kept in its history
+  uploadKnowledgeVersion: async ({ id, file }: { id: string; file: File }): Promise<KnowledgeBase> => {
+    const formData = new FormData()
+    formData.append('file', file)
+
+    const response = await axiosInstance.post(API_ENDPOINTS.CHAT.KNOWLEDGE_VERSIONS(id), formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    })
+    const backendData = response.data
+    return backendData.success ? backendData.data : backendData
+  },
+
   getKnowledgeBase: async (): Promise<KnowledgeBaseResponse> => {
     const response = await axiosInstance.get(API_ENDPOINTS.CHAT.KNOWLEDGE)
     const backendData = response.data
     return backendData.success ? backendData.data : backendData
   },
 
+  getKnowledgeContent: async (id: string): Promise<KnowledgeDocumentContent> => {
+    const response = await axiosInstance.get(API_ENDPOINTS.CHAT.KNOWLEDGE_CONTENT(id))
+    const backendData = response.data
+    return backendData.success ? backendData.data : backendData
+  },
+
+  getKnowledgeChunks: async (id: string, page: { offset?: number; limit?: number } = {}): Promise<KnowledgeChunkPage> => {
+    const response = await axiosInstance.get(API_ENDPOINTS.CHAT.KNOWLEDGE_CHUNKS(id), { params: page })
+    const backendData = response.data
+    return backendData.success ? backendData.data : backendData
+  },
+
+  searchKnowledge: async (params: { q: string; collectionId?: string; documentId?: string; limit?: number }): Promise<KnowledgeSearchResponse> => {
+    const response = await axiosInstance.get(API_ENDPOINTS.CHAT.KNOWLEDGE_SEARCH, { params })
+    const backendData = response.data
+    return backendData.success ? backendData.data : backendData
+  },
+
+  // RAG policy decision for the active configuration, part of the health report
+  getRagStatus: async (): Promise<RagStatus> => {
+    const response = await axiosInstance.get(API_ENDPOINTS.HEALTH.BASE)
+    const backendData = response.data
+    return (backendData.success ? backendData.data : backendData).rag
+  },
+
   deleteKnowledge: async (id: string): Promise<void> => {
     await axiosInstance.delete(API_ENDPOINTS.CHAT.KNOWLEDGE_BY_ID(id))
   },
 
+  retryKnowledge: async (id: string): Promise<void> => {
+    await axiosInstance.post(API_ENDPOINTS.CHAT.RETRY_KNOWLEDGE(id))
+  },
+
   clearKnowledge: async (): Promise<void> => {
     await axiosInstance.post(API_ENDPOINTS.CHAT.CLEAR_KNOWLEDGE)
+  },
+
+  getKnowledgeCollections: async (): Promise<KnowledgeCollectionResponse> => {
+    const response = await axiosInstance.get(API_ENDPOINTS.CHAT.KNOWLEDGE_COLLECTIONS)
+    const backendData = response.data
+    return backendData.success ? backendData.data : backendData
+  },
+
+  createKnowledgeCollection: async (collection: { name: string; description?: string }): Promise<KnowledgeCollection> => {
+    const response = await axiosInstance.post(API_ENDPOINTS.CHAT.KNOWLEDGE_COLLECTIONS, collection)
+    const backendData = response.data
+    return backendData.success ? backendData.data : backendData
+  },
+
+  deleteKnowledgeCollection: async (id: string): Promise<void> => {
+    await axiosInstance.delete(API_ENDPOINTS.CHAT.KNOWLEDGE_COLLECTION_BY_ID(id))
   }
 }
@@ -1,7 +1,9 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { enhancedChatService } from './enhanced-service'
 import { toast } from 'sonner'
+import { isAxiosError } from 'axios'
 import { MESSAGES } from '@/lib/constants/messages'
+import { KnowledgeScope, ToolInvocation } from './types'
 
 export const useChatHistory = (sessionId: string) => {
   return useQuery({
@@ -23,14 +25,33 @@ export const useChatSessions = () => {
   })
 }
 
+export const useSessionMemory = (sessionId: string) => {
+  return useQuery({
+    queryKey: ['sessionMemory', sessionId],
+    queryFn: () => enhancedChatService.getSessionMemory(sessionId),
+    enabled: !!sessionId,
+    retry: 1,
+  })
+}
+
 export const useSendMessage = () => {
   const queryClient = useQueryClient()
   
   return useMutation({
-    mutationFn: ({ message, sessionId, ragMode }: { message: string; sessionId?: string; ragMode?: boolean }) => 
-      enhancedChatService.sendMessage(message, sessionId, ragMode),
+    mutationFn: ({ message, sessionId, ragMode, onToken, onToolCall, scope }: {
+      message: string
+      sessionId?: string
+      ragMode?: boolean
+      onToken?: (token: string) => void
+      onToolCall?: (invocation: ToolInvocation) => void
+      scope?: KnowledgeScope
+    }) =>
+      onToken
+        ? enhancedChatService.streamMessage(message, sessionId, ragMode, onToken, scope, onToolCall)
+        : enhancedChatService.sendMessage(message, sessionId, ragMode, scope),
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ['chatHistory', data.sessionId] })
+      queryClient.invalidateQueries({ queryKey: ['sessionMemory', data.sessionId] })
       queryClient.invalidateQueries({ queryKey: ['chatSessions'] })
       toast.success(MESSAGES.SUCCESS.CHAT.SEND)
     },
@@ -48,6 +69,7 @@ export const useDeleteHistory = () => {
     mutationFn: enhancedChatService.deleteHistory,
     onSuccess: (_, sessionId) => {
       queryClient.invalidateQueries({ queryKey: ['chatHistory', sessionId] })
+      queryClient.invalidateQueries({ queryKey: ['sessionMemory', sessionId] })
       queryClient.invalidateQueries({ queryKey: ['chatSessions'] })
       toast.success(MESSAGES.SUCCESS.CHAT.DELETE)
     },
@@ -74,7 +96,43 @@ export const useChatAnomalies = () => {
 export const useKnowledgeBase = () => {
   return useQuery({
     queryKey: ['knowledgeBase'],
-    queryFn: enhancedChatService.getKnowledgeBase
+    queryFn: enhancedChatService.getKnowledgeBase,
+    // Poll while documents are being ingested in the background
+    refetchInterval: (query) =>
+      query.state.data?.data?.some((file) => file.status === 'processing') ? 2000 : false
+  })
+}
+
+export const useKnowledgeContent = (id: string | null) => {
+  return useQuery({
+    queryKey: ['knowledgeContent', id],
+    queryFn: () => enhancedChatService.getKnowledgeContent(id as string),
+    enabled: !!id
+  })
+}
+
+export const useKnowledgeChunks = (id: string | null, page: { offset: number; limit: number }) => {
+  return useQuery({
+    queryKey: ['knowledgeChunks', id, page.offset, page.limit],
+    queryFn: () => enhancedChatService.getKnowledgeChunks(id as string, page),
+    enabled: !!id
+  })
+}
+
+export const useKnowledgeSearch = (params: { q: string; collectionId?: string; documentId?: string }) => {
+  return useQuery({
+    queryKey: ['knowledgeSearch', params],
+    queryFn: () => enhancedChatService.searchKnowledge(params),
+    enabled: params.q.trim().length > 0
+  })
+}
+
+// Re-evaluated when the active configuration changes, since per-config rules and the provider affect it
+export const useRagStatus = (configId: string | undefined, enabled: boolean) => {
+  return useQuery({
+    queryKey: ['ragStatus', configId],
+    queryFn: enhancedChatService.getRagStatus,
+    enabled
   })
 }
 
@@ -85,10 +143,44 @@ export const useUploadKnowledge = () => {
     mutationFn: enhancedChatService.uploadKnowledge,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['knowledgeBase'] })
+      queryClient.invalidateQueries({ queryKey: ['knowledgeCollections'] })
       toast.success(MESSAGES.SUCCESS.CHAT.UPLOAD_KNOWLEDGE)
     },
+    onError: (error) => {
+      // e.g. a duplicate of an existing document (409) names that document; an oversized one (413) the policy limit
+      const serverMessage = isAxiosError(error) ? error.response?.data?.error?.message : undefined
+      toast.error(serverMessage || MESSAGES.ERROR.CHAT.UPLOAD_KNOWLEDGE)
+    }
+  })
+}
+
+export const useUploadKnowledgeVersion = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: enhancedChatService.uploadKnowledgeVersion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledgeBase'] })
+      toast.success(MESSAGES.SUCCESS.CHAT.UPLOAD_KNOWLEDGE_VERSION)
+    },
+    onError: (error) => {
+      const serverMessage = isAxiosError(error) ? error.response?.data?.error?.message : undefined
+      toast.error(serverMessage || MESSAGES.ERROR.CHAT.UPLOAD_KNOWLEDGE_VERSION)
+    }
+  })
+}
+
+export const useRetryKnowledge = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: enhancedChatService.retryKnowledge,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledgeBase'] })
+      toast.success(MESSAGES.SUCCESS.CHAT.RETRY_KNOWLEDGE)
+    },
     onError: () => {
-      toast.error(MESSAGES.ERROR.CHAT.UPLOAD_KNOWLEDGE)
+      toast.error(MESSAGES.ERROR.CHAT.RETRY_KNOWLEDGE)
     }
   })
 }
@@ -100,6 +192,7 @@ export const useDeleteKnowledge = () => {
     mutationFn: enhancedChatService.deleteKnowledge,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['knowledgeBase'] })
+      queryClient.invalidateQueries({ queryKey: ['knowledgeCollections'] })
       toast.success(MESSAGES.SUCCESS.CHAT.DELETE_KNOWLEDGE)
     },
     onError: () => {
@@ -115,10 +208,51 @@ export const useClearKnowledge = () => {
     mutationFn: enhancedChatService.clearKnowledge,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['knowledgeBase'] })
+      queryClient.invalidateQueries({ queryKey: ['knowledgeCollections'] })
       toast.success(MESSAGES.SUCCESS.CHAT.CLEAR_KNOWLEDGE)
     },
     onError: () => {
       toast.error(MESSAGES.ERROR.CHAT.CLEAR_KNOWLEDGE)
     }
   })
-} 
\ No newline at end of file
+} 
+
+export const useKnowledgeCollections = () => {
+  return useQuery({
+    queryKey: ['knowledgeCollections'],
+    queryFn: enhancedChatService.getKnowledgeCollections
+  })
+}
+
+export const useCreateKnowledgeCollection = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: enhancedChatService.createKnowledgeCollection,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledgeCollections'] })
+      toast.success(MESSAGES.SUCCESS.CHAT.CREATE_COLLECTION)
+    },
+    onError: (error) => {
+      // e.g. a duplicate name (409) carries the server's explanation
+      const serverMessage = isAxiosError(error) ? error.response?.data?.error?.message : undefined
+      toast.error(serverMessage || MESSAGES.ERROR.CHAT.CREATE_COLLECTION)
+    }
+  })
+}
+
+export const useDeleteKnowledgeCollection = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: enhancedChatService.deleteKnowledgeCollection,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledgeCollections'] })
+      queryClient.invalidateQueries({ queryKey: ['knowledgeBase'] })
+      toast.success(MESSAGES.SUCCESS.CHAT.DELETE_COLLECTION)
+    },
+    onError: () => {
+      toast.error(MESSAGES.ERROR.CHAT.DELETE_COLLECTION)
+    }
+  })
+}
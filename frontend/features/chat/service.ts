@@ -52,7 +52,7 @@ export const chatService = {
     // Flatten each conversation record into separate user and assistant messages
     const messages: ChatHistory['messages'] = records.flatMap((entry: any) => [
       { id: `${entry.id}-user`, role: 'user' as const, content: entry.userMessage, timestamp: entry.createdAt, sessionId },
-      { id: `${entry.id}-assistant`, role: 'assistant' as const, content: entry.assistantResponse, timestamp: entry.createdAt, sessionId }
+      { id: `${entry.id}-assistant`, role: 'assistant' as const, content: entry.assistantResponse, timestamp: entry.createdAt, sessionId, sources: entry.metadata?.sources, grounding: entry.metadata?.grounding, ragPolicy: entry.metadata?.ragPolicy, toolCalls: entry.metadata?.toolCalls }
     ])
     
     console.log('Service: Processed messages:', messages)
@@ -1,9 +1,84 @@
+// Knowledge base excerpt an assistant answer cites as [index]
+export interface ChatSource {
+  index: number
+  documentId: string
+  documentName: string
+  chunkId: string
+  chunkIndex: number
+  startOffset: number
+  endOffset: number
+  sectionPath?: string | null
+  score: number
+  excerpt: string
+}
+
+// Verdict on one sentence of a RAG answer; start/end are offsets into the message content
+export interface GroundedSentence {
+  start: number
+  end: number
+  text: string
+  coverage: number
+  supported: boolean
+  sourceIndexes: number[]
+  method: 'lexical' | 'judge'
+}
+
+export interface Grounding {
+  // Share of checked sentences the excerpts support; null when none could be checked
+  score: number | null
+  judged: boolean
+  sentences: GroundedSentence[]
+  // The model answer was replaced by quoted excerpts; sentences refer to the replaced answer
+  replaced?: boolean
+}
+
+export interface RagPolicyReason {
+  code: 'rag-disabled-by-policy' | 'provider-not-allowed' | 'provider-unreachable'
+  message: string
+}
+
+// Why a RAG answer was not produced by the model as usual
+export interface RagPolicyNotice {
+  environment: string
+  status: 'enabled' | 'degraded' | 'disabled'
+  reasons: RagPolicyReason[]
+}
+
+// RAG policy in effect for the active configuration, as reported by GET /health
+export interface RagStatus extends RagPolicyNotice {
+  configId?: string
+  provider?: string
+  policy: {
+    enabled: boolean
+    maxDocumentBytes: number
+    maxContextChars: number
+    allowedProviders: string[]
+    localProvidersReachable: boolean
+    fallback: 'extractive' | 'notice'
+    notice: string
+  }
+}
+
+// A tool the assistant called (live metrics, health, knowledge search) before answering
+export interface ToolInvocation {
+  name: string
+  arguments: Record<string, unknown>
+  result?: unknown
+  // Set instead of result when the call failed
+  error?: string
+  durationMs: number
+}
+
 export interface Message {
   id?: string
   role: 'user' | 'assistant'
   content: string
   timestamp: string
   sessionId?: string
+  sources?: ChatSource[]
+  grounding?: Grounding
+  ragPolicy?: RagPolicyNotice
+  toolCalls?: ToolInvocation[]
 }
 
 export interface ChatSession {
@@ -13,6 +88,15 @@ export interface ChatSession {
   messageCount: number
 }
 
+// Rolling summary that stands in for the older turns of a session
+export interface SessionMemory {
+  sessionId: string
+  summary: string | null
+  summarizedTurns: number
+  summaryTokens: number
+  updatedAt: string
+}
+
 export interface ChatHistory {
   sessionId: string
   messages: Message[]
@@ -24,7 +108,17 @@ export interface KnowledgeBase {
   type: string
   size: number
   uploadedAt: string
-  status: 'processing' | 'ready' | 'error'
+  status: 'processing' | 'ready' | 'unreadable' | 'error'
+  // Ingestion pipeline position while processing (or where it failed)
+  stage?: 'queued' | 'parsing' | 'cleaning' | 'chunking' | 'indexing' | null
+  progress?: number
+  error?: string | null
+  chunkCount?: number
+  chunkingStrategy?: string | null
+  // Incremented by each new version upload
+  version?: number
+  contentHash?: string | null
+  collectionId?: string | null
 }
 
 export interface KnowledgeBaseResponse {
@@ -32,11 +126,103 @@ export interface KnowledgeBaseResponse {
   total: number
 }
 
+// Extracted text of a document (Markdown for converted formats); chunk offsets index into content
+export interface KnowledgeDocumentContent {
+  id: string
+  name: string
+  type: string
+  status: KnowledgeBase['status']
+  version: number
+  chunkCount: number
+  chunkingStrategy: string | null
+  chunkSize: number | null
+  chunkOverlap: number | null
+  uploadedAt: string
+  length: number
+  content: string
+}
+
+export interface KnowledgeChunk {
+  id: string
+  chunkIndex: number
+  startOffset: number
+  endOffset: number
+  sectionPath: string | null
+  length: number
+  embeddingModel: string | null
+  content: string
+}
+
+export interface KnowledgeChunkPage {
+  data: KnowledgeChunk[]
+  total: number
+  offset: number
+}
+
+export interface KnowledgeSearchHit {
+  chunkId: string
+  documentId: string
+  documentName: string
+  chunkIndex: number
+  startOffset: number
+  endOffset: number
+  sectionPath: string | null
+  score: number
+  bm25Score?: number
+  vectorScore?: number
+  content: string
+  // Query term occurrences within content
+  highlights: { start: number; end: number }[]
+}
+
+export interface KnowledgeSearchResponse {
+  query: string
+  mode: 'hybrid' | 'bm25' | 'vector'
+  data: KnowledgeSearchHit[]
+  total: number
+}
+
+// Named group of knowledge documents with its default chunking settings
+export interface KnowledgeCollection {
+  id: string
+  name: string
+  description: string | null
+  chunkingStrategy: string | null
+  chunkSize: number | null
+  chunkOverlap: number | null
+  documentCount: number
+  createdAt: string
+}
+
+export interface KnowledgeCollectionResponse {
+  data: KnowledgeCollection[]
+  total: number
+}
+
+// Limits RAG to these collections/documents; empty means the whole knowledge base
+export interface KnowledgeScope {
+  collectionIds?: string[]
+  documentIds?: string[]
+}
+
 export interface SendMessageResponse {
   message: Message
   sessionId: string
 }
 
+// Payload of the final "done" event sent by POST /chat/stream
+export interface ChatStreamResult {
+  response: string
+  sessionId: string
+  responseTime: number
+  tokenCount: number
+  configId?: string
+  sources?: ChatSource[]
+  grounding?: Grounding
+  ragPolicy?: RagPolicyNotice
+  toolCalls?: ToolInvocation[]
+}
+
 export interface ChatAnalytics {
   totalMessages: number
   averageResponseTime: number
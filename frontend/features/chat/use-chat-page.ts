@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react'
-import { useChatHistory, useSendMessage } from './hooks'
+import { useChatHistory, useRagStatus, useSendMessage, useSessionMemory } from './hooks'
 import { useActiveConfiguration } from '../ai-config/hooks'
-import { Message } from './types'
+import { Message, ToolInvocation } from './types'
 
 export function useChatPage() {
   // Load sessionId from localStorage on mount (avoiding SSR issues)
@@ -10,6 +10,12 @@ export function useChatPage() {
   const [newMessage, setNewMessage] = useState('')
   const [localMessages, setLocalMessages] = useState<Message[]>([])
   const [ragMode, setRagMode] = useState(false)
+  // Knowledge collections RAG may draw from; empty means all documents
+  const [collectionIds, setCollectionIds] = useState<string[]>([])
+  // Partial assistant reply while a streamed response is in flight
+  const [streamingContent, setStreamingContent] = useState('')
+  // Tools the assistant has called so far for the reply in flight
+  const [streamingToolCalls, setStreamingToolCalls] = useState<ToolInvocation[]>([])
   const [isInitialized, setIsInitialized] = useState(false)
   
   // Enhanced session persistence - load from localStorage and URL params
@@ -33,6 +39,10 @@ export function useChatPage() {
       // Also restore RAG mode preference
       const savedRagMode = localStorage.getItem('chatRagMode') === 'true';
       setRagMode(savedRagMode);
+      try {
+        const savedCollections = JSON.parse(localStorage.getItem('chatCollectionIds') || '[]');
+        if (Array.isArray(savedCollections)) setCollectionIds(savedCollections);
+      } catch {}
       
       setIsHydrated(true);
       setIsInitialized(true);
@@ -44,6 +54,8 @@ export function useChatPage() {
   const { data: chatHistory, refetch: refetchHistory, isLoading: isLoadingHistory } = useChatHistory(
     (isHydrated && sessionId) ? sessionId : ''
   );
+  const { data: sessionMemory } = useSessionMemory((isHydrated && sessionId) ? sessionId : '')
+  const { data: ragStatus } = useRagStatus(activeConfig?.id, ragMode)
   const { mutate: sendMessage, isPending: isTyping } = useSendMessage()
 
   // Enhanced session persistence - save to localStorage and update URL
@@ -71,6 +83,12 @@ export function useChatPage() {
     }
   }, [ragMode, isHydrated]);
 
+  useEffect(() => {
+    if (isHydrated) {
+      localStorage.setItem('chatCollectionIds', JSON.stringify(collectionIds));
+    }
+  }, [collectionIds, isHydrated]);
+
   // Improved message handling - prevent duplicates and ensure consistency
   useEffect(() => {
     if (chatHistory?.messages?.length && localMessages.length && isInitialized) {
@@ -105,12 +123,20 @@ export function useChatPage() {
     
     setLocalMessages(prev => [...prev, userMessage])
     setNewMessage('')
+    setStreamingContent('')
+    setStreamingToolCalls([])
 
     console.log('Frontend: Sending message with ragMode:', ragMode, 'sessionId:', sessionId);
     
-    sendMessage({ message, sessionId, ragMode }, {
+    const onToken = (token: string) => setStreamingContent(prev => prev + token)
+    const onToolCall = (invocation: ToolInvocation) => setStreamingToolCalls(prev => [...prev, invocation])
+
+    sendMessage({ message, sessionId, ragMode, onToken, onToolCall, scope: { collectionIds } }, {
       onSuccess: (response) => {
         console.log('Message sent successfully:', response)
+        // The final response replaces the streamed text (it may be a fallback answer)
+        setStreamingContent('')
+        setStreamingToolCalls([])
         
         // Add assistant message immediately
         const assistantMessage: Message = {
@@ -118,7 +144,11 @@ export function useChatPage() {
           role: 'assistant', 
           content: response.message.content,
           timestamp: new Date().toISOString(),
-          sessionId: response.sessionId || sessionId
+          sessionId: response.sessionId || sessionId,
+          sources: response.message.sources,
+          grounding: response.message.grounding,
+          ragPolicy: response.message.ragPolicy,
+          toolCalls: response.message.toolCalls
         }
         
         setLocalMessages(prev => [...prev, assistantMessage])
@@ -139,6 +169,8 @@ export function useChatPage() {
       },
       onError: (error) => {
         console.error('Failed to send message:', error)
+        setStreamingContent('')
+        setStreamingToolCalls([])
         // Remove the failed user message and restore the input
         setLocalMessages(prev => prev.filter(msg => msg.id !== tempUserId))
         setNewMessage(message)
@@ -175,9 +207,13 @@ export function useChatPage() {
   const allMessages = React.useMemo(() => {
     if (!isInitialized) return [];
     
+    const streamingMessages: Message[] = streamingContent || streamingToolCalls.length
+      ? [{ id: 'assistant-streaming', role: 'assistant', content: streamingContent, timestamp: new Date().toISOString(), sessionId, toolCalls: streamingToolCalls }]
+      : [];
+
     // If no server messages but we have local messages, show local only
     if (serverMessages.length === 0) {
-      return localMessages;
+      return [...localMessages, ...streamingMessages];
     }
     
     // If we have server messages, show them with any new local messages
@@ -186,8 +222,8 @@ export function useChatPage() {
       !serverMessageSet.has(`${localMsg.content}-${localMsg.role}`)
     );
     
-    return [...serverMessages, ...newLocalMessages];
-  }, [serverMessages, localMessages, isInitialized]);
+    return [...serverMessages, ...newLocalMessages, ...streamingMessages];
+  }, [serverMessages, localMessages, streamingContent, streamingToolCalls, sessionId, isInitialized]);
 
     // Enhanced logging for debugging
   useEffect(() => {
@@ -201,8 +237,12 @@ export function useChatPage() {
     messages: allMessages,
     newMessage,
     isTyping,
+    isStreaming: streamingContent.length > 0 || streamingToolCalls.length > 0,
     activeConfig,
     ragMode,
+    ragStatus,
+    collectionIds,
+    sessionMemory,
     sessionId, // Expose sessionId for external use
     isInitialized,
     isLoadingHistory,
@@ -213,6 +253,7 @@ export function useChatPage() {
     handleKeyPress,
     clearChat,
     setRagMode,
+    setCollectionIds,
     refetchHistory, // Expose refetch for manual refresh
   }
 } 
\ No newline at end of file
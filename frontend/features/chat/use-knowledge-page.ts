@@ -0,0 +1,70 @@
+import { FormEvent, useState } from 'react'
+import { useKnowledgeBase, useKnowledgeChunks, useKnowledgeContent, useKnowledgeSearch } from './hooks'
+import { KnowledgeSearchHit } from './types'
+
+export const CHUNK_PAGE_SIZE = 25
+
+export type KnowledgeView = 'content' | 'chunks'
+
+export function useKnowledgePage() {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [view, setView] = useState<KnowledgeView>('content')
+  const [chunkOffset, setChunkOffset] = useState(0)
+  // Chunk to emphasize after jumping from a search result
+  const [focusedChunkId, setFocusedChunkId] = useState<string | null>(null)
+  const [searchInput, setSearchInput] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchSelectedOnly, setSearchSelectedOnly] = useState(false)
+
+  const { data: knowledgeBase, isLoading: isLoadingDocuments } = useKnowledgeBase()
+  const { data: content, isLoading: isLoadingContent } = useKnowledgeContent(selectedId)
+  const { data: chunks, isLoading: isLoadingChunks } = useKnowledgeChunks(selectedId, { offset: chunkOffset, limit: CHUNK_PAGE_SIZE })
+  const { data: searchResults, isFetching: isSearching } = useKnowledgeSearch({
+    q: searchQuery,
+    documentId: searchSelectedOnly && selectedId ? selectedId : undefined,
+  })
+
+  const selectDocument = (id: string) => {
+    setSelectedId(id)
+    setChunkOffset(0)
+    setFocusedChunkId(null)
+  }
+
+  const submitSearch = (e?: FormEvent) => {
+    e?.preventDefault()
+    setSearchQuery(searchInput.trim())
+  }
+
+  // Open the result's document on the chunk page that contains it
+  const openSearchHit = (hit: KnowledgeSearchHit) => {
+    setSelectedId(hit.documentId)
+    setView('chunks')
+    setChunkOffset(Math.floor(hit.chunkIndex / CHUNK_PAGE_SIZE) * CHUNK_PAGE_SIZE)
+    setFocusedChunkId(hit.chunkId)
+  }
+
+  return {
+    documents: knowledgeBase?.data || [],
+    isLoadingDocuments,
+    selectedId,
+    selectDocument,
+    view,
+    setView,
+    content,
+    isLoadingContent,
+    chunks,
+    isLoadingChunks,
+    chunkOffset,
+    setChunkOffset,
+    focusedChunkId,
+    searchInput,
+    setSearchInput,
+    searchQuery,
+    submitSearch,
+    searchSelectedOnly,
+    setSearchSelectedOnly,
+    searchResults,
+    isSearching,
+    openSearchHit,
+  }
+}
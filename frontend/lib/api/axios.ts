@@ -14,35 +14,39 @@ export const axiosInstance = axios.create({
   },
 })
 
-// Dynamically set baseURL for browser requests
-axiosInstance.interceptors.request.use(async (config) => {
-  try {
-    if (typeof window !== 'undefined') {
-      const hostname = window.location.hostname || ''
-      const port = window.location.port || ''
-
-      // Detect local UI: localhost, loopback, private LAN IPs, or common dev ports
-      const isLoopback = /^(localhost|127\.0\.0\.1|\[::1\])$/i.test(hostname)
-      const isPrivateLan = /^(10\.|192\.168\.|172\.(1[6-9]|2\d|3[0-1])\.)/.test(hostname)
-      const isDevPort = ['3000', '5173', '5174'].includes(port)
-      const isLocalUI = isLoopback || isPrivateLan || isDevPort
-
-      if (isLocalUI) {
-        const resolved = 'http://localhost:3001/api'
-        axiosInstance.defaults.baseURL = resolved
-        config.baseURL = resolved
-        return config
-      }
+// Resolve the API base URL (including the /api prefix) for the current browser location.
+// Also used by fetch-based callers such as the chat stream, which cannot go through axios.
+export const resolveApiBaseUrl = async (): Promise<string | undefined> => {
+  if (typeof window === 'undefined') return axiosInstance.defaults.baseURL
+
+  const hostname = window.location.hostname || ''
+  const port = window.location.port || ''
+
+  // Detect local UI: localhost, loopback, private LAN IPs, or common dev ports
+  const isLoopback = /^(localhost|127\.0\.0\.1|\[::1\])$/i.test(hostname)
+  const isPrivateLan = /^(10\.|192\.168\.|172\.(1[6-9]|2\d|3[0-1])\.)/.test(hostname)
+  const isDevPort = ['3000', '5173', '5174'].includes(port)
+  const isLocalUI = isLoopback || isPrivateLan || isDevPort
+
+  if (isLocalUI) {
+    return 'http://localhost:3001/api'
+  }
 
   // Hosted UI (e.g., Vercel): prefer env override; fall back to public config.json backend.url
   const cfg = await ConfigService.getInstance().loadConfig()
   const envBase = (process.env.NEXT_PUBLIC_API_BASE || '').replace(/\/+$/, '')
   const backendBase = (cfg?.backend?.url || '').replace(/\/+$/, '')
   const resolved = envBase ? `${envBase}/api` : (backendBase ? `${backendBase}/api` : '')
-      if (resolved) {
-        axiosInstance.defaults.baseURL = resolved
-        config.baseURL = resolved
-      }
+  return resolved || axiosInstance.defaults.baseURL
+}
+
+// Dynamically set baseURL for browser requests
+axiosInstance.interceptors.request.use(async (config) => {
+  try {
+    const resolved = await resolveApiBaseUrl()
+    if (resolved) {
+      axiosInstance.defaults.baseURL = resolved
+      config.baseURL = resolved
     }
   } catch (e) {
     // noop; fall back to existing baseURL
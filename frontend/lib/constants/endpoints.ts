@@ -6,18 +6,31 @@ export const API_ENDPOINTS = {
     ACTIVATE: (id: string) => `/config/${id}/activate`,
     TEST: (id: string) => `/config/${id}/test`,
     OLLAMA_STATUS: '/config/ollama/status', // Added explicit endpoint for server-side Ollama status
+    HUGGINGFACE_STATUS: '/config/huggingface/status',
+    OPENAI_COMPATIBLE_MODELS: '/config/openai-compatible/models',
   },
   CHAT: {
     MESSAGE: '/chat/message',
+    STREAM: '/chat/stream',
     HISTORY: (sessionId: string) => `/chat/conversations/${sessionId}`,
     SESSIONS: '/chat/sessions',
+    SESSION_MEMORY: (sessionId: string) => `/chat/sessions/${sessionId}/memory`,
     DELETE_HISTORY: (sessionId: string) => `/chat/history/${sessionId}`,
     ANALYZE: '/chat/analyze',
     ANOMALIES: '/chat/anomalies',
+    CHECKLIST: '/chat/checklist',
     UPLOAD_KNOWLEDGE: '/chat/upload-knowledge',
     KNOWLEDGE: '/chat/knowledge',
     KNOWLEDGE_BY_ID: (id: string) => `/chat/knowledge/${id}`,
+    KNOWLEDGE_STATUS: (id: string) => `/chat/knowledge/${id}/status`,
+    RETRY_KNOWLEDGE: (id: string) => `/chat/knowledge/${id}/retry`,
+    KNOWLEDGE_VERSIONS: (id: string) => `/chat/knowledge/${id}/versions`,
+    KNOWLEDGE_CONTENT: (id: string) => `/chat/knowledge/${id}/content`,
+    KNOWLEDGE_CHUNKS: (id: string) => `/chat/knowledge/${id}/chunks`,
+    KNOWLEDGE_SEARCH: '/chat/knowledge/search',
     CLEAR_KNOWLEDGE: '/chat/knowledge/clear',
+    KNOWLEDGE_COLLECTIONS: '/chat/knowledge/collections',
+    KNOWLEDGE_COLLECTION_BY_ID: (id: string) => `/chat/knowledge/collections/${id}`,
     SAVE_HISTORY: '/chat/history/save',
   },
   REPORTS: {
@@ -29,6 +42,13 @@ export const API_ENDPOINTS = {
     PERFORMANCE: '/reports/performance',
     METRICS: '/reports/metrics',
     HEALTH: '/reports/health',
+  },
+  HEALTH: {
+    BASE: '/health',
+  },
+  USAGE: {
+    SUMMARY: '/usage/summary',
+    BUDGETS: '/usage/budgets',
   }
 } as const
 
@@ -13,6 +13,10 @@ export const MESSAGES = {
       UPLOAD_KNOWLEDGE: 'Knowledge base uploaded successfully',
       DELETE_KNOWLEDGE: 'Knowledge base deleted successfully',
       CLEAR_KNOWLEDGE: 'Knowledge base cleared successfully',
+      RETRY_KNOWLEDGE: 'Document queued for processing again',
+      UPLOAD_KNOWLEDGE_VERSION: 'New version uploaded',
+      CREATE_COLLECTION: 'Collection created successfully',
+      DELETE_COLLECTION: 'Collection deleted successfully',
     },
     REPORTS: {
       GENERATE: 'Report generated successfully',
@@ -35,6 +39,10 @@ export const MESSAGES = {
       UPLOAD_KNOWLEDGE: 'Failed to upload knowledge base',
       DELETE_KNOWLEDGE: 'Failed to delete knowledge base',
       CLEAR_KNOWLEDGE: 'Failed to clear knowledge base',
+      RETRY_KNOWLEDGE: 'Failed to retry document processing',
+      UPLOAD_KNOWLEDGE_VERSION: 'Failed to upload new version',
+      CREATE_COLLECTION: 'Failed to create collection',
+      DELETE_COLLECTION: 'Failed to delete collection',
     },
     ANALYTICS: {
       FETCH: 'Failed to fetch analytics data',
@@ -43,6 +51,7 @@ export const MESSAGES = {
       GENERATE: 'Failed to generate report',
       DOWNLOAD: 'Failed to download report',
       FETCH: 'Failed to fetch reports',
+      CHECKLIST: 'Failed to generate checklist',
     }
   },
 } as const 
\ No newline at end of file